@@ -118,16 +118,18 @@ function AgentCharacter({ agent, onSelect }) {
   useFrame((state, delta) => {
     if (!groupRef.current || !movement) return
     
-    const { x, z, path, pathIndex, isMoving, targetHub } = movement
+    const { x, z, path, pathIndex, isMoving, targetHub, restPos } = movement
     
-    // Get current target waypoint
+    // Get current target waypoint - server routes are {x, z} points, local ones are waypoint names
     let targetPos
     if (isMoving && path.length > 0 && pathIndex < path.length) {
-      const waypointName = path[pathIndex]
-      targetPos = WAYPOINTS[waypointName] || HUBS[targetHub] || { x: 0, z: 0 }
+      const waypoint = path[pathIndex]
+      targetPos = typeof waypoint === 'object'
+        ? waypoint
+        : WAYPOINTS[waypoint] || HUBS[targetHub] || { x: 0, z: 0 }
     } else {
-      // Not moving - stay at current hub
-      targetPos = HUBS[targetHub] || { x: 0, z: 0 }
+      // Not moving - stay where the server put us, or at the hub centre
+      targetPos = restPos || HUBS[targetHub] || { x: 0, z: 0 }
     }
     
     // Calculate direction and distance
@@ -19,6 +19,7 @@ export function useWebSocket() {
   const addResult = useGameStore((s) => s.addResult)
   const addTaskFile = useGameStore((s) => s.addTaskFile)
   const startAgentMove = useGameStore((s) => s.startAgentMove)
+  const stopAgentMove = useGameStore((s) => s.stopAgentMove)
   const showBubble = useBubbleStore((s) => s.showBubble)
   const setDemoMode = useGameStore((s) => s.setDemoMode)
 
@@ -89,15 +90,15 @@ export function useWebSocket() {
         }
 
         case 'agent_move': {
-          const { agentId, agent, hub, to } = message.data
+          const { agentId, agent, hub, to, path } = message.data
           const id = normalizeAgentId(agentId || agent)
           
           // Determine target hub
           const targetHub = hub || to
           
           if (targetHub) {
-            // Use the store's movement system for smooth interpolation
-            startAgentMove(id, targetHub)
+            // Use the store's movement system for smooth interpolation, along the server's route if given
+            startAgentMove(id, targetHub, Array.isArray(path) ? path : null)
             
             // Also update the agent's current_hub in agent data
             setAgents((prevAgents) => {
@@ -130,6 +131,23 @@ export function useWebSocket() {
           break
         }
 
+        case 'agent_move_cancelled': {
+          const { agentId, agent, hub, x, z } = message.data
+          const id = normalizeAgentId(agentId || agent)
+          stopAgentMove(id, hub, typeof x === 'number' && typeof z === 'number' ? { x, z } : null)
+
+          setAgents((prevAgents) => {
+            return prevAgents.map(a => {
+              const aId = normalizeAgentId(a.id)
+              if (aId === id) {
+                return { ...a, status: 'idle', current_hub: hub || a.current_hub }
+              }
+              return a
+            })
+          })
+          break
+        }
+
         case 'file_created':
         case 'agent_code_written': {
           const { taskId, filename, size, filepath } = message.data
@@ -165,6 +183,116 @@ export function useWebSocket() {
           break
         }
 
+        case 'review_verdict': {
+          const { agent, verdict, issues } = message.data
+          addMessage({
+            agent_name: agent || 'Reviewer',
+            type: 'status',
+            content: verdict === 'approve'
+              ? 'Review approved'
+              : `Changes requested: ${issues.join('; ')}`,
+            created_at: new Date().toISOString(),
+          })
+          break
+        }
+
+        case 'subtask_failed': {
+          const { subtaskId, error, attempt, maxAttempts, retryAt } = message.data
+          addMessage({
+            agent_name: 'Town',
+            type: 'status',
+            content: retryAt
+              ? `Subtask #${subtaskId} failed (attempt ${attempt}/${maxAttempts}), retrying: ${error}`
+              : `Subtask #${subtaskId} failed: ${error}`,
+            created_at: new Date().toISOString(),
+          })
+          break
+        }
+
+        case 'task_failed': {
+          const { taskId, reason } = message.data
+          addMessage({
+            agent_name: 'Town',
+            type: 'announcement',
+            content: `Task #${taskId} failed: ${reason}`,
+            created_at: new Date().toISOString(),
+          })
+          console.log('[WS] Task failed:', taskId, reason)
+          break
+        }
+
+        case 'budget_exceeded': {
+          const { taskId, reason } = message.data
+          addMessage({
+            agent_name: 'Town',
+            type: 'announcement',
+            content: `Task #${taskId} paused: ${reason}`,
+            created_at: new Date().toISOString(),
+          })
+          console.log('[WS] Budget exceeded:', taskId, reason)
+          break
+        }
+
+        case 'task_resumed': {
+          const { taskId } = message.data
+          addMessage({
+            agent_name: 'Town',
+            type: 'status',
+            content: `Task #${taskId} resumed`,
+            created_at: new Date().toISOString(),
+          })
+          break
+        }
+
+        case 'shell_exit': {
+          // Output streams as shell_output chunks; the feed only notes how commands ended
+          const { agent, command, status, exitCode } = message.data
+          addMessage({
+            agent_name: agent || 'Town',
+            type: 'status',
+            content: status === 'exited'
+              ? `$ ${command} (exit ${exitCode})`
+              : `$ ${command} (${status.replace('_', ' ')})`,
+            created_at: new Date().toISOString(),
+          })
+          break
+        }
+
+        case 'command_approval_requested': {
+          const { id, agent, command, reason } = message.data
+          addMessage({
+            agent_name: agent || 'Town',
+            type: 'announcement',
+            content: `Waiting for approval #${id}: $ ${command}${reason ? ` (${reason})` : ''}`,
+            created_at: new Date().toISOString(),
+          })
+          break
+        }
+
+        case 'command_approval_resolved': {
+          const { id, agent, outcome, decidedBy } = message.data
+          addMessage({
+            agent_name: agent || 'Town',
+            type: 'status',
+            content: `Approval #${id} ${outcome}${outcome === 'expired' ? '' : ` by ${decidedBy}`}`,
+            created_at: new Date().toISOString(),
+          })
+          break
+        }
+
+        case 'hub_queue': {
+          const { hub, queue, occupants, capacity } = message.data
+          if (queue?.length > 0) {
+            addMessage({
+              agent_name: 'Town',
+              type: 'status',
+              content: `${hub} is full (${occupants.length}/${capacity}), waiting: ${queue.join(', ')}`,
+              created_at: new Date().toISOString(),
+            })
+          }
+          break
+        }
+
         case 'task_update': {
           const { task } = message.data
           const currentTasks = useGameStore.getState().tasks
@@ -221,7 +349,7 @@ export function useWebSocket() {
     } catch (e) {
       console.error('[WS] Parse error:', e)
     }
-  }, [setAgents, setTasks, setMessages, addMessage, addResult, addTaskFile, showBubble, setDemoMode, startAgentMove])
+  }, [setAgents, setTasks, setMessages, addMessage, addResult, addTaskFile, showBubble, setDemoMode, startAgentMove, stopAgentMove])
 
   // Store connect function ref for use in onclose
   const connectRef = useRef(null)
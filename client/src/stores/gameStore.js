@@ -177,9 +177,10 @@ export const useGameStore = create((set, get) => ({
   }),
   
   /**
-   * Start agent movement to a hub
+   * Start agent movement to a hub. When the server sends its route as a list
+   * of {x, z} waypoints, follow that instead of the built-in road network.
    */
-  startAgentMove: (agentId, targetHub) => set((state) => {
+  startAgentMove: (agentId, targetHub, serverPath = null) => set((state) => {
     const id = normalizeAgentId(agentId)
     if (!id) return state
     
@@ -193,6 +194,18 @@ export const useGameStore = create((set, get) => ({
       isMoving: false 
     }
     
+    if (serverPath?.length > 0) {
+      movement.set(id, {
+        ...existing,
+        targetHub,
+        path: serverPath,
+        pathIndex: 0,
+        isMoving: true,
+        restPos: serverPath[serverPath.length - 1],
+      })
+      return { agentMovement: movement }
+    }
+    
     if (existing.currentHub === targetHub) return state
     
     const path = getPath(existing.currentHub, targetHub)
@@ -202,6 +215,31 @@ export const useGameStore = create((set, get) => ({
       path,
       pathIndex: 0,
       isMoving: path.length > 0,
+      restPos: null,
+    })
+    
+    return { agentMovement: movement }
+  }),
+  
+  /**
+   * Stop an agent mid-route (the server cancelled its trip). It stays where
+   * the server says it stopped and still belongs to the hub it left.
+   */
+  stopAgentMove: (agentId, hub, position = null) => set((state) => {
+    const id = normalizeAgentId(agentId)
+    const existing = id && state.agentMovement.get(id)
+    if (!existing) return state
+    
+    const movement = new Map(state.agentMovement)
+    const restPos = position ?? { x: existing.x, z: existing.z }
+    movement.set(id, {
+      ...existing,
+      targetHub: hub || existing.currentHub,
+      currentHub: hub || existing.currentHub,
+      path: [],
+      pathIndex: 0,
+      isMoving: false,
+      restPos,
     })
     
     return { agentMovement: movement }
@@ -202,6 +202,37 @@ describe('Movement State', () => {
     expect(movement.isMoving).toBe(true)
   })
 
+  it('startAgentMove follows a server-provided route', () => {
+    const agents = [
+      { id: 1, name: 'Test', type: 'coder', status: 'idle', current_hub: 'town_square' }
+    ]
+    useGameStore.getState().setAgents(agents)
+
+    const route = [{ x: 6, z: -4 }, { x: 17, z: -14 }]
+    useGameStore.getState().startAgentMove(1, 'design_studio', route)
+
+    const movement = useGameStore.getState().getAgentMovement(1)
+    expect(movement.path).toEqual(route)
+    expect(movement.isMoving).toBe(true)
+    expect(movement.restPos).toEqual({ x: 17, z: -14 })
+  })
+
+  it('stopAgentMove halts the agent where the server says it stopped', () => {
+    const agents = [
+      { id: 1, name: 'Test', type: 'coder', status: 'idle', current_hub: 'town_square' }
+    ]
+    useGameStore.getState().setAgents(agents)
+
+    useGameStore.getState().startAgentMove(1, 'design_studio', [{ x: 6, z: -4 }, { x: 17, z: -14 }])
+    useGameStore.getState().stopAgentMove(1, 'town_square', { x: 4, z: -3 })
+
+    const movement = useGameStore.getState().getAgentMovement(1)
+    expect(movement.isMoving).toBe(false)
+    expect(movement.path).toEqual([])
+    expect(movement.targetHub).toBe('town_square')
+    expect(movement.restPos).toEqual({ x: 4, z: -3 })
+  })
+
   it('updateAgentPosition updates coordinates', () => {
     const agents = [
       { id: 1, name: 'Test', type: 'coder', status: 'idle', current_hub: 'town_square' }
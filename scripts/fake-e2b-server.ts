@@ -0,0 +1,233 @@
+/**
+ * Fake E2B sandbox server
+ *
+ * Serves the part of the E2B envd API the shared sandbox uses (file read and
+ * write, ListDir, Stat, MakeDir and Process.Start) on the local port the E2B
+ * SDK talks to when E2B_DEBUG=true, so the E2B backend can be tested offline.
+ * Paths are real paths on this machine, confined to the directory given;
+ * commands run with /bin/bash on the host.
+ *
+ * Usage:
+ *   const server = await startFakeE2BServer('/tmp/some-dir');
+ *   // E2B_DEBUG=true ... Sandbox.create() now connects here
+ *   await server.close();
+ */
+
+import { spawn } from 'node:child_process';
+import * as fs from 'node:fs/promises';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import * as path from 'node:path';
+
+// Where the SDK expects envd in debug mode
+export const FAKE_ENVD_PORT = 49983;
+
+export interface FakeE2BServer {
+  url: string;
+  /** Every request path the server received, e.g. "/filesystem.Filesystem/ListDir" */
+  requests: string[];
+  close(): Promise<void>;
+}
+
+interface ProcessStartRequest {
+  process?: { cmd: string; args?: string[]; cwd?: string; envs?: Record<string, string> };
+}
+
+// Connect error codes and the HTTP statuses they travel with
+const CONNECT_STATUS: Record<string, number> = {
+  invalid_argument: 400,
+  not_found: 404,
+  already_exists: 409,
+  internal: 500,
+};
+
+class EnvdError extends Error {
+  constructor(public code: keyof typeof CONNECT_STATUS, message: string) {
+    super(message);
+  }
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// One Connect streaming frame: a flags byte, a big-endian length, then JSON
+function frame(message: unknown, flags = 0): Buffer {
+  const body = Buffer.from(JSON.stringify(message));
+  const header = Buffer.alloc(5);
+  header.writeUInt8(flags, 0);
+  header.writeUInt32BE(body.length, 1);
+  return Buffer.concat([header, body]);
+}
+
+// Request payload: plain JSON for unary calls, a single frame for streaming ones
+function parseMessage(req: IncomingMessage, body: Buffer): Record<string, unknown> {
+  const streaming = (req.headers['content-type'] || '').startsWith('application/connect+');
+  const json = (streaming ? body.subarray(5) : body).toString('utf-8');
+  return json ? JSON.parse(json) : {};
+}
+
+function notFound(error: unknown, target: string): never {
+  if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+    throw new EnvdError('not_found', `path '${target}' does not exist`);
+  }
+  throw error;
+}
+
+export async function startFakeE2BServer(rootDir: string, port = FAKE_ENVD_PORT): Promise<FakeE2BServer> {
+  const root = path.resolve(rootDir);
+  const requests: string[] = [];
+
+  const resolve = (target: string | null | undefined): string => {
+    const resolved = path.resolve(root, target || '.');
+    if (resolved !== root && !resolved.startsWith(`${root}${path.sep}`)) {
+      throw new EnvdError('invalid_argument', `path '${target}' is outside the fake sandbox`);
+    }
+    return resolved;
+  };
+
+  const entryInfo = async (target: string) => {
+    const stat = await fs.stat(target).catch((error) => notFound(error, target));
+    return {
+      name: path.basename(target),
+      type: stat.isDirectory() ? 'FILE_TYPE_DIRECTORY' : 'FILE_TYPE_FILE',
+      path: target,
+      size: String(stat.size),
+    };
+  };
+
+  // Unary filesystem RPCs, keyed by method name
+  const filesystem: Record<string, (body: { path?: string; depth?: number }) => Promise<unknown>> = {
+    async Stat(body) {
+      return { entry: await entryInfo(resolve(body.path)) };
+    },
+    async MakeDir(body) {
+      const target = resolve(body.path);
+      if (await fs.stat(target).then(() => true, () => false)) {
+        throw new EnvdError('already_exists', `directory '${target}' already exists`);
+      }
+      await fs.mkdir(target, { recursive: true });
+      return { entry: await entryInfo(target) };
+    },
+    async ListDir(body) {
+      const dir = resolve(body.path);
+      const names = await fs.readdir(dir).catch((error) => notFound(error, dir));
+      const entries = await Promise.all(names.map((name) => entryInfo(path.join(dir, name))));
+      return { entries };
+    },
+  };
+
+  const handleFiles = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const target = resolve(url.searchParams.get('path'));
+    if (req.method === 'GET') {
+      const stat = await fs.stat(target).catch(() => null);
+      if (!stat) {
+        sendJson(res, 404, { code: 404, message: `path '${target}' does not exist` });
+      } else if (stat.isDirectory()) {
+        sendJson(res, 400, { code: 400, message: `path '${target}' is a directory` });
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+        res.end(await fs.readFile(target));
+      }
+      return;
+    }
+
+    // Multipart upload with a single "file" part
+    const form = await new Request('http://envd/files', {
+      method: 'POST',
+      headers: { 'Content-Type': req.headers['content-type'] || '' },
+      body: new Uint8Array(await readBody(req)),
+    }).formData();
+    const file = form.get('file');
+    if (!file || typeof file === 'string') {
+      sendJson(res, 400, { code: 400, message: 'missing file part' });
+      return;
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, Buffer.from(await file.arrayBuffer()));
+    sendJson(res, 200, [{ name: path.basename(target), type: 'file', path: target }]);
+  };
+
+  const handleProcessStart = (body: ProcessStartRequest, res: ServerResponse) => {
+    const config = body.process;
+    if (!config) throw new EnvdError('invalid_argument', 'process config is required');
+    const cwd = config.cwd ? resolve(config.cwd) : root;
+
+    res.writeHead(200, { 'Content-Type': 'application/connect+json' });
+    const child = spawn(config.cmd, config.args || [], {
+      cwd,
+      env: { ...process.env, ...config.envs },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    res.write(frame({ event: { start: { pid: child.pid ?? 0 } } }));
+
+    const output = (stream: 'stdout' | 'stderr') => (data: Buffer) => {
+      res.write(frame({ event: { data: { [stream]: data.toString('base64') } } }));
+    };
+    child.stdout.on('data', output('stdout'));
+    child.stderr.on('data', output('stderr'));
+    res.on('close', () => {
+      if (child.exitCode === null) child.kill('SIGKILL');
+    });
+
+    child.on('close', (code, signal) => {
+      const exitCode = code ?? -1;
+      const status = signal ? `signal: ${signal}` : `exit status ${exitCode}`;
+      res.write(frame({ event: { end: { exitCode, exited: signal === null, status } } }));
+      res.end(frame({}, 0x02));
+    });
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    requests.push(url.pathname);
+
+    try {
+      if (url.pathname === '/files') {
+        await handleFiles(req, res, url);
+        return;
+      }
+
+      const body = parseMessage(req, await readBody(req));
+      if (url.pathname === '/process.Process/Start') {
+        handleProcessStart(body as ProcessStartRequest, res);
+        return;
+      }
+
+      const method = url.pathname.match(/^\/filesystem\.Filesystem\/(\w+)$/)?.[1];
+      const handler = method ? filesystem[method] : undefined;
+      if (!handler) {
+        sendJson(res, 404, { code: 'unimplemented', message: `${url.pathname} is not implemented by the fake server` });
+        return;
+      }
+      sendJson(res, 200, await handler(body));
+    } catch (error) {
+      const code = error instanceof EnvdError ? error.code : 'internal';
+      if (res.headersSent) {
+        res.end(frame({ error: { code, message: (error as Error).message } }, 0x02));
+      } else {
+        sendJson(res, CONNECT_STATUS[code], { code, message: (error as Error).message });
+      }
+    }
+  });
+
+  await new Promise<void>((resolveListen, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => resolveListen());
+  });
+
+  return {
+    url: `http://localhost:${port}`,
+    requests,
+    close: () => new Promise<void>((resolveClose) => {
+      server.closeAllConnections();
+      server.close(() => resolveClose());
+    }),
+  };
+}
@@ -0,0 +1,106 @@
+#!/usr/bin/env bun
+/**
+ * Replay a Task Trace
+ *
+ * Reproduces a recorded task (TRACE_RECORDING=true, or a task created with
+ * record) in a simulated town: the recorded model responses are fed back
+ * through the agents' decisions and their actions run again in a fresh
+ * workspace. Prints each decision and where it differed from the trace.
+ * No API key or network needed.
+ *
+ * Usage:
+ *   bun scripts/replay-trace.ts <trace.jsonl> [--sandbox <dir>]
+ *
+ * With --sandbox the replayed workspace is kept in <dir> to inspect;
+ * otherwise a temporary one is removed afterwards. Exits 1 when the replay
+ * diverged.
+ */
+
+import { startSimulation } from '../src/eliza/simulation.js';
+import { loadTrace } from '../src/eliza/taskTrace.js';
+
+// Colors for output
+const colors = {
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+};
+
+function log(message: string, color: keyof typeof colors = 'reset'): void {
+  console.log(`${colors[color]}${message}${colors.reset}`);
+}
+
+function usage(): never {
+  log('Usage: bun scripts/replay-trace.ts <trace.jsonl> [--sandbox <dir>]', 'yellow');
+  process.exit(2);
+}
+
+function parseArgs(args: string[]): { file: string; sandboxDir?: string } {
+  let file: string | undefined;
+  let sandboxDir: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--sandbox') {
+      sandboxDir = args[++i];
+      if (!sandboxDir) usage();
+    } else if (!file) {
+      file = args[i];
+    } else {
+      usage();
+    }
+  }
+  if (!file) usage();
+  return { file, sandboxDir };
+}
+
+async function main(): Promise<void> {
+  const { file, sandboxDir } = parseArgs(process.argv.slice(2));
+  const trace = await loadTrace(file);
+
+  log('\n========================================', 'bold');
+  log(`  Replaying task ${trace.task.taskId}: ${trace.task.title}`, 'cyan');
+  log('========================================\n', 'bold');
+
+  // Model calls inside decisions come from the trace; the empty script only answers embeddings
+  const sim = await startSimulation({ script: { rules: [] }, sandboxDir });
+  let reproduced = false;
+
+  try {
+    const { replayTrace } = await import('../src/eliza/traceReplay.js');
+    const report = await replayTrace(trace, {
+      db: sim.db,
+      onDecision: (decision) => {
+        const label = `#${decision.seq} ${decision.agent}${decision.kind ? ` (${decision.kind})` : ''}`;
+        if (decision.divergences.length === 0) {
+          log(`  ✓ ${label}`, 'green');
+          return;
+        }
+        log(`  ✗ ${label}`, 'red');
+        for (const divergence of decision.divergences) {
+          log(`    ${divergence}`, 'yellow');
+        }
+      },
+    });
+
+    reproduced = report.reproduced;
+    const diverged = report.decisions.filter((d) => d.divergences.length > 0).length;
+    log(
+      `\n${reproduced ? 'Reproduced' : 'Diverged'}: ${report.decisions.length - diverged}/${report.decisions.length} decisions matched`,
+      reproduced ? 'green' : 'yellow'
+    );
+    if (sandboxDir) {
+      log(`Workspace: ${sim.sandboxDir}/tasks/task-${report.replayTaskId}`, 'cyan');
+    }
+  } finally {
+    await sim.stop();
+  }
+
+  process.exit(reproduced ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error('Replay failed:', error);
+  process.exit(1);
+});
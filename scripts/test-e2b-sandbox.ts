@@ -0,0 +1,249 @@
+#!/usr/bin/env bun
+/**
+ * E2B Sandbox Backend Tests
+ *
+ * Runs the shared sandbox in e2b mode against a local fake E2B server
+ * (scripts/fake-e2b-server.ts) and checks it behaves like the local backend:
+ * workspaces and current directories, reads, writes, edits, listing, search,
+ * shell commands and change tracking. No E2B account or network needed.
+ *
+ * Usage:
+ *   bun scripts/test-e2b-sandbox.ts
+ */
+
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { startFakeE2BServer, type FakeE2BServer } from './fake-e2b-server.js';
+
+// The SDK skips the E2B API and talks to envd on localhost in debug mode
+process.env.E2B_DEBUG = 'true';
+
+const AGENT = 'Tester';
+const TASK_ID = 1;
+
+let passedCount = 0;
+let failedCount = 0;
+
+// Colors for output
+const colors = {
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+};
+
+function log(message: string, color: keyof typeof colors = 'reset'): void {
+  console.log(`${colors[color]}${message}${colors.reset}`);
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+function assertEqual<T>(actual: T, expected: T, what: string): void {
+  if (actual !== expected) {
+    throw new Error(`${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+async function runTest(name: string, testFn: () => Promise<void>): Promise<void> {
+  const start = Date.now();
+  try {
+    await testFn();
+    passedCount++;
+    log(`  ✓ ${name} (${Date.now() - start}ms)`, 'green');
+  } catch (error) {
+    failedCount++;
+    log(`  ✗ ${name} (${Date.now() - start}ms)`, 'red');
+    log(`    Error: ${error instanceof Error ? error.message : String(error)}`, 'yellow');
+  }
+}
+
+async function runAllTests(): Promise<void> {
+  log('\n========================================', 'bold');
+  log('  E2B Sandbox Backend Tests', 'cyan');
+  log('========================================\n', 'bold');
+
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'eliza-town-e2b-'));
+  let server: FakeE2BServer | null = null;
+
+  try {
+    server = await startFakeE2BServer(root);
+    const { SharedSandboxService } = await import('../src/eliza/sharedSandbox.js');
+    const sandbox = new SharedSandboxService({
+      mode: 'e2b',
+      e2bApiKey: 'e2b_test',
+      e2bRoot: root,
+      workspaces: 'task',
+      timeoutMs: 10000,
+    });
+    await sandbox.initialize();
+    sandbox.setAgentTask(AGENT, TASK_ID);
+    const taskRoot = path.join(root, 'tasks', `task-${TASK_ID}`);
+
+    await runTest('Task workspace lives under the E2B root', async () => {
+      const workspace = sandbox.getAgentWorkspace(AGENT);
+      assertEqual(workspace.root, taskRoot, 'workspace root');
+      assertEqual(sandbox.getCurrentDirectory(AGENT), taskRoot, 'current directory');
+    });
+
+    await runTest('writeFile creates the file and records a change', async () => {
+      const result = await sandbox.writeFile('src/index.ts', 'export const answer = 41;\n', AGENT);
+      assert(result.ok, `write failed: ${result.error}`);
+      assertEqual(await fs.readFile(path.join(taskRoot, 'src/index.ts'), 'utf-8'), 'export const answer = 41;\n', 'file on disk');
+
+      const [change] = sandbox.getTaskChanges(TASK_ID);
+      assertEqual(change?.type, 'created', 'change type');
+      assertEqual(change?.filepath, 'src/index.ts', 'change path');
+      assertEqual(change?.beforeHash, null, 'before hash');
+    });
+
+    await runTest('readFile reads files and reports missing ones', async () => {
+      const found = await sandbox.readFile('src/index.ts', AGENT);
+      assertEqual(found.content, 'export const answer = 41;\n', 'content');
+
+      const missing = await sandbox.readFile('src/missing.ts', AGENT);
+      assert(!missing.ok, 'missing file was read');
+      assertEqual(missing.error, 'File not found', 'error');
+    });
+
+    await runTest('Paths outside the workspace are refused', async () => {
+      const result = await sandbox.writeFile('../escape.txt', 'nope', AGENT);
+      assertEqual(result.error, 'Path outside allowed directory', 'error');
+    });
+
+    await runTest('editFile replaces text and records a modification', async () => {
+      const result = await sandbox.editFile('src/index.ts', '41', '42', AGENT);
+      assert(result.ok, `edit failed: ${result.error}`);
+      assertEqual((await sandbox.readFile('src/index.ts', AGENT)).content, 'export const answer = 42;\n', 'content');
+
+      const changes = sandbox.getTaskChanges(TASK_ID);
+      assertEqual(changes.length, 2, 'change count');
+      assertEqual(changes[1].type, 'modified', 'change type');
+      assertEqual(changes[1].beforeHash, changes[0].afterHash, 'before hash');
+
+      const missing = await sandbox.editFile('src/index.ts', 'not there', 'x', AGENT);
+      assertEqual(missing.error, 'Could not find old_str in file', 'error');
+    });
+
+    await runTest('listFiles lists directories first and hides dotfiles', async () => {
+      await sandbox.writeFile('README.md', '# Demo\n', AGENT);
+      await sandbox.writeFile('.env', 'SECRET=1\n', AGENT);
+
+      const result = await sandbox.listFiles('.', AGENT);
+      assert(result.ok, `list failed: ${result.error}`);
+      const names = (result.items || []).map((item) => `${item.name}${item.isDirectory ? '/' : ''}`);
+      assertEqual(names.join(' '), 'src/ README.md', 'entries');
+
+      const missing = await sandbox.listFiles('nope', AGENT);
+      assertEqual(missing.error, 'Directory not found', 'error');
+    });
+
+    await runTest('searchFiles recurses and skips dependency directories', async () => {
+      await sandbox.writeFile('src/lib/util.ts', 'export const ANSWER_KEY = "answer";\n', AGENT);
+      await fs.mkdir(path.join(taskRoot, 'node_modules/dep'), { recursive: true });
+      await fs.writeFile(path.join(taskRoot, 'node_modules/dep/index.js'), 'answer\n');
+
+      const result = await sandbox.searchFiles('ANSWER', '.', 50, AGENT);
+      assert(result.ok, `search failed: ${result.error}`);
+      const files = (result.matches || []).map((match) => `${match.file}:${match.line}`).sort();
+      assertEqual(files.join(' '), 'src/index.ts:1 src/lib/util.ts:1', 'matches');
+    });
+
+    await runTest('changeDirectory moves within the workspace only', async () => {
+      const result = await sandbox.changeDirectory('src', AGENT);
+      assert(result.success, `cd failed: ${result.stderr}`);
+      assertEqual(sandbox.getCurrentDirectory(AGENT), path.join(taskRoot, 'src'), 'current directory');
+
+      assertEqual((await sandbox.changeDirectory('index.ts', AGENT)).stderr, 'Not a directory', 'cd into a file');
+      assertEqual((await sandbox.changeDirectory('missing', AGENT)).stderr, 'Directory not found', 'cd into nothing');
+      assertEqual((await sandbox.changeDirectory('../..', AGENT)).stderr, 'Path outside allowed directory', 'cd out');
+      assertEqual(sandbox.getCurrentDirectory(AGENT), path.join(taskRoot, 'src'), 'current directory after failures');
+    });
+
+    await runTest('Relative paths resolve against the current directory', async () => {
+      const result = await sandbox.writeFile('lib/extra.ts', 'export {};\n', AGENT);
+      assert(result.ok, `write failed: ${result.error}`);
+      assertEqual(result.filepath, path.join(taskRoot, 'src/lib/extra.ts'), 'written path');
+      assertEqual(sandbox.getTaskChanges(TASK_ID).at(-1)?.filepath, 'src/lib/extra.ts', 'change path');
+    });
+
+    await runTest('executeShell runs in the current directory', async () => {
+      const result = await sandbox.executeShell('pwd && ls', AGENT);
+      assert(result.success, `command failed: ${result.stderr}`);
+      const [pwd, ...entries] = result.stdout.trim().split('\n');
+      assertEqual(pwd, path.join(taskRoot, 'src'), 'pwd');
+      assertEqual(entries.join(' '), 'index.ts lib', 'ls');
+      assertEqual(result.executedIn, path.join(taskRoot, 'src'), 'executedIn');
+    });
+
+    await runTest('executeShell reports non-zero exits with their output', async () => {
+      const result = await sandbox.executeShell('echo out; echo err >&2; exit 3', AGENT);
+      assert(!result.success, 'command should fail');
+      assertEqual(result.exitCode, 3, 'exit code');
+      assertEqual(result.stdout.trim(), 'out', 'stdout');
+      // Commands run in a login shell, so profile scripts may write to stderr first
+      assertEqual(result.stderr.trim().split('\n').at(-1), 'err', 'stderr');
+    });
+
+    await runTest('getTaskDiff builds a patch from the recorded changes', async () => {
+      const diff = await sandbox.getTaskDiff(TASK_ID);
+      assert(diff.includes('diff --git a/src/index.ts b/src/index.ts'), 'missing src/index.ts');
+      assert(diff.includes('+export const answer = 42;'), 'missing the edited line');
+      assert(diff.includes('--- /dev/null\n+++ b/README.md'), 'README.md is not a new file');
+    });
+
+    await runTest('A task can run on E2B while the default backend is local', async () => {
+      const localDir = path.join(root, 'local');
+      const mixed = new SharedSandboxService({
+        mode: 'local',
+        allowedDirectory: localDir,
+        e2bApiKey: 'e2b_test',
+        e2bRoot: path.join(root, 'remote'),
+        workspaces: 'task',
+        git: false,
+        timeoutMs: 10000,
+      });
+      await mixed.initialize();
+
+      try {
+        mixed.setTaskBackend(2, 'e2b');
+        mixed.setAgentTask(AGENT, 2);
+        assertEqual(mixed.getAgentWorkspace(AGENT).backend, 'e2b', 'task 2 backend');
+        const remote = await mixed.writeFile('notes.txt', 'remote\n', AGENT);
+        assertEqual(remote.filepath, path.join(root, 'remote/tasks/task-2/notes.txt'), 'task 2 file');
+
+        mixed.setAgentTask(AGENT, 3);
+        assertEqual(mixed.getAgentWorkspace(AGENT).backend, 'local', 'task 3 backend');
+        const local = await mixed.writeFile('notes.txt', 'local\n', AGENT);
+        assertEqual(local.filepath, path.join(localDir, 'tasks/task-3/notes.txt'), 'task 3 file');
+      } finally {
+        await mixed.close();
+      }
+    });
+
+    await runTest('All file access went through the E2B API', async () => {
+      const used = new Set(server?.requests);
+      for (const endpoint of ['/files', '/filesystem.Filesystem/ListDir', '/filesystem.Filesystem/Stat', '/process.Process/Start']) {
+        assert(used.has(endpoint), `${endpoint} was never called`);
+      }
+    });
+
+    await sandbox.close();
+  } finally {
+    await server?.close();
+    await fs.rm(root, { recursive: true, force: true });
+  }
+
+  const total = passedCount + failedCount;
+  log(`\nPassed: ${passedCount}/${total}`, failedCount > 0 ? 'yellow' : 'green');
+  process.exit(failedCount > 0 ? 1 : 0);
+}
+
+runAllTests().catch((error) => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
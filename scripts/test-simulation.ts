@@ -0,0 +1,290 @@
+#!/usr/bin/env bun
+/**
+ * Simulated Town Tests
+ *
+ * Drives the real orchestrator and ElizaOS runtimes through whole tasks with
+ * the scripted model provider and a manual clock (src/eliza/simulation.ts):
+ * planning, design, code and review, including a review that sends work back,
+ * and replays of the recorded traces. No API key or network needed.
+ *
+ * Usage:
+ *   bun scripts/test-simulation.ts
+ */
+
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { ManualClock } from '../src/eliza/clock.js';
+import { startSimulation, type Simulation } from '../src/eliza/simulation.js';
+import { loadTrace, stopRecording, tracePath, type TaskTrace } from '../src/eliza/taskTrace.js';
+import type { MockCall, MockScript } from '../src/eliza/mockLlmPlugin.js';
+
+let passedCount = 0;
+let failedCount = 0;
+
+// Colors for output
+const colors = {
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+};
+
+function log(message: string, color: keyof typeof colors = 'reset'): void {
+  console.log(`${colors[color]}${message}${colors.reset}`);
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+function assertEqual<T>(actual: T, expected: T, what: string): void {
+  if (actual !== expected) {
+    throw new Error(`${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+async function runTest(name: string, testFn: () => Promise<void>): Promise<void> {
+  const start = Date.now();
+  try {
+    await testFn();
+    passedCount++;
+    log(`  ✓ ${name} (${Date.now() - start}ms)`, 'green');
+  } catch (error) {
+    failedCount++;
+    log(`  ✗ ${name} (${Date.now() - start}ms)`, 'red');
+    log(`    Error: ${error instanceof Error ? error.message : String(error)}`, 'yellow');
+  }
+}
+
+const PLAN = {
+  subtasks: [
+    {
+      title: 'Design the greeter',
+      description: 'Describe the greet function in docs/design.md',
+      role: 'designer',
+      dependencies: [],
+      acceptanceCriteria: ['docs/design.md exists'],
+      estimatedEffort: 'small',
+    },
+    {
+      title: 'Implement the greeter',
+      description: 'Write src/greet.ts',
+      role: 'coder',
+      dependencies: [1],
+      acceptanceCriteria: ['src/greet.ts exports greet'],
+      estimatedEffort: 'small',
+    },
+    {
+      title: 'Review the greeter',
+      description: 'Check the code against the design',
+      role: 'reviewer',
+      dependencies: [2],
+      acceptanceCriteria: ['greet matches the design'],
+      estimatedEffort: 'small',
+    },
+  ],
+};
+
+// Reviews of the second task: the first asks for changes, later ones approve
+let secondTaskReviews = 0;
+
+const SCRIPT: MockScript = {
+  rules: [
+    {
+      kind: 'plan',
+      reply: {
+        text: JSON.stringify(PLAN),
+        actions: [{ name: 'SPEAK', params: { message: 'Design, implement, review.' } }],
+      },
+    },
+    {
+      kind: 'subtask',
+      match: 'You are creating design specifications',
+      reply: {
+        text: 'Design written.',
+        actions: [{ name: 'WRITE_FILE', params: { filepath: 'docs/design.md', content: '# Greeter\n\ngreet(name) returns a greeting.\n' } }],
+      },
+    },
+    {
+      kind: 'subtask',
+      match: /Subtask: Fix: /,
+      reply: {
+        text: 'Added the exclamation mark.',
+        actions: [{ name: 'WRITE_FILE', params: { filepath: 'src/greet.ts', content: 'export const greet = (name: string) => `Hello, ${name}!`;\n' } }],
+      },
+    },
+    {
+      kind: 'subtask',
+      match: 'You are implementing code',
+      reply: {
+        text: 'Implemented the greeter.',
+        actions: [{ name: 'WRITE_FILE', params: { filepath: 'src/greet.ts', content: 'export const greet = (name: string) => `Hello, ${name}`;\n' } }],
+      },
+    },
+    {
+      kind: 'subtask',
+      match: 'You are reviewing code',
+      reply: (call: MockCall) =>
+        call.taskId === 2 && secondTaskReviews++ === 0
+          ? {
+              text: JSON.stringify({
+                verdict: 'request_changes',
+                summary: 'Greeting is missing its punctuation',
+                issues: ['src/greet.ts: end the greeting with an exclamation mark'],
+              }),
+            }
+          : { text: JSON.stringify({ verdict: 'approve', summary: 'Matches the design', issues: [] }) },
+    },
+  ],
+  fallback: { thought: 'Nothing to do.', text: '' },
+};
+
+async function taskStatus(sim: Simulation, taskId: number): Promise<string | undefined> {
+  return (await sim.db.getTask(taskId))?.status;
+}
+
+async function replay(sim: Simulation, trace: TaskTrace) {
+  const { replayTrace } = await import('../src/eliza/traceReplay.js');
+  return replayTrace(trace, { db: sim.db });
+}
+
+async function runAllTests(): Promise<void> {
+  log('\n========================================', 'bold');
+  log('  Simulated Town Tests', 'cyan');
+  log('========================================\n', 'bold');
+
+  await runTest('ManualClock runs due timers in time order', async () => {
+    const clock = new ManualClock(0);
+    const fired: string[] = [];
+    clock.setTimeout(() => fired.push('b@300'), 300);
+    clock.setTimeout(() => fired.push('a@100'), 100);
+    const every = clock.setInterval(() => fired.push(`tick@${clock.now()}`), 150);
+    const cancelled = clock.setTimeout(() => fired.push('never'), 50);
+    clock.clearTimeout(cancelled);
+
+    clock.advance(299);
+    assertEqual(fired.join(' '), 'a@100 tick@150', 'fired by 299');
+    clock.advance(1);
+    assertEqual(fired.join(' '), 'a@100 tick@150 b@300 tick@300', 'fired by 300');
+    clock.clearInterval(every);
+    assertEqual(clock.pendingTimers, 0, 'pending timers');
+  });
+
+  // Record every task, so the replay tests have traces to work from
+  const traceDir = await fs.mkdtemp(path.join(os.tmpdir(), 'eliza-town-traces-'));
+  process.env.TRACE_RECORDING = 'true';
+  process.env.TRACE_DIR = traceDir;
+
+  const sim = await startSimulation({ script: SCRIPT, seed: 42 });
+
+  try {
+    await runTest('A task goes from plan to design, code and review', async () => {
+      const task = await sim.createTask('Build a greeter', 'A greet(name) function with a design doc');
+      await sim.runUntil(async () => (await taskStatus(sim, task.id)) === 'completed', 40);
+
+      const subtasks = await sim.db.getSubtasks(task.id);
+      assertEqual(subtasks.map((st) => `${st.role}:${st.status}`).join(' '), 'designer:completed coder:completed reviewer:completed', 'subtasks');
+
+      const root = path.join(sim.sandboxDir, 'tasks', `task-${task.id}`);
+      assert((await fs.readFile(path.join(root, 'docs/design.md'), 'utf-8')).startsWith('# Greeter'), 'design doc missing');
+      assert((await fs.readFile(path.join(root, 'src/greet.ts'), 'utf-8')).includes('greet'), 'code missing');
+      assert(sim.events.some((e) => e.type === 'task_complete' && e.data?.taskId === task.id), 'no task_complete event');
+    });
+
+    await runTest('Each step was decided by the right agent', async () => {
+      const decided = sim
+        .modelCalls()
+        .filter((call) => call.taskId === 1 && call.rule !== null)
+        .map((call) => `${call.agent}:${call.kind}`);
+      assertEqual(decided[0], 'Eliza:plan', 'first decision');
+      assert(decided.includes('Marcus:subtask') || decided.includes('Felix:subtask'), 'no designer decision');
+      assert(decided.includes('Ada:subtask') || decided.includes('Byron:subtask'), 'no coder decision');
+      assert(decided.includes('Clara:subtask'), 'no reviewer decision');
+    });
+
+    await runTest('A rejected review queues a fix and a re-review', async () => {
+      const task = await sim.createTask('Build another greeter', 'Same again, reviewed strictly');
+      await sim.runUntil(async () => (await taskStatus(sim, task.id)) === 'completed', 60);
+
+      const subtasks = await sim.db.getSubtasks(task.id);
+      const fix = subtasks.find((st) => st.title.startsWith('Fix: '));
+      const reReview = subtasks.find((st) => st.title.startsWith('Re-review: '));
+      assert(fix && reReview, 'follow-up subtasks were not created');
+      assertEqual(fix.status, 'completed', 'fix status');
+      assertEqual(reReview.review_round, 1, 're-review round');
+
+      const verdicts = sim.events
+        .filter((e) => e.type === 'review_verdict' && e.data?.taskId === task.id)
+        .map((e) => e.data?.verdict);
+      assertEqual(verdicts.join(' '), 'request_changes approve', 'verdicts');
+
+      const code = await fs.readFile(path.join(sim.sandboxDir, 'tasks', `task-${task.id}`, 'src/greet.ts'), 'utf-8');
+      assert(code.includes('!`'), 'the fix was not written');
+    });
+
+    await runTest('A recorded task replays exactly', async () => {
+      await stopRecording(1);
+      const trace = await loadTrace(tracePath(1));
+      assertEqual(trace.task.title, 'Build a greeter', 'trace task');
+      assertEqual(trace.decisions[0]?.decision.agent, 'Eliza', 'first recorded decision');
+      assert(
+        trace.decisions.some((d) => d.actions.some((a) => a.action === 'WRITE_FILE' && a.result?.success)),
+        'no file writes recorded'
+      );
+
+      const callsBefore = sim.modelCalls().filter((call) => call.rule !== null).length;
+      const report = await replay(sim, trace);
+      const divergences = report.decisions.flatMap((d) => d.divergences);
+      assertEqual(divergences.join('; '), '', 'divergences');
+      assert(report.reproduced, 'replay not reproduced');
+      assertEqual(report.decisions.length, trace.decisions.length, 'decisions replayed');
+      assertEqual(sim.modelCalls().filter((call) => call.rule !== null).length, callsBefore, 'scripted calls during replay');
+      assertEqual((await sim.db.getTask(report.replayTaskId))?.status, 'completed', 'replay task status');
+
+      for (const file of ['docs/design.md', 'src/greet.ts']) {
+        const original = await fs.readFile(path.join(sim.sandboxDir, 'tasks', 'task-1', file), 'utf-8');
+        const replayed = await fs.readFile(path.join(sim.sandboxDir, 'tasks', `task-${report.replayTaskId}`, file), 'utf-8');
+        assertEqual(replayed, original, file);
+      }
+    });
+
+    await runTest('A replay reports where the run differs from its trace', async () => {
+      await stopRecording(2);
+      const trace = await loadTrace(tracePath(2));
+      // Change what the model "said" for the fix, as if the trace came from different code
+      const fix = trace.decisions.find((d) => d.decision.prompt.includes('Subtask: Fix: '));
+      assert(fix && fix.models.length > 0, 'fix decision not recorded');
+      const model = fix.models.find((m) => typeof m.response === 'string' && m.response.includes('WRITE_FILE'));
+      assert(model, 'fix model call not recorded');
+      model.response = (model.response as string).replace('!`', '?`');
+
+      const report = await replay(sim, trace);
+      assert(!report.reproduced, 'tampered trace reproduced');
+      const diverged = report.decisions.filter((d) => d.divergences.length > 0);
+      assertEqual(diverged.length, 1, 'diverged decisions');
+      assertEqual(diverged[0].seq, fix.decision.seq, 'diverged decision');
+      assert(diverged[0].divergences.some((d) => d.includes('WRITE_FILE')), 'divergence does not name the action');
+      assertEqual((await sim.db.getTask(report.replayTaskId))?.status, 'failed', 'replay task status');
+    });
+
+    await runTest('Simulated time moved with the ticks', async () => {
+      assert(sim.ticks > 0, 'no ticks ran');
+      assert(sim.clock.now() - Date.UTC(2025, 0, 1) >= sim.ticks * 5000, 'clock did not advance a tick per step');
+    });
+  } finally {
+    await sim.stop();
+    await fs.rm(traceDir, { recursive: true, force: true });
+  }
+
+  const total = passedCount + failedCount;
+  log(`\nPassed: ${passedCount}/${total}`, failedCount > 0 ? 'yellow' : 'green');
+  process.exit(failedCount > 0 ? 1 : 0);
+}
+
+runAllTests().catch((error) => {
+  console.error('Test runner failed:', error);
+  process.exit(1);
+});
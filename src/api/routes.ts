@@ -1,4 +1,11 @@
 import { Router, Request, Response, NextFunction } from 'express';
+import * as fs from 'fs/promises';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { createTarGzStream, type ArchiveEntry } from '../storage/archive.js';
+import { TOWN_MAP, resolveHub } from '../eliza/townMap.js';
+import { canEnterHub, getHubOccupancy } from '../eliza/hubCapacity.js';
+import type { BudgetConfig, BudgetLimit } from '../eliza/budgets.js';
 
 // Database module - loaded lazily to handle cases where DB isn't configured
 let db: typeof import('../db/index.js') | null = null;
@@ -43,7 +50,7 @@ function requireDb(req: Request, res: Response, next: NextFunction): void {
   if (!dbInitialized) {
     res.status(503).json({
       error: 'Database not available',
-      message: 'The server is running in demo mode. Configure DATABASE_URL and an LLM API key to enable full functionality.',
+      message: 'The server is running in demo mode. Configure an LLM API key to enable full functionality.',
     });
     return;
   }
@@ -55,6 +62,11 @@ function getSessionId(req: Request): string | null {
   return (req.headers['x-session-id'] as string) || null;
 }
 
+// A decision refused because a budget is used up is the caller's limit, not a server fault
+function decisionErrorStatus(error: unknown): number {
+  return (error as Error).name === 'BudgetExceededError' ? 429 : 500;
+}
+
 // Health check
 router.get('/health', (_req: Request, res: Response) => {
   res.json({ status: 'ok', timestamp: Date.now(), engine: 'ElizaOS', dbAvailable: dbInitialized });
@@ -86,35 +98,70 @@ router.get('/agents/:id', requireDb, async (req: Request, res: Response) => {
   }
 });
 
+// Map an agent's database id to the username its ElizaOS runtime is registered under
+async function findRuntimeUsername(agentId: number): Promise<string | null> {
+  const { getAllRuntimes, getMetadata } = await import('../eliza/runtimeManager.js');
+  for (const [username] of getAllRuntimes()) {
+    if (getMetadata(username)?.dbId === agentId) return username;
+  }
+  return null;
+}
+
 router.post('/agents/:id/move', requireDb, async (req: Request, res: Response) => {
   try {
-    const { hubName } = req.body as { hubName?: string };
+    const { hubName, wait } = req.body as { hubName?: string; wait?: boolean };
     if (!hubName) {
       res.status(400).json({ error: 'hubName is required' });
       return;
     }
 
-    const { triggerAgentDecision, getAllRuntimes, getMetadata } = await import('../eliza/runtimeManager.js');
+    const hub = resolveHub(hubName);
+    if (!hub) {
+      res.status(400).json({
+        error: `Unknown hub "${hubName}"`,
+        hubs: TOWN_MAP.hubs.map((h) => h.id),
+      });
+      return;
+    }
 
-    const agentId = parseInt(req.params.id);
-    const runtimes = getAllRuntimes();
-    let targetUsername: string | null = null;
+    const { triggerAgentDecision } = await import('../eliza/runtimeManager.js');
+    const targetUsername = await findRuntimeUsername(parseInt(req.params.id));
+    if (!targetUsername) {
+      res.status(404).json({ error: 'Agent not found in ElizaOS runtimes' });
+      return;
+    }
 
-    for (const [username] of runtimes) {
-      const meta = getMetadata(username);
-      if (meta?.dbId === agentId) {
-        targetUsername = username;
-        break;
-      }
+    // A full hub would only queue (or redirect) the agent; make the caller opt in to that
+    if (!wait && !canEnterHub(targetUsername, hub.id)) {
+      res.status(409).json({
+        error: `${hub.name} is full`,
+        hub: hub.id,
+        ...getHubOccupancy()[hub.id],
+        hint: 'Send "wait": true to join the queue',
+      });
+      return;
     }
 
+    const result = await triggerAgentDecision(targetUsername, `Move to ${hub.name} (${hub.id}) now.`, {
+      kind: 'move',
+    });
+    res.json({ status: 'move_triggered', hub: hub.id, result });
+  } catch (error) {
+    res.status(decisionErrorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
+// Stop an agent's current trip: it halts where it stands and leaves any waiting line
+router.post('/agents/:id/stop', requireDb, async (req: Request, res: Response) => {
+  try {
+    const targetUsername = await findRuntimeUsername(parseInt(req.params.id));
     if (!targetUsername) {
       res.status(404).json({ error: 'Agent not found in ElizaOS runtimes' });
       return;
     }
 
-    const result = await triggerAgentDecision(targetUsername, `Move to ${hubName} now.`);
-    res.json({ status: 'move_triggered', result });
+    const { cancelMove } = await import('../eliza/movement.js');
+    res.json({ status: cancelMove(targetUsername) ? 'stopped' : 'not_moving' });
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
   }
@@ -159,10 +206,13 @@ router.get('/hubs', requireDb, async (_req: Request, res: Response) => {
   }
 });
 
+// Accepts the numeric row id or the town map key (e.g. /hubs/coding_desk)
 router.get('/hubs/:id', requireDb, async (req: Request, res: Response) => {
   try {
     const dbModule = await initDb();
-    const hub = await dbModule.getHub(parseInt(req.params.id));
+    const hub = /^\d+$/.test(req.params.id)
+      ? await dbModule.getHub(parseInt(req.params.id))
+      : await dbModule.getHubByKey(req.params.id);
     if (!hub) {
       res.status(404).json({ error: 'Hub not found' });
       return;
@@ -173,6 +223,16 @@ router.get('/hubs/:id', requireDb, async (req: Request, res: Response) => {
   }
 });
 
+// The town map as configured; served without the database so the demo client can use it too
+router.get('/town/map', (_req: Request, res: Response) => {
+  res.json(TOWN_MAP);
+});
+
+// Who holds a spot at each hub and who is waiting in line
+router.get('/town/occupancy', (_req: Request, res: Response) => {
+  res.json(getHubOccupancy());
+});
+
 // === Tasks ===
 
 router.get('/tasks', requireDb, async (req: Request, res: Response) => {
@@ -203,18 +263,47 @@ router.get('/tasks/:id', requireDb, async (req: Request, res: Response) => {
 
 router.post('/tasks', requireDb, async (req: Request, res: Response) => {
   try {
-    const { title, description, priority } = req.body as {
+    const { title, description, priority, sandboxBackend, budget, record } = req.body as {
       title?: string;
       description?: string;
       priority?: number;
+      sandboxBackend?: string;
+      budget?: { tokens?: number | null; costUsd?: number | null };
+      record?: boolean;
     };
     if (!title) {
       res.status(400).json({ error: 'title is required' });
       return;
     }
+    const { validateBudgetLimit } = await import('../eliza/budgets.js');
+    let taskBudget: BudgetLimit | null;
+    try {
+      taskBudget = budget === undefined ? null : validateBudgetLimit(budget);
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+      return;
+    }
+    if (sandboxBackend) {
+      const { hasSandboxBackend, listSandboxBackends } = await import('../eliza/sharedSandbox.js');
+      if (!hasSandboxBackend(sandboxBackend)) {
+        res.status(400).json({
+          error: `Unknown sandbox backend "${sandboxBackend}"`,
+          available: listSandboxBackends(),
+        });
+        return;
+      }
+    }
     const sessionId = getSessionId(req);
     const orch = await getOrchestration();
-    const task = await orch.createTask(title, description || null, priority, sessionId);
+    const task = await orch.createTask(
+      title,
+      description || null,
+      priority,
+      sessionId,
+      sandboxBackend || null,
+      taskBudget,
+      record === undefined ? undefined : record === true
+    );
     res.status(201).json(task);
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
@@ -239,6 +328,89 @@ router.patch('/tasks/:id', requireDb, async (req: Request, res: Response) => {
   }
 });
 
+// Change a task's budget ({ tokens?, costUsd? }; null removes a limit). A task
+// paused with budget_exceeded resumes once it is back within budget.
+router.patch('/tasks/:id/budget', requireDb, async (req: Request, res: Response) => {
+  try {
+    const dbModule = await initDb();
+    const taskId = parseInt(req.params.id);
+    const task = await dbModule.getTask(taskId);
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const { validateBudgetLimit } = await import('../eliza/budgets.js');
+    let budget: BudgetLimit;
+    try {
+      // Fields left out keep their current limit
+      budget = validateBudgetLimit({
+        tokens: task.budget_tokens ?? null,
+        costUsd: task.budget_usd ?? null,
+        ...(req.body as Record<string, unknown>),
+      });
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+      return;
+    }
+
+    await dbModule.setTaskBudget(taskId, budget);
+    const orch = await getOrchestration();
+    const resumed = await orch.resumeBudgetPausedTasks();
+    res.json({ task: await dbModule.getTask(taskId), resumed: resumed.map((t) => t.id) });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// The contents of a task's trace file, or null when it wasn't recorded
+async function readTaskTrace(taskId: number): Promise<string | null> {
+  const { flushTrace, tracePath } = await import('../eliza/taskTrace.js');
+  await flushTrace(taskId);
+  try {
+    return await fs.readFile(tracePath(taskId), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+// A task's recorded trace (JSON Lines), when it was created with record or TRACE_RECORDING=true
+router.get('/tasks/:id/trace', requireDb, async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const contents = await readTaskTrace(taskId);
+    if (contents === null) {
+      res.status(404).json({ error: 'No trace recorded for this task' });
+      return;
+    }
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="task-${taskId}.jsonl"`);
+    res.send(contents);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Replay a task's trace through the running agents into a new task, and
+// report any decision that came out differently
+router.post('/tasks/:id/trace/replay', requireDb, async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const contents = await readTaskTrace(taskId);
+    if (contents === null) {
+      res.status(404).json({ error: 'No trace recorded for this task' });
+      return;
+    }
+
+    const { parseTrace } = await import('../eliza/taskTrace.js');
+    const { replayTrace } = await import('../eliza/traceReplay.js');
+    const report = await replayTrace(parseTrace(contents, `trace of task ${taskId}`), { db: await initDb() });
+    res.json(report);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 // Get task files
 router.get('/tasks/:id/files', requireDb, async (req: Request, res: Response) => {
   try {
@@ -263,6 +435,250 @@ router.get('/tasks/:id/files/:filename', requireDb, async (req: Request, res: Re
   }
 });
 
+// List a task's saved outputs and workspace files; each is read as the archive reaches it
+async function collectTaskArchiveEntries(taskId: number): Promise<ArchiveEntry[]> {
+  const storageModule = await initStorage();
+  const { getSharedSandbox } = await import('../eliza/sharedSandbox.js');
+  const sandbox = getSharedSandbox();
+
+  const entries: ArchiveEntry[] = [];
+  for (const file of await storageModule.listTaskOutputFiles(taskId)) {
+    entries.push({
+      name: `output/${file.name}`,
+      mtime: file.modified,
+      read: () => storageModule.readTaskOutputFile(taskId, file.name),
+    });
+  }
+  for (const filepath of await sandbox.listTaskFiles(taskId)) {
+    entries.push({ name: `workspace/${filepath}`, read: () => sandbox.readTaskFile(taskId, filepath) });
+  }
+  return entries;
+}
+
+// Download every file produced for a task as a tar.gz archive
+router.get('/tasks/:id/download', requireDb, async (req: Request, res: Response) => {
+  try {
+    const dbModule = await initDb();
+    const taskId = parseInt(req.params.id);
+    const task = await dbModule.getTask(taskId);
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const entries = await collectTaskArchiveEntries(taskId);
+    if (entries.length === 0) {
+      res.status(404).json({ error: 'Task has no output files' });
+      return;
+    }
+
+    res.setHeader('Content-Type', 'application/gzip');
+    res.setHeader('Content-Disposition', `attachment; filename="task_${taskId}.tar.gz"`);
+    await pipeline(createTarGzStream(entries), res);
+  } catch (error) {
+    if (!res.headersSent) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  }
+});
+
+const PREVIEW_CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.txt': 'text/plain; charset=utf-8',
+};
+
+// Names of a task's previewable files: its workspace files and its saved outputs
+async function listPreviewFiles(taskId: number): Promise<string[]> {
+  const storageModule = await initStorage();
+  const { getSharedSandbox } = await import('../eliza/sharedSandbox.js');
+  const names = new Set(await getSharedSandbox().listTaskFiles(taskId));
+  for (const file of await storageModule.listTaskOutputFiles(taskId)) {
+    names.add(file.name);
+  }
+  return [...names].sort();
+}
+
+// Read one preview file, from the workspace first and then the saved outputs
+async function readPreviewFile(taskId: number, name: string): Promise<Buffer | string | null> {
+  const { getSharedSandbox } = await import('../eliza/sharedSandbox.js');
+  const content = await getSharedSandbox().readTaskFile(taskId, name);
+  if (content !== null) return content;
+  const storageModule = await initStorage();
+  return storageModule.readTaskOutputFile(taskId, name);
+}
+
+// Pick the HTML entry point, or generate one that loads the task's scripts
+async function buildPreviewEntry(taskId: number): Promise<string | null> {
+  const base = `<base href="/api/tasks/${taskId}/preview/">`;
+  const names = await listPreviewFiles(taskId);
+  const htmlFile = names.includes('index.html')
+    ? 'index.html'
+    : names.find((name) => /\.html?$/i.test(name));
+
+  const html = htmlFile ? await readPreviewFile(taskId, htmlFile) : null;
+  if (html !== null) {
+    const text = html.toString();
+    return /<head[^>]*>/i.test(text)
+      ? text.replace(/<head[^>]*>/i, (head) => `${head}${base}`)
+      : `${base}${text}`;
+  }
+
+  const scripts = names.filter((name) => /\.m?js$/i.test(name));
+  if (scripts.length === 0) return null;
+
+  const tags = scripts.map((name) => `<script src="${name}"></script>`).join('\n');
+  return `<!DOCTYPE html>\n<html>\n<head>${base}<meta charset="utf-8"></head>\n<body>\n${tags}\n</body>\n</html>`;
+}
+
+// Load a task's workspace diff, answering 404 for a missing task or one with no changes
+async function loadTaskDiff(req: Request, res: Response): Promise<{ taskId: number; diff: string } | null> {
+  const dbModule = await initDb();
+  const taskId = parseInt(req.params.id);
+  const task = await dbModule.getTask(taskId);
+  if (!task) {
+    res.status(404).json({ error: 'Task not found' });
+    return null;
+  }
+
+  const { getSharedSandbox } = await import('../eliza/sharedSandbox.js');
+  const diff = await getSharedSandbox().getTaskDiff(taskId);
+  if (!diff) {
+    res.status(404).json({ error: 'Task has no workspace changes' });
+    return null;
+  }
+  return { taskId, diff };
+}
+
+// Unified diff of every workspace change made for a task
+router.get('/tasks/:id/diff', requireDb, async (req: Request, res: Response) => {
+  try {
+    const result = await loadTaskDiff(req, res);
+    if (!result) return;
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.send(result.diff);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// The same diff as a .patch download, ready for `git apply`
+router.get('/tasks/:id/patch', requireDb, async (req: Request, res: Response) => {
+  try {
+    const result = await loadTaskDiff(req, res);
+    if (!result) return;
+    res.setHeader('Content-Type', 'text/x-diff; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="task_${result.taskId}.patch"`);
+    res.send(result.diff);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Commit history of a task's workspace branch, one commit per completed subtask
+router.get('/tasks/:id/commits', requireDb, async (req: Request, res: Response) => {
+  try {
+    const dbModule = await initDb();
+    const taskId = parseInt(req.params.id);
+    const task = await dbModule.getTask(taskId);
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const { getSharedSandbox } = await import('../eliza/sharedSandbox.js');
+    const history = await getSharedSandbox().getTaskHistory(taskId);
+    if (!history) {
+      res.status(404).json({ error: 'Task workspace is not under git' });
+      return;
+    }
+    res.json({ taskId, ...history });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// One commit from a task's branch with the patch it introduced
+router.get('/tasks/:id/commits/:sha', requireDb, async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    if (!/^[0-9a-f]{4,40}$/i.test(req.params.sha)) {
+      res.status(400).json({ error: 'Invalid commit hash' });
+      return;
+    }
+
+    const { getSharedSandbox } = await import('../eliza/sharedSandbox.js');
+    const result = await getSharedSandbox().getTaskCommitDiff(taskId, req.params.sha.toLowerCase());
+    if (!result) {
+      res.status(404).json({ error: 'Commit not found on this task\'s branch' });
+      return;
+    }
+    res.json({ taskId, ...result.commit, diff: result.diff });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Preview headers: opaque-origin sandbox so task output can't reach the API with our cookies
+function setPreviewHeaders(res: Response, contentType: string): void {
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Security-Policy', 'sandbox allow-scripts allow-forms allow-modals allow-popups');
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+}
+
+// Preview a task's HTML/JS output as a sandboxed static site
+router.get('/tasks/:id/preview', requireDb, async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const entry = await buildPreviewEntry(taskId);
+    if (!entry) {
+      res.status(404).json({ error: 'Task has no previewable HTML or JavaScript output' });
+      return;
+    }
+    setPreviewHeaders(res, PREVIEW_CONTENT_TYPES['.html']);
+    res.send(entry);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+router.get('/tasks/:id/preview/*', requireDb, async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const requested = path.posix.normalize(req.params[0] || '');
+
+    if (requested === '.' || requested === '' || requested === 'index.html') {
+      const entry = await buildPreviewEntry(taskId);
+      if (entry) {
+        setPreviewHeaders(res, PREVIEW_CONTENT_TYPES['.html']);
+        res.send(entry);
+        return;
+      }
+    }
+
+    const content = await readPreviewFile(taskId, requested);
+    if (content === null) {
+      res.status(404).json({ error: 'File not found' });
+      return;
+    }
+
+    const contentType = PREVIEW_CONTENT_TYPES[path.extname(requested).toLowerCase()] || 'application/octet-stream';
+    setPreviewHeaders(res, contentType);
+    res.send(content);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 // === Subtasks ===
 
 router.get('/tasks/:taskId/subtasks', requireDb, async (req: Request, res: Response) => {
@@ -278,21 +694,48 @@ router.get('/tasks/:taskId/subtasks', requireDb, async (req: Request, res: Respo
 router.post('/tasks/:taskId/subtasks', requireDb, async (req: Request, res: Response) => {
   try {
     const dbModule = await initDb();
-    const { title, description, orderIndex } = req.body as {
+    const taskId = parseInt(req.params.taskId);
+    const { title, description, orderIndex, role, dependsOn } = req.body as {
       title?: string;
       description?: string;
       orderIndex?: number;
+      role?: string;
+      dependsOn?: number[];
     };
     if (!title) {
       res.status(400).json({ error: 'title is required' });
       return;
     }
+    // An unknown role would leave the subtask waiting for an agent that never comes
+    const { normalizeRole, PLAN_ROLES } = await import('../eliza/planSchema.js');
+    const normalizedRole = role === undefined || role === null ? null : normalizeRole(role);
+    if (role !== undefined && role !== null && !normalizedRole) {
+      res.status(400).json({ error: `role must be one of: ${PLAN_ROLES.join(', ')}` });
+      return;
+    }
+    if (dependsOn !== undefined) {
+      if (!Array.isArray(dependsOn) || !dependsOn.every((id) => Number.isInteger(id))) {
+        res.status(400).json({ error: 'dependsOn must be an array of subtask ids' });
+        return;
+      }
+      const siblingIds = new Set((await dbModule.getSubtasks(taskId)).map((st) => st.id));
+      const unknownIds = dependsOn.filter((id) => !siblingIds.has(id));
+      if (unknownIds.length > 0) {
+        res.status(400).json({ error: `dependsOn references subtasks outside this task: ${unknownIds.join(', ')}` });
+        return;
+      }
+    }
     const subtask = await dbModule.createSubtask(
-      parseInt(req.params.taskId),
+      taskId,
       title,
       description || null,
-      orderIndex || 0
+      orderIndex || 0,
+      normalizedRole
     );
+    if (dependsOn && dependsOn.length > 0) {
+      await dbModule.addSubtaskDependencies(subtask.id, dependsOn);
+      subtask.depends_on = [...new Set(dependsOn)];
+    }
     res.status(201).json(subtask);
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
@@ -415,20 +858,8 @@ router.post('/orchestration/stop', requireDb, async (_req: Request, res: Respons
 router.post('/agents/:id/decide', requireDb, async (req: Request, res: Response) => {
   try {
     const { prompt } = req.body as { prompt?: string };
-    const { triggerAgentDecision, getAllRuntimes, getMetadata } = await import('../eliza/runtimeManager.js');
-
-    const agentId = parseInt(req.params.id);
-    const runtimes = getAllRuntimes();
-    let targetUsername: string | null = null;
-
-    for (const [username] of runtimes) {
-      const meta = getMetadata(username);
-      if (meta?.dbId === agentId) {
-        targetUsername = username;
-        break;
-      }
-    }
-
+    const { triggerAgentDecision } = await import('../eliza/runtimeManager.js');
+    const targetUsername = await findRuntimeUsername(parseInt(req.params.id));
     if (!targetUsername) {
       res.status(404).json({ error: 'Agent not found in ElizaOS runtimes' });
       return;
@@ -437,7 +868,7 @@ router.post('/agents/:id/decide', requireDb, async (req: Request, res: Response)
     const result = await triggerAgentDecision(targetUsername, prompt || 'What do you want to do next?');
     res.json(result);
   } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
+    res.status(decisionErrorStatus(error)).json({ error: (error as Error).message });
   }
 });
 
@@ -503,14 +934,22 @@ router.post('/demo/stop', async (_req: Request, res: Response) => {
 
 // === Code Execution (Sub-Agent) ===
 
-router.get('/execution/config', (_req: Request, res: Response) => {
-  res.json({
-    mode: process.env.USE_E2B === 'true' ? 'e2b-sandbox' : 'local',
-    coderEnabled: process.env.CODER_ENABLED === 'true',
-    workingDirectory: process.env.CODER_ALLOWED_DIRECTORY || process.cwd(),
-    demoMode: process.env.DEMO_MODE === 'true',
-    e2bConfigured: !!process.env.E2B_API_KEY,
-  });
+router.get('/execution/config', async (_req: Request, res: Response) => {
+  try {
+    const { listSandboxBackends } = await import('../eliza/sharedSandbox.js');
+    const mode = process.env.SANDBOX_MODE || (process.env.USE_E2B === 'true' ? 'e2b' : 'local');
+    res.json({
+      mode: mode === 'e2b' ? 'e2b-sandbox' : mode,
+      // Backends a task can ask for with sandboxBackend
+      sandboxBackends: listSandboxBackends(),
+      coderEnabled: process.env.CODER_ENABLED === 'true',
+      workingDirectory: process.env.CODER_ALLOWED_DIRECTORY || process.cwd(),
+      demoMode: process.env.DEMO_MODE === 'true',
+      e2bConfigured: !!process.env.E2B_API_KEY,
+    });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
 });
 
 router.post('/execution/run', requireDb, async (req: Request, res: Response) => {
@@ -588,6 +1027,179 @@ Write complete, working code.
         agent: c.agent,
       })),
     });
+  } catch (error) {
+    res.status(decisionErrorStatus(error)).json({ error: (error as Error).message });
+  }
+});
+
+// === Shell Processes ===
+
+// Sandbox shell processes, running or recently finished; filter with ?agent= and ?taskId=
+router.get('/processes', async (req: Request, res: Response) => {
+  try {
+    const { listProcesses } = await import('../eliza/shellProcesses.js');
+    const agent = typeof req.query.agent === 'string' ? req.query.agent : undefined;
+    const taskId = typeof req.query.taskId === 'string' ? parseInt(req.query.taskId) : undefined;
+    res.json({ processes: listProcesses({ agent, taskId }) });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// One process's status and output tail
+router.get('/processes/:id', async (req: Request, res: Response) => {
+  try {
+    const { getProcess } = await import('../eliza/shellProcesses.js');
+    const info = getProcess(parseInt(req.params.id));
+    if (!info) {
+      res.status(404).json({ error: 'Process not found' });
+      return;
+    }
+    res.json(info);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+router.post('/processes/:id/cancel', async (req: Request, res: Response) => {
+  try {
+    const { cancelProcess, getProcess } = await import('../eliza/shellProcesses.js');
+    const id = parseInt(req.params.id);
+    if (!getProcess(id)) {
+      res.status(404).json({ error: 'Process not found' });
+      return;
+    }
+    if (!cancelProcess(id)) {
+      res.status(409).json({ error: 'Process is not running' });
+      return;
+    }
+    res.json({ success: true, processId: id });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// === Command Policy ===
+
+router.get('/commands/policy', async (_req: Request, res: Response) => {
+  try {
+    const { getCommandPolicy } = await import('../eliza/commandPolicy.js');
+    res.json(getCommandPolicy());
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Commands waiting for an operator to approve or reject them
+router.get('/commands/approvals', async (_req: Request, res: Response) => {
+  try {
+    const { getPendingApprovals } = await import('../eliza/commandPolicy.js');
+    res.json({ approvals: getPendingApprovals() });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Answer a pending approval request; the body may name the operator and add a note
+async function answerApproval(req: Request, res: Response, approved: boolean): Promise<void> {
+  const { resolveApproval } = await import('../eliza/commandPolicy.js');
+  const { operator, note } = (req.body || {}) as { operator?: string; note?: string };
+  const approval = resolveApproval(parseInt(req.params.id), approved, operator || 'operator', note);
+  if (!approval) {
+    res.status(404).json({ error: 'No pending approval with that id' });
+    return;
+  }
+  res.json({ success: true, outcome: approved ? 'approved' : 'rejected', approval });
+}
+
+router.post('/commands/approvals/:id/approve', async (req: Request, res: Response) => {
+  try {
+    await answerApproval(req, res, true);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+router.post('/commands/approvals/:id/reject', async (req: Request, res: Response) => {
+  try {
+    await answerApproval(req, res, false);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Audit log of command decisions, newest first; filter with ?agent=, ?taskId= and ?limit=
+router.get('/commands/audit', requireDb, async (req: Request, res: Response) => {
+  try {
+    const dbModule = await initDb();
+    const entries = await dbModule.getCommandAudit({
+      agentName: typeof req.query.agent === 'string' ? req.query.agent : undefined,
+      taskId: typeof req.query.taskId === 'string' ? parseInt(req.query.taskId) : undefined,
+      limit: typeof req.query.limit === 'string' ? Math.min(parseInt(req.query.limit) || 100, 1000) : undefined,
+    });
+    res.json({ entries });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Model token usage and cost, totalled and broken down by agent, task, model and day.
+// Filter with ?agentId=, ?taskId=, ?since= and ?until= (ISO dates or timestamps; until is exclusive)
+router.get('/usage', requireDb, async (req: Request, res: Response) => {
+  try {
+    const dates: Record<'since' | 'until', Date | undefined> = { since: undefined, until: undefined };
+    for (const key of ['since', 'until'] as const) {
+      const value = req.query[key];
+      if (typeof value !== 'string') continue;
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        res.status(400).json({ error: `Invalid ${key} date: ${value}` });
+        return;
+      }
+      dates[key] = date;
+    }
+
+    const dbModule = await initDb();
+    const usage = await dbModule.getUsage({
+      agentId: typeof req.query.agentId === 'string' ? parseInt(req.query.agentId) : undefined,
+      taskId: typeof req.query.taskId === 'string' ? parseInt(req.query.taskId) : undefined,
+      sessionId: typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined,
+      ...dates,
+    });
+    res.json(usage);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// === Budgets ===
+
+// Active limits and what each agent has spent today
+router.get('/budgets', requireDb, async (_req: Request, res: Response) => {
+  try {
+    const { getBudgetStatus } = await import('../eliza/budgets.js');
+    res.json(await getBudgetStatus());
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Change limits until the next restart, e.g. { "agents": { "Ada": { "costUsd": 10 } } },
+// then resume any budget-paused task that now fits
+router.put('/budgets', requireDb, async (req: Request, res: Response) => {
+  try {
+    const { updateBudgets } = await import('../eliza/budgets.js');
+    let budgets: BudgetConfig;
+    try {
+      budgets = updateBudgets((req.body || {}) as Record<string, unknown>);
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+      return;
+    }
+
+    const orch = await getOrchestration();
+    const resumed = await orch.resumeBudgetPausedTasks();
+    res.json({ budgets, resumed: resumed.map((t) => t.id) });
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
   }
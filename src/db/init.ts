@@ -1,7 +1,7 @@
 import 'dotenv/config';
-import { initializeDatabase, query } from './index.js';
+import { initializeDatabase, getAgents, createAgent, closeDatabase, getBackend, syncHubs } from './index.js';
 import { ELIZA_TOWN_CHARACTERS } from '../eliza/characters.js';
-import pool from './index.js';
+import { getHubDefinitions } from '../eliza/townMap.js';
 
 async function init(): Promise<void> {
   console.log('Initializing Eliza Town database with ElizaOS characters...');
@@ -9,26 +9,24 @@ async function init(): Promise<void> {
   try {
     // Create schema
     await initializeDatabase();
-    console.log('Schema created successfully');
+    console.log(`Schema created successfully (${getBackend()} backend)`);
+
+    const hubs = await syncHubs(getHubDefinitions());
+    console.log(`Synced ${hubs.length} hubs from the town map`);
 
     // Check if agents exist
-    const result = await query<{ count: string }>('SELECT COUNT(*) FROM agents');
-    const agentCount = parseInt(result.rows[0].count);
+    const agentCount = (await getAgents()).length;
 
     if (agentCount === 0) {
       console.log('Seeding agents from ElizaOS characters...');
 
       for (const character of ELIZA_TOWN_CHARACTERS) {
-        await query(
-          `INSERT INTO agents (name, type, model_id, personality, capabilities)
-           VALUES ($1, $2, $3, $4, $5)`,
-          [
-            character.name,
-            character.role,
-            character.modelId,
-            character.adjectives?.join(', ') || 'helpful',
-            character.capabilities?.join(', ') || 'general'
-          ]
+        await createAgent(
+          character.name,
+          character.role,
+          character.modelId,
+          character.adjectives?.join(', ') || 'helpful',
+          character.capabilities?.join(', ') || 'general'
         );
         console.log(`  Created agent: ${character.name} (${character.role})`);
       }
@@ -43,7 +41,7 @@ async function init(): Promise<void> {
     console.error('Database initialization failed:', error);
     process.exit(1);
   } finally {
-    await pool.end();
+    await closeDatabase();
   }
 }
 
@@ -0,0 +1,590 @@
+// In-memory store backend, optionally snapshotted to a JSON file between runs
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type {
+  Agent,
+  Hub,
+  HubDefinition,
+  Task,
+  Subtask,
+  Message,
+  WorkSession,
+  ApiCall,
+  UsageFilter,
+  UsageTotals,
+  CommandAuditEntry,
+  AgentUpdateFields,
+  Store,
+} from './store.js';
+
+interface MemoryTables {
+  agents: Agent[];
+  hubs: Hub[];
+  tasks: Task[];
+  subtasks: Subtask[]; // dependencies live inline in depends_on instead of a join table
+  messages: Message[];
+  workSessions: WorkSession[];
+  apiCalls: ApiCall[];
+  commandAudit: CommandAuditEntry[];
+  nextIds: Record<string, number>;
+}
+
+const SNAPSHOT_DEBOUNCE_MS = 500;
+
+function emptyTables(): MemoryTables {
+  return {
+    agents: [],
+    hubs: [], // filled from the town map by syncHubs
+    tasks: [],
+    subtasks: [],
+    messages: [],
+    workSessions: [],
+    apiCalls: [],
+    commandAudit: [],
+    nextIds: {},
+  };
+}
+
+// JSON turns dates into strings; every timestamp column ends in _at
+function reviveDates(key: string, value: unknown): unknown {
+  if (typeof value === 'string' && key.endsWith('_at') && !Number.isNaN(Date.parse(value))) {
+    return new Date(value);
+  }
+  return value;
+}
+
+// Hand out copies so callers can't mutate stored rows behind the store's back
+function copy<T extends object>(row: T): T {
+  const clone = { ...row };
+  for (const [key, value] of Object.entries(clone)) {
+    if (Array.isArray(value)) {
+      (clone as Record<string, unknown>)[key] = [...value];
+    }
+  }
+  return clone;
+}
+
+function byDateDesc<T extends { created_at: Date }>(a: T, b: T): number {
+  return b.created_at.getTime() - a.created_at.getTime();
+}
+
+function usageTotals(calls: ApiCall[]): UsageTotals {
+  const priced = calls.filter((c) => c.cost_usd !== null);
+  const duration = calls.reduce((sum, c) => sum + c.duration_ms, 0);
+  return {
+    calls: calls.length,
+    input_tokens: calls.reduce((sum, c) => sum + c.input_tokens, 0),
+    output_tokens: calls.reduce((sum, c) => sum + c.output_tokens, 0),
+    cost_usd: priced.reduce((sum, c) => sum + (c.cost_usd as number), 0),
+    unpriced_calls: calls.length - priced.length,
+    avg_duration_ms: calls.length > 0 ? Math.round(duration / calls.length) : 0,
+  };
+}
+
+// Bucket calls by key and total each bucket, most expensive first
+function usageGroups<K extends object>(calls: ApiCall[], keyOf: (call: ApiCall) => K): Array<UsageTotals & K> {
+  const groups = new Map<string, { key: K; calls: ApiCall[] }>();
+  for (const call of calls) {
+    const key = keyOf(call);
+    const id = JSON.stringify(key);
+    const group = groups.get(id) ?? { key, calls: [] };
+    group.calls.push(call);
+    groups.set(id, group);
+  }
+  return [...groups.values()]
+    .map(({ key, calls: grouped }) => ({ ...key, ...usageTotals(grouped) }))
+    .sort((a, b) => b.cost_usd - a.cost_usd || b.calls - a.calls);
+}
+
+export function createMemoryStore(snapshotPath: string | null = null): Store {
+  let tables = emptyTables();
+  let snapshotTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function nextId(table: string): number {
+    const id = tables.nextIds[table] || 1;
+    tables.nextIds[table] = id + 1;
+    return id;
+  }
+
+  function writeSnapshot(): void {
+    if (!snapshotPath) return;
+    mkdirSync(dirname(snapshotPath), { recursive: true });
+    writeFileSync(snapshotPath, JSON.stringify(tables));
+  }
+
+  // Batch bursts of writes into one snapshot
+  function changed(): void {
+    if (!snapshotPath || snapshotTimer) return;
+    snapshotTimer = setTimeout(() => {
+      snapshotTimer = null;
+      try {
+        writeSnapshot();
+      } catch (error) {
+        console.error('[MemoryStore] Snapshot failed:', error);
+      }
+    }, SNAPSHOT_DEBOUNCE_MS);
+    snapshotTimer.unref?.();
+  }
+
+  function findSubtask(id: number): Subtask | undefined {
+    return tables.subtasks.find((st) => st.id === id);
+  }
+
+  function usageCalls({ agentId, taskId, sessionId, since, until }: UsageFilter): ApiCall[] {
+    const sessionTasks = sessionId === undefined
+      ? null
+      : new Set(tables.tasks.filter((t) => t.session_id === sessionId).map((t) => t.id));
+    return tables.apiCalls
+      .filter((c) => agentId === undefined || c.agent_id === agentId)
+      .filter((c) => taskId === undefined || c.task_id === taskId)
+      .filter((c) => !sessionTasks || (c.task_id !== null && sessionTasks.has(c.task_id)))
+      .filter((c) => !since || c.created_at >= since)
+      .filter((c) => !until || c.created_at < until);
+  }
+
+  return {
+    async initialize() {
+      if (snapshotPath && existsSync(snapshotPath)) {
+        tables = { ...emptyTables(), ...JSON.parse(readFileSync(snapshotPath, 'utf-8'), reviveDates) };
+        console.log(`[MemoryStore] Loaded snapshot from ${snapshotPath}`);
+      }
+    },
+
+    async close() {
+      if (snapshotTimer) {
+        clearTimeout(snapshotTimer);
+        snapshotTimer = null;
+      }
+      writeSnapshot();
+    },
+
+    // Agents
+    async getAgents() {
+      return [...tables.agents].sort((a, b) => a.id - b.id).map(copy);
+    },
+
+    async getAgent(id) {
+      const agent = tables.agents.find((a) => a.id === id);
+      return agent && copy(agent);
+    },
+
+    async updateAgentStatus(id, status, hubId = null, positionX = null, positionZ = null) {
+      const agent = tables.agents.find((a) => a.id === id);
+      if (!agent) return undefined;
+
+      agent.status = status;
+      if (hubId !== null) agent.current_hub_id = hubId;
+      if (positionX !== null) agent.position_x = positionX;
+      if (positionZ !== null) agent.position_z = positionZ;
+      agent.updated_at = new Date();
+      changed();
+      return copy(agent);
+    },
+
+    async updateAgentLocation(id, hub, positionX, positionZ) {
+      const agent = tables.agents.find((a) => a.id === id);
+      if (!agent) return;
+
+      agent.current_hub = hub;
+      agent.current_hub_id = tables.hubs.find((h) => h.key === hub)?.id ?? null;
+      agent.position_x = positionX;
+      agent.position_z = positionZ;
+      agent.updated_at = new Date();
+      changed();
+    },
+
+    async createAgent(name, type, modelId, personality, capabilities) {
+      const now = new Date();
+      const agent: Agent = {
+        id: nextId('agents'),
+        name,
+        type,
+        model_id: modelId,
+        personality,
+        capabilities,
+        status: 'idle',
+        current_hub_id: null,
+        current_hub: null,
+        position_x: 0,
+        position_z: 0,
+        created_at: now,
+        updated_at: now,
+      };
+      tables.agents.push(agent);
+      changed();
+      return copy(agent);
+    },
+
+    async updateAgent(id, updates: AgentUpdateFields) {
+      const agent = tables.agents.find((a) => a.id === id);
+      if (!agent) return undefined;
+
+      const fields = Object.entries(updates).filter(([, value]) => value !== undefined);
+      if (fields.length === 0) return copy(agent);
+
+      Object.assign(agent, Object.fromEntries(fields), { updated_at: new Date() });
+      changed();
+      return copy(agent);
+    },
+
+    // Hubs
+    async getHubs() {
+      return tables.hubs.map(copy);
+    },
+
+    async getHub(id) {
+      const hub = tables.hubs.find((h) => h.id === id);
+      return hub && copy(hub);
+    },
+
+    async getHubByName(name) {
+      const hub = tables.hubs.find((h) => h.name === name);
+      return hub && copy(hub);
+    },
+
+    async getHubByKey(key) {
+      const hub = tables.hubs.find((h) => h.key === key);
+      return hub && copy(hub);
+    },
+
+    async syncHubs(hubs: HubDefinition[]) {
+      const keys = new Set(hubs.map((hub) => hub.key));
+      const stale = new Set(tables.hubs.filter((h) => !keys.has(h.key)).map((h) => h.id));
+
+      if (stale.size > 0) {
+        for (const agent of tables.agents) {
+          if (agent.current_hub_id !== null && stale.has(agent.current_hub_id)) agent.current_hub_id = null;
+        }
+        for (const message of tables.messages) {
+          if (message.hub_id !== null && stale.has(Number(message.hub_id))) message.hub_id = null;
+        }
+        for (const session of tables.workSessions) {
+          if (session.hub_id !== null && stale.has(session.hub_id)) session.hub_id = null;
+        }
+        tables.hubs = tables.hubs.filter((h) => !stale.has(h.id));
+      }
+
+      for (const definition of hubs) {
+        const existing = tables.hubs.find((h) => h.key === definition.key);
+        if (existing) {
+          Object.assign(existing, definition);
+        } else {
+          tables.hubs.push({ ...definition, id: nextId('hubs'), created_at: new Date() });
+        }
+      }
+
+      changed();
+      return tables.hubs.map(copy);
+    },
+
+    // Tasks
+    async getTasks(status = null, sessionId = null) {
+      return tables.tasks
+        .filter((t) => (!status || t.status === status) && (!sessionId || t.session_id === sessionId))
+        .sort((a, b) => a.priority - b.priority || a.created_at.getTime() - b.created_at.getTime())
+        .map(copy);
+    },
+
+    async getTask(id) {
+      const task = tables.tasks.find((t) => t.id === id);
+      return task && copy(task);
+    },
+
+    async createTask(title, description, priority = 5, sessionId = null, sandboxBackend = null, budget = null, status = 'pending') {
+      const now = new Date();
+      const task: Task = {
+        id: nextId('tasks'),
+        title,
+        description,
+        status,
+        priority,
+        assigned_agent_id: null,
+        session_id: sessionId,
+        sandbox_backend: sandboxBackend,
+        budget_tokens: budget?.tokens ?? null,
+        budget_usd: budget?.costUsd ?? null,
+        budget_breach: null,
+        created_at: now,
+        updated_at: now,
+        completed_at: null,
+      };
+      tables.tasks.push(task);
+      changed();
+      return copy(task);
+    },
+
+    async updateTaskStatus(id, status, assignedAgentId = null) {
+      const task = tables.tasks.find((t) => t.id === id);
+      if (!task) return undefined;
+
+      task.status = status;
+      task.updated_at = new Date();
+      if (assignedAgentId !== null) task.assigned_agent_id = assignedAgentId;
+      if (status === 'completed') task.completed_at = task.updated_at;
+      changed();
+      return copy(task);
+    },
+
+    async setTaskBudget(id, budget) {
+      const task = tables.tasks.find((t) => t.id === id);
+      if (!task) return undefined;
+
+      task.budget_tokens = budget.tokens;
+      task.budget_usd = budget.costUsd;
+      task.updated_at = new Date();
+      changed();
+      return copy(task);
+    },
+
+    async setTaskBudgetBreach(id, scope) {
+      const task = tables.tasks.find((t) => t.id === id);
+      if (!task) return undefined;
+
+      task.budget_breach = scope;
+      task.updated_at = new Date();
+      changed();
+      return copy(task);
+    },
+
+    async requeueUnplannedTasks() {
+      const requeued = tables.tasks.filter(
+        (t) => t.status === 'in_progress' && !tables.subtasks.some((st) => st.task_id === t.id)
+      );
+      for (const task of requeued) {
+        task.status = 'pending';
+        task.updated_at = new Date();
+      }
+      if (requeued.length > 0) changed();
+      return requeued.map(copy);
+    },
+
+    // Subtasks
+    async getSubtasks(taskId) {
+      return tables.subtasks
+        .filter((st) => st.task_id === taskId)
+        .sort((a, b) => a.order_index - b.order_index)
+        .map(copy);
+    },
+
+    async createSubtask(
+      taskId,
+      title,
+      description,
+      orderIndex,
+      role = null,
+      acceptanceCriteria = null,
+      estimatedEffort = null,
+      parentSubtaskId = null,
+      reviewRound = 0
+    ) {
+      const now = new Date();
+      const subtask: Subtask = {
+        id: nextId('subtasks'),
+        task_id: taskId,
+        title,
+        description,
+        status: 'pending',
+        order_index: orderIndex,
+        role,
+        acceptance_criteria: acceptanceCriteria,
+        estimated_effort: estimatedEffort,
+        parent_subtask_id: parentSubtaskId,
+        review_round: reviewRound,
+        verdict: null,
+        attempts: 0,
+        last_error: null,
+        next_attempt_at: null,
+        depends_on: [],
+        output: null,
+        created_at: now,
+        updated_at: now,
+        completed_at: null,
+      };
+      tables.subtasks.push(subtask);
+      changed();
+      return copy(subtask);
+    },
+
+    async addSubtaskDependencies(subtaskId, dependsOnIds) {
+      const subtask = findSubtask(subtaskId);
+      if (!subtask) throw new Error(`Subtask ${subtaskId} does not exist`);
+
+      for (const dependsOnId of dependsOnIds) {
+        if (dependsOnId === subtaskId) throw new Error('A subtask cannot depend on itself');
+        if (!findSubtask(dependsOnId)) throw new Error(`Subtask ${dependsOnId} does not exist`);
+        if (!subtask.depends_on.includes(dependsOnId)) subtask.depends_on.push(dependsOnId);
+      }
+      changed();
+    },
+
+    async updateSubtaskStatus(id, status, output = null) {
+      const subtask = findSubtask(id);
+      if (!subtask) return undefined;
+
+      subtask.status = status;
+      subtask.updated_at = new Date();
+      if (output !== null) subtask.output = output;
+      if (status === 'completed') subtask.completed_at = subtask.updated_at;
+      changed();
+      return copy(subtask);
+    },
+
+    async recordSubtaskAttemptFailure(id, error, retryAt) {
+      const subtask = findSubtask(id);
+      if (!subtask) return undefined;
+
+      subtask.attempts += 1;
+      subtask.last_error = error;
+      subtask.next_attempt_at = retryAt;
+      subtask.status = retryAt ? 'pending' : 'failed';
+      subtask.updated_at = new Date();
+      changed();
+      return copy(subtask);
+    },
+
+    async requeueInProgressSubtasks() {
+      const requeued = tables.subtasks.filter((st) => st.status === 'in_progress');
+      for (const subtask of requeued) {
+        subtask.status = 'pending';
+        subtask.updated_at = new Date();
+      }
+      if (requeued.length > 0) changed();
+      return requeued.map(copy);
+    },
+
+    async setSubtaskVerdict(id, verdict) {
+      const subtask = findSubtask(id);
+      if (!subtask) return;
+
+      subtask.verdict = verdict;
+      subtask.updated_at = new Date();
+      changed();
+    },
+
+    async cancelPendingSubtasks(taskId) {
+      const pending = tables.subtasks.filter((st) => st.task_id === taskId && st.status === 'pending');
+      for (const subtask of pending) {
+        subtask.status = 'cancelled';
+        subtask.updated_at = new Date();
+      }
+      if (pending.length > 0) changed();
+      return pending.length;
+    },
+
+    // Messages
+    async createMessage(agentId, type, content, taskId = null, subtaskId = null, targetAgentId = null, hubId = null) {
+      const message: Message = {
+        id: nextId('messages'),
+        agent_id: agentId,
+        type,
+        content,
+        task_id: taskId,
+        subtask_id: subtaskId,
+        target_agent_id: targetAgentId,
+        hub_id: hubId,
+        created_at: new Date(),
+      };
+      tables.messages.push(message);
+      changed();
+      return copy(message);
+    },
+
+    async getRecentMessages(limit = 50) {
+      const agentsById = new Map(tables.agents.map((a) => [a.id, a]));
+      return tables.messages
+        .filter((m) => agentsById.has(m.agent_id))
+        .sort(byDateDesc)
+        .slice(0, limit)
+        .map((m) => ({
+          ...m,
+          agent_name: agentsById.get(m.agent_id)!.name,
+          agent_type: agentsById.get(m.agent_id)!.type,
+        }));
+    },
+
+    // Work sessions
+    async startWorkSession(agentId, taskId, subtaskId, notes = null) {
+      const session: WorkSession = {
+        id: nextId('workSessions'),
+        agent_id: agentId,
+        task_id: taskId,
+        subtask_id: subtaskId,
+        hub_id: null,
+        started_at: new Date(),
+        ended_at: null,
+        outcome: null,
+        notes,
+      };
+      tables.workSessions.push(session);
+      changed();
+      return copy(session);
+    },
+
+    async endWorkSession(id, outcome) {
+      const session = tables.workSessions.find((ws) => ws.id === id && !ws.ended_at);
+      if (!session) return;
+
+      session.ended_at = new Date();
+      session.outcome = outcome;
+      changed();
+    },
+
+    async closeOpenWorkSessions(outcome) {
+      const open = tables.workSessions.filter((ws) => !ws.ended_at);
+      for (const session of open) {
+        session.ended_at = new Date();
+        session.outcome = outcome;
+      }
+      if (open.length > 0) changed();
+      return open.map(copy);
+    },
+
+    // API calls
+    async logApiCall(entry) {
+      const call: ApiCall = { ...entry, id: nextId('apiCalls'), created_at: new Date() };
+      tables.apiCalls.push(call);
+      changed();
+      return copy(call);
+    },
+
+    async getUsage(filter = {}) {
+      const calls = usageCalls(filter);
+
+      return {
+        totals: usageTotals(calls),
+        by_agent: usageGroups(calls, (c) => ({
+          agent_id: c.agent_id,
+          agent_name: tables.agents.find((a) => a.id === c.agent_id)?.name ?? null,
+        })),
+        by_task: usageGroups(calls, (c) => ({
+          task_id: c.task_id,
+          task_title: tables.tasks.find((t) => t.id === c.task_id)?.title ?? null,
+        })),
+        by_model: usageGroups(calls, (c) => ({ provider: c.provider, model: c.model })),
+        by_day: usageGroups(calls, (c) => ({ day: c.created_at.toISOString().slice(0, 10) }))
+          .sort((a, b) => a.day.localeCompare(b.day)),
+      };
+    },
+
+    async getUsageTotals(filter = {}) {
+      return usageTotals(usageCalls(filter));
+    },
+
+    // Command audit log
+    async logCommandDecision(entry) {
+      const row: CommandAuditEntry = { ...entry, id: nextId('commandAudit'), created_at: new Date() };
+      tables.commandAudit.push(row);
+      changed();
+      return copy(row);
+    },
+
+    async getCommandAudit({ agentName, taskId, limit = 100 } = {}) {
+      return tables.commandAudit
+        .filter((e) => agentName === undefined || e.agent_name === agentName)
+        .filter((e) => taskId === undefined || e.task_id === taskId)
+        .sort((a, b) => byDateDesc(a, b) || b.id - a.id)
+        .slice(0, limit)
+        .map(copy);
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import 'dotenv/config';
+import pool from './postgres.js';
+import { migrateUp, migrateDown, getMigrationStatus, assertSchemaNotAhead, LATEST_VERSION } from './migrations/index.js';
+
+// Usage: bun src/db/migrate.ts [up [version] | down [steps] | status]
+async function main(): Promise<void> {
+  const [command = 'up', arg] = process.argv.slice(2);
+
+  if (!process.env.DATABASE_URL) {
+    console.error('DATABASE_URL is not set - migrations only apply to the Postgres backend');
+    process.exit(1);
+  }
+
+  try {
+    if (command === 'up') {
+      const target = arg ? parseInt(arg, 10) : LATEST_VERSION;
+      const applied = await migrateUp(pool, target);
+      console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Nothing to migrate');
+    } else if (command === 'down') {
+      const steps = arg ? parseInt(arg, 10) : 1;
+      const reverted = await migrateDown(pool, steps);
+      console.log(reverted.length > 0 ? `Reverted ${reverted.length} migration(s)` : 'Nothing to revert');
+    } else if (command === 'status') {
+      await assertSchemaNotAhead(pool);
+      for (const migration of await getMigrationStatus(pool)) {
+        const state = migration.appliedAt ? `applied ${migration.appliedAt.toISOString()}` : 'pending';
+        console.log(`  ${String(migration.version).padStart(3, '0')}_${migration.name}: ${state}`);
+      }
+    } else {
+      console.error(`Unknown command "${command}". Use: up [version] | down [steps] | status`);
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Migration failed:', (error as Error).message);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
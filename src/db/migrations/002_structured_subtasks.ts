@@ -0,0 +1,17 @@
+// Structured planner fields on subtasks
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 2,
+  name: 'structured_subtasks',
+  up: `
+    ALTER TABLE subtasks ADD COLUMN IF NOT EXISTS role VARCHAR(30); -- 'planner', 'designer', 'coder', 'reviewer'
+    ALTER TABLE subtasks ADD COLUMN IF NOT EXISTS acceptance_criteria TEXT; -- newline-separated criteria
+    ALTER TABLE subtasks ADD COLUMN IF NOT EXISTS estimated_effort VARCHAR(20); -- 'small', 'medium', 'large'
+  `,
+  down: `
+    ALTER TABLE subtasks DROP COLUMN IF EXISTS estimated_effort;
+    ALTER TABLE subtasks DROP COLUMN IF EXISTS acceptance_criteria;
+    ALTER TABLE subtasks DROP COLUMN IF EXISTS role;
+  `,
+};
@@ -0,0 +1,20 @@
+// Subtask dependencies form a DAG: a subtask can start once everything it depends on is completed
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 3,
+  name: 'subtask_dependencies',
+  up: `
+    CREATE TABLE IF NOT EXISTS subtask_dependencies (
+        subtask_id INTEGER NOT NULL REFERENCES subtasks(id) ON DELETE CASCADE,
+        depends_on_subtask_id INTEGER NOT NULL REFERENCES subtasks(id) ON DELETE CASCADE,
+        PRIMARY KEY (subtask_id, depends_on_subtask_id),
+        CHECK (subtask_id <> depends_on_subtask_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_subtask_deps_depends_on ON subtask_dependencies(depends_on_subtask_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS subtask_dependencies;
+  `,
+};
@@ -0,0 +1,17 @@
+// Review rework loop: follow-up subtasks link back to the review that requested them
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 4,
+  name: 'review_rounds',
+  up: `
+    ALTER TABLE subtasks ADD COLUMN IF NOT EXISTS parent_subtask_id INTEGER REFERENCES subtasks(id) ON DELETE SET NULL;
+    ALTER TABLE subtasks ADD COLUMN IF NOT EXISTS review_round INTEGER DEFAULT 0; -- 0 = original plan
+    ALTER TABLE subtasks ADD COLUMN IF NOT EXISTS verdict VARCHAR(30); -- 'approved', 'changes_requested'
+  `,
+  down: `
+    ALTER TABLE subtasks DROP COLUMN IF EXISTS verdict;
+    ALTER TABLE subtasks DROP COLUMN IF EXISTS review_round;
+    ALTER TABLE subtasks DROP COLUMN IF EXISTS parent_subtask_id;
+  `,
+};
@@ -0,0 +1,17 @@
+// Retry bookkeeping: failed attempts, the last error and the backoff deadline
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 5,
+  name: 'subtask_retries',
+  up: `
+    ALTER TABLE subtasks ADD COLUMN IF NOT EXISTS attempts INTEGER DEFAULT 0;
+    ALTER TABLE subtasks ADD COLUMN IF NOT EXISTS last_error TEXT;
+    ALTER TABLE subtasks ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP; -- not dispatched again before this time
+  `,
+  down: `
+    ALTER TABLE subtasks DROP COLUMN IF EXISTS next_attempt_at;
+    ALTER TABLE subtasks DROP COLUMN IF EXISTS last_error;
+    ALTER TABLE subtasks DROP COLUMN IF EXISTS attempts;
+  `,
+};
@@ -0,0 +1,18 @@
+// Crash recovery: where agents last stood and how each work session ended
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 6,
+  name: 'crash_recovery',
+  up: `
+    ALTER TABLE agents ADD COLUMN IF NOT EXISTS current_hub VARCHAR(50); -- town map hub key
+    ALTER TABLE work_sessions ADD COLUMN IF NOT EXISTS outcome VARCHAR(20); -- 'completed', 'failed', 'interrupted'
+
+    CREATE INDEX IF NOT EXISTS idx_work_sessions_open ON work_sessions(agent_id) WHERE ended_at IS NULL;
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_work_sessions_open;
+    ALTER TABLE work_sessions DROP COLUMN IF EXISTS outcome;
+    ALTER TABLE agents DROP COLUMN IF EXISTS current_hub;
+  `,
+};
@@ -0,0 +1,36 @@
+// Town map: hubs are keyed by the config's hub ids and synced from config/town-map.json at startup.
+// The old seed rows (Town Hall, Code Forge...) never matched where agents actually stand, so they go.
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 7,
+  name: 'town_map',
+  up: `
+    ALTER TABLE hubs ADD COLUMN IF NOT EXISTS key VARCHAR(50) UNIQUE; -- town map hub id, e.g. 'coding_desk'
+    ALTER TABLE hubs ADD COLUMN IF NOT EXISTS description TEXT;
+
+    UPDATE agents SET current_hub_id = NULL WHERE current_hub_id IN (SELECT id FROM hubs WHERE key IS NULL);
+    UPDATE messages SET hub_id = NULL WHERE hub_id IN (SELECT id FROM hubs WHERE key IS NULL);
+    UPDATE work_sessions SET hub_id = NULL WHERE hub_id IN (SELECT id FROM hubs WHERE key IS NULL);
+    DELETE FROM hubs WHERE key IS NULL;
+  `,
+  down: `
+    UPDATE agents SET current_hub_id = NULL;
+    UPDATE messages SET hub_id = NULL;
+    UPDATE work_sessions SET hub_id = NULL;
+    DELETE FROM hubs;
+
+    ALTER TABLE hubs DROP COLUMN IF EXISTS description;
+    ALTER TABLE hubs DROP COLUMN IF EXISTS key;
+
+    INSERT INTO hubs (name, type, position_x, position_z) VALUES
+        ('Town Hall', 'planning', 0, 0),
+        ('Design Studio', 'design', -15, -15),
+        ('Code Forge', 'coding', 15, -15),
+        ('Review Tower', 'review', 0, -30),
+        ('Market Square', 'general', 0, 15),
+        ('Tavern', 'general', -15, 15),
+        ('Library', 'general', 15, 15)
+    ON CONFLICT (name) DO NOTHING;
+  `,
+};
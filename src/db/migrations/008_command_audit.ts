@@ -0,0 +1,25 @@
+// Command policy: every allow/deny decision and every operator answer to an approval request
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 8,
+  name: 'command_audit',
+  up: `
+    CREATE TABLE IF NOT EXISTS command_audit (
+        id SERIAL PRIMARY KEY,
+        agent_name VARCHAR(100) NOT NULL,
+        task_id INTEGER REFERENCES tasks(id),
+        command TEXT NOT NULL,
+        decision VARCHAR(20) NOT NULL, -- 'allowed', 'denied', 'approved', 'rejected', 'expired'
+        rule VARCHAR(100), -- id of the policy rule that matched, if any
+        reason TEXT,
+        decided_by VARCHAR(100), -- 'policy' or the operator who answered
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_command_audit_task ON command_audit(task_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS command_audit;
+  `,
+};
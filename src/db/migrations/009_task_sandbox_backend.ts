@@ -0,0 +1,13 @@
+// Sandbox backends: a task can run on a backend other than the server's default (SANDBOX_MODE)
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 9,
+  name: 'task_sandbox_backend',
+  up: `
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS sandbox_backend VARCHAR(50); -- registered backend name, NULL for the default
+  `,
+  down: `
+    ALTER TABLE tasks DROP COLUMN IF EXISTS sandbox_backend;
+  `,
+};
@@ -0,0 +1,26 @@
+// Model usage accounting: who made each call, on which provider, and what it cost
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 10,
+  name: 'api_call_accounting',
+  up: `
+    ALTER TABLE api_calls ALTER COLUMN model TYPE VARCHAR(100);
+    ALTER TABLE api_calls ADD COLUMN IF NOT EXISTS subtask_id INTEGER REFERENCES subtasks(id) ON DELETE SET NULL;
+    ALTER TABLE api_calls ADD COLUMN IF NOT EXISTS provider VARCHAR(50) NOT NULL DEFAULT 'unknown';
+    ALTER TABLE api_calls ADD COLUMN IF NOT EXISTS usage_estimated BOOLEAN NOT NULL DEFAULT false; -- no token counts from the provider
+    ALTER TABLE api_calls ADD COLUMN IF NOT EXISTS cost_usd DOUBLE PRECISION; -- NULL when the model has no price
+
+    CREATE INDEX IF NOT EXISTS idx_api_calls_task ON api_calls(task_id);
+    CREATE INDEX IF NOT EXISTS idx_api_calls_created ON api_calls(created_at);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_api_calls_created;
+    DROP INDEX IF EXISTS idx_api_calls_task;
+    ALTER TABLE api_calls DROP COLUMN IF EXISTS cost_usd;
+    ALTER TABLE api_calls DROP COLUMN IF EXISTS usage_estimated;
+    ALTER TABLE api_calls DROP COLUMN IF EXISTS provider;
+    ALTER TABLE api_calls DROP COLUMN IF EXISTS subtask_id;
+    ALTER TABLE api_calls ALTER COLUMN model TYPE VARCHAR(50) USING left(model, 50);
+  `,
+};
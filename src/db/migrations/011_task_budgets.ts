@@ -0,0 +1,15 @@
+// LLM budgets: a task stops issuing model calls once it has used this many tokens or dollars
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 11,
+  name: 'task_budgets',
+  up: `
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS budget_tokens INTEGER; -- NULL for no token limit
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS budget_usd DOUBLE PRECISION; -- NULL for no cost limit
+  `,
+  down: `
+    ALTER TABLE tasks DROP COLUMN IF EXISTS budget_usd;
+    ALTER TABLE tasks DROP COLUMN IF EXISTS budget_tokens;
+  `,
+};
@@ -0,0 +1,13 @@
+// Which budget paused a task, so resuming it re-checks that budget
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 12,
+  name: 'task_budget_breach',
+  up: `
+    ALTER TABLE tasks ADD COLUMN IF NOT EXISTS budget_breach VARCHAR(20); -- 'task' or 'session' while paused, else NULL
+  `,
+  down: `
+    ALTER TABLE tasks DROP COLUMN IF EXISTS budget_breach;
+  `,
+};
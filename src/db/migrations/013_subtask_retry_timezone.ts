@@ -0,0 +1,13 @@
+// Retry deadlines are instants; stored without a zone they read back shifted by the host's offset
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 13,
+  name: 'subtask_retry_timezone',
+  up: `
+    ALTER TABLE subtasks ALTER COLUMN next_attempt_at TYPE TIMESTAMPTZ USING next_attempt_at AT TIME ZONE 'UTC';
+  `,
+  down: `
+    ALTER TABLE subtasks ALTER COLUMN next_attempt_at TYPE TIMESTAMP USING next_attempt_at AT TIME ZONE 'UTC';
+  `,
+};
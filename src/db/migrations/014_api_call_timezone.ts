@@ -0,0 +1,13 @@
+// Usage windows (UTC days, budget periods) are instants, so call times carry their zone
+import type { Migration } from './index.js';
+
+export const migration: Migration = {
+  version: 14,
+  name: 'api_call_timezone',
+  up: `
+    ALTER TABLE api_calls ALTER COLUMN created_at TYPE TIMESTAMPTZ USING created_at; -- written in the server's zone
+  `,
+  down: `
+    ALTER TABLE api_calls ALTER COLUMN created_at TYPE TIMESTAMP USING created_at;
+  `,
+};
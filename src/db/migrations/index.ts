@@ -0,0 +1,160 @@
+// Versioned Postgres migrations and the runner that applies them
+import type { Pool, PoolClient } from 'pg';
+import { migration as initialSchema } from './001_initial_schema.js';
+import { migration as structuredSubtasks } from './002_structured_subtasks.js';
+import { migration as subtaskDependencies } from './003_subtask_dependencies.js';
+import { migration as reviewRounds } from './004_review_rounds.js';
+import { migration as subtaskRetries } from './005_subtask_retries.js';
+import { migration as crashRecovery } from './006_crash_recovery.js';
+import { migration as townMap } from './007_town_map.js';
+import { migration as commandAudit } from './008_command_audit.js';
+import { migration as taskSandboxBackend } from './009_task_sandbox_backend.js';
+import { migration as apiCallAccounting } from './010_api_call_accounting.js';
+import { migration as taskBudgets } from './011_task_budgets.js';
+import { migration as taskBudgetBreach } from './012_task_budget_breach.js';
+import { migration as subtaskRetryTimezone } from './013_subtask_retry_timezone.js';
+import { migration as apiCallTimezone } from './014_api_call_timezone.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: Date | null;
+}
+
+// Append new migrations here; versions must stay contiguous and never be renumbered
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  structuredSubtasks,
+  subtaskDependencies,
+  reviewRounds,
+  subtaskRetries,
+  crashRecovery,
+  townMap,
+  commandAudit,
+  taskSandboxBackend,
+  apiCallAccounting,
+  taskBudgets,
+  taskBudgetBreach,
+  subtaskRetryTimezone,
+  apiCallTimezone,
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Arbitrary key so concurrent boots don't migrate the same database twice
+const MIGRATION_LOCK_ID = 7_312_024;
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+async function ensureMigrationsTable(db: Queryable): Promise<void> {
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+async function getAppliedVersions(db: Queryable): Promise<Map<number, Date>> {
+  const result = await db.query<{ version: number; applied_at: Date }>(
+    'SELECT version, applied_at FROM schema_migrations ORDER BY version'
+  );
+  return new Map(result.rows.map((row) => [row.version, row.applied_at]));
+}
+
+// Run one migration step and its bookkeeping in a single transaction
+async function runStep(client: Queryable, migration: Migration, direction: 'up' | 'down'): Promise<void> {
+  try {
+    await client.query('BEGIN');
+    await client.query(migration[direction]);
+    if (direction === 'up') {
+      await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [
+        migration.version,
+        migration.name,
+      ]);
+    } else {
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw new Error(
+      `Migration ${migration.version}_${migration.name} (${direction}) failed: ${(error as Error).message}`
+    );
+  }
+}
+
+// Advisory locks are per connection, so hold one client for the whole run
+async function withMigrationLock<T>(pool: Pool, fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    try {
+      return await fn(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+// Refuse to run against a database migrated by newer code: its schema may not match our queries
+export async function assertSchemaNotAhead(db: Queryable): Promise<void> {
+  await ensureMigrationsTable(db);
+  const applied = await getAppliedVersions(db);
+  const unknown = [...applied.keys()].filter((version) => version > LATEST_VERSION);
+
+  if (unknown.length > 0) {
+    throw new Error(
+      `Database schema is at version ${Math.max(...unknown)} but this build only knows up to ${LATEST_VERSION}. ` +
+        'Deploy the newer code, or roll the database back using that code\'s "db:rollback".'
+    );
+  }
+}
+
+// Apply every pending migration up to (and including) the target version
+export async function migrateUp(pool: Pool, target = LATEST_VERSION): Promise<Migration[]> {
+  return withMigrationLock(pool, async (client) => {
+    await assertSchemaNotAhead(client);
+    const applied = await getAppliedVersions(client);
+    const pending = MIGRATIONS.filter((m) => m.version <= target && !applied.has(m.version));
+
+    for (const migration of pending) {
+      console.log(`Migration: applying ${migration.version}_${migration.name}`);
+      await runStep(client, migration, 'up');
+    }
+    return pending;
+  });
+}
+
+// Roll back the most recently applied migrations, newest first
+export async function migrateDown(pool: Pool, steps = 1): Promise<Migration[]> {
+  return withMigrationLock(pool, async (client) => {
+    await assertSchemaNotAhead(client);
+    const applied = await getAppliedVersions(client);
+    const toRevert = MIGRATIONS.filter((m) => applied.has(m.version))
+      .reverse()
+      .slice(0, steps);
+
+    for (const migration of toRevert) {
+      console.log(`Migration: reverting ${migration.version}_${migration.name}`);
+      await runStep(client, migration, 'down');
+    }
+    return toRevert;
+  });
+}
+
+export async function getMigrationStatus(db: Queryable): Promise<MigrationStatus[]> {
+  await ensureMigrationsTable(db);
+  const applied = await getAppliedVersions(db);
+  return MIGRATIONS.map((m) => ({ version: m.version, name: m.name, appliedAt: applied.get(m.version) || null }));
+}
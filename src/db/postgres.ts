@@ -0,0 +1,639 @@
+// PostgreSQL store backend
+import pg from 'pg';
+import { migrateUp, LATEST_VERSION } from './migrations/index.js';
+import type {
+  Agent,
+  Hub,
+  HubDefinition,
+  Task,
+  Subtask,
+  Message,
+  WorkSession,
+  ApiCall,
+  NewApiCall,
+  UsageFilter,
+  UsageTotals,
+  UsageReport,
+  CommandAuditEntry,
+  NewCommandAuditEntry,
+  CommandAuditFilter,
+  TaskBudget,
+  AgentUpdateFields,
+} from './store.js';
+
+const { Pool } = pg;
+
+const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+  ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
+});
+
+// Apply pending migrations; migrateUp refuses to boot against a database migrated by newer code
+export async function initialize(): Promise<void> {
+  try {
+    const applied = await migrateUp(pool);
+    console.log(
+      applied.length > 0
+        ? `Database schema migrated to version ${LATEST_VERSION} (${applied.length} migration(s) applied)`
+        : `Database schema is up to date (version ${LATEST_VERSION})`
+    );
+  } catch (error) {
+    console.error('Database initialization error:', error);
+    throw error;
+  }
+}
+
+interface QueryResult<T> {
+  rows: T[];
+  rowCount: number | null;
+}
+
+export async function query<T = Record<string, unknown>>(
+  text: string,
+  params?: (string | number | boolean | null | undefined)[]
+): Promise<QueryResult<T>> {
+  const start = Date.now();
+  const result = await pool.query<T>(text, params);
+  const duration = Date.now() - start;
+  console.log('Executed query', { text: text.substring(0, 50), duration, rows: result.rowCount });
+  return result;
+}
+
+// Agent queries
+export async function getAgents(): Promise<Agent[]> {
+  const result = await query<Agent>('SELECT * FROM agents ORDER BY id');
+  return result.rows;
+}
+
+export async function getAgent(id: number): Promise<Agent | undefined> {
+  const result = await query<Agent>('SELECT * FROM agents WHERE id = $1', [id]);
+  return result.rows[0];
+}
+
+export async function updateAgentStatus(
+  id: number,
+  status: string,
+  hubId: number | null = null,
+  positionX: number | null = null,
+  positionZ: number | null = null
+): Promise<Agent | undefined> {
+  const updates = ['status = $2', 'updated_at = CURRENT_TIMESTAMP'];
+  const params: (number | string | null)[] = [id, status];
+  let paramIndex = 3;
+
+  if (hubId !== null) {
+    updates.push(`current_hub_id = $${paramIndex++}`);
+    params.push(hubId);
+  }
+  if (positionX !== null) {
+    updates.push(`position_x = $${paramIndex++}`);
+    params.push(positionX);
+  }
+  if (positionZ !== null) {
+    updates.push(`position_z = $${paramIndex++}`);
+    params.push(positionZ);
+  }
+
+  const result = await query<Agent>(
+    `UPDATE agents SET ${updates.join(', ')} WHERE id = $1 RETURNING *`,
+    params
+  );
+  return result.rows[0];
+}
+
+// Persist where an agent is standing so a restart puts it back there
+export async function updateAgentLocation(
+  id: number,
+  hub: string,
+  positionX: number,
+  positionZ: number
+): Promise<void> {
+  await query(
+    `UPDATE agents SET current_hub = $2, position_x = $3, position_z = $4,
+       current_hub_id = (SELECT id FROM hubs WHERE key = $2), updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1`,
+    [id, hub, positionX, positionZ]
+  );
+}
+
+export async function createAgent(
+  name: string,
+  type: string,
+  modelId: string,
+  personality: string,
+  capabilities: string
+): Promise<Agent> {
+  const result = await query<Agent>(
+    `INSERT INTO agents (name, type, model_id, personality, capabilities)
+     VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+    [name, type, modelId, personality, capabilities]
+  );
+  return result.rows[0];
+}
+
+export async function updateAgent(id: number, updates: AgentUpdateFields): Promise<Agent | undefined> {
+  const fields: string[] = [];
+  const params: (number | string)[] = [id];
+  let paramIndex = 2;
+
+  if (updates.name !== undefined) {
+    fields.push(`name = $${paramIndex++}`);
+    params.push(updates.name);
+  }
+  if (updates.type !== undefined) {
+    fields.push(`type = $${paramIndex++}`);
+    params.push(updates.type);
+  }
+  if (updates.model_id !== undefined) {
+    fields.push(`model_id = $${paramIndex++}`);
+    params.push(updates.model_id);
+  }
+  if (updates.personality !== undefined) {
+    fields.push(`personality = $${paramIndex++}`);
+    params.push(updates.personality);
+  }
+  if (updates.capabilities !== undefined) {
+    fields.push(`capabilities = $${paramIndex++}`);
+    params.push(updates.capabilities);
+  }
+
+  if (fields.length === 0) {
+    return getAgent(id);
+  }
+
+  fields.push('updated_at = CURRENT_TIMESTAMP');
+
+  const result = await query<Agent>(
+    `UPDATE agents SET ${fields.join(', ')} WHERE id = $1 RETURNING *`,
+    params
+  );
+  return result.rows[0];
+}
+
+// Hub queries
+export async function getHubs(): Promise<Hub[]> {
+  const result = await query<Hub>('SELECT * FROM hubs ORDER BY id');
+  return result.rows;
+}
+
+export async function getHub(id: number): Promise<Hub | undefined> {
+  const result = await query<Hub>('SELECT * FROM hubs WHERE id = $1', [id]);
+  return result.rows[0];
+}
+
+export async function getHubByName(name: string): Promise<Hub | undefined> {
+  const result = await query<Hub>('SELECT * FROM hubs WHERE name = $1', [name]);
+  return result.rows[0];
+}
+
+export async function getHubByKey(key: string): Promise<Hub | undefined> {
+  const result = await query<Hub>('SELECT * FROM hubs WHERE key = $1', [key]);
+  return result.rows[0];
+}
+
+// Make the hubs table match the town map: upsert by key, drop hubs the map no longer has
+export async function syncHubs(hubs: HubDefinition[]): Promise<Hub[]> {
+  const keys = hubs.map((hub) => hub.key);
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    // Removed hubs may still be referenced; forget those references rather than keep a stale hub
+    const stale = 'SELECT id FROM hubs WHERE key IS NULL OR key <> ALL($1::text[])';
+    await client.query(`UPDATE agents SET current_hub_id = NULL WHERE current_hub_id IN (${stale})`, [keys]);
+    await client.query(`UPDATE messages SET hub_id = NULL WHERE hub_id IN (${stale})`, [keys]);
+    await client.query(`UPDATE work_sessions SET hub_id = NULL WHERE hub_id IN (${stale})`, [keys]);
+    await client.query(`DELETE FROM hubs WHERE id IN (${stale})`, [keys]);
+
+    for (const hub of hubs) {
+      await client.query(
+        `INSERT INTO hubs (key, name, description, type, position_x, position_z, capacity)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (key) DO UPDATE SET
+           name = EXCLUDED.name, description = EXCLUDED.description, type = EXCLUDED.type,
+           position_x = EXCLUDED.position_x, position_z = EXCLUDED.position_z, capacity = EXCLUDED.capacity`,
+        [hub.key, hub.name, hub.description, hub.type, hub.position_x, hub.position_z, hub.capacity]
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return getHubs();
+}
+
+// Task queries
+export async function getTasks(status: string | null = null, sessionId: string | null = null): Promise<Task[]> {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  let paramIndex = 1;
+
+  if (status) {
+    conditions.push(`status = $${paramIndex++}`);
+    params.push(status);
+  }
+  if (sessionId) {
+    conditions.push(`session_id = $${paramIndex++}`);
+    params.push(sessionId);
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const result = await query<Task>(`SELECT * FROM tasks ${whereClause} ORDER BY priority, created_at`, params);
+  return result.rows;
+}
+
+export async function getTask(id: number): Promise<Task | undefined> {
+  const result = await query<Task>('SELECT * FROM tasks WHERE id = $1', [id]);
+  return result.rows[0];
+}
+
+export async function createTask(
+  title: string,
+  description: string | null,
+  priority = 5,
+  sessionId: string | null = null,
+  sandboxBackend: string | null = null,
+  budget: TaskBudget | null = null,
+  status = 'pending'
+): Promise<Task> {
+  const result = await query<Task>(
+    `INSERT INTO tasks (title, description, priority, session_id, sandbox_backend, budget_tokens, budget_usd, status)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+    [title, description, priority, sessionId, sandboxBackend, budget?.tokens ?? null, budget?.costUsd ?? null, status]
+  );
+  return result.rows[0];
+}
+
+export async function updateTaskStatus(
+  id: number,
+  status: string,
+  assignedAgentId: number | null = null
+): Promise<Task | undefined> {
+  const updates = ['status = $2', 'updated_at = CURRENT_TIMESTAMP'];
+  const params: (number | string | null)[] = [id, status];
+
+  if (assignedAgentId !== null) {
+    updates.push('assigned_agent_id = $3');
+    params.push(assignedAgentId);
+  }
+
+  if (status === 'completed') {
+    updates.push('completed_at = CURRENT_TIMESTAMP');
+  }
+
+  const result = await query<Task>(
+    `UPDATE tasks SET ${updates.join(', ')} WHERE id = $1 RETURNING *`,
+    params
+  );
+  return result.rows[0];
+}
+
+export async function setTaskBudget(id: number, budget: TaskBudget): Promise<Task | undefined> {
+  const result = await query<Task>(
+    `UPDATE tasks SET budget_tokens = $2, budget_usd = $3, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1 RETURNING *`,
+    [id, budget.tokens, budget.costUsd]
+  );
+  return result.rows[0];
+}
+
+export async function setTaskBudgetBreach(id: number, scope: string | null): Promise<Task | undefined> {
+  const result = await query<Task>(
+    'UPDATE tasks SET budget_breach = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *',
+    [id, scope]
+  );
+  return result.rows[0];
+}
+
+// Subtask queries
+export async function getSubtasks(taskId: number): Promise<Subtask[]> {
+  const result = await query<Subtask>(
+    `SELECT s.*,
+       COALESCE(array_agg(d.depends_on_subtask_id) FILTER (WHERE d.depends_on_subtask_id IS NOT NULL), '{}') AS depends_on
+     FROM subtasks s
+     LEFT JOIN subtask_dependencies d ON d.subtask_id = s.id
+     WHERE s.task_id = $1
+     GROUP BY s.id
+     ORDER BY s.order_index`,
+    [taskId]
+  );
+  return result.rows;
+}
+
+export async function createSubtask(
+  taskId: number,
+  title: string,
+  description: string | null,
+  orderIndex: number,
+  role: string | null = null,
+  acceptanceCriteria: string | null = null,
+  estimatedEffort: string | null = null,
+  parentSubtaskId: number | null = null,
+  reviewRound = 0
+): Promise<Subtask> {
+  const result = await query<Subtask>(
+    `INSERT INTO subtasks (task_id, title, description, order_index, role, acceptance_criteria, estimated_effort,
+       parent_subtask_id, review_round)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *`,
+    [taskId, title, description, orderIndex, role, acceptanceCriteria, estimatedEffort, parentSubtaskId, reviewRound]
+  );
+  return { ...result.rows[0], depends_on: [] };
+}
+
+export async function addSubtaskDependencies(subtaskId: number, dependsOnIds: number[]): Promise<void> {
+  for (const dependsOnId of dependsOnIds) {
+    await query(
+      `INSERT INTO subtask_dependencies (subtask_id, depends_on_subtask_id)
+       VALUES ($1, $2) ON CONFLICT DO NOTHING`,
+      [subtaskId, dependsOnId]
+    );
+  }
+}
+
+export async function updateSubtaskStatus(
+  id: number,
+  status: string,
+  output: string | null = null
+): Promise<Subtask | undefined> {
+  const updates = ['status = $2', 'updated_at = CURRENT_TIMESTAMP'];
+  const params: (number | string | null)[] = [id, status];
+
+  if (output !== null) {
+    updates.push('output = $3');
+    params.push(output);
+  }
+
+  if (status === 'completed') {
+    updates.push('completed_at = CURRENT_TIMESTAMP');
+  }
+
+  const result = await query<Subtask>(
+    `UPDATE subtasks SET ${updates.join(', ')} WHERE id = $1 RETURNING *`,
+    params
+  );
+  return result.rows[0];
+}
+
+// Count a failed attempt; a retry time puts the subtask back in the queue, otherwise it fails for good
+export async function recordSubtaskAttemptFailure(
+  id: number,
+  error: string,
+  retryAt: Date | null
+): Promise<Subtask | undefined> {
+  const result = await query<Subtask>(
+    `UPDATE subtasks
+     SET attempts = attempts + 1, last_error = $2, next_attempt_at = $3::timestamptz,
+         status = CASE WHEN $3::timestamptz IS NULL THEN 'failed' ELSE 'pending' END,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1 RETURNING *`,
+    [id, error, retryAt ? retryAt.toISOString() : null]
+  );
+  return result.rows[0];
+}
+
+// Put subtasks that were in flight when the server stopped back in the queue
+export async function requeueInProgressSubtasks(): Promise<Subtask[]> {
+  const result = await query<Subtask>(
+    `UPDATE subtasks SET status = 'pending', updated_at = CURRENT_TIMESTAMP
+     WHERE status = 'in_progress' RETURNING *`
+  );
+  return result.rows;
+}
+
+// Tasks whose planner was interrupted before creating any subtasks go back to the planner
+export async function requeueUnplannedTasks(): Promise<Task[]> {
+  const result = await query<Task>(
+    `UPDATE tasks SET status = 'pending', updated_at = CURRENT_TIMESTAMP
+     WHERE status = 'in_progress'
+       AND NOT EXISTS (SELECT 1 FROM subtasks s WHERE s.task_id = tasks.id)
+     RETURNING *`
+  );
+  return result.rows;
+}
+
+export async function setSubtaskVerdict(id: number, verdict: string): Promise<void> {
+  await query(`UPDATE subtasks SET verdict = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [id, verdict]);
+}
+
+export async function cancelPendingSubtasks(taskId: number): Promise<number> {
+  const result = await query(
+    `UPDATE subtasks SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+     WHERE task_id = $1 AND status = 'pending'`,
+    [taskId]
+  );
+  return result.rowCount ?? 0;
+}
+
+// Message queries
+export async function createMessage(
+  agentId: number,
+  type: string,
+  content: string,
+  taskId: number | null = null,
+  subtaskId: number | null = null,
+  targetAgentId: number | null = null,
+  hubId: string | null = null
+): Promise<Message> {
+  const result = await query<Message>(
+    `INSERT INTO messages (agent_id, type, content, task_id, subtask_id, target_agent_id, hub_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+    [agentId, type, content, taskId, subtaskId, targetAgentId, hubId]
+  );
+  return result.rows[0];
+}
+
+export async function getRecentMessages(limit = 50): Promise<Message[]> {
+  const result = await query<Message>(
+    `SELECT m.*, a.name as agent_name, a.type as agent_type
+     FROM messages m
+     JOIN agents a ON m.agent_id = a.id
+     ORDER BY m.created_at DESC LIMIT $1`,
+    [limit]
+  );
+  return result.rows;
+}
+
+// Work session queries
+export async function startWorkSession(
+  agentId: number,
+  taskId: number | null,
+  subtaskId: number | null,
+  notes: string | null = null
+): Promise<WorkSession> {
+  const result = await query<WorkSession>(
+    `INSERT INTO work_sessions (agent_id, task_id, subtask_id, notes)
+     VALUES ($1, $2, $3, $4) RETURNING *`,
+    [agentId, taskId, subtaskId, notes]
+  );
+  return result.rows[0];
+}
+
+export async function endWorkSession(id: number, outcome: string): Promise<void> {
+  await query(
+    `UPDATE work_sessions SET ended_at = CURRENT_TIMESTAMP, outcome = $2 WHERE id = $1 AND ended_at IS NULL`,
+    [id, outcome]
+  );
+}
+
+// Close every session still open (after a restart nothing can be running)
+export async function closeOpenWorkSessions(outcome: string): Promise<WorkSession[]> {
+  const result = await query<WorkSession>(
+    `UPDATE work_sessions SET ended_at = CURRENT_TIMESTAMP, outcome = $1
+     WHERE ended_at IS NULL RETURNING *`,
+    [outcome]
+  );
+  return result.rows;
+}
+
+// API call logging
+export async function logApiCall(call: NewApiCall): Promise<ApiCall> {
+  const result = await query<ApiCall>(
+    `INSERT INTO api_calls (agent_id, task_id, subtask_id, provider, model, input_tokens, output_tokens,
+                            usage_estimated, cost_usd, prompt_summary, response_summary, duration_ms)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12) RETURNING *`,
+    [
+      call.agent_id,
+      call.task_id,
+      call.subtask_id,
+      call.provider,
+      call.model,
+      call.input_tokens,
+      call.output_tokens,
+      call.usage_estimated,
+      call.cost_usd,
+      call.prompt_summary,
+      call.response_summary,
+      call.duration_ms,
+    ]
+  );
+  return result.rows[0];
+}
+
+// Sums come back as bigint strings unless cast; float8 keeps them JS numbers
+const USAGE_TOTALS = `
+  COUNT(*)::int AS calls,
+  COALESCE(SUM(c.input_tokens), 0)::float8 AS input_tokens,
+  COALESCE(SUM(c.output_tokens), 0)::float8 AS output_tokens,
+  COALESCE(SUM(c.cost_usd), 0)::float8 AS cost_usd,
+  (COUNT(*) FILTER (WHERE c.cost_usd IS NULL))::int AS unpriced_calls,
+  COALESCE(ROUND(AVG(c.duration_ms)), 0)::int AS avg_duration_ms`;
+
+function usageWhere({ agentId, taskId, sessionId, since, until }: UsageFilter): {
+  whereClause: string;
+  params: Array<string | number>;
+} {
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+  let paramIndex = 1;
+
+  if (agentId !== undefined) {
+    conditions.push(`c.agent_id = $${paramIndex++}`);
+    params.push(agentId);
+  }
+  if (taskId !== undefined) {
+    conditions.push(`c.task_id = $${paramIndex++}`);
+    params.push(taskId);
+  }
+  if (sessionId !== undefined) {
+    conditions.push(`c.task_id IN (SELECT id FROM tasks WHERE session_id = $${paramIndex++})`);
+    params.push(sessionId);
+  }
+  if (since) {
+    conditions.push(`c.created_at >= $${paramIndex++}::timestamptz`);
+    params.push(since.toISOString());
+  }
+  if (until) {
+    conditions.push(`c.created_at < $${paramIndex++}::timestamptz`);
+    params.push(until.toISOString());
+  }
+
+  return { whereClause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+export async function getUsage(filter: UsageFilter = {}): Promise<UsageReport> {
+  const { whereClause, params } = usageWhere(filter);
+  const byCost = 'ORDER BY cost_usd DESC, calls DESC';
+  const [totals, byAgent, byTask, byModel, byDay] = await Promise.all([
+    query<UsageTotals>(`SELECT ${USAGE_TOTALS} FROM api_calls c ${whereClause}`, params),
+    query<UsageReport['by_agent'][number]>(
+      `SELECT c.agent_id, a.name AS agent_name, ${USAGE_TOTALS}
+       FROM api_calls c LEFT JOIN agents a ON a.id = c.agent_id
+       ${whereClause} GROUP BY c.agent_id, a.name ${byCost}`,
+      params
+    ),
+    query<UsageReport['by_task'][number]>(
+      `SELECT c.task_id, t.title AS task_title, ${USAGE_TOTALS}
+       FROM api_calls c LEFT JOIN tasks t ON t.id = c.task_id
+       ${whereClause} GROUP BY c.task_id, t.title ${byCost}`,
+      params
+    ),
+    query<UsageReport['by_model'][number]>(
+      `SELECT c.provider, c.model, ${USAGE_TOTALS}
+       FROM api_calls c ${whereClause} GROUP BY c.provider, c.model ${byCost}`,
+      params
+    ),
+    query<UsageReport['by_day'][number]>(
+      `SELECT to_char(c.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS day, ${USAGE_TOTALS}
+       FROM api_calls c ${whereClause} GROUP BY day ORDER BY day`,
+      params
+    ),
+  ]);
+
+  return {
+    totals: totals.rows[0],
+    by_agent: byAgent.rows,
+    by_task: byTask.rows,
+    by_model: byModel.rows,
+    by_day: byDay.rows,
+  };
+}
+
+export async function getUsageTotals(filter: UsageFilter = {}): Promise<UsageTotals> {
+  const { whereClause, params } = usageWhere(filter);
+  const result = await query<UsageTotals>(`SELECT ${USAGE_TOTALS} FROM api_calls c ${whereClause}`, params);
+  return result.rows[0];
+}
+
+// Command audit log
+export async function logCommandDecision(entry: NewCommandAuditEntry): Promise<CommandAuditEntry> {
+  const result = await query<CommandAuditEntry>(
+    `INSERT INTO command_audit (agent_name, task_id, command, decision, rule, reason, decided_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+    [entry.agent_name, entry.task_id, entry.command, entry.decision, entry.rule, entry.reason, entry.decided_by]
+  );
+  return result.rows[0];
+}
+
+export async function getCommandAudit({ agentName, taskId, limit = 100 }: CommandAuditFilter = {}): Promise<CommandAuditEntry[]> {
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+  let paramIndex = 1;
+
+  if (agentName !== undefined) {
+    conditions.push(`agent_name = $${paramIndex++}`);
+    params.push(agentName);
+  }
+  if (taskId !== undefined) {
+    conditions.push(`task_id = $${paramIndex++}`);
+    params.push(taskId);
+  }
+  params.push(limit);
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const result = await query<CommandAuditEntry>(
+    `SELECT * FROM command_audit ${whereClause} ORDER BY created_at DESC, id DESC LIMIT $${paramIndex}`,
+    params
+  );
+  return result.rows;
+}
+
+export async function close(): Promise<void> {
+  await pool.end();
+}
+
+export default pool;
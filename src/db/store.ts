@@ -0,0 +1,274 @@
+// Row types and the storage interface shared by every database backend
+
+export interface Agent {
+  id: number;
+  name: string;
+  type: string;
+  model_id: string;
+  personality: string;
+  capabilities: string;
+  status: string;
+  current_hub_id: number | null;
+  current_hub: string | null;
+  position_x: number | null;
+  position_z: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface Hub {
+  id: number;
+  key: string; // town map hub id, e.g. 'coding_desk'
+  name: string;
+  description: string | null;
+  type: string;
+  position_x: number;
+  position_z: number;
+  capacity: number;
+  created_at: Date;
+}
+
+// One hub as the town map defines it; syncHubs makes the hubs table match a list of these
+export type HubDefinition = Omit<Hub, 'id' | 'created_at'>;
+
+export interface Task {
+  id: number;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: number;
+  assigned_agent_id: number | null;
+  session_id: string | null;
+  /** Sandbox backend the task's workspace runs on; null for the default */
+  sandbox_backend: string | null;
+  /** Model usage limits; null for no limit */
+  budget_tokens: number | null;
+  budget_usd: number | null;
+  /** Budget scope ('task' or 'session') that paused the task; null unless paused over budget */
+  budget_breach: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+export interface Subtask {
+  id: number;
+  task_id: number;
+  title: string;
+  description: string | null;
+  status: string;
+  order_index: number;
+  role: string | null;
+  acceptance_criteria: string | null;
+  estimated_effort: string | null;
+  parent_subtask_id: number | null;
+  review_round: number;
+  verdict: string | null;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: Date | null;
+  depends_on: number[];
+  output: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+export interface Message {
+  id: number;
+  agent_id: number;
+  type: string;
+  content: string;
+  task_id: number | null;
+  subtask_id: number | null;
+  target_agent_id: number | null;
+  hub_id: string | null;
+  created_at: Date;
+  agent_name?: string;
+  agent_type?: string;
+}
+
+export interface WorkSession {
+  id: number;
+  agent_id: number;
+  task_id: number | null;
+  subtask_id: number | null;
+  hub_id: number | null;
+  started_at: Date;
+  ended_at: Date | null;
+  outcome: string | null;
+  notes: string | null;
+}
+
+export interface ApiCall {
+  id: number;
+  agent_id: number | null;
+  task_id: number | null;
+  subtask_id: number | null;
+  provider: string; // model plugin that served the call, e.g. 'openai'
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  usage_estimated: boolean; // provider reported no token counts, so they were estimated from text length
+  cost_usd: number | null; // null when the model has no entry in the price table
+  prompt_summary: string;
+  response_summary: string;
+  duration_ms: number;
+  created_at: Date;
+}
+
+export type NewApiCall = Omit<ApiCall, 'id' | 'created_at'>;
+
+export interface UsageFilter {
+  agentId?: number;
+  taskId?: number;
+  sessionId?: string; // calls made for tasks created in this browser session
+  since?: Date; // inclusive
+  until?: Date; // exclusive
+}
+
+export interface UsageTotals {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number; // priced calls only
+  unpriced_calls: number;
+  avg_duration_ms: number;
+}
+
+// Groups are ordered by cost, most expensive first; days run oldest first
+export interface UsageReport {
+  totals: UsageTotals;
+  by_agent: Array<UsageTotals & { agent_id: number | null; agent_name: string | null }>;
+  by_task: Array<UsageTotals & { task_id: number | null; task_title: string | null }>;
+  by_model: Array<UsageTotals & { provider: string; model: string }>;
+  by_day: Array<UsageTotals & { day: string }>; // YYYY-MM-DD
+}
+
+export interface CommandAuditEntry {
+  id: number;
+  agent_name: string;
+  task_id: number | null;
+  command: string;
+  decision: string; // 'allowed', 'denied', 'approved', 'rejected', 'expired'
+  rule: string | null;
+  reason: string | null;
+  decided_by: string | null; // 'policy' or the operator who answered an approval request
+  created_at: Date;
+}
+
+export type NewCommandAuditEntry = Omit<CommandAuditEntry, 'id' | 'created_at'>;
+
+export interface CommandAuditFilter {
+  agentName?: string;
+  taskId?: number;
+  limit?: number;
+}
+
+export interface TaskBudget {
+  tokens: number | null;
+  costUsd: number | null;
+}
+
+export interface AgentUpdateFields {
+  name?: string;
+  type?: string;
+  model_id?: string;
+  personality?: string;
+  capabilities?: string;
+}
+
+// Every persistence backend (Postgres, in-memory) implements this surface
+export interface Store {
+  initialize(): Promise<void>;
+  close(): Promise<void>;
+
+  // Agents
+  getAgents(): Promise<Agent[]>;
+  getAgent(id: number): Promise<Agent | undefined>;
+  updateAgentStatus(
+    id: number,
+    status: string,
+    hubId?: number | null,
+    positionX?: number | null,
+    positionZ?: number | null
+  ): Promise<Agent | undefined>;
+  updateAgentLocation(id: number, hub: string, positionX: number, positionZ: number): Promise<void>;
+  createAgent(name: string, type: string, modelId: string, personality: string, capabilities: string): Promise<Agent>;
+  updateAgent(id: number, updates: AgentUpdateFields): Promise<Agent | undefined>;
+
+  // Hubs
+  getHubs(): Promise<Hub[]>;
+  getHub(id: number): Promise<Hub | undefined>;
+  getHubByName(name: string): Promise<Hub | undefined>;
+  getHubByKey(key: string): Promise<Hub | undefined>;
+  syncHubs(hubs: HubDefinition[]): Promise<Hub[]>;
+
+  // Tasks
+  getTasks(status?: string | null, sessionId?: string | null): Promise<Task[]>;
+  getTask(id: number): Promise<Task | undefined>;
+  createTask(
+    title: string,
+    description: string | null,
+    priority?: number,
+    sessionId?: string | null,
+    sandboxBackend?: string | null,
+    budget?: TaskBudget | null,
+    status?: string
+  ): Promise<Task>;
+  updateTaskStatus(id: number, status: string, assignedAgentId?: number | null): Promise<Task | undefined>;
+  setTaskBudget(id: number, budget: TaskBudget): Promise<Task | undefined>;
+  setTaskBudgetBreach(id: number, scope: string | null): Promise<Task | undefined>;
+  requeueUnplannedTasks(): Promise<Task[]>;
+
+  // Subtasks
+  getSubtasks(taskId: number): Promise<Subtask[]>;
+  createSubtask(
+    taskId: number,
+    title: string,
+    description: string | null,
+    orderIndex: number,
+    role?: string | null,
+    acceptanceCriteria?: string | null,
+    estimatedEffort?: string | null,
+    parentSubtaskId?: number | null,
+    reviewRound?: number
+  ): Promise<Subtask>;
+  addSubtaskDependencies(subtaskId: number, dependsOnIds: number[]): Promise<void>;
+  updateSubtaskStatus(id: number, status: string, output?: string | null): Promise<Subtask | undefined>;
+  recordSubtaskAttemptFailure(id: number, error: string, retryAt: Date | null): Promise<Subtask | undefined>;
+  requeueInProgressSubtasks(): Promise<Subtask[]>;
+  setSubtaskVerdict(id: number, verdict: string): Promise<void>;
+  cancelPendingSubtasks(taskId: number): Promise<number>;
+
+  // Messages
+  createMessage(
+    agentId: number,
+    type: string,
+    content: string,
+    taskId?: number | null,
+    subtaskId?: number | null,
+    targetAgentId?: number | null,
+    hubId?: string | null
+  ): Promise<Message>;
+  getRecentMessages(limit?: number): Promise<Message[]>;
+
+  // Work sessions
+  startWorkSession(
+    agentId: number,
+    taskId: number | null,
+    subtaskId: number | null,
+    notes?: string | null
+  ): Promise<WorkSession>;
+  endWorkSession(id: number, outcome: string): Promise<void>;
+  closeOpenWorkSessions(outcome: string): Promise<WorkSession[]>;
+
+  // API calls (model usage and cost accounting)
+  logApiCall(call: NewApiCall): Promise<ApiCall>;
+  getUsage(filter?: UsageFilter): Promise<UsageReport>;
+  getUsageTotals(filter?: UsageFilter): Promise<UsageTotals>;
+
+  // Command audit log (newest first)
+  logCommandDecision(entry: NewCommandAuditEntry): Promise<CommandAuditEntry>;
+  getCommandAudit(filter?: CommandAuditFilter): Promise<CommandAuditEntry[]>;
+}
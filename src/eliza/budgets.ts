@@ -0,0 +1,322 @@
+/**
+ * LLM Budgets for Eliza Town
+ *
+ * Caps model spend, metered in the api_calls table (modelUsage.ts), in tokens
+ * and/or dollars at three levels: each task (its own budget, or the default
+ * for new tasks), each agent per UTC day, and each browser session per UTC
+ * day. Limits come from config/budgets.json (or BUDGETS_PATH) and operators
+ * can raise them at runtime through the API; runtime changes last until the
+ * server restarts. Budgets are checked before an agent decision is issued,
+ * so the decision that crosses a limit still finishes.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { UsageFilter } from '../db/store.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const DEFAULT_BUDGETS_PATH = path.join(__dirname, '../../config/budgets.json');
+
+// Type definitions
+export type BudgetScope = 'task' | 'agent' | 'session';
+
+export interface BudgetLimit {
+  /** Input plus output tokens; null for no limit */
+  tokens: number | null;
+  /** USD; null for no limit */
+  costUsd: number | null;
+}
+
+export interface BudgetConfig {
+  /** Budget for new tasks created without one */
+  task: BudgetLimit;
+  /** Daily budget of every agent without its own entry in agents */
+  agentDaily: BudgetLimit;
+  /** Daily budget of every session without its own entry in sessions */
+  sessionDaily: BudgetLimit;
+  /** Daily budgets by agent name */
+  agents: Record<string, BudgetLimit>;
+  /** Daily budgets by session id */
+  sessions: Record<string, BudgetLimit>;
+}
+
+export interface BudgetSpend {
+  tokens: number;
+  costUsd: number;
+}
+
+export interface BudgetBreach {
+  scope: BudgetScope;
+  /** Task id, agent name or session id */
+  key: string;
+  limit: BudgetLimit;
+  spent: BudgetSpend;
+  reason: string;
+}
+
+export interface BudgetRequest {
+  /** Agent name, or null to check only the task and its session */
+  agent: string | null;
+  agentDbId: number | null;
+  taskId: number | null;
+  /** Budgets to check; all of them when omitted */
+  scopes?: BudgetScope[];
+}
+
+/**
+ * Thrown instead of issuing an agent decision once a budget is used up
+ */
+export class BudgetExceededError extends Error {
+  constructor(readonly breach: BudgetBreach) {
+    super(breach.reason);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+interface BudgetHooks {
+  db: typeof import('../db/index.js') | null;
+}
+
+const UNLIMITED: BudgetLimit = { tokens: null, costUsd: null };
+
+function validateLimit(value: unknown, label: string, errors: string[]): BudgetLimit {
+  if (value === undefined || value === null) return { ...UNLIMITED };
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${label} must be an object with "tokens" and/or "costUsd"`);
+    return { ...UNLIMITED };
+  }
+
+  const raw = value as Record<string, unknown>;
+  for (const field of ['tokens', 'costUsd']) {
+    const amount = raw[field];
+    if (amount !== undefined && amount !== null && (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0)) {
+      errors.push(`${label}: "${field}" must be a non-negative number or null`);
+    }
+  }
+  return {
+    tokens: typeof raw.tokens === 'number' ? raw.tokens : null,
+    costUsd: typeof raw.costUsd === 'number' ? raw.costUsd : null,
+  };
+}
+
+function validateLimits(value: unknown, label: string, errors: string[]): Record<string, BudgetLimit> {
+  if (value === undefined) return {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`"${label}" must be an object`);
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, limit]) => [key, validateLimit(limit, `${label} "${key}"`, errors)])
+  );
+}
+
+/**
+ * Check a single limit ({ tokens?, costUsd? }), e.g. a task budget from the API
+ */
+export function validateBudgetLimit(value: unknown, source = 'budget'): BudgetLimit {
+  const errors: string[] = [];
+  const limit = validateLimit(value, source, errors);
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${errors.join('; ')}`);
+  }
+  return limit;
+}
+
+/**
+ * Check a parsed budgets file and return it typed, or throw listing every problem
+ */
+export function validateBudgets(value: unknown, source = 'budgets'): BudgetConfig {
+  const errors: string[] = [];
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+
+  const config: BudgetConfig = {
+    task: validateLimit(raw.task, '"task"', errors),
+    agentDaily: validateLimit(raw.agentDaily, '"agentDaily"', errors),
+    sessionDaily: validateLimit(raw.sessionDaily, '"sessionDaily"', errors),
+    agents: validateLimits(raw.agents, 'agents', errors),
+    sessions: validateLimits(raw.sessions, 'sessions', errors),
+  };
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${source}:\n  - ${errors.join('\n  - ')}`);
+  }
+  return config;
+}
+
+/**
+ * Read and validate the budgets file. Runs at import time so a bad file stops
+ * the server instead of leaving spend uncapped.
+ */
+export function loadBudgets(budgetsPath = process.env.BUDGETS_PATH || DEFAULT_BUDGETS_PATH): BudgetConfig {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(budgetsPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read budgets at ${budgetsPath}: ${(error as Error).message}`);
+  }
+  return validateBudgets(parsed, `budgets at ${budgetsPath}`);
+}
+
+let budgets: BudgetConfig = loadBudgets();
+let hooks: BudgetHooks = { db: null };
+
+/**
+ * Set where spend is read from
+ */
+export function initializeBudgets(options: Partial<BudgetHooks>): void {
+  hooks = { db: options.db ?? null };
+}
+
+export function getBudgets(): BudgetConfig {
+  return budgets;
+}
+
+// Merge per-agent or per-session entries into the current ones; null removes an entry
+function mergeLimits(current: Record<string, BudgetLimit>, changes: unknown): unknown {
+  if (changes === undefined) return current;
+  if (!changes || typeof changes !== 'object' || Array.isArray(changes)) return changes; // let validation report it
+  const merged: Record<string, unknown> = { ...current, ...changes };
+  for (const [key, limit] of Object.entries(merged)) {
+    if (limit === null) delete merged[key];
+  }
+  return merged;
+}
+
+/**
+ * Change limits at runtime. task, agentDaily and sessionDaily replace the
+ * current ones; agents and sessions entries are merged in. Throws on an
+ * invalid update and leaves the budgets unchanged.
+ */
+export function updateBudgets(update: Record<string, unknown>): BudgetConfig {
+  budgets = validateBudgets(
+    {
+      ...budgets,
+      ...update,
+      agents: mergeLimits(budgets.agents, update.agents),
+      sessions: mergeLimits(budgets.sessions, update.sessions),
+    },
+    'budget update'
+  );
+  console.log('[Budgets] Limits updated');
+  return budgets;
+}
+
+export function agentDailyLimit(agent: string): BudgetLimit {
+  return budgets.agents[agent] ?? budgets.agentDaily;
+}
+
+export function sessionDailyLimit(sessionId: string): BudgetLimit {
+  return budgets.sessions[sessionId] ?? budgets.sessionDaily;
+}
+
+function startOfUtcDay(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function hasLimit(limit: BudgetLimit): boolean {
+  return limit.tokens !== null || limit.costUsd !== null;
+}
+
+function describe(limit: BudgetLimit): string {
+  return [
+    limit.tokens !== null ? `${limit.tokens} tokens` : null,
+    limit.costUsd !== null ? `$${limit.costUsd}` : null,
+  ].filter(Boolean).join(' / ');
+}
+
+async function spentOn(filter: UsageFilter): Promise<BudgetSpend> {
+  const totals = await hooks.db!.getUsageTotals(filter);
+  return { tokens: totals.input_tokens + totals.output_tokens, costUsd: totals.cost_usd };
+}
+
+async function check(
+  scope: BudgetScope,
+  key: string,
+  label: string,
+  limit: BudgetLimit,
+  filter: UsageFilter
+): Promise<BudgetBreach | null> {
+  if (!hasLimit(limit)) return null;
+  const spent = await spentOn(filter);
+  const over =
+    (limit.tokens !== null && spent.tokens >= limit.tokens) ||
+    (limit.costUsd !== null && spent.costUsd >= limit.costUsd);
+  if (!over) return null;
+  return {
+    scope,
+    key,
+    limit,
+    spent,
+    reason: `${label} budget of ${describe(limit)} used up (${spent.tokens} tokens, $${spent.costUsd.toFixed(4)})`,
+  };
+}
+
+/**
+ * The first budget the next decision would go over (task, then agent, then
+ * session), or null when it may go ahead. Always null without a database.
+ */
+export async function checkBudgets(request: BudgetRequest): Promise<BudgetBreach | null> {
+  const db = hooks.db;
+  if (!db) return null;
+
+  const task = request.taskId !== null ? await db.getTask(request.taskId) : undefined;
+  const since = startOfUtcDay();
+  const checks = (scope: BudgetScope): boolean => !request.scopes || request.scopes.includes(scope);
+
+  if (task && checks('task')) {
+    const limit = { tokens: task.budget_tokens ?? null, costUsd: task.budget_usd ?? null };
+    const breach = await check('task', String(task.id), `Task #${task.id}`, limit, { taskId: task.id });
+    if (breach) return breach;
+  }
+
+  if (request.agent && request.agentDbId !== null && checks('agent')) {
+    const breach = await check('agent', request.agent, `${request.agent}'s daily`, agentDailyLimit(request.agent), {
+      agentId: request.agentDbId,
+      since,
+    });
+    if (breach) return breach;
+  }
+
+  if (task?.session_id && checks('session')) {
+    const breach = await check('session', task.session_id, 'Session daily', sessionDailyLimit(task.session_id), {
+      sessionId: task.session_id,
+      since,
+    });
+    if (breach) return breach;
+  }
+
+  return null;
+}
+
+/**
+ * Current limits plus what each agent has spent today, for the API
+ */
+export async function getBudgetStatus(): Promise<{
+  budgets: BudgetConfig;
+  since: string;
+  agents: Array<{ agent: string; limit: BudgetLimit; spent: BudgetSpend }>;
+}> {
+  const since = startOfUtcDay();
+  const usage = hooks.db ? await hooks.db.getUsage({ since }) : null;
+  const agents = (usage?.by_agent ?? [])
+    .filter((row) => row.agent_name)
+    .map((row) => ({
+      agent: row.agent_name as string,
+      limit: agentDailyLimit(row.agent_name as string),
+      spent: { tokens: row.input_tokens + row.output_tokens, costUsd: row.cost_usd },
+    }));
+  return { budgets, since: since.toISOString(), agents };
+}
+
+/**
+ * Throw BudgetExceededError when the next decision would go over a budget
+ */
+export async function assertWithinBudget(request: BudgetRequest): Promise<void> {
+  const breach = await checkBudgets(request);
+  if (breach) {
+    console.warn(`[Budgets] Blocked ${request.agent || 'decision'}: ${breach.reason}`);
+    throw new BudgetExceededError(breach);
+  }
+}
@@ -5,14 +5,11 @@
  * from src/agents/config.js with canonical ElizaOS Character format.
  */
 
-// Type definitions
-export interface HubInfo {
-  x: number;
-  z: number;
-  name: string;
-  description: string;
-}
+import { HUBS, ROLE_HUBS, DEFAULT_HUB, HUB_IDS, type HubInfo } from './townMap.js';
 
+export { HUBS, ROLE_HUBS, type HubInfo };
+
+// Type definitions
 export interface CharacterSettings {
   AUTONOMY_ENABLED: boolean;
   AUTONOMY_MODE: string;
@@ -21,6 +18,8 @@ export interface CharacterSettings {
 export interface ElizaTownCharacter {
   name: string;
   username: string;
+  /** Used as the git author of the agent's workspace commits */
+  email: string;
   role: AgentRole;
   modelId: string;
   bio: string[];
@@ -31,25 +30,8 @@ export interface ElizaTownCharacter {
 }
 
 export type AgentRole = 'planner' | 'designer' | 'coder' | 'reviewer';
-export type HubName = 'town_square' | 'planning_room' | 'design_studio' | 'coding_desk' | 'review_station' | 'deploy_station';
-
-// Hub definitions for agent navigation
-export const HUBS: Record<HubName, HubInfo> = {
-  town_square: { x: 0, z: 0, name: 'Town Square', description: 'The central gathering place' },
-  planning_room: { x: -18, z: -15, name: 'Planning Room', description: 'Where tasks are analyzed and broken down' },
-  design_studio: { x: 18, z: -15, name: 'Design Studio', description: 'For architecture and design work' },
-  coding_desk: { x: -18, z: 15, name: 'Coding Desk', description: 'Where code is written' },
-  review_station: { x: 18, z: 15, name: 'Review Station', description: 'Code review and quality checks' },
-  deploy_station: { x: 0, z: -25, name: 'Deploy Station', description: 'Deployment and release area' },
-};
-
-// Map agent roles to their primary work hubs
-export const ROLE_HUBS: Record<AgentRole, HubName> = {
-  planner: 'planning_room',
-  designer: 'design_studio',
-  coder: 'coding_desk',
-  reviewer: 'review_station'
-};
+// Hub ids come from the town map config, so they can't be a closed union
+export type HubName = string;
 
 /**
  * Agent character definitions for ElizaOS
@@ -59,6 +41,7 @@ export const ELIZA_TOWN_CHARACTERS: ElizaTownCharacter[] = [
   {
     name: 'Eliza',
     username: 'eliza-planner',
+    email: 'eliza@eliza.town',
     role: 'planner',
     modelId: 'witch',
     bio: [
@@ -77,7 +60,7 @@ Your role:
 - Communicate clearly about priorities and dependencies
 
 CORE ACTIONS:
-- MOVE: Move to a hub (town_square, planning_room, design_studio, coding_desk, review_station, deploy_station)
+- MOVE: Move to a hub (${HUB_IDS.join(', ')})
 - SPEAK: Say something out loud to nearby agents
 - REPLY: Respond to a message
 - THINK: Internal thought (thought bubble)
@@ -86,21 +69,22 @@ CORE ACTIONS:
 - ASSIGN_TASK: Assign a task to another agent (planner only)
 - WAIT: Do nothing, stay idle
 
-CODE ACTIONS (all agents share ONE codebase):
-- READ_FILE: Read a file from the shared codebase
+CODE ACTIONS (in the workspace of the task you are working on):
+- READ_FILE: Read a file from the task workspace (or "@base/..." from the read-only base repository)
 - WRITE_FILE: Create or overwrite a file
 - EDIT_FILE: Replace text in a file (old_str -> new_str)
 - LIST_FILES: List directory contents
 - SEARCH_FILES: Search for text in files
-- EXECUTE_SHELL: Run shell commands (npm, git, etc.)
+- EXECUTE_SHELL: Run shell commands (npm, git, etc.); background=true for dev servers
+- CHECK_PROCESS / STOP_PROCESS: Poll or stop a background process
 
 PROVIDERS (information sources):
 - TOWN_STATE: Current state of the town
 - TASKS: Your assigned tasks
 - NEARBY_AGENTS: Agents in your current hub
-- CODEBASE: The shared codebase all agents work on
+- CODEBASE: Recent file changes in your task's workspace
 
-You are in Eliza Town where all agents collaborate on ONE shared codebase.`,
+You are in Eliza Town, where the agents on a task collaborate in that task's workspace.`,
     settings: {
       AUTONOMY_ENABLED: true,
       AUTONOMY_MODE: 'task'
@@ -111,6 +95,7 @@ You are in Eliza Town where all agents collaborate on ONE shared codebase.`,
   {
     name: 'Marcus',
     username: 'marcus-designer',
+    email: 'marcus@eliza.town',
     role: 'designer',
     modelId: 'black_knight',
     bio: [
@@ -129,7 +114,7 @@ Your role:
 - Document design decisions in markdown files
 
 CORE ACTIONS:
-- MOVE: Move to a hub (town_square, planning_room, design_studio, coding_desk, review_station, deploy_station)
+- MOVE: Move to a hub (${HUB_IDS.join(', ')})
 - SPEAK: Say something out loud to nearby agents
 - REPLY: Respond to a message
 - THINK: Internal thought (thought bubble)
@@ -137,7 +122,7 @@ CORE ACTIONS:
 - TASKS: Check your assigned tasks
 - WAIT: Do nothing, stay idle
 
-CODE ACTIONS (all agents share ONE codebase):
+CODE ACTIONS (in the workspace of the task you are working on):
 - READ_FILE: Read existing code to understand the system
 - WRITE_FILE: Create design docs, specs, schemas
 - EDIT_FILE: Update existing files
@@ -148,9 +133,9 @@ PROVIDERS (information sources):
 - TOWN_STATE: Current state of the town
 - TASKS: Your assigned tasks
 - NEARBY_AGENTS: Agents in your current hub
-- CODEBASE: The shared codebase all agents work on
+- CODEBASE: Recent file changes in your task's workspace
 
-You are in Eliza Town where all agents collaborate on ONE shared codebase.
+You are in Eliza Town, where the agents on a task collaborate in that task's workspace.
 Write design specs that coders Ada and Byron can implement.`,
     settings: {
       AUTONOMY_ENABLED: true,
@@ -162,6 +147,7 @@ Write design specs that coders Ada and Byron can implement.`,
   {
     name: 'Ada',
     username: 'ada-coder',
+    email: 'ada@eliza.town',
     role: 'coder',
     modelId: 'protagonist_a',
     bio: [
@@ -180,7 +166,7 @@ Your role:
 - Follow project conventions and best practices
 
 CORE ACTIONS:
-- MOVE: Move to a hub (town_square, planning_room, design_studio, coding_desk, review_station, deploy_station)
+- MOVE: Move to a hub (${HUB_IDS.join(', ')})
 - SPEAK: Say something out loud to nearby agents
 - REPLY: Respond to a message
 - THINK: Internal thought (thought bubble)
@@ -188,17 +174,18 @@ CORE ACTIONS:
 - TASKS: Check your assigned tasks
 - WAIT: Do nothing, stay idle
 
-CODE ACTIONS (all agents share ONE codebase - use these for implementation):
+CODE ACTIONS (in the workspace of the task you are working on - use these for implementation):
 - READ_FILE: Read existing code before modifying
 - WRITE_FILE: Create new files (filepath, content)
 - EDIT_FILE: Modify existing files (filepath, old_str, new_str)
 - LIST_FILES: Explore the codebase
 - SEARCH_FILES: Find code patterns
 - EXECUTE_SHELL: Run npm, tsc, git, tests
+- CHECK_PROCESS / STOP_PROCESS: Poll or stop a background dev server
 
 PROVIDERS:
 - TASKS: Your assigned tasks
-- CODEBASE: The shared codebase (see recent changes by other agents)
+- CODEBASE: Recent file changes in your task's workspace (including other agents')
 - NEARBY_AGENTS: Who is working nearby
 
 WORKFLOW:
@@ -208,7 +195,7 @@ WORKFLOW:
 4. EXECUTE_SHELL to test (npm test, tsc --noEmit)
 5. SPEAK to announce completion
 
-You are in Eliza Town where all agents collaborate on ONE shared codebase.
+You are in Eliza Town, where the agents on a task collaborate in that task's workspace.
 Byron is your fellow coder. Clara will review your code.`,
     settings: {
       AUTONOMY_ENABLED: true,
@@ -220,6 +207,7 @@ Byron is your fellow coder. Clara will review your code.`,
   {
     name: 'Byron',
     username: 'byron-coder',
+    email: 'byron@eliza.town',
     role: 'coder',
     modelId: 'hiker',
     bio: [
@@ -238,7 +226,7 @@ Your role:
 - Write robust, battle-tested implementations
 
 CORE ACTIONS:
-- MOVE: Move to a hub (town_square, planning_room, design_studio, coding_desk, review_station, deploy_station)
+- MOVE: Move to a hub (${HUB_IDS.join(', ')})
 - SPEAK: Say something out loud to nearby agents
 - REPLY: Respond to a message
 - THINK: Internal thought (thought bubble)
@@ -246,7 +234,7 @@ CORE ACTIONS:
 - TASKS: Check your assigned tasks
 - WAIT: Do nothing, stay idle
 
-CODE ACTIONS (all agents share ONE codebase - use these for implementation):
+CODE ACTIONS (in the workspace of the task you are working on - use these for implementation):
 - READ_FILE: Read existing code before modifying
 - WRITE_FILE: Create new files (filepath, content)
 - EDIT_FILE: Modify existing files (filepath, old_str, new_str)
@@ -256,7 +244,7 @@ CODE ACTIONS (all agents share ONE codebase - use these for implementation):
 
 PROVIDERS:
 - TASKS: Your assigned tasks
-- CODEBASE: The shared codebase (see recent changes by other agents)
+- CODEBASE: Recent file changes in your task's workspace (including other agents')
 - NEARBY_AGENTS: Who is working nearby
 
 WORKFLOW:
@@ -266,7 +254,7 @@ WORKFLOW:
 4. EXECUTE_SHELL to test and benchmark
 5. SPEAK to announce completion
 
-You are in Eliza Town where all agents collaborate on ONE shared codebase.
+You are in Eliza Town, where the agents on a task collaborate in that task's workspace.
 Ada is your fellow coder. Clara will review your code.`,
     settings: {
       AUTONOMY_ENABLED: true,
@@ -278,6 +266,7 @@ Ada is your fellow coder. Clara will review your code.`,
   {
     name: 'Clara',
     username: 'clara-reviewer',
+    email: 'clara@eliza.town',
     role: 'reviewer',
     modelId: 'tiefling',
     bio: [
@@ -296,7 +285,7 @@ Your role:
 - Provide constructive, actionable feedback
 
 CORE ACTIONS:
-- MOVE: Move to a hub (town_square, planning_room, design_studio, coding_desk, review_station, deploy_station)
+- MOVE: Move to a hub (${HUB_IDS.join(', ')})
 - SPEAK: Announce review findings to the team
 - REPLY: Respond to messages
 - THINK: Internal thought (thought bubble)
@@ -304,7 +293,7 @@ CORE ACTIONS:
 - TASKS: Check your assigned tasks
 - WAIT: Do nothing, stay idle
 
-CODE ACTIONS (all agents share ONE codebase - use these for review):
+CODE ACTIONS (in the workspace of the task you are working on - use these for review):
 - READ_FILE: Read code files to review
 - LIST_FILES: See what files exist
 - SEARCH_FILES: Find patterns, issues, or related code
@@ -314,7 +303,7 @@ CODE ACTIONS (all agents share ONE codebase - use these for review):
 
 PROVIDERS:
 - TASKS: Your assigned tasks
-- CODEBASE: The shared codebase (see recent changes to review)
+- CODEBASE: Recent file changes in your task's workspace (what to review)
 - NEARBY_AGENTS: Who is working nearby
 
 REVIEW WORKFLOW:
@@ -324,7 +313,7 @@ REVIEW WORKFLOW:
 4. WRITE_FILE a review.md with findings
 5. SPEAK to announce review results
 
-You are in Eliza Town where all agents collaborate on ONE shared codebase.
+You are in Eliza Town, where the agents on a task collaborate in that task's workspace.
 Review code from Ada and Byron. Be constructive but thorough.`,
     settings: {
       AUTONOMY_ENABLED: true,
@@ -336,6 +325,7 @@ Review code from Ada and Byron. Be constructive but thorough.`,
   {
     name: 'Felix',
     username: 'felix-designer',
+    email: 'felix@eliza.town',
     role: 'designer',
     modelId: 'vampire',
     bio: [
@@ -354,7 +344,7 @@ Your role:
 - Balance innovation with practical constraints
 
 CORE ACTIONS:
-- MOVE: Move to a hub (town_square, planning_room, design_studio, coding_desk, review_station, deploy_station)
+- MOVE: Move to a hub (${HUB_IDS.join(', ')})
 - SPEAK: Say something out loud to nearby agents
 - REPLY: Respond to a message
 - THINK: Internal thought (thought bubble)
@@ -362,7 +352,7 @@ CORE ACTIONS:
 - TASKS: Check your assigned tasks
 - WAIT: Do nothing, stay idle
 
-CODE ACTIONS (all agents share ONE codebase):
+CODE ACTIONS (in the workspace of the task you are working on):
 - READ_FILE: Read existing designs and code
 - WRITE_FILE: Create design docs, prototypes, specs
 - EDIT_FILE: Update existing files
@@ -371,10 +361,10 @@ CODE ACTIONS (all agents share ONE codebase):
 
 PROVIDERS:
 - TASKS: Your assigned tasks
-- CODEBASE: The shared codebase all agents work on
+- CODEBASE: Recent file changes in your task's workspace
 - NEARBY_AGENTS: Who is working nearby
 
-You are in Eliza Town where all agents collaborate on ONE shared codebase.
+You are in Eliza Town, where the agents on a task collaborate in that task's workspace.
 Work with Marcus on designs. Write specs that coders can implement.`,
     settings: {
       AUTONOMY_ENABLED: true,
@@ -388,5 +378,5 @@ Work with Marcus on designs. Write specs that coders can implement.`,
  * Get the hub name for a character's role
  */
 export function getHubForRole(role: AgentRole): HubName {
-  return ROLE_HUBS[role] || 'town_square';
+  return ROLE_HUBS[role] || DEFAULT_HUB;
 }
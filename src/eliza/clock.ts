@@ -0,0 +1,144 @@
+/**
+ * Clock for Eliza Town
+ *
+ * The orchestration loop, agent movement, hub queues, the model circuit
+ * breaker and command approval waits read the time and schedule their timers
+ * through this module instead of Date.now and setTimeout, so the simulation
+ * harness can install a ManualClock and move time forward itself. ElizaOS,
+ * shell commands and the database keep real time.
+ */
+
+// Type definitions
+export type TimerHandle = unknown;
+
+export interface Clock {
+  now(): number;
+  setTimeout(fn: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+  setInterval(fn: () => void, ms: number): TimerHandle;
+  clearInterval(handle: TimerHandle): void;
+}
+
+interface ScheduledTimer {
+  at: number;
+  fn: () => void;
+  /** Repeat period for intervals, null for one-shot timers */
+  every: number | null;
+}
+
+const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  setInterval: (fn, ms) => setInterval(fn, ms),
+  clearInterval: (handle) => clearInterval(handle as ReturnType<typeof setInterval>),
+};
+
+/**
+ * A clock that only moves when told to. Timers due in an advance run in time
+ * order (then in the order they were set), each at its own due time.
+ */
+export class ManualClock implements Clock {
+  private time: number;
+  private nextId = 1;
+  private readonly timers = new Map<number, ScheduledTimer>();
+
+  constructor(start: number = Date.UTC(2025, 0, 1)) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(fn: () => void, ms: number): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + Math.max(0, ms || 0), fn, every: null });
+    return id;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  setInterval(fn: () => void, ms: number): TimerHandle {
+    const every = Math.max(1, ms || 0);
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + every, fn, every });
+    return id;
+  }
+
+  clearInterval(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  /** Timers waiting to run */
+  get pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Move time forward, running every timer that falls due on the way.
+   * Returns how many timers ran.
+   */
+  advance(ms: number): number {
+    const end = this.time + Math.max(0, ms);
+    let ran = 0;
+
+    for (;;) {
+      let dueId: number | null = null;
+      for (const [id, timer] of this.timers) {
+        if (timer.at <= end && (dueId === null || timer.at < this.timers.get(dueId)!.at)) {
+          dueId = id;
+        }
+      }
+      if (dueId === null) break;
+
+      const timer = this.timers.get(dueId)!;
+      this.time = timer.at;
+      if (timer.every === null) {
+        this.timers.delete(dueId);
+      } else {
+        timer.at += timer.every;
+      }
+      timer.fn();
+      ran++;
+    }
+
+    this.time = end;
+    return ran;
+  }
+}
+
+let clock: Clock = systemClock;
+
+/**
+ * Use another clock (e.g. a ManualClock in a simulation), or the system clock again with null
+ */
+export function setClock(next: Clock | null): void {
+  clock = next ?? systemClock;
+}
+
+export function getClock(): Clock {
+  return clock;
+}
+
+export function now(): number {
+  return clock.now();
+}
+
+export function setTimer(fn: () => void, ms: number): TimerHandle {
+  return clock.setTimeout(fn, ms);
+}
+
+export function clearTimer(handle: TimerHandle): void {
+  clock.clearTimeout(handle);
+}
+
+export function setRepeatingTimer(fn: () => void, ms: number): TimerHandle {
+  return clock.setInterval(fn, ms);
+}
+
+export function clearRepeatingTimer(handle: TimerHandle): void {
+  clock.clearInterval(handle);
+}
@@ -0,0 +1,397 @@
+/**
+ * Command Policy for Eliza Town
+ *
+ * Decides whether an agent may run a shell command, on top of the sandbox's
+ * hard-coded forbidden patterns. Rules are loaded from config/command-policy.json
+ * (or COMMAND_POLICY_PATH) and can be scoped to roles and tasks. A command is
+ * allowed, denied, or held until an operator approves or rejects it over the
+ * WebSocket or the REST API; the agent's action waits in the meantime, and the
+ * wait doesn't count against its subtask's timeout. Every decision is written
+ * to the audit log.
+ *
+ * Rules see each command by its program's name, after launchers like env and
+ * sudo and any directory are stripped. Matching is still text matching, not a
+ * shell parser, so a determined command can get past a deny rule; the sandbox's
+ * isolation is what contains it.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ELIZA_TOWN_CHARACTERS, type AgentRole } from './characters.js';
+import { now } from './clock.js';
+import type { WebSocketMessage } from '../websocket/index.js';
+import type { NewCommandAuditEntry } from '../db/store.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const DEFAULT_POLICY_PATH = path.join(__dirname, '../../config/command-policy.json');
+
+// Type definitions
+export type PolicyAction = 'allow' | 'deny' | 'approve';
+
+export interface PolicyRule {
+  id: string;
+  /** Regular expression tested against each command in a list or pipeline */
+  pattern: string;
+  action: PolicyAction;
+  reason?: string;
+  /** Only applies to agents with these roles (every role when omitted) */
+  roles?: AgentRole[];
+  /** Only applies to work on these tasks (every task when omitted) */
+  tasks?: number[];
+}
+
+export interface CommandPolicy {
+  /** What happens to a command no rule matches */
+  defaultAction: PolicyAction;
+  rules: PolicyRule[];
+}
+
+export interface CommandRequest {
+  agent: string;
+  taskId: number | null;
+  command: string;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  /** Id of the rule that decided, or null for the default action */
+  rule: string | null;
+  reason: string | null;
+}
+
+export interface PendingApproval extends CommandRequest {
+  id: number;
+  role: AgentRole | null;
+  rule: string | null;
+  reason: string | null;
+  requestedAt: number;
+  expiresAt: number;
+}
+
+export interface CommandVerdict {
+  allowed: boolean;
+  reason?: string;
+}
+
+type BroadcastFn = (message: WebSocketMessage) => void;
+type AuditFn = (entry: NewCommandAuditEntry) => Promise<unknown>;
+
+interface PolicyHooks {
+  broadcast: BroadcastFn | null;
+  /** Where decisions are recorded (the command_audit table) */
+  audit: AuditFn | null;
+}
+
+const ACTIONS: PolicyAction[] = ['allow', 'deny', 'approve'];
+const ROLES: AgentRole[] = ['planner', 'designer', 'coder', 'reviewer'];
+// Most restrictive first: one denied command in a list denies the whole line
+const SEVERITY: Record<PolicyAction, number> = { allow: 0, approve: 1, deny: 2 };
+const APPROVAL_TIMEOUT_MS = parseInt(process.env.COMMAND_APPROVAL_TIMEOUT_MS || '600000', 10);
+// Launchers that run the command after them; the policy judges that command instead
+const LAUNCHERS = ['env', 'sudo', 'command', 'exec', 'nohup', 'nice', 'time', 'timeout'];
+// Launcher options that take the next word as their value ("sudo -u root curl")
+const LAUNCHER_VALUE_OPTIONS: Record<string, string[]> = {
+  env: ['-u', '--unset', '-C', '--chdir'],
+  sudo: ['-u', '--user', '-g', '--group', '-h', '--host', '-p', '--prompt', '-C', '--close-from',
+    '-D', '--chdir', '-r', '--role', '-t', '--type', '-U', '--other-user', '-T', '--command-timeout'],
+  exec: ['-a'],
+  nice: ['-n', '--adjustment'],
+  time: ['-f', '--format', '-o', '--output'],
+  timeout: ['-s', '--signal', '-k', '--kill-after'],
+};
+
+/**
+ * Check a parsed policy file and return it typed, or throw listing every problem
+ */
+export function validateCommandPolicy(value: unknown, source = 'command policy'): CommandPolicy {
+  const errors: string[] = [];
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+
+  const defaultAction = raw.defaultAction ?? 'allow';
+  if (!ACTIONS.includes(defaultAction as PolicyAction)) {
+    errors.push(`"defaultAction" must be one of ${ACTIONS.join(', ')}`);
+  }
+
+  const rules: PolicyRule[] = [];
+  const seen = new Set<string>();
+  const rawRules = raw.rules === undefined ? [] : raw.rules;
+  if (!Array.isArray(rawRules)) {
+    errors.push('"rules" must be an array');
+  } else {
+    rawRules.forEach((entry, idx) => {
+      const rule = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+      const label = typeof rule.id === 'string' ? `rule "${rule.id}"` : `rules[${idx}]`;
+
+      if (typeof rule.id !== 'string' || !rule.id.trim()) {
+        errors.push(`${label}: "id" is required`);
+      } else if (seen.has(rule.id)) {
+        errors.push(`${label}: duplicate id`);
+      }
+      if (typeof rule.pattern !== 'string') {
+        errors.push(`${label}: "pattern" must be a regular expression string`);
+      } else {
+        try {
+          new RegExp(rule.pattern);
+        } catch (error) {
+          errors.push(`${label}: bad "pattern": ${(error as Error).message}`);
+        }
+      }
+      if (!ACTIONS.includes(rule.action as PolicyAction)) {
+        errors.push(`${label}: "action" must be one of ${ACTIONS.join(', ')}`);
+      }
+      if (rule.roles !== undefined && (!Array.isArray(rule.roles) || rule.roles.some((r) => !ROLES.includes(r)))) {
+        errors.push(`${label}: "roles" must list roles from ${ROLES.join(', ')}`);
+      }
+      if (rule.tasks !== undefined && (!Array.isArray(rule.tasks) || !rule.tasks.every(Number.isInteger))) {
+        errors.push(`${label}: "tasks" must list task ids`);
+      }
+
+      if (typeof rule.id === 'string') seen.add(rule.id);
+      rules.push({
+        id: String(rule.id),
+        pattern: String(rule.pattern),
+        action: rule.action as PolicyAction,
+        reason: typeof rule.reason === 'string' ? rule.reason : undefined,
+        roles: rule.roles as AgentRole[] | undefined,
+        tasks: rule.tasks as number[] | undefined,
+      });
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${source}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return { defaultAction: defaultAction as PolicyAction, rules };
+}
+
+/**
+ * Read and validate the policy file. Runs at import time so a bad policy
+ * stops the server instead of silently letting commands through.
+ */
+export function loadCommandPolicy(policyPath = process.env.COMMAND_POLICY_PATH || DEFAULT_POLICY_PATH): CommandPolicy {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(policyPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read command policy at ${policyPath}: ${(error as Error).message}`);
+  }
+  return validateCommandPolicy(parsed, `command policy at ${policyPath}`);
+}
+
+const policy: CommandPolicy = loadCommandPolicy();
+let hooks: PolicyHooks = { broadcast: null, audit: null };
+let nextApprovalId = 1;
+const pendingApprovals = new Map<number, {
+  approval: PendingApproval;
+  settle: (verdict: CommandVerdict) => void;
+  timer: ReturnType<typeof setTimeout>;
+}>();
+// Agent name -> total time its answered or expired approval requests waited
+const approvalWaits = new Map<string, number>();
+
+/**
+ * Set where approval requests are broadcast and decisions are audited
+ */
+export function initializeCommandPolicy(options: Partial<PolicyHooks>): void {
+  hooks = { broadcast: options.broadcast ?? null, audit: options.audit ?? null };
+}
+
+export function getCommandPolicy(): CommandPolicy {
+  return policy;
+}
+
+function roleOf(agent: string): AgentRole | null {
+  return ELIZA_TOWN_CHARACTERS.find((character) => character.name === agent)?.role ?? null;
+}
+
+// A simple command as rules see it: leading VAR=value assignments and
+// launchers (with their options) dropped, and the program reduced to its
+// basename, so "env FOO=1 /usr/bin/curl x" reads "curl x"
+function programCommand(segment: string): string {
+  const words = segment.split(/\s+/);
+  const skip = (test: (word: string) => boolean): void => {
+    while (words.length > 1 && test(words[0])) words.shift();
+  };
+  const program = (): string => {
+    const word = words[0].replace(/^['"]|['"]$/g, '');
+    return word.slice(word.lastIndexOf('/') + 1);
+  };
+
+  skip((word) => /^\w+=/.test(word));
+  while (words.length > 1 && LAUNCHERS.includes(program())) {
+    const launcher = program();
+    const valueOptions = LAUNCHER_VALUE_OPTIONS[launcher] ?? [];
+    words.shift();
+    while (words.length > 1) {
+      const word = words[0];
+      if (valueOptions.includes(word) && words.length > 2) {
+        words.splice(0, 2);
+      } else if (word.startsWith('-') || /^\w+=/.test(word) || (launcher === 'timeout' && /^\d/.test(word))) {
+        words.shift();
+      } else {
+        break;
+      }
+    }
+  }
+  words[0] = program();
+  return words.join(' ');
+}
+
+// The simple commands a command line runs. Quoting isn't parsed, so a quoted
+// separator splits too, which only ever makes matching stricter. Redirections
+// like 2>&1 aren't commands of their own.
+function commandSegments(command: string): string[] {
+  return command
+    .split(/&&|\|\||\$\(|[;\n|`()]|(?<![<>])&(?!>)/)
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .map(programCommand);
+}
+
+function applies(rule: PolicyRule, role: AgentRole | null, taskId: number | null): boolean {
+  if (rule.roles && (!role || !rule.roles.includes(role))) return false;
+  if (rule.tasks && (taskId === null || !rule.tasks.includes(taskId))) return false;
+  return true;
+}
+
+/**
+ * What the policy says about a command. Each command in a list or pipeline is
+ * matched on its own (first applicable rule wins) and the strictest result counts.
+ */
+export function evaluateCommand(request: CommandRequest): PolicyDecision {
+  const role = roleOf(request.agent);
+  const rules = policy.rules.filter((rule) => applies(rule, role, request.taskId));
+  const fallback: PolicyDecision = { action: policy.defaultAction, rule: null, reason: null };
+  let decision: PolicyDecision | null = null;
+
+  for (const segment of commandSegments(request.command)) {
+    const rule = rules.find((candidate) => new RegExp(candidate.pattern).test(segment));
+    const next = rule ? { action: rule.action, rule: rule.id, reason: rule.reason ?? null } : fallback;
+    if (!decision || SEVERITY[next.action] > SEVERITY[decision.action]) decision = next;
+  }
+  return decision ?? fallback;
+}
+
+function audit(
+  request: CommandRequest,
+  decision: string,
+  rule: string | null,
+  reason: string | null,
+  decidedBy: string
+): void {
+  console.log(`[CommandPolicy] ${decision} for ${request.agent}${rule ? ` (rule ${rule})` : ''}: ${request.command}`);
+  hooks.audit?.({
+    agent_name: request.agent,
+    task_id: request.taskId,
+    command: request.command,
+    decision,
+    rule,
+    reason,
+    decided_by: decidedBy,
+  }).catch((error) => console.error('[CommandPolicy] Failed to write audit entry:', (error as Error).message));
+}
+
+/**
+ * Decide whether a command may run, waiting for an operator when the policy
+ * requires approval. Resolves with the verdict; never rejects.
+ */
+export async function authorizeCommand(request: CommandRequest): Promise<CommandVerdict> {
+  const decision = evaluateCommand(request);
+
+  if (decision.action === 'allow') {
+    audit(request, 'allowed', decision.rule, decision.reason, 'policy');
+    return { allowed: true };
+  }
+  if (decision.action === 'deny') {
+    audit(request, 'denied', decision.rule, decision.reason, 'policy');
+    return { allowed: false, reason: decision.reason || 'Command denied by policy' };
+  }
+
+  const requestedAt = now();
+  const approval: PendingApproval = {
+    ...request,
+    id: nextApprovalId++,
+    role: roleOf(request.agent),
+    rule: decision.rule,
+    reason: decision.reason,
+    requestedAt,
+    expiresAt: requestedAt + APPROVAL_TIMEOUT_MS,
+  };
+
+  const verdict = new Promise<CommandVerdict>((resolve) => {
+    const timer = setTimeout(() => settleApproval(approval.id, 'expired', 'policy'), APPROVAL_TIMEOUT_MS);
+    timer.unref();
+    pendingApprovals.set(approval.id, { approval, settle: resolve, timer });
+  });
+
+  console.log(`[CommandPolicy] Approval #${approval.id} requested for ${request.agent}: ${request.command}`);
+  hooks.broadcast?.({ type: 'command_approval_requested', data: { ...approval } });
+  return verdict;
+}
+
+function settleApproval(
+  id: number,
+  outcome: 'approved' | 'rejected' | 'expired',
+  decidedBy: string,
+  note?: string
+): PendingApproval | null {
+  const pending = pendingApprovals.get(id);
+  if (!pending) return null;
+  pendingApprovals.delete(id);
+  clearTimeout(pending.timer);
+
+  const { approval } = pending;
+  approvalWaits.set(approval.agent, (approvalWaits.get(approval.agent) ?? 0) + now() - approval.requestedAt);
+  const reason = note || approval.reason;
+  audit(approval, outcome, approval.rule, reason, decidedBy);
+  hooks.broadcast?.({
+    type: 'command_approval_resolved',
+    data: { id, agent: approval.agent, taskId: approval.taskId, command: approval.command, outcome, decidedBy, note },
+  });
+
+  if (outcome === 'approved') {
+    pending.settle({ allowed: true });
+  } else if (outcome === 'expired') {
+    pending.settle({ allowed: false, reason: 'Approval request expired' });
+  } else {
+    pending.settle({ allowed: false, reason: `Rejected by ${decidedBy}${note ? `: ${note}` : ''}` });
+  }
+  return approval;
+}
+
+/**
+ * Answer a pending approval request. Returns null if there is no such request
+ * (already answered or expired).
+ */
+export function resolveApproval(
+  id: number,
+  approved: boolean,
+  decidedBy = 'operator',
+  note?: string
+): PendingApproval | null {
+  return settleApproval(id, approved ? 'approved' : 'rejected', decidedBy, note);
+}
+
+/**
+ * How long an agent's commands have waited for approval in all, counting
+ * requests still pending. Whoever times the agent's work takes the difference
+ * over its own span to leave the waits out; both read the town clock.
+ */
+export function approvalWaitTime(agent: string): number {
+  const current = now();
+  let total = approvalWaits.get(agent) ?? 0;
+  for (const { approval } of pendingApprovals.values()) {
+    if (approval.agent === agent) total += current - approval.requestedAt;
+  }
+  return total;
+}
+
+/**
+ * Requests waiting for an operator, oldest first
+ */
+export function getPendingApprovals(): PendingApproval[] {
+  return [...pendingApprovals.values()].map(({ approval }) => ({ ...approval }));
+}
@@ -0,0 +1,115 @@
+/**
+ * E2B Sandbox Backend for Eliza Town
+ *
+ * Files and shell commands live in one E2B cloud sandbox shared by every
+ * agent, under E2B_WORKSPACE_ROOT. Commands run from the workspace's current
+ * directory like they do locally, but can't run in the background.
+ */
+
+import * as path from 'node:path';
+import type { Sandbox as E2BSandbox, CommandResult } from '@e2b/code-interpreter';
+import {
+  notFoundError,
+  searchTree,
+  type DirectoryEntry,
+  type ExecOptions,
+  type ExecResult,
+  type SandboxBackend,
+  type SearchOptions,
+} from './sandboxBackend.js';
+import type { SandboxConfig, SearchMatch } from './sharedSandbox.js';
+
+export class E2BBackend implements SandboxBackend {
+  readonly name = 'e2b';
+  readonly paths = path.posix;
+  readonly root: string;
+  readonly local = false;
+  private sandbox: E2BSandbox | null = null;
+
+  constructor(private config: SandboxConfig) {
+    this.root = config.e2bRoot;
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.config.e2bApiKey) {
+      throw new Error('[E2BBackend] E2B_API_KEY required for E2B mode');
+    }
+
+    try {
+      const { Sandbox } = await import('@e2b/code-interpreter');
+      this.sandbox = await Sandbox.create({ apiKey: this.config.e2bApiKey });
+      await this.sandbox.files.makeDir(this.root);
+      console.log(`[E2BBackend] E2B sandbox ${this.sandbox.sandboxId} created - all agents will share this instance`);
+    } catch (error) {
+      console.error('[E2BBackend] Failed to initialize E2B:', error);
+      throw error;
+    }
+  }
+
+  readFile(filepath: string): Promise<string> {
+    return this.call(filepath, (sandbox) => sandbox.files.read(filepath));
+  }
+
+  async writeFile(filepath: string, content: string): Promise<void> {
+    // envd creates missing parent directories itself
+    await this.call(filepath, (sandbox) => sandbox.files.write(filepath, content));
+  }
+
+  async list(dir: string): Promise<DirectoryEntry[]> {
+    const entries = await this.call(dir, (sandbox) => sandbox.files.list(dir));
+    return entries.map((e) => ({ name: e.name, isDirectory: e.type === 'dir', isFile: e.type === 'file' }));
+  }
+
+  async isDirectory(target: string): Promise<boolean> {
+    return (await this.call(target, (sandbox) => sandbox.files.getInfo(target))).type === 'dir';
+  }
+
+  async makeDirectory(dir: string): Promise<void> {
+    await this.call(dir, (sandbox) => sandbox.files.makeDir(dir));
+  }
+
+  search(dir: string, needle: string, options: SearchOptions): Promise<SearchMatch[]> {
+    return searchTree(this, dir, needle, options);
+  }
+
+  async exec(command: string, options: ExecOptions): Promise<ExecResult> {
+    let result: CommandResult;
+    try {
+      result = await this.instance().commands.run(command, { cwd: options.cwd, timeoutMs: options.timeoutMs });
+    } catch (error) {
+      // A non-zero exit rejects with a CommandExitError that still carries the output
+      const exit = error as Partial<CommandResult>;
+      if (typeof exit.exitCode !== 'number') {
+        return { exitCode: 1, status: 'exited', stdout: '', stderr: (error as Error).message };
+      }
+      result = { exitCode: exit.exitCode, stdout: exit.stdout ?? '', stderr: exit.stderr ?? '' };
+    }
+    return { exitCode: result.exitCode, status: 'exited', stdout: result.stdout, stderr: result.stderr };
+  }
+
+  async close(): Promise<void> {
+    if (!this.sandbox) return;
+    try {
+      await this.sandbox.kill();
+      console.log('[E2BBackend] E2B sandbox closed');
+    } catch (error) {
+      console.error('[E2BBackend] Error closing E2B sandbox:', error);
+    }
+    this.sandbox = null;
+  }
+
+  private instance(): E2BSandbox {
+    if (!this.sandbox) throw new Error('[E2BBackend] E2B sandbox not initialized');
+    return this.sandbox;
+  }
+
+  // Run an SDK call, turning its NotFoundError into the ENOENT error backends use
+  private async call<T>(target: string, fn: (sandbox: E2BSandbox) => Promise<T>): Promise<T> {
+    try {
+      return await fn(this.instance());
+    } catch (error) {
+      if ((error as Error).name === 'NotFoundError') throw notFoundError(target);
+      throw error;
+    }
+  }
+}
@@ -5,11 +5,17 @@
  * It integrates with the existing database and WebSocket infrastructure.
  */
 
-import { HUBS, getHubForRole, type AgentRole, type HubName, type HubInfo } from './characters.js';
+import { getHubForRole, type AgentRole, type HubName } from './characters.js';
+import { HUBS, HUB_IDS, DEFAULT_HUB, resolveHub, type HubInfo } from './townMap.js';
+import { initializeHubCapacity, getHubOccupancy } from './hubCapacity.js';
+import { initializeNavigation, setAgentPosition } from './navigation.js';
+import { initializeMovement, startMove } from './movement.js';
+import { now, setTimer } from './clock.js';
 import type { WebSocketMessage } from '../websocket/index.js';
 import type * as DbModule from '../db/index.js';
 import type * as StorageModule from '../storage/index.js';
 import { getSharedSandbox } from './sharedSandbox.js';
+import { getProcess, cancelProcess } from './shellProcesses.js';
 
 // Type definitions
 export interface AgentState {
@@ -80,6 +86,14 @@ export function initializePlugin(
   dbModule = db;
   broadcastFn = broadcast;
   storageModule = storage;
+  initializeHubCapacity(broadcast);
+  initializeNavigation(broadcast);
+  initializeMovement({
+    broadcast,
+    getAgentState,
+    updateAgentState,
+    onArrived: recordArrival,
+  });
 }
 
 /**
@@ -95,14 +109,43 @@ export function setMemoryBroadcastFn(fn: MemoryBroadcastFn): void {
  * Update agent state locally (called by orchestration)
  */
 export function updateAgentState(agentId: string, state: Partial<AgentState>): void {
-  agentStates.set(agentId, { ...agentStates.get(agentId), ...state, updatedAt: Date.now() } as AgentState);
+  const next = { ...agentStates.get(agentId), ...state, updatedAt: now() } as AgentState;
+  agentStates.set(agentId, next);
+
+  // Keep navigation's view of where everyone stands in step, so walkers avoid idle agents too
+  if (state.x !== undefined || state.z !== undefined) {
+    setAgentPosition(agentId, { x: next.x, z: next.z });
+  }
+}
+
+/**
+ * Save an agent's current hub and position so a restart can put it back there
+ */
+export function persistAgentLocation(agentId: string): void {
+  const state = agentStates.get(agentId);
+  if (!dbModule || !state?.dbId) return;
+
+  dbModule.updateAgentLocation(state.dbId, state.hub, state.x, state.z).catch((error) => {
+    console.error(`[eliza-town] Failed to persist location for ${agentId}:`, error);
+  });
+}
+
+// Save where the agent ended up and note the arrival in the town feed
+function recordArrival(agentId: string, hub: string): void {
+  persistAgentLocation(agentId);
+
+  const state = agentStates.get(agentId);
+  if (!dbModule || !state?.dbId) return;
+  dbModule.createMessage(state.dbId, 'status', `Arrived at ${HUBS[hub]?.name || hub}`).catch((error) => {
+    console.error(`[eliza-town] Failed to record arrival for ${agentId}:`, error);
+  });
 }
 
 /**
  * Get agent state
  */
 export function getAgentState(agentId: string): AgentState {
-  return agentStates.get(agentId) || { status: 'idle', hub: 'town_square', x: 0, z: 0 };
+  return agentStates.get(agentId) || { status: 'idle', hub: DEFAULT_HUB, x: 0, z: 0 };
 }
 
 // ============================================================================
@@ -134,21 +177,27 @@ const townStateProvider = {
         id,
         name: agentState.name || id,
         status: agentState.status || 'idle',
-        hub: agentState.hub || 'town_square',
+        hub: agentState.hub || DEFAULT_HUB,
         doing: agentState.doing || null
       });
     }
 
-    // Build hub occupancy
+    // Build hub occupancy, including who is waiting for a spot
     interface HubOccupancy extends HubInfo {
       agents: string[];
+      capacity: number;
+      queue: string[];
     }
 
+    const nameOf = (id: string): string => agentStates.get(id)?.name || id;
+    const slots = getHubOccupancy();
     const hubOccupancy: Record<string, HubOccupancy> = {};
     for (const [hubName, hubInfo] of Object.entries(HUBS)) {
       hubOccupancy[hubName] = {
         ...hubInfo,
-        agents: allAgents.filter(a => a.hub === hubName).map(a => a.name)
+        agents: allAgents.filter(a => a.hub === hubName).map(a => a.name),
+        capacity: slots[hubName]?.capacity ?? 0,
+        queue: (slots[hubName]?.queue || []).map(nameOf)
       };
     }
 
@@ -170,7 +219,9 @@ const townStateProvider = {
     lines.push(`Available hubs:`);
     for (const [hubName, hub] of Object.entries(hubOccupancy)) {
       const occupants = hub.agents.length > 0 ? hub.agents.join(', ') : 'empty';
-      lines.push(`  - ${hub.name}: ${occupants}`);
+      const held = slots[hubName]?.occupants.length ?? hub.agents.length;
+      const queue = hub.queue.length > 0 ? `, ${hub.queue.length} waiting: ${hub.queue.join(', ')}` : '';
+      lines.push(`  - ${hub.name} (${held}/${hub.capacity}${queue}): ${occupants}`);
     }
     lines.push(`[/TOWN_STATE]`);
 
@@ -179,7 +230,8 @@ const townStateProvider = {
       values: {
         currentHub: currentState.hub,
         currentStatus: currentState.status,
-        agentCount: allAgents.length
+        agentCount: allAgents.length,
+        queueLengths: Object.fromEntries(Object.entries(hubOccupancy).map(([id, hub]) => [id, hub.queue.length]))
       },
       data: {
         currentAgent: { id: agentId, ...currentState },
@@ -273,7 +325,7 @@ const nearbyAgentsProvider = {
   get: async (runtime: ElizaRuntime): Promise<ProviderResult> => {
     const agentId = runtime.character?.username || runtime.agentId || 'unknown';
     const currentState = getAgentState(agentId);
-    const currentHub = currentState.hub || 'town_square';
+    const currentHub = currentState.hub || DEFAULT_HUB;
 
     // Find agents in the same hub
     interface NearbyAgent {
@@ -391,29 +443,37 @@ const recentMessagesProvider = {
 };
 
 /**
- * CODEBASE Provider - Shows the state of the shared codebase/sandbox
- * All agents share ONE sandbox, so they can see each other's file changes
+ * CODEBASE Provider - Shows the agent's current workspace: its task's own
+ * (shared with the other agents on that task), or the shared root between tasks
  */
 const codebaseProvider = {
   name: 'CODEBASE',
-  description: 'The shared codebase that all agents work on together',
+  description: 'The workspace of the task the agent is working on',
   get: async (runtime: ElizaRuntime): Promise<ProviderResult> => {
     const agentName = runtime.character?.name || runtime.agentId || 'unknown';
     
     const lines: string[] = [
       `[CODEBASE]`,
-      `Shared workspace for all agents in Eliza Town`,
+      `Files of the task you are working on, shared with the other agents on it`,
       ``
     ];
 
     try {
       const sandbox = getSharedSandbox();
-      const config = sandbox.getConfig();
-      const recentChanges = sandbox.getRecentChanges(10);
-      const cwd = sandbox.getCurrentDirectory();
+      const workspace = sandbox.getAgentWorkspace(agentName);
+      const recentChanges = sandbox.getRecentChanges(10, workspace.taskId ?? undefined);
 
-      lines.push(`Mode: ${config.mode === 'e2b' ? 'E2B Cloud Sandbox' : 'Local Filesystem'}`);
-      lines.push(`Working Directory: ${cwd}`);
+      const modeLabels: Record<string, string> = {
+        local: 'Local Filesystem',
+        isolated: 'Isolated Local Sandbox',
+        e2b: 'E2B Cloud Sandbox',
+      };
+      lines.push(`Mode: ${modeLabels[workspace.backend] ?? workspace.backend}`);
+      lines.push(`Workspace: ${workspace.taskId !== null ? `task #${workspace.taskId}` : 'shared'}`);
+      lines.push(`Working Directory: ${workspace.currentDirectory}`);
+      if (sandbox.hasBaseRepository(workspace)) {
+        lines.push(`Base repository (read-only): use paths starting with @base/ to read it`);
+      }
       lines.push(``);
 
       // Show recent file changes by other agents
@@ -486,10 +546,10 @@ const moveAction = {
   parameters: [
     {
       name: 'target',
-      description: 'Hub name (town_square, planning_room, design_studio, coding_desk, review_station, deploy_station) or agent name',
+      description: `Hub id or name (${HUB_IDS.join(', ')}) or agent name`,
       required: true,
       schema: { type: 'string' },
-      examples: ['planning_room', 'town_square', 'Eliza', 'Ada']
+      examples: [...HUB_IDS.slice(0, 2), 'Eliza', 'Ada']
     }
   ],
   validate: async (): Promise<boolean> => {
@@ -505,20 +565,20 @@ const moveAction = {
       return { success: false, text: 'No target specified for MOVE action.' };
     }
 
-    const targetLower = target.toLowerCase().replace(/\s+/g, '_');
     let targetHub: string | null = null;
     let targetInfo: (HubInfo & { targetAgent?: string }) | null = null;
 
-    // Check if target is a hub
-    if (HUBS[targetLower as HubName]) {
-      targetHub = targetLower;
-      targetInfo = HUBS[targetLower as HubName];
+    // Check if target is a hub, by id or display name
+    const hub = resolveHub(target);
+    if (hub) {
+      targetHub = hub.id;
+      targetInfo = HUBS[hub.id];
     } else {
       // Check if target is an agent name - find their hub
       for (const [id, agentState] of agentStates) {
         if (agentState.name?.toLowerCase() === target.toLowerCase() ||
             id.toLowerCase() === target.toLowerCase()) {
-          targetHub = agentState.hub || 'town_square';
+          targetHub = agentState.hub || DEFAULT_HUB;
           targetInfo = { ...HUBS[targetHub as HubName], targetAgent: agentState.name || id };
           break;
         }
@@ -528,79 +588,45 @@ const moveAction = {
     if (!targetHub) {
       return {
         success: false,
-        text: `Unknown target: "${target}". Use a hub name (town_square, planning_room, etc.) or agent name.`
+        text: `Unknown target: "${target}". Use a hub (${HUB_IDS.join(', ')}) or agent name.`
       };
     }
 
-    // Get current state
-    const currentState = getAgentState(agentId);
-    const currentHub = currentState.hub || 'town_square';
+    // Full hubs either redirect to a free hub of the same kind or put the agent in line
+    const ticket = startMove(agentId, targetHub);
+    const hubName = HUBS[targetHub]?.name || targetHub;
 
-    if (currentHub === targetHub) {
+    if (ticket.status === 'already_there') {
       return {
         success: true,
-        text: `You are already at ${HUBS[targetHub as HubName]?.name || targetHub}.`
+        text: `You are already at ${hubName}.`
       };
     }
 
-    // Calculate travel time (simplified)
-    const currentPos = HUBS[currentHub as HubName] || { x: 0, z: 0 };
-    const targetPos = HUBS[targetHub as HubName] || { x: 0, z: 0 };
-    const distance = Math.sqrt(
-      Math.pow(targetPos.x - currentPos.x, 2) +
-      Math.pow(targetPos.z - currentPos.z, 2)
-    );
-    const travelTime = Math.max(1500, distance * 100);
-
-    // Update agent state to traveling
-    updateAgentState(agentId, {
-      status: 'traveling',
-      doing: `Moving to ${HUBS[targetHub as HubName]?.name || targetHub}`,
-      targetHub,
-      travelStarted: Date.now(),
-      travelTime
-    });
-
-    // Broadcast move event
-    if (broadcastFn) {
-      broadcastFn({
-        type: 'agent_move',
-        data: {
-          agent: agentName,
-          agentId,
-          from: currentPos,
-          to: targetPos,
-          hub: targetHub
-        }
-      });
+    if (ticket.status === 'queued') {
+      return {
+        success: true,
+        text: `${hubName} is full. You are #${ticket.position} in line and will head over when a spot opens.`,
+        data: { targetHub, queued: true, position: ticket.position }
+      };
     }
 
-    // Schedule arrival (in a real system this would be async)
-    setTimeout(() => {
-      updateAgentState(agentId, {
-        status: 'idle',
-        hub: targetHub as HubName,
-        doing: null,
-        x: targetPos.x,
-        z: targetPos.z
-      });
-
-      if (broadcastFn) {
-        broadcastFn({
-          type: 'agent_arrived',
-          data: { agent: agentName, agentId, hub: targetHub }
-        });
-      }
-    }, travelTime);
+    if (ticket.status === 'redirected') {
+      return {
+        success: true,
+        text: `${hubName} is full. Heading to ${HUBS[ticket.hub]?.name || ticket.hub} instead.`,
+        data: { targetHub: ticket.hub, requestedHub: targetHub, redirected: true, travelTime: ticket.eta }
+      };
+    }
 
     const moveText = targetInfo?.targetAgent
-      ? `Moving toward ${targetInfo.targetAgent} at ${HUBS[targetHub as HubName]?.name || targetHub}.`
-      : `Moving to ${HUBS[targetHub as HubName]?.name || targetHub}.`;
+      ? `Moving toward ${targetInfo.targetAgent} at ${hubName}.`
+      : `Moving to ${hubName}.`;
 
     return {
       success: true,
       text: moveText,
-      data: { targetHub, travelTime }
+      data: { targetHub, travelTime: ticket.eta }
     };
   }
 };
@@ -862,7 +888,7 @@ const workAction = {
     }
 
     // Simulate work completion after a delay
-    setTimeout(() => {
+    setTimer(() => {
       updateAgentState(agentId, {
         status: 'idle',
         doing: null
@@ -1364,15 +1390,22 @@ const searchFilesAction = {
  */
 const executeShellAction = {
   name: 'EXECUTE_SHELL',
-  description: 'Execute a shell command in the shared workspace (npm, git, tsc, etc).',
+  description: 'Execute a shell command in the shared workspace (npm, git, tsc, etc). Set background to true for long-running commands such as dev servers.',
   parameters: [
-    { name: 'command', description: 'The shell command to execute', required: true, schema: { type: 'string' } }
+    { name: 'command', description: 'The shell command to execute', required: true, schema: { type: 'string' } },
+    {
+      name: 'background',
+      description: 'Start the command and return its process id instead of waiting (check it with CHECK_PROCESS)',
+      required: false,
+      schema: { type: 'boolean' }
+    }
   ],
   validate: async (): Promise<boolean> => process.env.CODER_ENABLED === 'true',
   handler: async (runtime: ElizaRuntime, _message: unknown, _state: unknown, options?: ActionOptions): Promise<ActionResult> => {
     const agentName = runtime.character?.name || 'unknown';
     const params = options?.parameters || {};
     const command = params.command as string | undefined;
+    const background = String(params.background) === 'true';
 
     if (!command) {
       return { success: false, text: 'Missing command parameter.' };
@@ -1380,6 +1413,19 @@ const executeShellAction = {
 
     try {
       const sandbox = getSharedSandbox();
+
+      if (background) {
+        const started = await sandbox.startBackgroundShell(command, agentName);
+        if (!started.ok || !started.process) {
+          return { success: false, text: started.error || 'Failed to start process' };
+        }
+        return {
+          success: true,
+          text: `$ ${command}\nStarted in the background as process ${started.process.id}`,
+          data: { command, processId: started.process.id }
+        };
+      }
+
       const result = await sandbox.executeShell(command, agentName);
 
       const output = result.stdout || result.stderr || '(no output)';
@@ -1388,7 +1434,7 @@ const executeShellAction = {
       return {
         success: result.success,
         text: `$ ${command}\n${truncated}${result.success ? '' : `\nExit code: ${result.exitCode}`}`,
-        data: { command, exitCode: result.exitCode, stdout: result.stdout, stderr: result.stderr }
+        data: { command, exitCode: result.exitCode, stdout: result.stdout, stderr: result.stderr, processId: result.processId }
       };
     } catch (error) {
       return { success: false, text: `Error: ${(error as Error).message}` };
@@ -1396,6 +1442,56 @@ const executeShellAction = {
   }
 };
 
+/**
+ * CHECK_PROCESS Action - Poll a shell process for its status and latest output
+ */
+const checkProcessAction = {
+  name: 'CHECK_PROCESS',
+  description: 'Check on a shell process started with EXECUTE_SHELL: whether it is still running and its latest output.',
+  parameters: [
+    { name: 'processId', description: 'The process id', required: true, schema: { type: 'number' } }
+  ],
+  validate: async (): Promise<boolean> => process.env.CODER_ENABLED === 'true',
+  handler: async (_runtime: ElizaRuntime, _message: unknown, _state: unknown, options?: ActionOptions): Promise<ActionResult> => {
+    const params = options?.parameters || {};
+    const processId = Number(params.processId);
+
+    const info = getProcess(processId);
+    if (!info) {
+      return { success: false, text: `No process ${params.processId}.` };
+    }
+
+    const tail = (text: string) => (text.length > 1500 ? '...' + text.slice(-1500) : text);
+    const lines = [`Process ${info.id} (${info.command}): ${info.status}`];
+    if (info.exitCode !== null) lines.push(`Exit code: ${info.exitCode}`);
+    if (info.stdout) lines.push(`stdout:\n${tail(info.stdout)}`);
+    if (info.stderr) lines.push(`stderr:\n${tail(info.stderr)}`);
+
+    return { success: true, text: lines.join('\n'), data: { process: info } };
+  }
+};
+
+/**
+ * STOP_PROCESS Action - Stop a running shell process
+ */
+const stopProcessAction = {
+  name: 'STOP_PROCESS',
+  description: 'Stop a running shell process, such as a dev server started in the background.',
+  parameters: [
+    { name: 'processId', description: 'The process id', required: true, schema: { type: 'number' } }
+  ],
+  validate: async (): Promise<boolean> => process.env.CODER_ENABLED === 'true',
+  handler: async (_runtime: ElizaRuntime, _message: unknown, _state: unknown, options?: ActionOptions): Promise<ActionResult> => {
+    const params = options?.parameters || {};
+    const processId = Number(params.processId);
+
+    if (!cancelProcess(processId)) {
+      return { success: false, text: `Process ${params.processId} is not running.` };
+    }
+    return { success: true, text: `Stopping process ${processId}.`, data: { processId } };
+  }
+};
+
 // ============================================================================
 // PLUGIN EXPORT
 // ============================================================================
@@ -1429,7 +1525,9 @@ export const elizaTownPlugin = {
     editFileAction,
     listFilesAction,
     searchFilesAction,
-    executeShellAction
+    executeShellAction,
+    checkProcessAction,
+    stopProcessAction
   ],
 
   // Plugin initialization
@@ -1442,7 +1540,7 @@ export const elizaTownPlugin = {
       name: runtime.character?.name || agentId,
       role: runtime.character?.role || 'coder',
       status: 'idle',
-      hub: getHubForRole(runtime.character?.role || 'coder') || 'town_square',
+      hub: getHubForRole(runtime.character?.role || 'coder') || DEFAULT_HUB,
       x: 0,
       z: 0
     });
@@ -0,0 +1,243 @@
+/**
+ * Hub Capacity for Eliza Town
+ *
+ * Tracks who holds a slot at each hub and queues agents that want to enter a
+ * full one. An agent holds a slot from the moment it sets off for a hub until
+ * it heads somewhere else, so two agents can't race for the last spot.
+ */
+
+import { TOWN_MAP, HUBS } from './townMap.js';
+import { now } from './clock.js';
+import type { WebSocketMessage } from '../websocket/index.js';
+
+// Type definitions
+export type HubSlotStatus = 'granted' | 'redirected' | 'queued' | 'full';
+
+export interface HubSlotRequest {
+  status: HubSlotStatus;
+  /** The hub the agent may head for: the one asked for, or an alternative when redirected */
+  hub: string;
+  /** 1-based place in line when queued */
+  position?: number;
+}
+
+export interface HubSlotOptions {
+  /** Join the queue when the hub is full (default true); otherwise the request comes back 'full' */
+  queue?: boolean;
+  /** Called with the hub once a queued agent reaches the front and gets a slot */
+  onGranted?: (hub: string) => void;
+  /** Called when a queued agent leaves the line without a slot, e.g. because it went elsewhere */
+  onDropped?: () => void;
+}
+
+export interface HubOccupancy {
+  capacity: number;
+  occupants: string[];
+  queue: string[];
+}
+
+interface QueuedAgent {
+  agentId: string;
+  queuedAt: number;
+  onGranted?: (hub: string) => void;
+  onDropped?: () => void;
+}
+
+type BroadcastFn = (message: WebSocketMessage) => void;
+
+let broadcastFn: BroadcastFn | null = null;
+const slotHolders = new Map<string, string>(); // agentId -> hub it is at or heading to
+const queues = new Map<string, QueuedAgent[]>(); // hub -> agents waiting for a slot, front first
+
+const CAPACITY = new Map(TOWN_MAP.hubs.map((hub) => [hub.id, hub.capacity]));
+const HUB_TYPES = new Map(TOWN_MAP.hubs.map((hub) => [hub.id, hub.type]));
+
+/**
+ * Set where queue changes are broadcast (called from the plugin's initialization)
+ */
+export function initializeHubCapacity(broadcast: BroadcastFn | null): void {
+  broadcastFn = broadcast;
+}
+
+function occupantsOf(hub: string): string[] {
+  return [...slotHolders].filter(([, held]) => held === hub).map(([agentId]) => agentId);
+}
+
+function hasRoom(hub: string): boolean {
+  return occupantsOf(hub).length < (CAPACITY.get(hub) ?? Infinity);
+}
+
+function broadcastQueue(hub: string): void {
+  if (!broadcastFn) return;
+  broadcastFn({
+    type: 'hub_queue',
+    data: { hub, ...describeHub(hub) },
+  });
+}
+
+function describeHub(hub: string): HubOccupancy {
+  return {
+    capacity: CAPACITY.get(hub) ?? 0,
+    occupants: occupantsOf(hub),
+    queue: (queues.get(hub) || []).map((entry) => entry.agentId),
+  };
+}
+
+// Take the agent out of whatever line it is standing in, telling whoever was waiting on it
+function leaveQueues(agentId: string, notify: boolean): void {
+  for (const [hub, queue] of queues) {
+    const idx = queue.findIndex((entry) => entry.agentId === agentId);
+    if (idx === -1) continue;
+
+    const [entry] = queue.splice(idx, 1);
+    broadcastQueue(hub);
+    if (notify) entry.onDropped?.();
+  }
+}
+
+// Hand freed slots to the front of the hub's line
+function promote(hub: string): void {
+  const queue = queues.get(hub);
+  while (queue && queue.length > 0 && hasRoom(hub)) {
+    const next = queue.shift() as QueuedAgent;
+    slotHolders.set(next.agentId, hub);
+    broadcastQueue(hub);
+    console.log(`[HubCapacity] ${next.agentId} reached the front of the line for ${hub}`);
+    next.onGranted?.(hub);
+  }
+}
+
+function setHolder(agentId: string, hub: string): void {
+  const previous = slotHolders.get(agentId);
+  slotHolders.set(agentId, hub);
+  if (previous && previous !== hub) promote(previous);
+}
+
+// Nearest hub of the same kind that still has room
+function findAlternative(hub: string): string | null {
+  const origin = HUBS[hub];
+  const type = HUB_TYPES.get(hub);
+  let best: string | null = null;
+  let bestDistance = Infinity;
+
+  for (const candidate of TOWN_MAP.hubs) {
+    if (candidate.id === hub || candidate.type !== type || !hasRoom(candidate.id)) continue;
+    const distance = Math.hypot(candidate.x - origin.x, candidate.z - origin.z);
+    if (distance < bestDistance) {
+      best = candidate.id;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Ask for a slot at a hub. Grants it when there is room, otherwise redirects to
+ * the nearest hub of the same type with room, otherwise queues the agent (or
+ * reports 'full' when queueing is turned off).
+ */
+export function requestHubSlot(agentId: string, hub: string, options: HubSlotOptions = {}): HubSlotRequest {
+  if (slotHolders.get(agentId) === hub) {
+    leaveQueues(agentId, true);
+    return { status: 'granted', hub };
+  }
+
+  if (hasRoom(hub)) {
+    leaveQueues(agentId, true);
+    setHolder(agentId, hub);
+    return { status: 'granted', hub };
+  }
+
+  const alternative = findAlternative(hub);
+  if (alternative) {
+    leaveQueues(agentId, true);
+    setHolder(agentId, alternative);
+    console.log(`[HubCapacity] ${hub} is full, redirecting ${agentId} to ${alternative}`);
+    return { status: 'redirected', hub: alternative };
+  }
+
+  if (options.queue === false) {
+    return { status: 'full', hub };
+  }
+
+  const queue = queues.get(hub) || [];
+  const existing = queue.findIndex((entry) => entry.agentId === agentId);
+  if (existing !== -1) {
+    // Already in this line: keep the place, but the newest caller is the one to notify
+    const previous = queue[existing];
+    queue[existing] = { ...previous, onGranted: options.onGranted, onDropped: options.onDropped };
+    previous.onDropped?.();
+    return { status: 'queued', hub, position: existing + 1 };
+  }
+
+  leaveQueues(agentId, true);
+  queue.push({ agentId, queuedAt: now(), onGranted: options.onGranted, onDropped: options.onDropped });
+  queues.set(hub, queue);
+  broadcastQueue(hub);
+  console.log(`[HubCapacity] ${hub} is full, ${agentId} is #${queue.length} in line`);
+  return { status: 'queued', hub, position: queue.length };
+}
+
+/**
+ * Promise form of requestHubSlot: resolves with the hub once the agent has a
+ * slot, or null if it gave up its place in line (or the hub was full and
+ * queueing is off).
+ */
+export function waitForHubSlot(
+  agentId: string,
+  hub: string,
+  options: Pick<HubSlotOptions, 'queue'> & { onQueued?: (position: number) => void } = {}
+): Promise<string | null> {
+  return new Promise((resolve) => {
+    const request = requestHubSlot(agentId, hub, {
+      queue: options.queue,
+      onGranted: resolve,
+      onDropped: () => resolve(null),
+    });
+
+    if (request.status === 'queued') {
+      options.onQueued?.(request.position ?? 0);
+    } else {
+      resolve(request.status === 'full' ? null : request.hub);
+    }
+  });
+}
+
+/**
+ * Give up a place in line, e.g. because the trip was called off. The waiting
+ * caller's onDropped runs; any slot the agent already holds is kept.
+ */
+export function cancelHubRequest(agentId: string): void {
+  leaveQueues(agentId, true);
+}
+
+/**
+ * Put an agent at a hub without travelling, e.g. on startup. Falls back to the
+ * default hub, then to the requested hub over capacity, so everyone has a spot.
+ */
+export function placeAgent(agentId: string, hub: string): string {
+  leaveQueues(agentId, true);
+  const placed = hasRoom(hub) || slotHolders.get(agentId) === hub
+    ? hub
+    : hasRoom(TOWN_MAP.defaultHub) ? TOWN_MAP.defaultHub : hub;
+
+  if (placed !== hub) {
+    console.log(`[HubCapacity] ${hub} is full, placing ${agentId} at ${placed}`);
+  }
+  setHolder(agentId, placed);
+  return placed;
+}
+
+/**
+ * Whether the agent could enter the hub right now without waiting
+ */
+export function canEnterHub(agentId: string, hub: string): boolean {
+  return slotHolders.get(agentId) === hub || hasRoom(hub);
+}
+
+/**
+ * Occupants, capacity and waiting line for every hub on the map
+ */
+export function getHubOccupancy(): Record<string, HubOccupancy> {
+  return Object.fromEntries(TOWN_MAP.hubs.map((hub) => [hub.id, describeHub(hub.id)]));
+}
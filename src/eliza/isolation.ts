@@ -0,0 +1,161 @@
+/**
+ * Process Isolation for Eliza Town
+ *
+ * Builds the bubblewrap (bwrap) invocation the sandbox's isolated mode runs
+ * shell commands through. Each command gets its own mount, PID, IPC, UTS and
+ * (by default) network namespace; the host filesystem is visible read-only,
+ * the task workspace is the only writable path (less any server-owned paths
+ * inside it, such as the workspace git repository), and rlimits (set with
+ * util-linux prlimit, inherited through bwrap) cap CPU time, memory, process
+ * count and file size. The environment is cleared down to an allowlist, so
+ * the server's API keys and database URL never reach a command.
+ */
+
+import { execFileSync } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+// Type definitions
+export interface IsolationLimits {
+  /** CPU seconds per command */
+  cpuSeconds: number;
+  /** Virtual memory per process, in MB */
+  memoryMb: number;
+  /** Processes the sandbox user may run at once */
+  processes: number;
+  /** Largest file a command may write, in MB */
+  fileSizeMb: number;
+}
+
+export interface IsolationOptions {
+  /** The only writable directory inside the sandbox */
+  workspaceRoot: string;
+  /** Working directory for the command (inside workspaceRoot) */
+  cwd: string;
+  limits: IsolationLimits;
+  /** Let the command reach the network (off by default) */
+  network: boolean;
+  /** Host paths hidden behind an empty tmpfs, e.g. the server's own directory with its .env */
+  hiddenPaths: string[];
+  /** Paths inside workspaceRoot that stay read-only, e.g. the repository the server runs git in */
+  readOnlyPaths?: string[];
+}
+
+export interface IsolatedCommand {
+  file: string;
+  args: string[];
+  /** Environment for prlimit and bwrap themselves; the command gets only what --setenv gives it */
+  env: Record<string, string>;
+}
+
+export const BWRAP_PATH = process.env.SANDBOX_BWRAP_PATH || 'bwrap';
+export const PRLIMIT_PATH = process.env.SANDBOX_PRLIMIT_PATH || 'prlimit';
+
+// Server environment variables a sandboxed command may see; HOME and TMPDIR are set per command
+const ENV_ALLOWLIST = ['PATH', 'LANG'];
+
+/**
+ * The environment sandboxed commands run with: the allowlisted variables from
+ * the server's environment plus HOME and TMPDIR, and nothing else
+ */
+export function sandboxEnv(home: string, tmpDir: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const name of ENV_ALLOWLIST) {
+    const value = process.env[name];
+    if (value !== undefined) env[name] = value;
+  }
+  return { ...env, HOME: home, TMPDIR: tmpDir };
+}
+
+export const DEFAULT_LIMITS: IsolationLimits = {
+  cpuSeconds: parseInt(process.env.SANDBOX_CPU_SECONDS || '30', 10),
+  memoryMb: parseInt(process.env.SANDBOX_MEMORY_MB || '1024', 10),
+  processes: parseInt(process.env.SANDBOX_MAX_PROCESSES || '128', 10),
+  fileSizeMb: parseInt(process.env.SANDBOX_MAX_FILE_MB || '100', 10),
+};
+
+/**
+ * Host paths hidden from sandboxed commands by default: the server's working
+ * directory (source, .env, credentials) and the server user's home directory
+ */
+export function defaultHiddenPaths(): string[] {
+  return [...new Set([process.cwd(), os.homedir()])];
+}
+
+/**
+ * Make sure bubblewrap and prlimit are installed and namespaces can be
+ * created here. Throws otherwise; isolated mode never falls back to running
+ * commands unconfined.
+ */
+export function checkIsolation(): string {
+  let version: string;
+  try {
+    version = execFileSync(BWRAP_PATH, ['--version'], { encoding: 'utf-8', timeout: 5000 }).trim();
+  } catch (error) {
+    throw new Error(`[Isolation] bubblewrap not found at "${BWRAP_PATH}" (${(error as Error).message})`);
+  }
+
+  try {
+    execFileSync(PRLIMIT_PATH, ['--version'], { timeout: 5000, stdio: 'pipe' });
+  } catch (error) {
+    throw new Error(`[Isolation] prlimit not found at "${PRLIMIT_PATH}" (${(error as Error).message})`);
+  }
+
+  try {
+    execFileSync(BWRAP_PATH, ['--unshare-all', '--ro-bind', '/', '/', '--', 'true'], { timeout: 5000, stdio: 'pipe' });
+  } catch (error) {
+    const stderr = (error as { stderr?: Buffer }).stderr?.toString().trim();
+    throw new Error(`[Isolation] bubblewrap cannot create namespaces here: ${stderr || (error as Error).message}`);
+  }
+  return version;
+}
+
+/**
+ * The prlimit + bwrap command line that runs a shell command inside the sandbox
+ */
+export function buildIsolatedCommand(command: string, options: IsolationOptions): IsolatedCommand {
+  const { workspaceRoot, cwd, limits, network, hiddenPaths, readOnlyPaths = [] } = options;
+  const mb = 1024 * 1024;
+
+  const args = [
+    `--cpu=${limits.cpuSeconds}`,
+    `--as=${limits.memoryMb * mb}`,
+    `--nproc=${limits.processes}`,
+    `--fsize=${limits.fileSizeMb * mb}`,
+    BWRAP_PATH,
+    '--die-with-parent',
+    '--new-session',
+    '--clearenv',
+    '--unshare-all',
+    ...(network ? ['--share-net'] : []),
+    '--ro-bind', '/', '/',
+    '--dev', '/dev',
+    '--proc', '/proc',
+    '--tmpfs', '/tmp',
+  ];
+
+  // Hide sensitive host paths; a workspace inside one is still bound back in below
+  for (const hidden of hiddenPaths) {
+    if (hidden !== '/') args.push('--tmpfs', hidden);
+  }
+
+  args.push('--bind', workspaceRoot, workspaceRoot);
+
+  // Bound back read-only over the writable workspace (bwrap needs them to exist)
+  for (const readOnly of readOnlyPaths) {
+    const relative = path.relative(workspaceRoot, readOnly);
+    if (!relative.startsWith('..') && !path.isAbsolute(relative) && existsSync(readOnly)) {
+      args.push('--ro-bind', readOnly, readOnly);
+    }
+  }
+
+  const env = sandboxEnv(workspaceRoot, '/tmp');
+  args.push('--chdir', cwd);
+  for (const [name, value] of Object.entries(env)) {
+    args.push('--setenv', name, value);
+  }
+  args.push('--', '/bin/sh', '-c', command);
+
+  return { file: PRLIMIT_PATH, args, env };
+}
@@ -0,0 +1,425 @@
+/**
+ * LLM Provider Routing for Eliza Town
+ *
+ * Decides which provider and model size serve each agent's model calls, and
+ * fails over to the next provider when one is rate limited or erroring.
+ * Routes come from config/llm-routing.json (or LLM_ROUTING_PATH): a default
+ * provider order and size, overridden per agent (by name) and then per kind
+ * of decision, so the planner can think on a large model while everyone's
+ * ambient chat stays on a small one. Agents can also pin model names per
+ * provider; those become the runtime's *_SMALL_MODEL / *_LARGE_MODEL settings.
+ *
+ * Each provider has a circuit breaker shared by every agent: after
+ * failureThreshold retryable failures in a row (429, 5xx, timeouts, network
+ * errors) it is skipped for cooldownMs, then one trial call decides whether it
+ * closes again. Breaker state is reported by /api/health.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { now } from './clock.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const DEFAULT_ROUTING_PATH = path.join(__dirname, '../../config/llm-routing.json');
+
+// Type definitions
+export interface LLMProvider {
+  /** Provider name the plugin registers its models under */
+  id: string;
+  name: string;
+  env: string;
+  module: string;
+}
+
+export type ModelSize = 'small' | 'large';
+export type DecisionKind = 'plan' | 'subtask' | 'work' | 'move' | 'chat';
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ModelRoute {
+  /** Providers to try, in order */
+  providers?: string[];
+  /** Size every text and object generation uses; ElizaOS picks when omitted */
+  size?: ModelSize;
+  /** Model names by provider (agent routes only) */
+  models?: Record<string, Partial<Record<ModelSize, string>>>;
+}
+
+export interface RoutingConfig {
+  default: ModelRoute;
+  /** Overrides by agent name */
+  agents: Record<string, ModelRoute>;
+  /** Overrides by kind of decision, applied on top of the agent's route */
+  decisions: Partial<Record<DecisionKind, ModelRoute>>;
+  circuitBreaker: {
+    failureThreshold: number;
+    cooldownMs: number;
+  };
+}
+
+export interface ResolvedRoute {
+  providers: string[];
+  size: ModelSize | null;
+}
+
+export interface ProviderHealth {
+  provider: string;
+  /** Its API key is set, so its plugin is loaded */
+  configured: boolean;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastFailureAt: string | null;
+  /** When an open circuit lets a trial call through */
+  retryAt: string | null;
+}
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number | null;
+  lastError: string | null;
+  lastFailureAt: number | null;
+  /** A half-open circuit lets one call through at a time */
+  trialInFlight: boolean;
+}
+
+export const LLM_PROVIDERS: LLMProvider[] = [
+  { id: 'groq', name: 'Groq', env: 'GROQ_API_KEY', module: '@elizaos/plugin-groq' },
+  { id: 'anthropic', name: 'Anthropic', env: 'ANTHROPIC_API_KEY', module: '@elizaos/plugin-anthropic' },
+  { id: 'openai', name: 'OpenAI', env: 'OPENAI_API_KEY', module: '@elizaos/plugin-openai' },
+];
+
+const PROVIDER_IDS = LLM_PROVIDERS.map((p) => p.id);
+const SIZES: ModelSize[] = ['small', 'large'];
+const DECISION_KINDS: DecisionKind[] = ['plan', 'subtask', 'work', 'move', 'chat'];
+
+function validateRoute(value: unknown, label: string, errors: string[], allowModels: boolean): ModelRoute {
+  if (value === undefined) return {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${label} must be an object`);
+    return {};
+  }
+
+  const raw = value as Record<string, unknown>;
+  const route: ModelRoute = {};
+
+  if (raw.providers !== undefined) {
+    if (!Array.isArray(raw.providers) || raw.providers.length === 0 || raw.providers.some((p) => !PROVIDER_IDS.includes(p))) {
+      errors.push(`${label}: "providers" must list providers from ${PROVIDER_IDS.join(', ')}`);
+    } else {
+      route.providers = raw.providers as string[];
+    }
+  }
+  if (raw.size !== undefined) {
+    if (!SIZES.includes(raw.size as ModelSize)) {
+      errors.push(`${label}: "size" must be one of ${SIZES.join(', ')}`);
+    } else {
+      route.size = raw.size as ModelSize;
+    }
+  }
+  if (raw.models !== undefined) {
+    if (!allowModels) {
+      errors.push(`${label}: "models" can only be set for an agent`);
+    } else if (!raw.models || typeof raw.models !== 'object' || Array.isArray(raw.models)) {
+      errors.push(`${label}: "models" must be an object keyed by provider`);
+    } else {
+      route.models = {};
+      for (const [provider, models] of Object.entries(raw.models as Record<string, unknown>)) {
+        const entries = (models && typeof models === 'object' ? models : {}) as Record<string, unknown>;
+        if (!PROVIDER_IDS.includes(provider)) {
+          errors.push(`${label}: unknown provider "${provider}" in "models"`);
+        } else if (!Object.entries(entries).every(([size, name]) => SIZES.includes(size as ModelSize) && typeof name === 'string')) {
+          errors.push(`${label}: "models.${provider}" must map small and/or large to model names`);
+        } else {
+          route.models[provider] = entries as Partial<Record<ModelSize, string>>;
+        }
+      }
+    }
+  }
+  return route;
+}
+
+/**
+ * Check a parsed routing file and return it typed, or throw listing every problem
+ */
+export function validateRouting(value: unknown, source = 'LLM routing'): RoutingConfig {
+  const errors: string[] = [];
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+
+  const defaults = validateRoute(raw.default, '"default"', errors, false);
+
+  const agents: Record<string, ModelRoute> = {};
+  if (raw.agents !== undefined && (!raw.agents || typeof raw.agents !== 'object' || Array.isArray(raw.agents))) {
+    errors.push('"agents" must be an object keyed by agent name');
+  } else {
+    for (const [agent, route] of Object.entries((raw.agents ?? {}) as Record<string, unknown>)) {
+      agents[agent] = validateRoute(route, `agent "${agent}"`, errors, true);
+    }
+  }
+
+  const decisions: RoutingConfig['decisions'] = {};
+  if (raw.decisions !== undefined && (!raw.decisions || typeof raw.decisions !== 'object' || Array.isArray(raw.decisions))) {
+    errors.push(`"decisions" must be an object keyed by ${DECISION_KINDS.join(', ')}`);
+  } else {
+    for (const [kind, route] of Object.entries((raw.decisions ?? {}) as Record<string, unknown>)) {
+      if (!DECISION_KINDS.includes(kind as DecisionKind)) {
+        errors.push(`unknown decision "${kind}" (expected ${DECISION_KINDS.join(', ')})`);
+      } else {
+        decisions[kind as DecisionKind] = validateRoute(route, `decision "${kind}"`, errors, false);
+      }
+    }
+  }
+
+  const breaker = (raw.circuitBreaker && typeof raw.circuitBreaker === 'object' ? raw.circuitBreaker : {}) as Record<string, unknown>;
+  const failureThreshold = breaker.failureThreshold ?? 3;
+  const cooldownMs = breaker.cooldownMs ?? 60000;
+  if (!Number.isInteger(failureThreshold) || (failureThreshold as number) < 1) {
+    errors.push('"circuitBreaker.failureThreshold" must be a positive integer');
+  }
+  if (typeof cooldownMs !== 'number' || cooldownMs < 0) {
+    errors.push('"circuitBreaker.cooldownMs" must be a non-negative number');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${source}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return {
+    default: { providers: PROVIDER_IDS, ...defaults },
+    agents,
+    decisions,
+    circuitBreaker: { failureThreshold: failureThreshold as number, cooldownMs: cooldownMs as number },
+  };
+}
+
+/**
+ * Read and validate the routing file. Runs at import time so a bad file
+ * stops the server instead of routing calls somewhere unexpected.
+ * LLM_PROVIDER, when set, moves that provider to the front of the default order.
+ */
+export function loadRouting(routingPath = process.env.LLM_ROUTING_PATH || DEFAULT_ROUTING_PATH): RoutingConfig {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(routingPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read LLM routing at ${routingPath}: ${(error as Error).message}`);
+  }
+  const config = validateRouting(parsed, `LLM routing at ${routingPath}`);
+
+  const preferred = process.env.LLM_PROVIDER?.toLowerCase();
+  if (preferred && PROVIDER_IDS.includes(preferred)) {
+    const providers = config.default.providers ?? PROVIDER_IDS;
+    config.default.providers = [preferred, ...providers.filter((p) => p !== preferred)];
+  }
+  return config;
+}
+
+const routing: RoutingConfig = loadRouting();
+const circuits = new Map<string, Circuit>();
+const decisionContext = new AsyncLocalStorage<DecisionKind>();
+
+export function getRouting(): RoutingConfig {
+  return routing;
+}
+
+/**
+ * Providers in the default route's order (the rest after), so plugins load
+ * with the preferred provider first
+ */
+export function orderedProviders(): LLMProvider[] {
+  const order = routing.default.providers ?? PROVIDER_IDS;
+  const rank = (p: LLMProvider) => (order.includes(p.id) ? order.indexOf(p.id) : order.length);
+  return [...LLM_PROVIDERS].sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * The route for an agent's next call: default, then the agent's, then the decision's
+ */
+export function routeFor(agent: string, decision: DecisionKind | null = null): ResolvedRoute {
+  const layers = [routing.default, routing.agents[agent], decision ? routing.decisions[decision] : undefined];
+  let providers = PROVIDER_IDS;
+  let size: ModelSize | null = null;
+  for (const layer of layers) {
+    if (layer?.providers) providers = layer.providers;
+    if (layer?.size) size = layer.size;
+  }
+  return { providers, size };
+}
+
+/**
+ * The model an agent pinned for a provider and size, if any
+ */
+export function agentModel(agent: string, provider: string, size: ModelSize): string | null {
+  return routing.agents[agent]?.models?.[provider]?.[size] ?? null;
+}
+
+/**
+ * Route every model call made inside fn (and anything it starts) as this kind of decision
+ */
+export function runWithDecision<T>(kind: DecisionKind | null, fn: () => T): T {
+  return kind ? decisionContext.run(kind, fn) : fn();
+}
+
+/**
+ * The kind of decision the current model call belongs to, if any
+ */
+export function currentDecisionKind(): DecisionKind | null {
+  return decisionContext.getStore() ?? null;
+}
+
+/**
+ * Whether an error is worth retrying on another provider: rate limits,
+ * server errors, timeouts and network failures. Anything else (a bad
+ * request, a refused prompt) would fail the same way everywhere.
+ */
+export function isRetryableError(error: unknown): boolean {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const e = error as any;
+  if (e?.isRetryable === true) return true;
+
+  const status = e?.status ?? e?.statusCode ?? e?.response?.status ?? e?.cause?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  const text = `${e?.name ?? ''} ${e?.code ?? ''} ${e?.message ?? ''}`.toLowerCase();
+  return /rate.?limit|too many requests|overloaded|timed? ?out|econnreset|econnrefused|etimedout|enotfound|fetch failed|socket hang up|service unavailable|bad gateway/.test(
+    text
+  );
+}
+
+function circuit(provider: string): Circuit {
+  let entry = circuits.get(provider);
+  if (!entry) {
+    entry = { state: 'closed', failures: 0, openedAt: null, lastError: null, lastFailureAt: null, trialInFlight: false };
+    circuits.set(provider, entry);
+  }
+  return entry;
+}
+
+// Whether a call may go to this provider now; an open circuit past its cooldown lets one trial through
+function tryAcquire(provider: string, at = now()): boolean {
+  const entry = circuit(provider);
+  if (entry.state === 'closed') return true;
+  if (entry.state === 'open') {
+    if (at - (entry.openedAt ?? 0) < routing.circuitBreaker.cooldownMs) return false;
+    entry.state = 'half_open';
+  }
+  if (entry.trialInFlight) return false;
+  entry.trialInFlight = true;
+  return true;
+}
+
+function recordSuccess(provider: string): void {
+  const entry = circuit(provider);
+  if (entry.state !== 'closed') {
+    console.log(`[LLMRouting] ${provider} recovered, circuit closed`);
+  }
+  entry.state = 'closed';
+  entry.failures = 0;
+  entry.openedAt = null;
+  entry.trialInFlight = false;
+}
+
+function recordFailure(provider: string, error: unknown): void {
+  const entry = circuit(provider);
+  entry.failures++;
+  entry.lastError = (error as Error)?.message ?? String(error);
+  entry.lastFailureAt = now();
+  entry.trialInFlight = false;
+
+  if (entry.state === 'half_open' || entry.failures >= routing.circuitBreaker.failureThreshold) {
+    if (entry.state !== 'open') {
+      console.warn(
+        `[LLMRouting] ${provider} circuit opened after ${entry.failures} failure(s), ` +
+          `skipping it for ${routing.circuitBreaker.cooldownMs}ms: ${entry.lastError}`
+      );
+    }
+    entry.state = 'open';
+    entry.openedAt = now();
+  }
+}
+
+/**
+ * Circuit breaker state of every known provider, for /api/health
+ */
+export function getProviderHealth(): ProviderHealth[] {
+  const providers = [...new Set([...PROVIDER_IDS, ...circuits.keys()])];
+  return providers.map((provider) => {
+    const entry = circuit(provider);
+    const info = LLM_PROVIDERS.find((p) => p.id === provider);
+    return {
+      provider,
+      configured: !!(info && process.env[info.env]),
+      state: entry.state,
+      consecutiveFailures: entry.failures,
+      lastError: entry.lastError,
+      lastFailureAt: entry.lastFailureAt ? new Date(entry.lastFailureAt).toISOString() : null,
+      retryAt:
+        entry.state === 'open' && entry.openedAt
+          ? new Date(entry.openedAt + routing.circuitBreaker.cooldownMs).toISOString()
+          : null,
+    };
+  });
+}
+
+// TEXT_LARGE becomes TEXT_SMALL on a small route, and so on; other model types are left alone
+function sizedModelType(modelType: string, size: ModelSize | null): string {
+  const match = /^(TEXT|OBJECT)_(SMALL|LARGE)$/.exec(modelType);
+  return match && size ? `${match[1]}_${size.toUpperCase()}` : modelType;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function handlerProviders(runtime: any, modelType: string): string[] {
+  const handlers = runtime.models?.get?.(modelType);
+  return Array.isArray(handlers) ? handlers.map((h) => h.provider).filter((p) => typeof p === 'string') : [];
+}
+
+/**
+ * Route a runtime's model calls by the agent's route, failing over between
+ * providers. A call that names its provider is passed through untouched, and
+ * a model type none of the route's providers serve (e.g. embeddings on a
+ * Groq-only route) goes to whichever plugin the runtime picks.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function routeModelCalls(runtime: any, agent: string): void {
+  const useModel = runtime.useModel.bind(runtime);
+
+  runtime.useModel = async (modelType: string, params: unknown, provider?: string) => {
+    if (provider) return useModel(modelType, params, provider);
+
+    const route = routeFor(agent, decisionContext.getStore() ?? null);
+    const type = sizedModelType(modelType, route.size);
+    const available = handlerProviders(runtime, type);
+    const candidates = route.providers.filter((p) => available.includes(p));
+    if (candidates.length === 0) return useModel(type, params);
+
+    let lastError: unknown = null;
+    for (const [idx, candidate] of candidates.entries()) {
+      if (!tryAcquire(candidate)) continue;
+      try {
+        const result = await useModel(type, params, candidate);
+        recordSuccess(candidate);
+        return result;
+      } catch (error) {
+        if (!isRetryableError(error)) {
+          // The provider answered, so it's up; the request itself is the problem
+          recordSuccess(candidate);
+          throw error;
+        }
+        recordFailure(candidate, error);
+        lastError = error;
+        const next = candidates.slice(idx + 1);
+        console.warn(
+          `[LLMRouting] ${candidate} failed ${type} for ${agent}: ${(error as Error)?.message ?? error}` +
+            (next.length > 0 ? `; trying ${next.join(', ')}` : '')
+        );
+      }
+    }
+
+    throw lastError ?? new Error(`[LLMRouting] No provider available for ${agent} (${candidates.join(', ')} circuits open)`);
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Local Sandbox Backend for Eliza Town
+ *
+ * Files live under the sandbox's allowed directory on this machine and shell
+ * commands run as streamed, cancellable child processes (shellProcesses.ts).
+ * The "isolated" variant keeps the same files but runs every command under
+ * bubblewrap with its own namespaces and resource limits (isolation.ts), and
+ * refuses to start where that isn't possible.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { checkIsolation, buildIsolatedCommand, sandboxEnv } from './isolation.js';
+import { repositoryPath } from './workspaceGit.js';
+import { startProcess, stopAllProcesses, getProcess, type ProcessInfo, type ProcessSpec } from './shellProcesses.js';
+import {
+  searchTree,
+  type DirectoryEntry,
+  type ExecOptions,
+  type ExecResult,
+  type SandboxBackend,
+  type SearchOptions,
+} from './sandboxBackend.js';
+import type { SandboxConfig, SearchMatch } from './sharedSandbox.js';
+
+export class LocalBackend implements SandboxBackend {
+  readonly name: string;
+  readonly paths = path;
+  readonly root: string;
+  readonly local = true;
+
+  constructor(private config: SandboxConfig, private isolated = false) {
+    this.name = isolated ? 'isolated' : 'local';
+    this.root = config.allowedDirectory;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.isolated) {
+      // Never fall back to running commands unconfined
+      const version = checkIsolation();
+      const { limits, network } = this.config.isolation;
+      console.log(`[LocalBackend] Shell commands isolated with ${version}`);
+      console.log(
+        `[LocalBackend] Limits: ${limits.cpuSeconds}s CPU, ${limits.memoryMb}MB memory, ` +
+        `${limits.processes} processes, ${limits.fileSizeMb}MB files, network ${network ? 'on' : 'off'}`
+      );
+    }
+
+    try {
+      await fs.mkdir(this.root, { recursive: true });
+      console.log(`[LocalBackend] Local sandbox ready at ${this.root}`);
+    } catch (error) {
+      console.error('[LocalBackend] Failed to create sandbox directory:', error);
+      throw error;
+    }
+  }
+
+  readFile(filepath: string): Promise<string> {
+    return fs.readFile(filepath, 'utf-8');
+  }
+
+  async writeFile(filepath: string, content: string): Promise<void> {
+    await fs.mkdir(path.dirname(filepath), { recursive: true });
+    await fs.writeFile(filepath, content, 'utf-8');
+  }
+
+  async list(dir: string): Promise<DirectoryEntry[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries.map((e) => ({ name: e.name, isDirectory: e.isDirectory(), isFile: e.isFile() }));
+  }
+
+  async isDirectory(target: string): Promise<boolean> {
+    return (await fs.stat(target)).isDirectory();
+  }
+
+  async makeDirectory(dir: string): Promise<void> {
+    await fs.mkdir(dir, { recursive: true });
+  }
+
+  search(dir: string, needle: string, options: SearchOptions): Promise<SearchMatch[]> {
+    return searchTree(this, dir, needle, options);
+  }
+
+  async exec(command: string, options: ExecOptions): Promise<ExecResult> {
+    const { id, done } = startProcess(
+      this.spec(command, options),
+      { agent: options.agent, taskId: options.taskId, command },
+      { timeoutMs: options.timeoutMs }
+    );
+    return { ...(await done), processId: id };
+  }
+
+  startBackground(command: string, options: ExecOptions): ProcessInfo {
+    const { id } = startProcess(
+      this.spec(command, options),
+      { agent: options.agent, taskId: options.taskId, command },
+      { background: true }
+    );
+    return getProcess(id) as ProcessInfo;
+  }
+
+  async close(): Promise<void> {
+    stopAllProcesses();
+  }
+
+  // How a shell command is spawned: directly, or under bubblewrap when isolated
+  private spec(command: string, options: ExecOptions): ProcessSpec {
+    if (this.isolated) {
+      return buildIsolatedCommand(command, {
+        workspaceRoot: options.workspaceRoot,
+        cwd: options.cwd,
+        ...this.config.isolation,
+        readOnlyPaths: [repositoryPath(this.config.allowedDirectory)],
+      });
+    }
+    return { file: '/bin/sh', args: ['-c', command], cwd: options.cwd, env: sandboxEnv(options.workspaceRoot, os.tmpdir()) };
+  }
+}
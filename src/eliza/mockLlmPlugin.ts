@@ -0,0 +1,271 @@
+/**
+ * Scripted Model Provider for Eliza Town
+ *
+ * An ElizaOS model plugin that answers from a script instead of calling an
+ * LLM, so whole planning → design → code → review runs are deterministic and
+ * need no network or API key. Each rule matches on the agent, the kind of
+ * decision and/or the prompt, and replies with text plus action calls
+ * (WRITE_FILE, SPEAK...) rendered in the XML shape ElizaOS parses. Rules are
+ * tried in order and the first match answers; a rule with `times` retires
+ * after that many answers.
+ *
+ * The simulation harness sets scripts in code with setMockScript. The server
+ * uses this provider with LLM_PROVIDER=mock, reading its script from
+ * config/mock-llm.json (or MOCK_LLM_SCRIPT); there `match` is a substring.
+ *
+ * Action parameters are keyed by action name, so a reply can call each
+ * action once; script another turn to call it again.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { currentDecisionKind, type DecisionKind } from './llmRouting.js';
+import { currentUsageContext } from './modelUsage.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const DEFAULT_SCRIPT_PATH = path.join(__dirname, '../../config/mock-llm.json');
+
+// Type definitions
+export interface MockActionCall {
+  name: string;
+  params?: Record<string, string | number | boolean>;
+}
+
+export interface MockReply {
+  text?: string;
+  thought?: string;
+  actions?: MockActionCall[];
+  /** Returned as-is for OBJECT_SMALL / OBJECT_LARGE calls */
+  object?: Record<string, unknown>;
+}
+
+export interface MockCall {
+  /** Character name of the agent making the call */
+  agent: string;
+  kind: DecisionKind | null;
+  taskId: number | null;
+  subtaskId: number | null;
+  modelType: string;
+  prompt: string;
+  /** Index of the rule that answered, or null for the fallback */
+  rule: number | null;
+}
+
+/** A reply, raw model output, or a function of the call returning either (null to fall through) */
+export type MockResponder = MockReply | string | ((call: MockCall) => MockReply | string | null);
+
+export interface MockRule {
+  agent?: string;
+  kind?: DecisionKind;
+  /** RegExp tested against the prompt, or a substring it must contain */
+  match?: RegExp | string;
+  reply: MockResponder;
+  /** Answer at most this many calls */
+  times?: number;
+}
+
+export interface MockScript {
+  rules: MockRule[];
+  /** Reply when no rule matches (default: no text and no actions) */
+  fallback?: MockReply;
+}
+
+// ElizaOS model types the plugin serves
+const TEXT_MODELS = ['TEXT_SMALL', 'TEXT_LARGE'];
+const OBJECT_MODELS = ['OBJECT_SMALL', 'OBJECT_LARGE'];
+const EMBEDDING_MODEL = 'TEXT_EMBEDDING';
+const EMBEDDING_DIMENSIONS = 384;
+const DECISION_KINDS: DecisionKind[] = ['plan', 'subtask', 'work', 'move', 'chat'];
+
+function validateReply(value: unknown, label: string, errors: string[]): MockReply {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${label} must be an object with "text", "thought" and/or "actions"`);
+    return {};
+  }
+  const raw = value as Record<string, unknown>;
+  for (const field of ['text', 'thought']) {
+    if (raw[field] !== undefined && typeof raw[field] !== 'string') {
+      errors.push(`${label}: "${field}" must be a string`);
+    }
+  }
+  if (
+    raw.actions !== undefined &&
+    (!Array.isArray(raw.actions) ||
+      raw.actions.some((a) => !a || typeof a.name !== 'string' || (a.params !== undefined && typeof a.params !== 'object')))
+  ) {
+    errors.push(`${label}: "actions" must be a list of { "name", "params" }`);
+  }
+  return raw as MockReply;
+}
+
+/**
+ * Check a parsed script file and return it typed, or throw listing every problem
+ */
+export function validateMockScript(value: unknown, source = 'mock LLM script'): MockScript {
+  const errors: string[] = [];
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const rules: MockRule[] = [];
+
+  if (!Array.isArray(raw.rules)) {
+    errors.push('"rules" must be a list');
+  } else {
+    for (const [idx, entry] of raw.rules.entries()) {
+      const rule = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+      const label = `rule ${idx + 1}`;
+      if (rule.agent !== undefined && typeof rule.agent !== 'string') errors.push(`${label}: "agent" must be a string`);
+      if (rule.kind !== undefined && !DECISION_KINDS.includes(rule.kind as DecisionKind)) {
+        errors.push(`${label}: "kind" must be one of ${DECISION_KINDS.join(', ')}`);
+      }
+      if (rule.match !== undefined && typeof rule.match !== 'string') errors.push(`${label}: "match" must be a string`);
+      if (rule.times !== undefined && (!Number.isInteger(rule.times) || (rule.times as number) < 1)) {
+        errors.push(`${label}: "times" must be a positive integer`);
+      }
+      rules.push({ ...(rule as Omit<MockRule, 'reply'>), reply: validateReply(rule.reply, `${label} "reply"`, errors) });
+    }
+  }
+
+  const fallback = raw.fallback === undefined ? undefined : validateReply(raw.fallback, '"fallback"', errors);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${source}:\n  - ${errors.join('\n  - ')}`);
+  }
+  return { rules, fallback };
+}
+
+/**
+ * Read and validate a script file
+ */
+export function loadMockScript(scriptPath = process.env.MOCK_LLM_SCRIPT || DEFAULT_SCRIPT_PATH): MockScript {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(scriptPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read mock LLM script at ${scriptPath}: ${(error as Error).message}`);
+  }
+  return validateMockScript(parsed, `mock LLM script at ${scriptPath}`);
+}
+
+// Loaded on first use, so servers that never use the mock never read the file
+let script: MockScript | null = null;
+let answered: number[] = [];
+let calls: MockCall[] = [];
+
+/**
+ * Answer from this script from now on, forgetting earlier calls
+ */
+export function setMockScript(next: MockScript): void {
+  script = next;
+  answered = next.rules.map(() => 0);
+  calls = [];
+}
+
+/**
+ * Every call answered since the script was set, oldest first
+ */
+export function getMockCalls(): MockCall[] {
+  return calls;
+}
+
+/**
+ * Render a reply as the XML response ElizaOS's message handler parses
+ */
+export function renderReply(reply: MockReply): string {
+  const actions = reply.actions || [];
+  const params = actions
+    .filter((action) => action.params && Object.keys(action.params).length > 0)
+    .map(
+      (action) =>
+        `<${action.name}>\n` +
+        Object.entries(action.params!)
+          .map(([name, value]) => `<${name}>${value}</${name}>`)
+          .join('\n') +
+        `\n</${action.name}>`
+    );
+
+  return [
+    '<response>',
+    `<thought>${reply.thought || ''}</thought>`,
+    `<actions>${actions.map((action) => action.name).join(',')}</actions>`,
+    '<providers></providers>',
+    `<text>${reply.text || ''}</text>`,
+    ...(params.length > 0 ? ['<params>', ...params, '</params>'] : []),
+    '</response>',
+  ].join('\n');
+}
+
+function matches(rule: MockRule, call: MockCall): boolean {
+  if (rule.agent && rule.agent !== call.agent) return false;
+  if (rule.kind && rule.kind !== call.kind) return false;
+  if (rule.match instanceof RegExp) return rule.match.test(call.prompt);
+  if (typeof rule.match === 'string') return call.prompt.includes(rule.match);
+  return true;
+}
+
+// First rule that matches and has answers left, and its reply
+function answer(call: MockCall): MockReply | string {
+  script ??= loadMockScript();
+  if (answered.length !== script.rules.length) answered = script.rules.map(() => 0);
+
+  for (const [idx, rule] of script.rules.entries()) {
+    if ((rule.times !== undefined && answered[idx] >= rule.times) || !matches(rule, call)) continue;
+    const reply = typeof rule.reply === 'function' ? rule.reply(call) : rule.reply;
+    if (reply === null) continue;
+    answered[idx]++;
+    call.rule = idx;
+    return reply;
+  }
+  return script.fallback || {};
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function respond(runtime: any, modelType: string, params: any): MockReply | string {
+  const context = currentUsageContext();
+  const call: MockCall = {
+    agent: runtime?.character?.name || 'unknown',
+    kind: currentDecisionKind(),
+    taskId: context?.taskId ?? null,
+    subtaskId: context?.subtaskId ?? null,
+    modelType,
+    prompt: typeof params?.prompt === 'string' ? params.prompt : '',
+    rule: null,
+  };
+  const reply = answer(call);
+  calls.push(call);
+  return reply;
+}
+
+function textModel(modelType: string) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return async (runtime: any, params: any): Promise<string> => {
+    const reply = respond(runtime, modelType, params);
+    return typeof reply === 'string' ? reply : renderReply(reply);
+  };
+}
+
+function objectModel(modelType: string) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return async (runtime: any, params: any): Promise<Record<string, unknown>> => {
+    const reply = respond(runtime, modelType, params);
+    if (typeof reply !== 'string') return reply.object || {};
+    try {
+      return JSON.parse(reply);
+    } catch {
+      return {};
+    }
+  };
+}
+
+export const mockLlmPlugin = {
+  name: 'mock',
+  description: 'Scripted model provider for deterministic runs without an LLM',
+
+  models: {
+    ...Object.fromEntries(TEXT_MODELS.map((type) => [type, textModel(type)])),
+    ...Object.fromEntries(OBJECT_MODELS.map((type) => [type, objectModel(type)])),
+    // Embeddings only need the right length for memory storage (and a non-zero norm for similarity)
+    [EMBEDDING_MODEL]: async (): Promise<number[]> =>
+      Array.from({ length: EMBEDDING_DIMENSIONS }, (_, i) => (i === 0 ? 1 : 0)),
+  },
+};
@@ -0,0 +1,277 @@
+/**
+ * Model Usage Accounting for Eliza Town
+ *
+ * Wraps each agent runtime's useModel so every model invocation is recorded
+ * in the api_calls table: agent, task and subtask, provider, model, tokens,
+ * latency and cost. Token counts come from the provider plugin's MODEL_USED
+ * event when it sends one and are estimated from text length otherwise. Costs
+ * are priced when the call is logged, from config/model-prices.json (or
+ * MODEL_PRICES_PATH), so later price changes don't rewrite history.
+ *
+ * Work is attributed through runWithUsageContext: calls made while an agent
+ * plans a task or works a subtask (including ones ElizaOS makes in the
+ * background for that message) carry the task and subtask ids.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { NewApiCall } from '../db/store.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const DEFAULT_PRICES_PATH = path.join(__dirname, '../../config/model-prices.json');
+
+// Type definitions
+export interface ModelPrice {
+  /** USD per million input (prompt) tokens */
+  inputPerMillion: number;
+  /** USD per million output (completion) tokens */
+  outputPerMillion: number;
+}
+
+export interface PriceTable {
+  /** Keyed by model name; a trailing * matches any model starting with the rest */
+  models: Record<string, ModelPrice>;
+}
+
+export interface UsageContext {
+  taskId: number | null;
+  subtaskId: number | null;
+}
+
+interface TokenUsage {
+  input: number;
+  output: number;
+}
+
+interface InFlightCall {
+  usage: TokenUsage | null;
+  model: string | null;
+}
+
+type RecordFn = (call: NewApiCall) => Promise<unknown>;
+
+interface UsageHooks {
+  /** Where calls are recorded (the api_calls table) */
+  record: RecordFn | null;
+}
+
+// The event provider plugins emit with token counts for a call
+const MODEL_USED = 'MODEL_USED';
+const SUMMARY_LENGTH = 200;
+// Rough tokens-per-character ratio for English text and code
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Check a parsed price file and return it typed, or throw listing every problem
+ */
+export function validateModelPrices(value: unknown, source = 'model prices'): PriceTable {
+  const errors: string[] = [];
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const models: Record<string, ModelPrice> = {};
+
+  if (!raw.models || typeof raw.models !== 'object' || Array.isArray(raw.models)) {
+    errors.push('"models" must be an object keyed by model name');
+  } else {
+    for (const [model, entry] of Object.entries(raw.models as Record<string, unknown>)) {
+      const price = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+      for (const field of ['inputPerMillion', 'outputPerMillion']) {
+        const amount = price[field];
+        if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+          errors.push(`model "${model}": "${field}" must be a non-negative number`);
+        }
+      }
+      models[model] = {
+        inputPerMillion: Number(price.inputPerMillion),
+        outputPerMillion: Number(price.outputPerMillion),
+      };
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${source}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return { models };
+}
+
+/**
+ * Read and validate the price table. Runs at import time so a bad table
+ * stops the server instead of quietly mispricing calls.
+ */
+export function loadModelPrices(pricesPath = process.env.MODEL_PRICES_PATH || DEFAULT_PRICES_PATH): PriceTable {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(pricesPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read model prices at ${pricesPath}: ${(error as Error).message}`);
+  }
+  return validateModelPrices(parsed, `model prices at ${pricesPath}`);
+}
+
+const prices: PriceTable = loadModelPrices();
+let hooks: UsageHooks = { record: null };
+const usageContext = new AsyncLocalStorage<UsageContext>();
+const inFlight = new AsyncLocalStorage<InFlightCall>();
+
+/**
+ * Set where model calls are recorded
+ */
+export function initializeModelUsage(options: Partial<UsageHooks>): void {
+  hooks = { record: options.record ?? null };
+}
+
+export function getModelPrices(): PriceTable {
+  return prices;
+}
+
+/**
+ * The price for a model: an exact entry, else the longest matching * prefix
+ */
+export function priceFor(model: string): ModelPrice | null {
+  if (prices.models[model]) return prices.models[model];
+
+  let best: { prefix: string; price: ModelPrice } | null = null;
+  for (const [key, price] of Object.entries(prices.models)) {
+    if (!key.endsWith('*')) continue;
+    const prefix = key.slice(0, -1);
+    if (model.startsWith(prefix) && (!best || prefix.length > best.prefix.length)) {
+      best = { prefix, price };
+    }
+  }
+  return best?.price ?? null;
+}
+
+/**
+ * Cost of a call in USD, or null when the model isn't in the price table
+ */
+export function computeCost(model: string, inputTokens: number, outputTokens: number): number | null {
+  const price = priceFor(model);
+  if (!price) return null;
+  return (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * Attribute every model call made inside fn (and anything it starts) to a task and subtask
+ */
+export function runWithUsageContext<T>(context: UsageContext, fn: () => T): T {
+  return usageContext.run(context, fn);
+}
+
+/**
+ * The task and subtask the current model call is attributed to, if any
+ */
+export function currentUsageContext(): UsageContext | null {
+  return usageContext.getStore() ?? null;
+}
+
+function summarize(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value) && value.every((v) => typeof v === 'number')) {
+    return `[${value.length} numbers]`;
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  return text.slice(0, SUMMARY_LENGTH);
+}
+
+// The text a model was asked about: a prompt, an embedding input, or a chat history
+function promptText(params: unknown): string {
+  if (typeof params === 'string') return params;
+  if (!params || typeof params !== 'object') return '';
+  const p = params as Record<string, unknown>;
+  if (typeof p.prompt === 'string') return p.prompt;
+  if (typeof p.text === 'string') return p.text;
+  if (p.messages !== undefined) return JSON.stringify(p.messages);
+  return '';
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Plugins disagree on field names: { prompt, completion }, { promptTokens, ... } or { inputTokens, ... }
+function readTokens(event: Record<string, unknown>): TokenUsage | null {
+  const tokens = (event.tokens ?? event.usage) as Record<string, unknown> | undefined;
+  if (!tokens || typeof tokens !== 'object') return null;
+  const input = tokens.prompt ?? tokens.promptTokens ?? tokens.inputTokens ?? tokens.input_tokens;
+  const output = tokens.completion ?? tokens.completionTokens ?? tokens.outputTokens ?? tokens.output_tokens;
+  if (typeof input !== 'number' && typeof output !== 'number') return null;
+  return { input: Number(input) || 0, output: Number(output) || 0 };
+}
+
+// Model name from the provider's settings, e.g. OPENAI_SMALL_MODEL for TEXT_SMALL on openai
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function configuredModel(runtime: any, provider: string, modelType: string): string | null {
+  const size = modelType.includes('EMBEDDING') ? 'EMBEDDING' : modelType.includes('SMALL') ? 'SMALL' : 'LARGE';
+  const model = runtime.getSetting?.(`${provider.toUpperCase()}_${size}_MODEL`);
+  return typeof model === 'string' && model ? model : null;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function handlingProvider(runtime: any, modelType: string): string | null {
+  const handlers = runtime.models?.get?.(modelType);
+  return Array.isArray(handlers) && typeof handlers[0]?.provider === 'string' ? handlers[0].provider : null;
+}
+
+/**
+ * Record every model call a runtime makes. agentDbId resolves the agent's row
+ * in the agents table at call time (metadata is filled in after the runtime
+ * is created).
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function trackModelUsage(runtime: any, agentDbId: () => number | null): void {
+  const useModel = runtime.useModel.bind(runtime);
+
+  runtime.registerEvent?.(MODEL_USED, async (event: Record<string, unknown>) => {
+    const call = inFlight.getStore();
+    const usage = event && readTokens(event);
+    if (!call || !usage) return;
+    // A handler that calls other models reports once per call; add them up
+    call.usage = call.usage
+      ? { input: call.usage.input + usage.input, output: call.usage.output + usage.output }
+      : usage;
+    if (typeof event.model === 'string') call.model ??= event.model;
+  });
+
+  runtime.useModel = async (modelType: string, params: unknown, provider?: string) => {
+    // Calls made from inside another model call are counted by the outer one
+    if (inFlight.getStore()) {
+      return useModel(modelType, params, provider);
+    }
+
+    const call: InFlightCall = { usage: null, model: null };
+    const startedAt = Date.now();
+    const result = await inFlight.run(call, () => useModel(modelType, params, provider));
+    const durationMs = Date.now() - startedAt;
+
+    const providerName = provider || handlingProvider(runtime, modelType) || 'unknown';
+    const model = call.model || configuredModel(runtime, providerName, modelType) || modelType;
+    const prompt = promptText(params);
+    const usage = call.usage ?? {
+      input: estimateTokens(prompt),
+      output: modelType.includes('EMBEDDING')
+        ? 0
+        : estimateTokens(typeof result === 'string' ? result : JSON.stringify(result) ?? ''),
+    };
+    const context = usageContext.getStore();
+
+    hooks.record?.({
+      agent_id: agentDbId(),
+      task_id: context?.taskId ?? null,
+      subtask_id: context?.subtaskId ?? null,
+      provider: providerName,
+      model,
+      input_tokens: usage.input,
+      output_tokens: usage.output,
+      usage_estimated: !call.usage,
+      cost_usd: computeCost(model, usage.input, usage.output),
+      prompt_summary: summarize(prompt),
+      response_summary: summarize(result),
+      duration_ms: durationMs,
+    }).catch((error) => console.error('[ModelUsage] Failed to record model call:', (error as Error).message));
+
+    return result;
+  };
+}
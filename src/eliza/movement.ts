@@ -0,0 +1,256 @@
+/**
+ * Movement Service for Eliza Town
+ *
+ * The one place agents travel through. Both the LLM's MOVE action and the
+ * orchestrator start trips here; the service claims a hub slot, walks the
+ * agent along its path, and emits agent_move / agent_arrived exactly once
+ * per trip. Starting a new trip mid-walk redirects the agent from wherever
+ * it is, and a trip can be cancelled outright.
+ */
+
+import { HUBS, resolveHub } from './townMap.js';
+import { requestHubSlot, cancelHubRequest, placeAgent } from './hubCapacity.js';
+import { walkTo, stopWalking, standingSpot, type Point } from './navigation.js';
+import { now } from './clock.js';
+import type { AgentState } from './elizaTownPlugin.js';
+import type { WebSocketMessage } from '../websocket/index.js';
+import type { TravelingAgent } from '../types/index.js';
+
+// Type definitions
+export type MoveOutcome = 'arrived' | 'redirected' | 'cancelled' | 'skipped';
+
+export interface MoveOptions {
+  /** Wait in line when the hub is full (default true); otherwise the move is skipped */
+  wait?: boolean;
+  /** State applied on arrival (default: idle with nothing to do) */
+  onArrival?: Partial<AgentState>;
+}
+
+export interface MoveTicket {
+  /**
+   * started: walking to the hub; redirected: walking to another hub of the same kind;
+   * queued: waiting for a spot; already_there: nothing to do; full: hub full and wait was off
+   */
+  status: 'started' | 'redirected' | 'queued' | 'already_there' | 'full';
+  /** The hub the agent is heading for */
+  hub: string;
+  /** 1-based place in line when queued */
+  position?: number;
+  /** Estimated walking time in ms once walking */
+  eta?: number;
+  /** Settles when the trip ends, however it ends */
+  arrival: Promise<MoveOutcome>;
+}
+
+export interface MovementHooks {
+  broadcast: ((message: WebSocketMessage) => void) | null;
+  getAgentState: (agentId: string) => AgentState;
+  updateAgentState: (agentId: string, state: Partial<AgentState>) => void;
+  /** Called after every arrival, e.g. to persist the new location */
+  onArrived?: (agentId: string, hub: string) => void;
+}
+
+interface Trip {
+  hub: string;
+  phase: 'queued' | 'walking';
+  startedAt: number;
+  eta: number;
+  onArrival: Partial<AgentState>;
+  settle: (outcome: MoveOutcome) => void;
+}
+
+let hooks: MovementHooks | null = null;
+const trips = new Map<string, Trip>();
+
+/**
+ * Wire the service to agent state and the WebSocket (called from the plugin's initialization)
+ */
+export function initializeMovement(movementHooks: MovementHooks): void {
+  hooks = movementHooks;
+}
+
+function requireHooks(): MovementHooks {
+  if (!hooks) {
+    throw new Error('Movement service not initialized - call initializeMovement() first');
+  }
+  return hooks;
+}
+
+function broadcast(message: WebSocketMessage): void {
+  hooks?.broadcast?.(message);
+}
+
+function hubName(hub: string): string {
+  return HUBS[hub]?.name || hub;
+}
+
+// Drop a trip if it is still the agent's current one; later trips are left alone
+function endTrip(agentId: string, trip: Trip, outcome: MoveOutcome): boolean {
+  if (trips.get(agentId) !== trip) return false;
+  trips.delete(agentId);
+  trip.settle(outcome);
+  return true;
+}
+
+function arrive(agentId: string, trip: Trip, position: Point): void {
+  if (!endTrip(agentId, trip, 'arrived')) return;
+  const { getAgentState, updateAgentState, onArrived } = requireHooks();
+
+  updateAgentState(agentId, {
+    status: 'idle',
+    doing: null,
+    targetHub: undefined,
+    ...trip.onArrival,
+    hub: trip.hub,
+    x: position.x,
+    z: position.z,
+  });
+  onArrived?.(agentId, trip.hub);
+
+  broadcast({
+    type: 'agent_arrived',
+    data: { agent: getAgentState(agentId).name || agentId, agentId, hub: trip.hub, x: position.x, z: position.z },
+  });
+}
+
+// Set off for a hub the agent already holds a slot at
+function beginWalk(agentId: string, trip: Trip, hub: string): number {
+  const { getAgentState, updateAgentState } = requireHooks();
+  const state = getAgentState(agentId);
+  const from = { x: state.x ?? 0, z: state.z ?? 0 };
+  const spot = standingSpot(agentId, hub);
+
+  trip.hub = hub;
+  trip.phase = 'walking';
+  trip.startedAt = now();
+
+  const { path, eta } = walkTo(agentId, from, spot, {
+    onStep: (position) => updateAgentState(agentId, position),
+    onArrive: (position) => arrive(agentId, trip, position),
+    onCancel: () => endTrip(agentId, trip, 'cancelled'),
+  });
+  trip.eta = eta;
+
+  updateAgentState(agentId, {
+    status: 'traveling',
+    doing: `Moving to ${hubName(hub)}`,
+    targetHub: hub,
+    travelStarted: trip.startedAt,
+    travelTime: eta,
+  });
+
+  broadcast({
+    type: 'agent_move',
+    data: { agent: state.name || agentId, agentId, from, to: spot, hub, path },
+  });
+  return eta;
+}
+
+/**
+ * Send an agent to a hub (by id or name). Any trip already under way is
+ * redirected from where the agent stands now.
+ */
+export function startMove(agentId: string, target: string, options: MoveOptions = {}): MoveTicket {
+  const { getAgentState, updateAgentState } = requireHooks();
+  const hub = resolveHub(target)?.id || target;
+  if (!HUBS[hub]) {
+    throw new Error(`Unknown hub "${target}"`);
+  }
+
+  const previous = trips.get(agentId);
+  if (previous) {
+    trips.delete(agentId);
+    previous.settle('redirected');
+  }
+
+  const state = getAgentState(agentId);
+  if (!previous && state.hub === hub) {
+    return { status: 'already_there', hub, arrival: Promise.resolve('arrived') };
+  }
+
+  let settle: (outcome: MoveOutcome) => void = () => {};
+  const arrival = new Promise<MoveOutcome>((resolve) => {
+    settle = resolve;
+  });
+  const trip: Trip = {
+    hub,
+    phase: 'queued',
+    startedAt: now(),
+    eta: 0,
+    onArrival: options.onArrival || {},
+    settle,
+  };
+  trips.set(agentId, trip);
+
+  const slot = requestHubSlot(agentId, hub, {
+    queue: options.wait !== false,
+    onGranted: (granted) => {
+      if (trips.get(agentId) === trip) beginWalk(agentId, trip, granted);
+    },
+    onDropped: () => endTrip(agentId, trip, 'cancelled'),
+  });
+
+  if (slot.status === 'full') {
+    // Stay put; if we were mid-walk the old walk stops where it is
+    stopWalking(agentId);
+    endTrip(agentId, trip, 'skipped');
+    return { status: 'full', hub, arrival };
+  }
+
+  if (slot.status === 'queued') {
+    stopWalking(agentId);
+    const doing = `Waiting for ${hubName(hub)} (#${slot.position} in line)`;
+    updateAgentState(agentId, { status: 'waiting', doing });
+    broadcast({
+      type: 'agent_status',
+      data: { agent: state.name || agentId, agentId, status: 'waiting', doing },
+    });
+    return { status: 'queued', hub, position: slot.position, arrival };
+  }
+
+  if (getAgentState(agentId).hub === slot.hub && !previous) {
+    endTrip(agentId, trip, 'arrived');
+    return { status: 'already_there', hub: slot.hub, arrival };
+  }
+
+  const eta = beginWalk(agentId, trip, slot.hub);
+  return { status: slot.status === 'redirected' ? 'redirected' : 'started', hub: slot.hub, eta, arrival };
+}
+
+/**
+ * Stop an agent's trip where it stands. Returns false when it wasn't moving.
+ */
+export function cancelMove(agentId: string): boolean {
+  const trip = trips.get(agentId);
+  if (!trip) return false;
+
+  const { getAgentState, updateAgentState } = requireHooks();
+  trips.delete(agentId);
+  stopWalking(agentId);
+  cancelHubRequest(agentId);
+
+  // The agent never made it, so it still belongs to the hub it left
+  const state = getAgentState(agentId);
+  placeAgent(agentId, state.hub);
+  updateAgentState(agentId, { status: 'idle', doing: null, targetHub: undefined });
+
+  broadcast({
+    type: 'agent_move_cancelled',
+    data: { agent: state.name || agentId, agentId, hub: state.hub, x: state.x, z: state.z },
+  });
+  trip.settle('cancelled');
+  return true;
+}
+
+export function isMoving(agentId: string): boolean {
+  return trips.has(agentId);
+}
+
+/**
+ * Agents currently walking, with the hub they are heading for and their estimated arrival
+ */
+export function getTravelingAgents(): Array<[string, TravelingAgent]> {
+  return [...trips]
+    .filter(([, trip]) => trip.phase === 'walking')
+    .map(([agentId, trip]) => [agentId, { targetHub: trip.hub, arrivalTime: trip.startedAt + trip.eta }]);
+}
@@ -0,0 +1,487 @@
+/**
+ * Navigation for Eliza Town
+ *
+ * Builds a walkable grid from the town map (bounds minus obstacle footprints),
+ * finds A* paths between points on it and walks agents along those paths a
+ * tick at a time, so an agent's position is always where it really is
+ * mid-journey. Walkers keep their distance from each other and every agent
+ * gets its own spot to stand on at a hub.
+ */
+
+import { TOWN_MAP, HUBS, type TownMap } from './townMap.js';
+import { setRepeatingTimer, clearRepeatingTimer, type TimerHandle } from './clock.js';
+import type { WebSocketMessage } from '../websocket/index.js';
+
+// Type definitions
+export interface Point {
+  x: number;
+  z: number;
+}
+
+export interface NavGrid {
+  cols: number;
+  rows: number;
+  originX: number;
+  originZ: number;
+  cellSize: number;
+  /** 1 where an agent can stand, indexed row * cols + col */
+  walkable: Uint8Array;
+}
+
+export interface WalkCallbacks {
+  /** Called every tick with the walker's new position */
+  onStep?: (position: Point) => void;
+  /** Called once the final waypoint is reached */
+  onArrive?: (position: Point) => void;
+  /** Called if the walk is replaced by another one or stopped before arriving */
+  onCancel?: (position: Point) => void;
+}
+
+export interface WalkPlan {
+  path: Point[];
+  /** Estimated walking time in ms, ignoring any waiting for other agents */
+  eta: number;
+}
+
+interface Walk extends WalkCallbacks {
+  waypoints: Point[];
+  index: number;
+  position: Point;
+  blockedTicks: number;
+}
+
+type BroadcastFn = (message: WebSocketMessage) => void;
+
+// Configuration
+const STEP_INTERVAL_MS = 200;
+const WALK_SPEED = 4; // world units per second, same as the client's interpolation
+const AGENT_RADIUS = 0.4; // obstacles are grown by this much so paths keep clear of walls
+const MIN_SEPARATION = 0.9; // walkers try not to come closer than this to anyone else
+const MAX_BLOCKED_TICKS = 5; // after this many stalled ticks a walker squeezes past
+const SPOT_SPACING = 1.5;
+
+let broadcastFn: BroadcastFn | null = null;
+let ticker: TimerHandle | null = null;
+const walks = new Map<string, Walk>();
+const positions = new Map<string, Point>(); // last known position of every agent, walking or not
+
+/**
+ * Set where per-tick positions are broadcast (called from the plugin's initialization)
+ */
+export function initializeNavigation(broadcast: BroadcastFn | null): void {
+  broadcastFn = broadcast;
+}
+
+// ============================================================================
+// GRID
+// ============================================================================
+
+/**
+ * Rasterise the town map into a walkable grid. Hub centres are always
+ * walkable so every hub can be reached even if an obstacle brushes it.
+ */
+export function buildNavGrid(map: TownMap = TOWN_MAP): NavGrid {
+  const { minX, maxX, minZ, maxZ, cellSize } = map.bounds;
+  const cols = Math.max(1, Math.floor((maxX - minX) / cellSize) + 1);
+  const rows = Math.max(1, Math.floor((maxZ - minZ) / cellSize) + 1);
+  const walkable = new Uint8Array(cols * rows).fill(1);
+
+  for (const obstacle of map.obstacles) {
+    const halfW = obstacle.width / 2 + AGENT_RADIUS;
+    const halfD = obstacle.depth / 2 + AGENT_RADIUS;
+    const c0 = Math.max(0, Math.ceil((obstacle.x - halfW - minX) / cellSize));
+    const c1 = Math.min(cols - 1, Math.floor((obstacle.x + halfW - minX) / cellSize));
+    const r0 = Math.max(0, Math.ceil((obstacle.z - halfD - minZ) / cellSize));
+    const r1 = Math.min(rows - 1, Math.floor((obstacle.z + halfD - minZ) / cellSize));
+    for (let r = r0; r <= r1; r++) {
+      for (let c = c0; c <= c1; c++) {
+        walkable[r * cols + c] = 0;
+      }
+    }
+  }
+
+  const grid: NavGrid = { cols, rows, originX: minX, originZ: minZ, cellSize, walkable };
+  for (const hub of map.hubs) {
+    const [c, r] = toCell(grid, hub);
+    walkable[r * cols + c] = 1;
+  }
+  return grid;
+}
+
+export const NAV_GRID: NavGrid = buildNavGrid();
+
+function toCell(grid: NavGrid, point: Point): [number, number] {
+  const c = Math.round((point.x - grid.originX) / grid.cellSize);
+  const r = Math.round((point.z - grid.originZ) / grid.cellSize);
+  return [Math.min(grid.cols - 1, Math.max(0, c)), Math.min(grid.rows - 1, Math.max(0, r))];
+}
+
+function toWorld(grid: NavGrid, c: number, r: number): Point {
+  return { x: grid.originX + c * grid.cellSize, z: grid.originZ + r * grid.cellSize };
+}
+
+function isWalkableCell(grid: NavGrid, c: number, r: number): boolean {
+  return c >= 0 && r >= 0 && c < grid.cols && r < grid.rows && grid.walkable[r * grid.cols + c] === 1;
+}
+
+/**
+ * Whether a world position is inside the town and off every obstacle
+ */
+export function isWalkable(point: Point, grid: NavGrid = NAV_GRID): boolean {
+  const c = Math.round((point.x - grid.originX) / grid.cellSize);
+  const r = Math.round((point.z - grid.originZ) / grid.cellSize);
+  return isWalkableCell(grid, c, r);
+}
+
+// Closest walkable cell, searching outward ring by ring
+function nearestWalkableCell(grid: NavGrid, c: number, r: number): [number, number] {
+  if (isWalkableCell(grid, c, r)) return [c, r];
+  const maxRadius = Math.max(grid.cols, grid.rows);
+  for (let radius = 1; radius < maxRadius; radius++) {
+    for (let dr = -radius; dr <= radius; dr++) {
+      for (let dc = -radius; dc <= radius; dc++) {
+        if (Math.max(Math.abs(dc), Math.abs(dr)) !== radius) continue;
+        if (isWalkableCell(grid, c + dc, r + dr)) return [c + dc, r + dr];
+      }
+    }
+  }
+  return [c, r];
+}
+
+// Walk the segment in small steps; true when it never crosses a blocked cell
+function hasLineOfSight(grid: NavGrid, from: Point, to: Point): boolean {
+  const distance = Math.hypot(to.x - from.x, to.z - from.z);
+  const steps = Math.ceil(distance / (grid.cellSize / 4));
+  for (let i = 1; i < steps; i++) {
+    const t = i / steps;
+    if (!isWalkable({ x: from.x + (to.x - from.x) * t, z: from.z + (to.z - from.z) * t }, grid)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// ============================================================================
+// PATHFINDING
+// ============================================================================
+
+const NEIGHBOURS: Array<[number, number, number]> = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, Math.SQRT2], [1, -1, Math.SQRT2], [-1, 1, Math.SQRT2], [-1, -1, Math.SQRT2],
+];
+
+// Octile distance: exact for 8-way movement without obstacles
+function heuristic(c: number, r: number, gc: number, gr: number): number {
+  const dc = Math.abs(c - gc);
+  const dr = Math.abs(r - gr);
+  return Math.max(dc, dr) + (Math.SQRT2 - 1) * Math.min(dc, dr);
+}
+
+// Minimal binary heap of cell indices ordered by the f-score they were pushed with.
+// A cell whose score improves is pushed again; stale entries are skipped as closed.
+class OpenSet {
+  private items: Array<[score: number, cell: number]> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(cell: number, score: number): void {
+    const items = this.items;
+    items.push([score, cell]);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent][0] <= items[i][0]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop() as [number, number];
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left][0] < items[smallest][0]) smallest = left;
+        if (right < items.length && items[right][0] < items[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top[1];
+  }
+}
+
+/**
+ * A* path from one point to another. Returns the waypoints to walk through,
+ * not including the start, with straight stretches collapsed; the last
+ * waypoint is the destination (moved onto walkable ground if it wasn't).
+ * Returns an empty array when already there or when no route exists.
+ */
+export function findPath(from: Point, to: Point, grid: NavGrid = NAV_GRID): Point[] {
+  const [sc, sr] = nearestWalkableCell(grid, ...toCell(grid, from));
+  const [gc, gr] = nearestWalkableCell(grid, ...toCell(grid, to));
+  const goal = isWalkable(to, grid) ? { x: to.x, z: to.z } : toWorld(grid, gc, gr);
+
+  if (sc === gc && sr === gr) {
+    return Math.hypot(goal.x - from.x, goal.z - from.z) > 0.01 ? [goal] : [];
+  }
+
+  const size = grid.cols * grid.rows;
+  const gScore = new Float64Array(size).fill(Infinity);
+  const cameFrom = new Int32Array(size).fill(-1);
+  const closed = new Uint8Array(size);
+  const open = new OpenSet();
+
+  const start = sr * grid.cols + sc;
+  const target = gr * grid.cols + gc;
+  gScore[start] = 0;
+  open.push(start, heuristic(sc, sr, gc, gr));
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (current === target) break;
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    const c = current % grid.cols;
+    const r = Math.floor(current / grid.cols);
+    for (const [dc, dr, cost] of NEIGHBOURS) {
+      const nc = c + dc;
+      const nr = r + dr;
+      if (!isWalkableCell(grid, nc, nr)) continue;
+      // No cutting corners past an obstacle when moving diagonally
+      if (dc !== 0 && dr !== 0 && (!isWalkableCell(grid, c + dc, r) || !isWalkableCell(grid, c, r + dr))) continue;
+
+      const next = nr * grid.cols + nc;
+      const tentative = gScore[current] + cost;
+      if (tentative < gScore[next]) {
+        cameFrom[next] = current;
+        gScore[next] = tentative;
+        open.push(next, tentative + heuristic(nc, nr, gc, gr));
+      }
+    }
+  }
+
+  if (cameFrom[target] === -1) return [];
+
+  const cells: Point[] = [];
+  for (let cell = target; cell !== start; cell = cameFrom[cell]) {
+    cells.push(toWorld(grid, cell % grid.cols, Math.floor(cell / grid.cols)));
+  }
+  cells.reverse();
+  cells[cells.length - 1] = goal;
+
+  // String-pull: keep only the waypoints needed to stay in line of sight
+  const waypoints: Point[] = [];
+  let anchor = from;
+  for (let i = 0; i < cells.length; i++) {
+    const next = cells[i + 1];
+    if (!next || !hasLineOfSight(grid, anchor, next)) {
+      waypoints.push(cells[i]);
+      anchor = cells[i];
+    }
+  }
+  return waypoints;
+}
+
+export function pathLength(from: Point, path: Point[]): number {
+  let length = 0;
+  let previous = from;
+  for (const point of path) {
+    length += Math.hypot(point.x - previous.x, point.z - previous.z);
+    previous = point;
+  }
+  return length;
+}
+
+// ============================================================================
+// STANDING SPOTS
+// ============================================================================
+
+// Candidate spots around a hub: the centre, then rings of growing radius
+function spotsAround(centre: Point, count: number): Point[] {
+  const spots: Point[] = [centre];
+  for (let ring = 1; spots.length < count; ring++) {
+    const perRing = ring * 6;
+    for (let i = 0; i < perRing && spots.length < count; i++) {
+      const angle = (i / perRing) * Math.PI * 2;
+      spots.push({
+        x: centre.x + Math.cos(angle) * ring * SPOT_SPACING,
+        z: centre.z + Math.sin(angle) * ring * SPOT_SPACING,
+      });
+    }
+  }
+  return spots;
+}
+
+/**
+ * Where an agent should stand at a hub: the first spot near the centre that
+ * no other agent is standing on or walking to.
+ */
+export function standingSpot(agentId: string, hubId: string): Point {
+  const hub = HUBS[hubId];
+  if (!hub) return { x: 0, z: 0 };
+
+  const taken: Point[] = [];
+  for (const [otherId, position] of positions) {
+    if (otherId !== agentId) taken.push(position);
+  }
+  for (const [otherId, walk] of walks) {
+    if (otherId !== agentId) taken.push(walk.waypoints[walk.waypoints.length - 1]);
+  }
+
+  const spots = spotsAround(hub, 37).filter((spot) => isWalkable(spot));
+  const free = spots.find((spot) => taken.every((p) => Math.hypot(p.x - spot.x, p.z - spot.z) >= MIN_SEPARATION));
+  return free || { x: hub.x, z: hub.z };
+}
+
+// ============================================================================
+// WALKING
+// ============================================================================
+
+/**
+ * Record where an agent is without walking it there (placement, restores)
+ */
+export function setAgentPosition(agentId: string, position: Point): void {
+  positions.set(agentId, { x: position.x, z: position.z });
+}
+
+export function getAgentPosition(agentId: string): Point | undefined {
+  return positions.get(agentId);
+}
+
+export function isWalking(agentId: string): boolean {
+  return walks.has(agentId);
+}
+
+/**
+ * Start walking an agent from its current position to a destination along an
+ * A* path. Replaces (and cancels) any walk the agent was already on.
+ */
+export function walkTo(agentId: string, from: Point, destination: Point, callbacks: WalkCallbacks = {}): WalkPlan {
+  stopWalking(agentId);
+  setAgentPosition(agentId, from);
+
+  const path = findPath(from, destination);
+  const eta = Math.round((pathLength(from, path) / WALK_SPEED) * 1000);
+
+  if (path.length === 0) {
+    // Already there; still arrive asynchronously so callers can finish setting up the trip first
+    queueMicrotask(() => callbacks.onArrive?.(from));
+    return { path, eta: 0 };
+  }
+
+  walks.set(agentId, { ...callbacks, waypoints: path, index: 0, position: { ...from }, blockedTicks: 0 });
+  if (!ticker) {
+    ticker = setRepeatingTimer(stepWalkers, STEP_INTERVAL_MS);
+  }
+  return { path, eta };
+}
+
+/**
+ * Stop an agent where it stands. Its walk's onCancel runs.
+ */
+export function stopWalking(agentId: string): void {
+  const walk = walks.get(agentId);
+  if (!walk) return;
+  walks.delete(agentId);
+  walk.onCancel?.(walk.position);
+}
+
+// Someone other than the walker is too close to this point
+function crowded(agentId: string, point: Point, current: Point): boolean {
+  for (const [otherId, other] of positions) {
+    if (otherId === agentId) continue;
+    const distance = Math.hypot(other.x - point.x, other.z - point.z);
+    // Only stepping closer counts, so an agent that starts on top of another can still leave
+    if (distance < MIN_SEPARATION && distance < Math.hypot(other.x - current.x, other.z - current.z)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Advance one walker by one tick's worth of distance along its waypoints
+function advance(walk: Walk, distance: number): Point {
+  let { x, z } = walk.position;
+  let index = walk.index;
+  let remaining = distance;
+
+  while (remaining > 0 && index < walk.waypoints.length) {
+    const target = walk.waypoints[index];
+    const gap = Math.hypot(target.x - x, target.z - z);
+    if (gap <= remaining) {
+      x = target.x;
+      z = target.z;
+      remaining -= gap;
+      index++;
+    } else {
+      x += ((target.x - x) / gap) * remaining;
+      z += ((target.z - z) / gap) * remaining;
+      remaining = 0;
+    }
+  }
+
+  walk.index = index;
+  return { x, z };
+}
+
+function stepWalkers(): void {
+  const stepDistance = (WALK_SPEED * STEP_INTERVAL_MS) / 1000;
+  const moved: Array<{ agentId: string; x: number; z: number }> = [];
+  const arrived: Array<[string, Walk]> = [];
+
+  for (const [agentId, walk] of walks) {
+    const savedIndex = walk.index;
+    let next = advance(walk, stepDistance);
+
+    if (crowded(agentId, next, walk.position) && walk.blockedTicks < MAX_BLOCKED_TICKS) {
+      // Try stepping to either side of the way ahead before waiting
+      const heading = Math.atan2(next.z - walk.position.z, next.x - walk.position.x);
+      const sidesteps = [Math.PI / 2, -Math.PI / 2].map((turn) => ({
+        x: walk.position.x + Math.cos(heading + turn) * stepDistance,
+        z: walk.position.z + Math.sin(heading + turn) * stepDistance,
+      }));
+      const sidestep = sidesteps.find((p) => isWalkable(p) && !crowded(agentId, p, walk.position));
+
+      walk.index = savedIndex;
+      walk.blockedTicks++;
+      if (!sidestep) continue;
+      next = sidestep;
+    } else {
+      walk.blockedTicks = 0;
+    }
+
+    walk.position = next;
+    positions.set(agentId, next);
+    moved.push({ agentId, x: next.x, z: next.z });
+    walk.onStep?.(next);
+
+    if (walk.index >= walk.waypoints.length) {
+      arrived.push([agentId, walk]);
+    }
+  }
+
+  for (const [agentId, walk] of arrived) {
+    walks.delete(agentId);
+    walk.onArrive?.(walk.position);
+  }
+
+  if (moved.length > 0 && broadcastFn) {
+    broadcastFn({ type: 'agent_positions', data: { positions: moved } });
+  }
+
+  if (walks.size === 0 && ticker) {
+    clearRepeatingTimer(ticker);
+    ticker = null;
+  }
+}
@@ -7,39 +7,76 @@
 
 import * as runtimeManager from './runtimeManager.js';
 import { updateAgentState, getAgentState } from './elizaTownPlugin.js';
-import { HUBS, ROLE_HUBS, ELIZA_TOWN_CHARACTERS } from './characters.js';
+import { ELIZA_TOWN_CHARACTERS } from './characters.js';
+import { HUBS, ROLE_HUBS, DEFAULT_HUB } from './townMap.js';
+import { placeAgent } from './hubCapacity.js';
+import { standingSpot } from './navigation.js';
+import { startMove, getTravelingAgents } from './movement.js';
+import { now, setTimer, clearTimer, setRepeatingTimer, clearRepeatingTimer, type TimerHandle } from './clock.js';
+import { getSharedSandbox } from './sharedSandbox.js';
+import { stopTaskProcesses } from './shellProcesses.js';
+import { approvalWaitTime } from './commandPolicy.js';
+import {
+  parsePlan,
+  PLAN_SCHEMA_EXAMPLE,
+  PLAN_ROLES,
+  PLAN_EFFORTS,
+  MIN_PLAN_SUBTASKS,
+  MAX_PLAN_SUBTASKS,
+  type PlannedSubtask,
+} from './planSchema.js';
+import { parseReviewVerdict, REVIEW_VERDICT_EXAMPLE, type ReviewVerdict } from './reviewVerdict.js';
 import { setOrchestratorService, startDemoMode, stopDemoMode, DEMO_CONFIG } from './demoMode.js';
+import {
+  BudgetExceededError,
+  checkBudgets,
+  getBudgets,
+  type BudgetBreach,
+  type BudgetLimit,
+  type BudgetScope,
+} from './budgets.js';
+import { recordAllTraces, startRecording, stopRecording } from './taskTrace.js';
 import type {
   BroadcastFn,
   ActiveWork,
-  TravelingAgent,
   OrchestrationState,
   Task,
   Subtask,
   AgentRole,
   SavedFile,
+  TriggerResult,
 } from '../types/index.js';
 
 // Orchestration state
 let isRunning = false;
-let loopInterval: ReturnType<typeof setInterval> | null = null;
+let tickInProgress = false;
+let loopInterval: TimerHandle | null = null;
 let dbModule: typeof import('../db/index.js') | null = null;
 let broadcastFn: BroadcastFn | null = null;
 let storageModule: typeof import('../storage/index.js') | null = null;
+let random: () => number = Math.random;
 
-// Track active work and traveling agents
+// Track active work
 const activeWork = new Map<string, ActiveWork>();
-const travelingAgents = new Map<string, TravelingAgent>();
+// Agents over their daily budget, left out when work is handed out
+const overBudgetAgents = new Set<string>();
 
 // Configuration
 const TICK_INTERVAL_MS = 5000;
 const MAX_DECISIONS_PER_TICK = 2;
 const AMBIENT_ACTIVITY_CHANCE = 0.15;
+const PLAN_REPAIR_ATTEMPTS = parseInt(process.env.PLANNER_REPAIR_ATTEMPTS || '2', 10);
+const MAX_REVIEW_ROUNDS = parseInt(process.env.MAX_REVIEW_ROUNDS || '2', 10);
+const SUBTASK_TIMEOUT_MS = parseInt(process.env.SUBTASK_TIMEOUT_MS || '300000', 10);
+const SUBTASK_MAX_ATTEMPTS = parseInt(process.env.SUBTASK_MAX_ATTEMPTS || '3', 10);
+const SUBTASK_RETRY_BACKOFF_MS = parseInt(process.env.SUBTASK_RETRY_BACKOFF_MS || '10000', 10);
 
 interface InitializeOptions {
   db?: typeof import('../db/index.js') | null;
   broadcast?: BroadcastFn | null;
   storage?: typeof import('../storage/index.js') | null;
+  /** Source of randomness for ambient activity; seeded in simulations */
+  random?: () => number;
 }
 
 /**
@@ -49,6 +86,7 @@ export async function initialize(options: InitializeOptions = {}): Promise<void>
   dbModule = options.db || null;
   broadcastFn = options.broadcast || null;
   storageModule = options.storage || null;
+  random = options.random || Math.random;
 
   await runtimeManager.initialize({
     db: dbModule,
@@ -66,19 +104,29 @@ export async function initialize(options: InitializeOptions = {}): Promise<void>
       );
 
       if (character) {
-        const initialHub = ROLE_HUBS[character.role] || 'town_square';
+        // Agents come back where they last arrived; nothing survives a restart mid-work, so they start idle
+        const savedHub = dbAgent.current_hub && HUBS[dbAgent.current_hub] ? dbAgent.current_hub : null;
+        const initialHub = placeAgent(character.username, savedHub || ROLE_HUBS[character.role] || DEFAULT_HUB);
+        const hubPos = standingSpot(character.username, initialHub);
+        const restored = savedHub === initialHub;
         updateAgentState(character.username, {
           dbId: dbAgent.id,
           name: dbAgent.name,
           role: dbAgent.type as AgentRole,
-          status: dbAgent.status as 'idle' | 'working' | 'traveling' | 'chatting',
+          status: 'idle',
           hub: initialHub,
-          x: HUBS[initialHub]?.x || 0,
-          z: HUBS[initialHub]?.z || 0,
+          x: restored && dbAgent.position_x !== null ? dbAgent.position_x : hubPos.x,
+          z: restored && dbAgent.position_z !== null ? dbAgent.position_z : hubPos.z,
           modelId: dbAgent.model_id,
         });
+
+        if (dbAgent.status !== 'idle') {
+          await dbModule.updateAgentStatus(dbAgent.id, 'idle');
+        }
       }
     }
+
+    await recoverInFlightWork();
   }
 
   // Wire up demo mode with orchestrator service adapter
@@ -110,6 +158,8 @@ export async function initialize(options: InitializeOptions = {}): Promise<void>
     cancelTask: async (taskId) => {
       if (dbModule) {
         await dbModule.updateTaskStatus(parseInt(taskId, 10), 'cancelled');
+        await stopRecording(parseInt(taskId, 10));
+        stopTaskProcesses(parseInt(taskId, 10));
       }
     },
   });
@@ -117,6 +167,25 @@ export async function initialize(options: InitializeOptions = {}): Promise<void>
   console.log('[Orchestration] Initialized with ElizaOS agents');
 }
 
+/**
+ * Recover work orphaned by a crash or restart: close stale work sessions,
+ * re-queue in-flight subtasks and hand unplanned tasks back to the planners
+ */
+async function recoverInFlightWork(): Promise<void> {
+  if (!dbModule) return;
+
+  const staleSessions = await dbModule.closeOpenWorkSessions('interrupted');
+  const requeuedSubtasks = await dbModule.requeueInProgressSubtasks();
+  const requeuedTasks = await dbModule.requeueUnplannedTasks();
+
+  if (staleSessions.length + requeuedSubtasks.length + requeuedTasks.length > 0) {
+    console.log(
+      `[Orchestration] Recovery: closed ${staleSessions.length} stale session(s), ` +
+        `re-queued ${requeuedSubtasks.length} subtask(s) and ${requeuedTasks.length} unplanned task(s)`
+    );
+  }
+}
+
 /**
  * Start the orchestration loop
  */
@@ -127,7 +196,7 @@ export function start(intervalMs: number = TICK_INTERVAL_MS): void {
   }
 
   isRunning = true;
-  loopInterval = setInterval(tick, intervalMs);
+  loopInterval = setRepeatingTimer(tick, intervalMs);
   console.log(`[Orchestration] Started (${intervalMs}ms interval)`);
 
   // Auto-start demo mode if enabled
@@ -149,7 +218,7 @@ export function stop(): void {
 
   isRunning = false;
   if (loopInterval) {
-    clearInterval(loopInterval);
+    clearRepeatingTimer(loopInterval);
     loopInterval = null;
   }
 
@@ -160,16 +229,20 @@ export function stop(): void {
 }
 
 /**
- * Main orchestration tick
+ * Main orchestration tick. Exported so the simulation harness can step the
+ * town one tick at a time instead of running the loop.
  */
-async function tick(): Promise<void> {
-  try {
-    await updateTravelingAgents();
+export async function tick(): Promise<void> {
+  // Planning can outlast the tick interval; overlapping ticks would double-assign work
+  if (tickInProgress) return;
+  tickInProgress = true;
 
+  try {
     const runtimes = runtimeManager.getAllRuntimes();
     const agentIds = Array.from(runtimes.keys());
 
     console.log(`[Orchestration] Tick: ${agentIds.length} agents`);
+    await recheckOverBudgetAgents();
 
     let pendingTasks: Task[] = [];
     if (dbModule) {
@@ -180,7 +253,7 @@ async function tick(): Promise<void> {
       const planners = agentIds.filter((id) => {
         const state = getAgentState(id);
         const metadata = runtimeManager.getMetadata(id);
-        return metadata?.role === 'planner' && state.status === 'idle';
+        return metadata?.role === 'planner' && state.status === 'idle' && !overBudgetAgents.has(id);
       });
 
       for (const task of pendingTasks) {
@@ -205,65 +278,32 @@ async function tick(): Promise<void> {
 
       const state = getAgentState(agentId);
 
-      if (state.status === 'traveling' || activeWork.has(agentId)) {
+      if (state.status === 'traveling' || activeWork.has(agentId) || overBudgetAgents.has(agentId)) {
         continue;
       }
 
       const hasWork = await agentHasPendingWork(agentId);
 
-      if (hasWork) {
-        await runtimeManager.triggerWorkDecision(agentId);
-        decisionsTriggered++;
-      } else if (Math.random() < AMBIENT_ACTIVITY_CHANCE) {
-        await runtimeManager.triggerChatDecision(agentId);
-        decisionsTriggered++;
+      try {
+        if (hasWork) {
+          decisionsTriggered++;
+          await runtimeManager.triggerWorkDecision(agentId);
+        } else if (random() < AMBIENT_ACTIVITY_CHANCE) {
+          decisionsTriggered++;
+          await runtimeManager.triggerChatDecision(agentId);
+        }
+      } catch (error) {
+        // An agent over its daily budget just sits this one out
+        if (!(error instanceof BudgetExceededError)) throw error;
+        if (error.breach.scope === 'agent') benchAgent(agentId, error.breach);
       }
     }
 
     await broadcastState();
   } catch (error) {
     console.error('[Orchestration] Tick error:', error);
-  }
-}
-
-/**
- * Update traveling agents
- */
-async function updateTravelingAgents(): Promise<void> {
-  const now = Date.now();
-
-  for (const [agentId, travel] of travelingAgents) {
-    if (now >= travel.arrivalTime) {
-      const state = getAgentState(agentId);
-      const hub = HUBS[travel.targetHub];
-
-      if (hub) {
-        updateAgentState(agentId, {
-          status: 'idle',
-          hub: travel.targetHub,
-          doing: undefined,
-          x: hub.x,
-          z: hub.z,
-        });
-
-        if (broadcastFn) {
-          broadcastFn({
-            type: 'agent_arrived',
-            data: {
-              agent: state.name,
-              agentId,
-              hub: travel.targetHub,
-            },
-          });
-        }
-
-        if (dbModule && state.dbId) {
-          await dbModule.createMessage(state.dbId, 'status', `Arrived at ${hub.name}`);
-        }
-      }
-
-      travelingAgents.delete(agentId);
-    }
+  } finally {
+    tickInProgress = false;
   }
 }
 
@@ -276,7 +316,7 @@ async function assignTaskToPlanner(plannerId: string, task: Task): Promise<void>
 
   console.log(`[Orchestration] Assigning task "${task.title}" to planner ${agentName}`);
 
-  await moveAgentToHub(plannerId, 'planning_room');
+  await moveAgentToHub(plannerId, ROLE_HUBS.planner);
 
   updateAgentState(plannerId, {
     status: 'working',
@@ -305,115 +345,87 @@ async function assignTaskToPlanner(plannerId: string, task: Task): Promise<void>
     await dbModule.createMessage(state.dbId, 'status', `Starting to analyze task: ${task.title}`, task.id);
   }
 
-  const result = await runtimeManager.triggerAgentDecision(
-    plannerId,
-    `
-You have been assigned a new task to analyze and break down:
-
-Task: ${task.title}
-Description: ${task.description || 'No description provided'}
-Priority: ${task.priority}
-
-As the lead planner, analyze this task and break it into specific subtasks.
-
-IMPORTANT: You MUST output your subtasks in this exact JSON format:
-\`\`\`json
-{
-  "subtasks": [
-    {"title": "subtask title", "description": "what needs to be done", "type": "design|code|review"},
-    ...
-  ]
-}
-\`\`\`
-
-Rules for subtasks:
-- Create 2-5 subtasks based on task complexity
-- Each subtask should be assignable to one agent type (designer, coder, or reviewer)
-- Order them logically (design before code, code before review)
-- Be specific about what each subtask should accomplish
-
-After outputting the JSON, use SPEAK to announce your plan to the team.
-`
-  );
-
-  if (result?.didRespond && dbModule) {
-    interface SubtaskDef {
-      title: string;
-      description: string;
-      order: number;
+  let result: TriggerResult | null = null;
+  let paused = false;
+  let noPlanReason = `Planner ${agentName} returned no plan`;
+  try {
+    result = await runtimeManager.triggerAgentDecision(plannerId, buildPlanPrompt(task), {
+      taskId: task.id,
+      kind: 'plan',
+    });
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      paused = true;
+      if (error.breach.scope === 'agent') {
+        // Only this planner is out of budget: another one can take the task
+        benchAgent(plannerId, error.breach);
+        await dbModule?.updateTaskStatus(task.id, 'pending');
+      } else {
+        await pauseTaskForBudget(task, error.breach);
+      }
+    } else {
+      console.error(`[Orchestration] Planner ${agentName} failed on task ${task.id}:`, error);
+      noPlanReason = `Planner ${agentName} failed: ${(error as Error).message}`;
     }
+  }
 
-    let subtasks: SubtaskDef[] = [];
-
-    const responseText = result.text || '';
-    const jsonMatch =
-      responseText.match(/```json\s*([\s\S]*?)```/) || responseText.match(/\{[\s\S]*"subtasks"[\s\S]*\}/);
+  if (result?.didRespond && dbModule) {
+    let responseText = result.text || '';
+    let validation = parsePlan(responseText);
+
+    // Feed validation errors back to the planner before any fallback is used
+    for (let attempt = 1; !validation.ok && attempt <= PLAN_REPAIR_ATTEMPTS; attempt++) {
+      console.warn(
+        `[Orchestration] Planner output invalid (repair ${attempt}/${PLAN_REPAIR_ATTEMPTS}):`,
+        validation.errors.join(' ')
+      );
 
-    if (jsonMatch) {
+      let repair: TriggerResult | null;
       try {
-        const jsonStr = jsonMatch[1] || jsonMatch[0];
-        const parsed = JSON.parse(jsonStr);
-        if (parsed.subtasks && Array.isArray(parsed.subtasks)) {
-          subtasks = parsed.subtasks.map(
-            (st: { title?: string; description?: string }, idx: number) => ({
-              title: st.title || `Subtask ${idx + 1}`,
-              description: st.description || '',
-              order: idx + 1,
-            })
-          );
-        }
-      } catch (parseError) {
-        console.warn(
-          '[Orchestration] Could not parse planner JSON, using fallback:',
-          (parseError as Error).message
+        repair = await runtimeManager.triggerAgentDecision(
+          plannerId,
+          buildPlanRepairPrompt(task, validation.errors),
+          { taskId: task.id, kind: 'plan' }
         );
+      } catch (error) {
+        // Out of budget (or otherwise failed) mid-repair: plan with what we have;
+        // the subtasks will pause the task if it's the budget
+        if (!(error instanceof BudgetExceededError)) {
+          console.error(`[Orchestration] Planner ${agentName} failed repairing task ${task.id}:`, error);
+        }
+        break;
       }
-    }
+      if (!repair?.didRespond) break;
 
-    if (subtasks.length === 0) {
-      const bulletMatches = responseText.match(/[-•*]\s*(.+)/g) || responseText.match(/\d+[.)]\s*(.+)/g);
-      if (bulletMatches && bulletMatches.length >= 2) {
-        subtasks = bulletMatches.slice(0, 5).map((item, idx) => {
-          const clean = item.replace(/^[-•*\d.)\s]+/, '').trim();
-          const type = clean.toLowerCase().includes('design')
-            ? 'design'
-            : clean.toLowerCase().includes('review')
-              ? 'review'
-              : 'code';
-          return {
-            title: clean.substring(0, 100),
-            description: `${type} phase`,
-            order: idx + 1,
-          };
-        });
-      }
+      responseText = repair.text || responseText;
+      validation = parsePlan(repair.text || '');
     }
 
-    if (subtasks.length === 0) {
-      console.log('[Orchestration] Using default subtasks (LLM output not parseable)');
-      const taskLower = task.title.toLowerCase();
-      const isComplex =
-        taskLower.includes('build') ||
-        taskLower.includes('create') ||
-        taskLower.includes('implement') ||
-        (task.description?.length || 0) > 100;
-
-      if (isComplex) {
-        subtasks = [
-          { title: `Design: ${task.title}`, description: 'Create architecture and design', order: 1 },
-          { title: `Implement: ${task.title}`, description: 'Write the implementation', order: 2 },
-          { title: `Review: ${task.title}`, description: 'Review and test', order: 3 },
-        ];
-      } else {
-        subtasks = [
-          { title: `Implement: ${task.title}`, description: 'Complete the implementation', order: 1 },
-          { title: `Review: ${task.title}`, description: 'Verify correctness', order: 2 },
-        ];
-      }
+    let subtasks: PlannedSubtask[];
+    if (validation.ok) {
+      subtasks = validation.plan.subtasks;
+    } else {
+      console.warn('[Orchestration] Planner output still invalid after repairs, using fallback plan');
+      subtasks = buildFallbackPlan(task, responseText);
     }
 
-    for (const st of subtasks) {
-      await dbModule.createSubtask(task.id, st.title, st.description, st.order);
+    // Plan dependencies are 1-based positions; map them onto the created subtask ids
+    const createdIds: number[] = [];
+    for (const [idx, st] of subtasks.entries()) {
+      const created = await dbModule.createSubtask(
+        task.id,
+        st.title,
+        st.description,
+        idx + 1,
+        st.role,
+        st.acceptanceCriteria.length > 0 ? st.acceptanceCriteria.join('\n') : null,
+        st.estimatedEffort
+      );
+      createdIds.push(created.id);
+      await dbModule.addSubtaskDependencies(
+        created.id,
+        st.dependencies.map((position) => createdIds[position - 1])
+      );
     }
 
     console.log(`[Orchestration] Created ${subtasks.length} subtasks from planner analysis`);
@@ -429,9 +441,12 @@ After outputting the JSON, use SPEAK to announce your plan to the team.
         },
       });
     }
+  } else if (!paused) {
+    // Left in progress with no subtasks, the task would never move again
+    await failTask(task, noPlanReason);
   }
 
-  await moveAgentToHub(plannerId, 'town_square');
+  await moveAgentToHub(plannerId, DEFAULT_HUB, { wait: false });
   updateAgentState(plannerId, {
     status: 'idle',
     doing: undefined,
@@ -446,56 +461,183 @@ After outputting the JSON, use SPEAK to announce your plan to the team.
 }
 
 /**
- * Process an in-progress task
+ * Build the initial planning prompt
+ */
+function buildPlanPrompt(task: Task): string {
+  return `
+You have been assigned a new task to analyze and break down:
+
+Task: ${task.title}
+Description: ${task.description || 'No description provided'}
+Priority: ${task.priority}
+
+As the lead planner, analyze this task and break it into specific subtasks.
+
+IMPORTANT: You MUST output your plan as JSON matching this schema exactly:
+\`\`\`json
+${PLAN_SCHEMA_EXAMPLE}
+\`\`\`
+
+Rules for subtasks:
+- Create ${MIN_PLAN_SUBTASKS}-${MAX_PLAN_SUBTASKS} subtasks based on task complexity (usually 2-5)
+- "role" is the agent that does the work: ${PLAN_ROLES.join(', ')}
+- "dependencies" lists the 1-based positions of earlier subtasks that must finish first
+- "acceptanceCriteria" are concrete checks a reviewer can verify
+- "estimatedEffort" is one of: ${PLAN_EFFORTS.join(', ')}
+- Order them logically (design before code, code before review)
+
+After outputting the JSON, use SPEAK to announce your plan to the team.
+`;
+}
+
+/**
+ * Build a re-prompt that feeds schema validation errors back to the planner
+ */
+function buildPlanRepairPrompt(task: Task, errors: string[]): string {
+  return `
+Your plan for "${task.title}" did not match the required schema:
+${errors.map((e) => `- ${e}`).join('\n')}
+
+Reply with the corrected plan as a single JSON object in a \`\`\`json code block, using this schema:
+\`\`\`json
+${PLAN_SCHEMA_EXAMPLE}
+\`\`\`
+`;
+}
+
+/**
+ * Fallback plan when the planner never produced a valid one:
+ * scrape bullet points, then fall back to a fixed design/implement/review plan
+ */
+function buildFallbackPlan(task: Task, responseText: string): PlannedSubtask[] {
+  const bulletMatches = responseText.match(/[-•*]\s*(.+)/g) || responseText.match(/\d+[.)]\s*(.+)/g);
+  if (bulletMatches && bulletMatches.length >= 2) {
+    return bulletMatches.slice(0, 5).map((item, idx) => {
+      const clean = item.replace(/^[-•*\d.)\s]+/, '').trim();
+      const role: AgentRole = clean.toLowerCase().includes('design')
+        ? 'designer'
+        : clean.toLowerCase().includes('review')
+          ? 'reviewer'
+          : 'coder';
+      return {
+        title: clean.substring(0, 100),
+        description: `${role} phase`,
+        role,
+        dependencies: idx > 0 ? [idx] : [],
+        acceptanceCriteria: [],
+        estimatedEffort: 'medium',
+      };
+    });
+  }
+
+  console.log('[Orchestration] Using default subtasks (LLM output not parseable)');
+  const taskLower = task.title.toLowerCase();
+  const isComplex =
+    taskLower.includes('build') ||
+    taskLower.includes('create') ||
+    taskLower.includes('implement') ||
+    (task.description?.length || 0) > 100;
+
+  const steps: Array<Pick<PlannedSubtask, 'title' | 'description' | 'role'>> = isComplex
+    ? [
+        { title: `Design: ${task.title}`, description: 'Create architecture and design', role: 'designer' },
+        { title: `Implement: ${task.title}`, description: 'Write the implementation', role: 'coder' },
+        { title: `Review: ${task.title}`, description: 'Review and test', role: 'reviewer' },
+      ]
+    : [
+        { title: `Implement: ${task.title}`, description: 'Complete the implementation', role: 'coder' },
+        { title: `Review: ${task.title}`, description: 'Verify correctness', role: 'reviewer' },
+      ];
+
+  return steps.map((step, idx) => ({
+    ...step,
+    dependencies: idx > 0 ? [idx] : [],
+    acceptanceCriteria: [],
+    estimatedEffort: 'medium',
+  }));
+}
+
+/**
+ * Process an in-progress task: dispatch every subtask whose dependencies are
+ * complete to an idle agent of the right role, in parallel
  */
 async function processTask(task: Task): Promise<void> {
   if (!dbModule) return;
 
   const subtasks = await dbModule.getSubtasks(task.id);
-  const pendingSubtask = subtasks.find((st) => st.status === 'pending');
 
-  if (!pendingSubtask) {
-    const allCompleted = subtasks.every((st) => st.status === 'completed');
-    if (allCompleted && subtasks.length > 0) {
-      await dbModule.updateTaskStatus(task.id, 'completed');
+  const failedSubtask = subtasks.find((st) => st.status === 'failed');
+  if (failedSubtask) {
+    await failTask(task, `Subtask "${failedSubtask.title}" failed: ${failedSubtask.last_error || 'unknown error'}`);
+    return;
+  }
 
-      if (broadcastFn) {
-        broadcastFn({
-          type: 'task_complete',
-          data: {
-            taskId: task.id,
-            result: {
-              downloadUrl: `/api/tasks/${task.id}/download`,
-              previewUrl: `/api/tasks/${task.id}/preview`,
-            },
+  if (subtasks.length > 0 && subtasks.every((st) => st.status === 'completed')) {
+    await dbModule.updateTaskStatus(task.id, 'completed');
+    await stopRecording(task.id);
+    stopTaskProcesses(task.id);
+
+    if (broadcastFn) {
+      broadcastFn({
+        type: 'task_complete',
+        data: {
+          taskId: task.id,
+          result: {
+            downloadUrl: `/api/tasks/${task.id}/download`,
+            previewUrl: `/api/tasks/${task.id}/preview`,
           },
-        });
-      }
+        },
+      });
     }
     return;
   }
 
-  const subtaskType = determineSubtaskType(pendingSubtask);
-  const runtimes = runtimeManager.getAllRuntimes();
+  const completedIds = new Set(subtasks.filter((st) => st.status === 'completed').map((st) => st.id));
+  const dispatchedIds = new Set([...activeWork.values()].map((work) => work.subtaskId));
+  const currentTime = now();
+  const readySubtasks = subtasks.filter(
+    (st) =>
+      st.status === 'pending' &&
+      !dispatchedIds.has(st.id) &&
+      (!st.next_attempt_at || new Date(st.next_attempt_at).getTime() <= currentTime) &&
+      st.depends_on.every((depId) => completedIds.has(depId))
+  );
 
-  let availableAgentId: string | null = null;
-  for (const [agentId] of runtimes) {
+  for (const subtask of readySubtasks) {
+    const subtaskType = (subtask.role as AgentRole | null) || determineSubtaskType(subtask);
+    const agentId = findIdleAgent(subtaskType);
+    if (!agentId) continue;
+
+    // executeSubtask claims the agent synchronously, so the next iteration sees it as busy
+    executeSubtask(agentId, task, subtask).catch(async (error) => {
+      console.error(`[Orchestration] Subtask ${subtask.id} crashed:`, error);
+      try {
+        await recordSubtaskFailure(task, subtask, (error as Error).message);
+      } finally {
+        await releaseAgent(agentId, 'failed');
+      }
+    });
+  }
+}
+
+/**
+ * Find an idle agent with the given role that isn't already working on something
+ */
+function findIdleAgent(role: AgentRole): string | null {
+  for (const [agentId] of runtimeManager.getAllRuntimes()) {
     const state = getAgentState(agentId);
     const metadata = runtimeManager.getMetadata(agentId);
 
-    if (metadata?.role === subtaskType && state.status === 'idle') {
-      availableAgentId = agentId;
-      break;
+    if (metadata?.role === role && state.status === 'idle' && !activeWork.has(agentId) && !overBudgetAgents.has(agentId)) {
+      return agentId;
     }
   }
-
-  if (!availableAgentId) return;
-
-  await executeSubtask(availableAgentId, task, pendingSubtask);
+  return null;
 }
 
 /**
  * Determine what type of agent should handle a subtask
+ * (only used for subtasks created without a planner-assigned role)
  */
 function determineSubtaskType(subtask: Subtask): AgentRole {
   const title = subtask.title.toLowerCase();
@@ -624,21 +766,33 @@ async function executeSubtask(agentId: string, task: Task, subtask: Subtask): Pr
   const state = getAgentState(agentId);
   const metadata = runtimeManager.getMetadata(agentId);
   const agentName = state.name || agentId;
-  const workHub = ROLE_HUBS[metadata?.role as AgentRole] || 'town_square';
+  const workHub = ROLE_HUBS[metadata?.role as AgentRole] || DEFAULT_HUB;
 
   console.log(`[Orchestration] Agent ${agentName} starting subtask: ${subtask.title}`);
 
-  await moveAgentToHub(agentId, workHub);
+  // Claim the agent and subtask before the first await so parallel dispatch can't double-book them
+  activeWork.set(agentId, {
+    taskId: task.id,
+    subtaskId: subtask.id,
+    startedAt: now(),
+  });
 
   updateAgentState(agentId, {
     status: 'working',
     doing: subtask.title,
   });
 
+  await moveAgentToHub(agentId, workHub);
+
   if (dbModule && state.dbId) {
     await dbModule.updateAgentStatus(state.dbId, 'working');
     await dbModule.updateSubtaskStatus(subtask.id, 'in_progress');
     await dbModule.createMessage(state.dbId, 'status', `Working on: ${subtask.title}`, task.id, subtask.id);
+
+    // An open session marks this subtask as in flight, so a restart can tell it was interrupted
+    const session = await dbModule.startWorkSession(state.dbId, task.id, subtask.id, subtask.title);
+    const work = activeWork.get(agentId);
+    if (work) work.sessionId = session.id;
   }
 
   if (broadcastFn) {
@@ -653,45 +807,59 @@ async function executeSubtask(agentId: string, task: Task, subtask: Subtask): Pr
     });
   }
 
-  activeWork.set(agentId, {
-    taskId: task.id,
-    subtaskId: subtask.id,
-    startedAt: Date.now(),
-  });
+  // Attribute sandbox file changes made during this subtask to the task, on the backend it asked for
+  const sandbox = getSharedSandbox();
+  sandbox.setTaskBackend(task.id, task.sandbox_backend ?? null);
+  sandbox.setAgentTask(agentName, task.id);
+
+  // Where the agent's file tools point, so the prompt doesn't promise files other tasks wrote
+  const workspace = sandbox.getWorkspace(task.id);
+  let workspaceNote = 'All agents share ONE codebase.';
+  if (workspace.taskId !== null) {
+    workspaceNote = 'This task has its own workspace, shared only by the agents working on it; file paths and commands resolve inside it.';
+    if (sandbox.hasBaseRepository(workspace)) {
+      workspaceNote += ' The base repository is readable (never writable) under "@base/", e.g. READ_FILE with ' +
+        'filepath="@base/src/index.ts", and files this task hasn\'t written yet are read from it; your writes stay in the workspace.';
+    }
+  }
+
+  const criteriaText = subtask.acceptance_criteria
+    ? `\nAcceptance criteria:\n${subtask.acceptance_criteria.split('\n').map((c) => `- ${c}`).join('\n')}`
+    : '';
 
   let rolePrompt = '';
 
   if (metadata?.role === 'coder') {
     rolePrompt = `
-You are implementing code for a task. All agents share ONE codebase.
+You are implementing code for a task. ${workspaceNote}
 
 Main Task: ${task.title}
 Subtask: ${subtask.title}
-Description: ${subtask.description || 'No description provided'}
+Description: ${subtask.description || 'No description provided'}${criteriaText}
 
 WORKFLOW:
-1. First, use LIST_FILES to see what exists in the codebase
+1. First, use LIST_FILES to see what exists in the workspace
 2. Use READ_FILE to examine relevant existing code
 3. Use WRITE_FILE to create new files OR EDIT_FILE to modify existing ones
 4. Use EXECUTE_SHELL to run tests: npm test, tsc --noEmit
 5. Use SPEAK to announce when done
 
 Example:
-- LIST_FILES with path="." to see the codebase
+- LIST_FILES with path="." to see the workspace
 - WRITE_FILE with filepath="src/solution.ts" and content="your code here"
 - EXECUTE_SHELL with command="tsc --noEmit" to type-check
 
-Write complete, working code. Other agents will see your files.`;
+Write complete, working code. The other agents on this task will see your files.`;
   } else if (metadata?.role === 'designer') {
     rolePrompt = `
-You are creating design specifications. All agents share ONE codebase.
+You are creating design specifications. ${workspaceNote}
 
 Main Task: ${task.title}
 Subtask: ${subtask.title}
-Description: ${subtask.description || 'No description provided'}
+Description: ${subtask.description || 'No description provided'}${criteriaText}
 
 WORKFLOW:
-1. Use LIST_FILES to understand the current codebase structure
+1. Use LIST_FILES to understand the current workspace structure
 2. Use READ_FILE to examine existing code/designs
 3. Use WRITE_FILE to create design docs (e.g., docs/design.md)
 4. Use SPEAK to explain your design to the team
@@ -700,11 +868,11 @@ Create design specs in markdown that coders Ada and Byron can implement.
 Include: architecture, data models, API contracts, component interfaces.`;
   } else if (metadata?.role === 'reviewer') {
     rolePrompt = `
-You are reviewing code for quality. All agents share ONE codebase.
+You are reviewing code for quality. ${workspaceNote}
 
 Main Task: ${task.title}
 Subtask: ${subtask.title}
-Description: ${subtask.description || 'No description provided'}
+Description: ${subtask.description || 'No description provided'}${criteriaText}
 
 WORKFLOW:
 1. Check CODEBASE provider to see recent file changes
@@ -714,22 +882,66 @@ WORKFLOW:
 5. Use WRITE_FILE to create a review: docs/review.md
 6. Use SPEAK to announce your findings
 
-Provide constructive feedback. If you find small issues, you can use EDIT_FILE to fix them directly.`;
+Provide constructive feedback. If you find small issues, you can use EDIT_FILE to fix them directly.
+
+End your reply with your verdict as a \`\`\`json block. Use "approve" if the work meets the acceptance
+criteria, or "request_changes" with one concrete, actionable issue per entry for the coders to fix:
+\`\`\`json
+${REVIEW_VERDICT_EXAMPLE}
+\`\`\``;
   } else {
     rolePrompt = `
-You are working on a subtask. All agents share ONE codebase.
+You are working on a subtask. ${workspaceNote}
 
 Main Task: ${task.title}
 Subtask: ${subtask.title}
-Description: ${subtask.description || 'No description provided'}
+Description: ${subtask.description || 'No description provided'}${criteriaText}
 
-Use READ_FILE, WRITE_FILE, EDIT_FILE to work with the codebase.
+Use READ_FILE, WRITE_FILE, EDIT_FILE to work with the workspace.
 Use SPEAK to communicate progress.`;
   }
 
-  const result = await runtimeManager.triggerAgentDecision(agentId, rolePrompt);
+  const pending = runtimeManager.triggerAgentDecision(agentId, rolePrompt, {
+    taskId: task.id,
+    subtaskId: subtask.id,
+    kind: 'subtask',
+  });
 
-  if (metadata?.role === 'coder' && result?.text && storageModule) {
+  // Time the agent's commands spend waiting for an operator's approval doesn't count
+  const approvalWaitBefore = approvalWaitTime(agentName);
+  let result: TriggerResult;
+  try {
+    const decision = await withTimeout(
+      pending,
+      SUBTASK_TIMEOUT_MS,
+      `${agentName} timed out after ${SUBTASK_TIMEOUT_MS}ms on "${subtask.title}"`,
+      () => approvalWaitTime(agentName) - approvalWaitBefore
+    );
+    if (!decision) {
+      throw new Error(`${agentName} could not process "${subtask.title}" (agent decision failed)`);
+    }
+    result = decision;
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      // Not a failed attempt: the subtask waits for another agent, or for the task to be resumed
+      await dbModule?.updateSubtaskStatus(subtask.id, 'pending');
+      if (error.breach.scope === 'agent') {
+        benchAgent(agentId, error.breach);
+      } else {
+        await pauseTaskForBudget(task, error.breach);
+      }
+      await releaseAgent(agentId, 'paused');
+      return;
+    }
+    await recordSubtaskFailure(task, subtask, (error as Error).message);
+    // A timed-out decision keeps running: the agent and the subtask stay taken until it
+    // ends, so the retry never works the same workspace alongside it
+    await pending.catch(() => undefined);
+    await releaseAgent(agentId, 'failed');
+    return;
+  }
+
+  if (metadata?.role === 'coder' && result.text && storageModule) {
     const savedFiles = await extractAndSaveCode(task.id, result.text, agentName);
     if (savedFiles.length > 0) {
       console.log(`[Orchestration] ${agentName} saved ${savedFiles.length} file(s)`);
@@ -744,8 +956,28 @@ Use SPEAK to communicate progress.`;
     }
   }
 
+  // Follow-up work must exist before the review completes, or dependents could start in between
+  if (metadata?.role === 'reviewer' && dbModule) {
+    const verdict = parseReviewVerdict(result.text);
+    if (!verdict) {
+      // Never read a missing verdict as approval: the review is retried like any failed attempt
+      await recordSubtaskFailure(task, subtask, `${agentName} gave no parseable verdict for "${subtask.title}"`);
+      await releaseAgent(agentId, 'failed');
+      return;
+    }
+    await applyReviewVerdict(task, subtask, verdict, agentName);
+  }
+
+  // Record the subtask on the task's branch, authored by the agent that did it
+  const character = ELIZA_TOWN_CHARACTERS.find((c) => c.username === agentId);
+  await getSharedSandbox().commitTaskWork(
+    task.id,
+    `${subtask.title}\n\nSubtask #${subtask.id} of task #${task.id}: ${task.title}`,
+    { name: agentName, email: character?.email || `${agentId}@eliza.town` }
+  );
+
   if (dbModule) {
-    await dbModule.updateSubtaskStatus(subtask.id, 'completed', result?.text || 'Completed');
+    await dbModule.updateSubtaskStatus(subtask.id, 'completed', result.text || 'Completed');
     if (state.dbId) {
       await dbModule.createMessage(
         state.dbId,
@@ -764,9 +996,25 @@ Use SPEAK to communicate progress.`;
     });
   }
 
+  await releaseAgent(agentId, 'completed');
+}
+
+/**
+ * Free an agent after a subtask finishes or fails and walk it back to the square
+ */
+async function releaseAgent(agentId: string, outcome: 'completed' | 'failed' | 'paused'): Promise<void> {
+  const state = getAgentState(agentId);
+  const agentName = state.name || agentId;
+  const sessionId = activeWork.get(agentId)?.sessionId;
+
   activeWork.delete(agentId);
+  if (dbModule && sessionId) {
+    await dbModule.endWorkSession(sessionId, outcome);
+  }
+  getSharedSandbox().setAgentTask(agentName, null);
 
-  await moveAgentToHub(agentId, 'town_square');
+  // Never queue for the square: a full one would leave the agent holding its work hub's spot
+  await moveAgentToHub(agentId, DEFAULT_HUB, { wait: false });
 
   updateAgentState(agentId, {
     status: 'idle',
@@ -786,46 +1034,271 @@ Use SPEAK to communicate progress.`;
 }
 
 /**
- * Move an agent to a hub
+ * Reject if a promise doesn't settle in time. excluded reports time that
+ * shouldn't count (it is read when the time is up, and the deadline moves out
+ * by whatever it has grown). The underlying work can't be cancelled, so
+ * callers wait for it to settle before reusing the agent.
  */
-async function moveAgentToHub(agentId: string, targetHub: string): Promise<void> {
-  const state = getAgentState(agentId);
-  const currentHub = state.hub || 'town_square';
-  const hub = HUBS[targetHub];
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string, excluded: () => number = () => 0): Promise<T> {
+  let timer: TimerHandle;
+  let credited = 0;
+  const timeout = new Promise<never>((_, reject) => {
+    const arm = (delay: number): void => {
+      timer = setTimer(() => {
+        const extra = excluded() - credited;
+        if (extra > 0) {
+          credited += extra;
+          arm(extra);
+        } else {
+          reject(new Error(message));
+        }
+      }, delay);
+    };
+    arm(ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimer(timer));
+}
+
+/**
+ * Record a failed attempt: schedule a retry with exponential backoff, or mark
+ * the subtask failed and fail its task once attempts run out
+ */
+async function recordSubtaskFailure(task: Task, subtask: Subtask, error: string): Promise<void> {
+  if (!dbModule) return;
 
-  if (!hub || currentHub === targetHub) return;
+  const attempt = subtask.attempts + 1;
+  const canRetry = attempt < SUBTASK_MAX_ATTEMPTS;
+  const retryAt = canRetry ? new Date(now() + SUBTASK_RETRY_BACKOFF_MS * 2 ** (attempt - 1)) : null;
 
-  const currentPos = HUBS[currentHub] || { x: 0, z: 0 };
-  const distance = Math.sqrt(
-    Math.pow(hub.x - currentPos.x, 2) + Math.pow(hub.z - currentPos.z, 2)
+  await dbModule.recordSubtaskAttemptFailure(subtask.id, error, retryAt);
+
+  console.warn(
+    `[Orchestration] Subtask "${subtask.title}" failed (attempt ${attempt}/${SUBTASK_MAX_ATTEMPTS}): ${error}` +
+      (retryAt ? `, retrying at ${retryAt.toISOString()}` : '')
   );
-  const travelTime = Math.max(1500, distance * 100);
 
   if (broadcastFn) {
     broadcastFn({
-      type: 'agent_move',
+      type: 'subtask_failed',
       data: {
-        agent: state.name,
-        agentId,
-        from: currentPos,
-        to: { x: hub.x, z: hub.z },
-        hub: targetHub,
+        taskId: task.id,
+        subtaskId: subtask.id,
+        error,
+        attempt,
+        maxAttempts: SUBTASK_MAX_ATTEMPTS,
+        retryAt: retryAt?.toISOString() || null,
       },
     });
   }
 
-  travelingAgents.set(agentId, {
-    targetHub,
-    arrivalTime: Date.now() + travelTime,
-  });
+  if (!canRetry) {
+    await failTask(task, `Subtask "${subtask.title}" failed after ${attempt} attempt(s): ${error}`);
+  }
+}
 
-  await new Promise((resolve) => setTimeout(resolve, travelTime + 200));
+/**
+ * Mark a task failed and cancel whatever hasn't started yet
+ */
+async function failTask(task: Task, reason: string, issues: string[] = []): Promise<void> {
+  if (!dbModule) return;
 
-  updateAgentState(agentId, {
-    hub: targetHub,
-    x: hub.x,
-    z: hub.z,
+  console.log(`[Orchestration] Task ${task.id} failed: ${reason}`);
+  await dbModule.cancelPendingSubtasks(task.id);
+  await dbModule.updateTaskStatus(task.id, 'failed');
+  await stopRecording(task.id);
+  stopTaskProcesses(task.id);
+
+  if (broadcastFn) {
+    broadcastFn({
+      type: 'task_failed',
+      data: { taskId: task.id, reason, issues },
+    });
+  }
+}
+
+/**
+ * Pause a task whose budget (or whose session's) is used up, keeping which one
+ * it was. It stays paused until resumeBudgetPausedTasks finds that budget has
+ * room again.
+ */
+async function pauseTaskForBudget(task: Task, breach: BudgetBreach): Promise<void> {
+  if (!dbModule) return;
+
+  console.log(`[Orchestration] Task ${task.id} paused: ${breach.reason}`);
+  await dbModule.updateTaskStatus(task.id, 'budget_exceeded');
+  await dbModule.setTaskBudgetBreach(task.id, breach.scope);
+  stopTaskProcesses(task.id);
+
+  if (broadcastFn) {
+    broadcastFn({
+      type: 'budget_exceeded',
+      data: { taskId: task.id, ...breach },
+    });
+  }
+}
+
+/**
+ * Take an agent over its daily budget off new work. Its tasks carry on with
+ * other agents; recheckOverBudgetAgents puts it back once it has room again.
+ */
+function benchAgent(agentId: string, breach: BudgetBreach): void {
+  if (overBudgetAgents.has(agentId)) return;
+  overBudgetAgents.add(agentId);
+  console.log(`[Orchestration] ${breach.key} sits out new work: ${breach.reason}`);
+}
+
+// Put back agents within their daily budget again (a new day, or a raised limit)
+async function recheckOverBudgetAgents(): Promise<void> {
+  for (const agentId of [...overBudgetAgents]) {
+    const metadata = runtimeManager.getMetadata(agentId);
+    const breach = await checkBudgets({
+      agent: metadata?.name || agentId,
+      agentDbId: metadata?.dbId ?? null,
+      taskId: null,
+      scopes: ['agent'],
+    });
+    if (breach) continue;
+    overBudgetAgents.delete(agentId);
+    console.log(`[Orchestration] ${metadata?.name || agentId} is back within budget`);
+  }
+}
+
+/**
+ * Resume budget-paused tasks whose budget that ran out has room again, e.g.
+ * after an operator raised a limit. Unplanned tasks go back to the planners;
+ * planned ones carry on with their pending subtasks.
+ */
+export async function resumeBudgetPausedTasks(): Promise<Task[]> {
+  if (!dbModule) return [];
+
+  await recheckOverBudgetAgents();
+
+  const resumed: Task[] = [];
+  for (const task of await dbModule.getTasks('budget_exceeded')) {
+    // Tasks paused before the scope was kept re-check both budgets that can pause one
+    const scopes: BudgetScope[] = task.budget_breach === 'task' || task.budget_breach === 'session'
+      ? [task.budget_breach]
+      : ['task', 'session'];
+    const breach = await checkBudgets({ agent: null, agentDbId: null, taskId: task.id, scopes });
+    if (breach) continue;
+
+    const planned = (await dbModule.getSubtasks(task.id)).length > 0;
+    if (!(await dbModule.updateTaskStatus(task.id, planned ? 'in_progress' : 'pending'))) continue;
+    const updated = (await dbModule.setTaskBudgetBreach(task.id, null)) as Task;
+    resumed.push(updated);
+    console.log(`[Orchestration] Task ${task.id} resumed`);
+
+    if (broadcastFn) {
+      broadcastFn({
+        type: 'task_resumed',
+        data: { taskId: task.id, status: updated.status },
+      });
+    }
+  }
+  return resumed;
+}
+
+/**
+ * Act on a reviewer's verdict: record it and, on rejection, queue coder
+ * follow-ups plus a re-review, or fail the task once review rounds run out
+ */
+async function applyReviewVerdict(
+  task: Task,
+  review: Subtask,
+  verdict: ReviewVerdict,
+  agentName: string
+): Promise<void> {
+  if (!dbModule) return;
+
+  const decision = verdict.verdict;
+  await dbModule.setSubtaskVerdict(review.id, decision === 'approve' ? 'approved' : 'changes_requested');
+
+  if (broadcastFn) {
+    broadcastFn({
+      type: 'review_verdict',
+      data: {
+        taskId: task.id,
+        subtaskId: review.id,
+        agent: agentName,
+        verdict: decision,
+        issues: verdict.issues,
+        round: review.review_round,
+      },
+    });
+  }
+
+  if (decision === 'approve') return;
+
+  if (review.review_round >= MAX_REVIEW_ROUNDS) {
+    await failTask(task, `Review still requested changes after ${MAX_REVIEW_ROUNDS} rework round(s)`, verdict.issues);
+    return;
+  }
+
+  const round = review.review_round + 1;
+  const issues = verdict.issues.length > 0 ? verdict.issues : [verdict.summary || 'Address the reviewer feedback'];
+  const siblings = await dbModule.getSubtasks(task.id);
+  let orderIndex = Math.max(...siblings.map((st) => st.order_index)) + 1;
+
+  const followUpIds: number[] = [];
+  for (const issue of issues) {
+    const followUp = await dbModule.createSubtask(
+      task.id,
+      `Fix: ${issue}`.slice(0, 255),
+      `The reviewer of "${review.title}" requested changes:\n${issue}${verdict.summary ? `\n\nReview summary: ${verdict.summary}` : ''}`,
+      orderIndex++,
+      'coder',
+      issue,
+      'small',
+      review.id,
+      round
+    );
+    followUpIds.push(followUp.id);
+  }
+
+  const reReview = await dbModule.createSubtask(
+    task.id,
+    `Re-review: ${review.title.replace(/^Re-review: /, '')}`.slice(0, 255),
+    `Check that the issues raised in review round ${round} were fixed:\n${issues.map((i) => `- ${i}`).join('\n')}`,
+    orderIndex,
+    'reviewer',
+    review.acceptance_criteria,
+    'small',
+    review.id,
+    round
+  );
+  await dbModule.addSubtaskDependencies(reReview.id, followUpIds);
+
+  // Anything waiting on the rejected review now waits on the re-review instead
+  for (const dependent of siblings.filter((st) => st.depends_on.includes(review.id))) {
+    await dbModule.addSubtaskDependencies(dependent.id, [reReview.id]);
+  }
+
+  console.log(
+    `[Orchestration] ${agentName} requested changes on "${review.title}": queued ${followUpIds.length} fix(es) for round ${round}`
+  );
+}
+
+/**
+ * Move an agent to a hub through the movement service, waiting in line if it
+ * is full. With wait: false a full hub is skipped and the agent stays put.
+ * Resolves once the trip is over, whether or not the agent got there.
+ */
+async function moveAgentToHub(agentId: string, targetHub: string, options: { wait?: boolean } = {}): Promise<void> {
+  const state = getAgentState(agentId);
+  const agentName = state.name || agentId;
+
+  if (!HUBS[targetHub]) return;
+
+  // Whatever the agent was doing carries on once it gets there
+  const ticket = startMove(agentId, targetHub, {
+    wait: options.wait,
+    onArrival: { status: state.status, doing: state.doing },
   });
+
+  const outcome = await ticket.arrival;
+  if (outcome !== 'arrived') {
+    console.log(`[Orchestration] ${agentName}'s trip to ${ticket.hub} ended early (${outcome})`);
+  }
 }
 
 /**
@@ -900,25 +1373,44 @@ async function broadcastState(): Promise<void> {
       agents,
       tasks,
       messages,
-      timestamp: Date.now(),
+      timestamp: now(),
     },
   });
 }
 
 /**
- * Create a new task
+ * Create a new task, recording its trace when record is set (by default,
+ * when TRACE_RECORDING=true). Tasks the orchestrator shouldn't plan start in
+ * another status.
  */
 export async function createTask(
   title: string,
   description: string | null,
   priority: number = 5,
-  sessionId: string | null = null
+  sessionId: string | null = null,
+  sandboxBackend: string | null = null,
+  budget: BudgetLimit | null = null,
+  record: boolean = recordAllTraces(),
+  status: string = 'pending'
 ): Promise<Task> {
   if (!dbModule) {
     throw new Error('Database not available');
   }
 
-  const task = await dbModule.createTask(title, description, priority, sessionId);
+  // Tasks created without a budget (including demo mode's) get the default one
+  const task = await dbModule.createTask(
+    title,
+    description,
+    priority,
+    sessionId,
+    sandboxBackend,
+    budget ?? getBudgets().task,
+    status
+  );
+
+  if (record) {
+    startRecording(task);
+  }
 
   if (broadcastFn) {
     broadcastFn({
@@ -967,7 +1459,7 @@ export function getState() {
     isRunning,
     agents,
     activeWork: [...activeWork.entries()],
-    travelingAgents: [...travelingAgents.entries()],
+    travelingAgents: getTravelingAgents(),
   };
 }
 
@@ -977,7 +1469,7 @@ export function getState() {
 function shuffleArray<T>(array: T[]): T[] {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -0,0 +1,198 @@
+/**
+ * Planner Output Schema for Eliza Town
+ *
+ * Defines the typed subtask plan the planner must produce, along with
+ * extraction and validation helpers used by the orchestrator's repair loop.
+ */
+
+import type { AgentRole } from '../types/index.js';
+
+// Type definitions
+export type EstimatedEffort = 'small' | 'medium' | 'large';
+
+export interface PlannedSubtask {
+  title: string;
+  description: string;
+  role: AgentRole;
+  /** 1-based positions of subtasks in the same plan that must finish first */
+  dependencies: number[];
+  acceptanceCriteria: string[];
+  estimatedEffort: EstimatedEffort;
+}
+
+export interface SubtaskPlan {
+  subtasks: PlannedSubtask[];
+}
+
+export type PlanValidationResult =
+  | { ok: true; plan: SubtaskPlan }
+  | { ok: false; errors: string[] };
+
+export const PLAN_ROLES: AgentRole[] = ['planner', 'designer', 'coder', 'reviewer'];
+export const PLAN_EFFORTS: EstimatedEffort[] = ['small', 'medium', 'large'];
+export const MIN_PLAN_SUBTASKS = 1;
+export const MAX_PLAN_SUBTASKS = 8;
+
+// Short role names planners tend to use instead of the agent role
+const ROLE_ALIASES: Record<string, AgentRole> = {
+  plan: 'planner',
+  design: 'designer',
+  code: 'coder',
+  implement: 'coder',
+  review: 'reviewer',
+};
+
+/**
+ * The agent role a role name (or a common alias) stands for, or null
+ */
+export function normalizeRole(value: unknown): AgentRole | null {
+  const raw = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return (PLAN_ROLES as string[]).includes(raw) ? (raw as AgentRole) : ROLE_ALIASES[raw] ?? null;
+}
+
+/**
+ * Example plan embedded in the planner prompt
+ */
+export const PLAN_SCHEMA_EXAMPLE = `{
+  "subtasks": [
+    {
+      "title": "Design the data model",
+      "description": "What needs to be done and why",
+      "role": "designer",
+      "dependencies": [],
+      "acceptanceCriteria": ["docs/design.md describes every entity"],
+      "estimatedEffort": "small"
+    },
+    {
+      "title": "Implement the API",
+      "description": "What needs to be done and why",
+      "role": "coder",
+      "dependencies": [1],
+      "acceptanceCriteria": ["All endpoints from the design exist", "tsc --noEmit passes"],
+      "estimatedEffort": "medium"
+    }
+  ]
+}`;
+
+/**
+ * Pull the JSON object out of a planner reply (fenced block or bare object)
+ */
+export function extractPlanJson(text: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  const fenced = text.match(/```json\s*([\s\S]*?)```/);
+  const bare = text.match(/\{[\s\S]*"subtasks"[\s\S]*\}/);
+  const candidate = fenced?.[1] || bare?.[0];
+
+  if (!candidate) {
+    return { ok: false, error: 'No JSON object with a "subtasks" array was found in your reply.' };
+  }
+
+  try {
+    return { ok: true, value: JSON.parse(candidate) };
+  } catch (error) {
+    return { ok: false, error: `The JSON could not be parsed: ${(error as Error).message}` };
+  }
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Validate a parsed plan against the subtask schema, collecting every error
+ */
+export function validatePlan(value: unknown): PlanValidationResult {
+  const errors: string[] = [];
+
+  if (!value || typeof value !== 'object' || !Array.isArray((value as SubtaskPlan).subtasks)) {
+    return { ok: false, errors: ['The top-level object must have a "subtasks" array.'] };
+  }
+
+  const rawSubtasks = (value as { subtasks: unknown[] }).subtasks;
+  if (rawSubtasks.length < MIN_PLAN_SUBTASKS || rawSubtasks.length > MAX_PLAN_SUBTASKS) {
+    errors.push(`"subtasks" must contain between ${MIN_PLAN_SUBTASKS} and ${MAX_PLAN_SUBTASKS} items (got ${rawSubtasks.length}).`);
+  }
+
+  const subtasks: PlannedSubtask[] = [];
+
+  rawSubtasks.forEach((raw, idx) => {
+    const position = idx + 1;
+    const label = `subtasks[${position}]`;
+
+    if (!raw || typeof raw !== 'object') {
+      errors.push(`${label} must be an object.`);
+      return;
+    }
+
+    const st = raw as Record<string, unknown>;
+
+    if (!isNonEmptyString(st.title)) {
+      errors.push(`${label}.title must be a non-empty string.`);
+    } else if (st.title.length > 255) {
+      errors.push(`${label}.title must be at most 255 characters.`);
+    }
+
+    if (!isNonEmptyString(st.description)) {
+      errors.push(`${label}.description must be a non-empty string.`);
+    }
+
+    const role = normalizeRole(st.role);
+    if (!role) {
+      errors.push(`${label}.role must be one of: ${PLAN_ROLES.join(', ')} (got ${JSON.stringify(st.role)}).`);
+    }
+
+    const dependencies: number[] = [];
+    if (st.dependencies !== undefined && !Array.isArray(st.dependencies)) {
+      errors.push(`${label}.dependencies must be an array of subtask positions.`);
+    } else {
+      for (const dep of (st.dependencies as unknown[]) || []) {
+        if (typeof dep !== 'number' || !Number.isInteger(dep)) {
+          errors.push(`${label}.dependencies must only contain integers (got ${JSON.stringify(dep)}).`);
+        } else if (dep < 1 || dep >= position) {
+          errors.push(
+            position === 1
+              ? `${label} is the first subtask and cannot have dependencies (got ${dep}).`
+              : `${label}.dependencies may only reference earlier subtasks (1-${position - 1}), got ${dep}.`
+          );
+        } else if (!dependencies.includes(dep)) {
+          dependencies.push(dep);
+        }
+      }
+    }
+
+    const criteria = st.acceptanceCriteria;
+    if (!Array.isArray(criteria) || criteria.length === 0 || !criteria.every(isNonEmptyString)) {
+      errors.push(`${label}.acceptanceCriteria must be a non-empty array of strings.`);
+    }
+
+    const effort = typeof st.estimatedEffort === 'string' ? st.estimatedEffort.trim().toLowerCase() : '';
+    if (!(PLAN_EFFORTS as string[]).includes(effort)) {
+      errors.push(`${label}.estimatedEffort must be one of: ${PLAN_EFFORTS.join(', ')}.`);
+    }
+
+    subtasks.push({
+      title: String(st.title || '').trim(),
+      description: String(st.description || '').trim(),
+      role: role || 'coder',
+      dependencies,
+      acceptanceCriteria: Array.isArray(criteria) ? criteria.map((c) => String(c).trim()) : [],
+      estimatedEffort: effort as EstimatedEffort,
+    });
+  });
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, plan: { subtasks } };
+}
+
+/**
+ * Extract and validate a planner reply in one step
+ */
+export function parsePlan(text: string): PlanValidationResult {
+  const extracted = extractPlanJson(text);
+  if (!extracted.ok) {
+    return { ok: false, errors: [extracted.error] };
+  }
+  return validatePlan(extracted.value);
+}
@@ -0,0 +1,114 @@
+/**
+ * Reviewer Verdict Schema for Eliza Town
+ *
+ * Defines the structured verdict a reviewer must end its reply with, so the
+ * orchestrator can send rejected work back to coders.
+ */
+
+// Type definitions
+export type ReviewDecision = 'approve' | 'request_changes';
+
+export interface ReviewVerdict {
+  verdict: ReviewDecision;
+  /** Concrete problems the coders must fix; empty when approved */
+  issues: string[];
+  summary: string;
+}
+
+// Loose spellings reviewers tend to use for the two decisions
+const DECISION_ALIASES: Record<string, ReviewDecision> = {
+  approve: 'approve',
+  approved: 'approve',
+  accept: 'approve',
+  lgtm: 'approve',
+  request_changes: 'request_changes',
+  'request-changes': 'request_changes',
+  changes_requested: 'request_changes',
+  reject: 'request_changes',
+  rejected: 'request_changes',
+};
+
+/**
+ * Example verdict embedded in the reviewer prompt
+ */
+export const REVIEW_VERDICT_EXAMPLE = `{
+  "verdict": "request_changes",
+  "summary": "The API works but input validation is missing",
+  "issues": [
+    "src/api.ts: POST /items accepts an empty name",
+    "No tests cover the delete endpoint"
+  ]
+}`;
+
+// Top-level {...} spans in prose, in order; braces inside JSON strings don't count
+function balancedObjects(text: string): string[] {
+  const objects: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"' && depth > 0) {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+      if (depth === 0) objects.push(text.slice(start, i + 1));
+    }
+  }
+  return objects;
+}
+
+function toVerdict(candidate: string): ReviewVerdict | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(candidate);
+  } catch {
+    return null;
+  }
+
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+
+  const decisionKey = typeof raw.verdict === 'string' ? raw.verdict.trim().toLowerCase() : '';
+  const verdict = DECISION_ALIASES[decisionKey];
+  if (!verdict) return null;
+
+  const issues = Array.isArray(raw.issues)
+    ? raw.issues
+        .map((issue) => (typeof issue === 'string' ? issue : JSON.stringify(issue)).trim())
+        .filter((issue) => issue.length > 0)
+    : [];
+
+  return {
+    verdict,
+    issues,
+    summary: typeof raw.summary === 'string' ? raw.summary.trim() : '',
+  };
+}
+
+/**
+ * Pull the verdict out of a reviewer reply. The verdict closes the reply, so
+ * the last ```json block wins, then the last bare object with a "verdict";
+ * earlier ones (examples, quoted code) only count when nothing later parses.
+ * Returns null when the reply has no usable verdict so the caller can decide
+ * how to treat an unstructured review.
+ */
+export function parseReviewVerdict(text: string | null | undefined): ReviewVerdict | null {
+  if (!text) return null;
+
+  const fenced = [...text.matchAll(/```json\s*([\s\S]*?)```/g)].map((match) => match[1]);
+  const bare = balancedObjects(text).filter((object) => object.includes('"verdict"'));
+
+  for (const candidate of [...fenced.reverse(), ...bare.reverse()]) {
+    const verdict = toVerdict(candidate);
+    if (verdict) return verdict;
+  }
+  return null;
+}
@@ -5,9 +5,18 @@
  * canonical handleMessage paradigm for all AI-driven decisions.
  */
 
-import { ELIZA_TOWN_CHARACTERS, getHubForRole, HUBS } from './characters.js';
+import { ELIZA_TOWN_CHARACTERS, getHubForRole } from './characters.js';
+import { HUBS, DEFAULT_HUB } from './townMap.js';
+import { placeAgent } from './hubCapacity.js';
+import { standingSpot } from './navigation.js';
 import { elizaTownPlugin, initializePlugin, updateAgentState, getAgentState, setMemoryBroadcastFn } from './elizaTownPlugin.js';
 import { initializeSharedSandbox, closeSharedSandbox } from './sharedSandbox.js';
+import { initializeCommandPolicy } from './commandPolicy.js';
+import { initializeModelUsage, trackModelUsage, runWithUsageContext } from './modelUsage.js';
+import { initializeBudgets, assertWithinBudget } from './budgets.js';
+import { mockLlmPlugin } from './mockLlmPlugin.js';
+import { orderedProviders, agentModel, routeModelCalls, runWithDecision, type DecisionKind, type ModelSize } from './llmRouting.js';
+import { traceDecision, traceModelCalls, traceActions, type ReplayDecision } from './taskTrace.js';
 import type {
   BroadcastFn,
   RuntimeBundle,
@@ -40,6 +49,7 @@ let LLMMode: any = null;
 
 // Track if we're initialized
 let initialized = false;
+let decisionsInFlight = 0;
 
 // Shared world/room IDs
 let sharedWorldId: string | null = null;
@@ -85,8 +95,17 @@ export async function initialize(options: InitializeOptions = {}): Promise<void>
     throw error;
   }
 
+  // Record every model call for token and cost accounting
+  const db = dbModule;
+  initializeModelUsage({ record: db ? (call) => db.logApiCall(call) : null });
+  initializeBudgets({ db });
+
   // Initialize the shared sandbox (all agents share one sandbox)
   if (process.env.CODER_ENABLED === 'true') {
+    initializeCommandPolicy({
+      broadcast: broadcastFn,
+      audit: db ? (entry) => db.logCommandDecision(entry) : null,
+    });
     try {
       await initializeSharedSandbox(broadcastFn || undefined);
       console.log('[RuntimeManager] ✓ Shared sandbox initialized (all agents share one workspace)');
@@ -99,32 +118,21 @@ export async function initialize(options: InitializeOptions = {}): Promise<void>
   console.log('[RuntimeManager] Initialization complete');
 }
 
-interface PluginConfig {
-  env: string;
-  module: string;
-  name: string;
-  id: string;
-}
-
 /**
- * Build plugins array based on available API keys
+ * Build plugins array based on available API keys. Every provider with a key
+ * is loaded, preferred first, so llmRouting can fail over between them.
+ * LLM_PROVIDER=mock loads the scripted provider instead, and nothing else.
  */
 async function buildPlugins(): Promise<unknown[]> {
-  const plugins: unknown[] = [elizaTownPlugin];
-
-  const providerConfigs: PluginConfig[] = [
-    { env: 'GROQ_API_KEY', module: '@elizaos/plugin-groq', name: 'Groq', id: 'groq' },
-    { env: 'ANTHROPIC_API_KEY', module: '@elizaos/plugin-anthropic', name: 'Anthropic', id: 'anthropic' },
-    { env: 'OPENAI_API_KEY', module: '@elizaos/plugin-openai', name: 'OpenAI', id: 'openai' },
-  ];
-
-  const preferredProvider = process.env.LLM_PROVIDER?.toLowerCase();
+  const plugins: unknown[] = [traceActions(elizaTownPlugin)];
+  const useMock = process.env.LLM_PROVIDER?.toLowerCase() === 'mock';
 
-  const configsToLoad = preferredProvider
-    ? providerConfigs.filter((c) => c.id === preferredProvider)
-    : providerConfigs;
+  if (useMock) {
+    plugins.push(mockLlmPlugin);
+    console.log('[RuntimeManager] ✓ Scripted mock model provider loaded');
+  }
 
-  for (const config of configsToLoad) {
+  for (const config of useMock ? [] : orderedProviders()) {
     if (process.env[config.env]) {
       try {
         const mod = await import(config.module);
@@ -141,7 +149,7 @@ async function buildPlugins(): Promise<unknown[]> {
 
   // NOTE: Code actions (READ_FILE, WRITE_FILE, EDIT_FILE, LIST_FILES, SEARCH_FILES, EXECUTE_SHELL)
   // are now provided directly by elizaTownPlugin using the shared sandbox.
-  // This ensures all agents share ONE codebase and can see each other's changes.
+  // Agents on the same task work in that task's workspace and see each other's changes.
   // The external @elizaos/plugin-code and @elizaos/plugin-shell are not needed.
   if (process.env.CODER_ENABLED === 'true') {
     console.log('[RuntimeManager] ✓ Code actions enabled via elizaTownPlugin (shared sandbox)');
@@ -231,32 +239,38 @@ function buildCharacter(charDef: typeof ELIZA_TOWN_CHARACTERS[number]): Characte
   };
 }
 
+// Model for a provider and size: the agent's own pick from llm-routing.json, else the env default
+function modelSetting(agentName: string, provider: string, size: ModelSize, fallback: string): string {
+  return agentModel(agentName, provider, size) || process.env[`${provider.toUpperCase()}_${size.toUpperCase()}_MODEL`] || fallback;
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function applySettings(runtime: any): void {
+function applySettings(runtime: any, agentName: string): void {
   runtime.setSetting('CHECK_SHOULD_RESPOND', false);
 
   if (process.env.OPENAI_API_KEY) {
     runtime.setSetting('OPENAI_API_KEY', process.env.OPENAI_API_KEY, true);
-    runtime.setSetting('OPENAI_SMALL_MODEL', process.env.OPENAI_SMALL_MODEL || 'gpt-4o-mini');
-    runtime.setSetting('OPENAI_LARGE_MODEL', process.env.OPENAI_LARGE_MODEL || 'gpt-4o');
+    runtime.setSetting('OPENAI_SMALL_MODEL', modelSetting(agentName, 'openai', 'small', 'gpt-4o-mini'));
+    runtime.setSetting('OPENAI_LARGE_MODEL', modelSetting(agentName, 'openai', 'large', 'gpt-4o'));
+    runtime.setSetting('OPENAI_EMBEDDING_MODEL', process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small');
   }
 
   if (process.env.ANTHROPIC_API_KEY) {
     runtime.setSetting('ANTHROPIC_API_KEY', process.env.ANTHROPIC_API_KEY, true);
     runtime.setSetting(
       'ANTHROPIC_SMALL_MODEL',
-      process.env.ANTHROPIC_SMALL_MODEL || 'claude-3-5-haiku-20241022'
+      modelSetting(agentName, 'anthropic', 'small', 'claude-3-5-haiku-20241022')
     );
     runtime.setSetting(
       'ANTHROPIC_LARGE_MODEL',
-      process.env.ANTHROPIC_LARGE_MODEL || 'claude-sonnet-4-20250514'
+      modelSetting(agentName, 'anthropic', 'large', 'claude-sonnet-4-20250514')
     );
   }
 
   if (process.env.GROQ_API_KEY) {
     runtime.setSetting('GROQ_API_KEY', process.env.GROQ_API_KEY, true);
-    runtime.setSetting('GROQ_SMALL_MODEL', process.env.GROQ_SMALL_MODEL || 'llama-3.1-8b-instant');
-    runtime.setSetting('GROQ_LARGE_MODEL', process.env.GROQ_LARGE_MODEL || 'llama-3.3-70b-versatile');
+    runtime.setSetting('GROQ_SMALL_MODEL', modelSetting(agentName, 'groq', 'small', 'llama-3.1-8b-instant'));
+    runtime.setSetting('GROQ_LARGE_MODEL', modelSetting(agentName, 'groq', 'large', 'llama-3.3-70b-versatile'));
   }
 }
 
@@ -282,10 +296,16 @@ async function getRuntimeForAgent(agentId: string): Promise<RuntimeBundle> {
     actionPlanning: true,
     logLevel: 'info',
     enableAutonomy: true,
-    llmMode: LLMMode?.SMALL,
+    // Model size is chosen per call by llmRouting
+    llmMode: LLMMode?.DEFAULT,
   });
 
-  applySettings(runtime);
+  applySettings(runtime, charDef.name);
+  // Routing wraps usage tracking, so each call is recorded under the provider that served it.
+  // Traces wrap both: one entry per call whatever failover happened, and replays bill nothing.
+  trackModelUsage(runtime, () => agentMetadata.get(agentId)?.dbId ?? null);
+  routeModelCalls(runtime, charDef.name);
+  traceModelCalls(runtime, charDef.name);
 
   await runtime.initialize();
 
@@ -346,15 +366,16 @@ export async function initializeAgents(): Promise<void> {
         modelId: character.modelId,
       });
 
-      const initialHub = getHubForRole(character.role);
+      const initialHub = placeAgent(character.username, getHubForRole(character.role));
+      const spot = standingSpot(character.username, initialHub);
       updateAgentState(character.username, {
         dbId: dbId || undefined,
         name: character.name,
         role: character.role,
         status: 'idle',
         hub: initialHub,
-        x: HUBS[initialHub]?.x || 0,
-        z: HUBS[initialHub]?.z || 0,
+        x: spot.x,
+        z: spot.z,
       });
     } catch (error) {
       console.error(`[RuntimeManager] Failed to create runtime for ${character.name}:`, error);
@@ -399,14 +420,59 @@ export function getStringToUuid(): ((s: string) => string) | null {
   return stringToUuid;
 }
 
+interface DecisionOptions {
+  /** Task and subtask the decision's model calls are billed to */
+  taskId?: number | null;
+  subtaskId?: number | null;
+  /** Picks the decision's route in llm-routing.json */
+  kind?: DecisionKind | null;
+  /** Answer the decision from a recorded trace instead of the model (see taskTrace.ts) */
+  replay?: ReplayDecision | null;
+}
+
 /**
- * Trigger an agent decision using ElizaOS handleMessage
+ * Trigger an agent decision using ElizaOS handleMessage. Rejects with
+ * BudgetExceededError, before any model is called, when the task, the agent
+ * or the task's session has used up its budget. Replayed decisions call no
+ * model, so they skip the budget check.
  */
 export async function triggerAgentDecision(
   agentId: string,
   prompt: string,
-  _options: Record<string, unknown> = {}
+  options: DecisionOptions = {}
 ): Promise<TriggerResult | null> {
+  const metadata = agentMetadata.get(agentId);
+  const agent = metadata?.name || agentId;
+  const taskId = options.taskId ?? null;
+  const subtaskId = options.subtaskId ?? null;
+  const kind = options.kind ?? null;
+  if (!options.replay) {
+    await assertWithinBudget({ agent, agentDbId: metadata?.dbId ?? null, taskId });
+  }
+
+  decisionsInFlight++;
+  try {
+    return await runWithUsageContext({ taskId, subtaskId }, () =>
+      runWithDecision(kind, () =>
+        traceDecision({ agentId, agent, kind, taskId, subtaskId, prompt }, options.replay ?? null, () =>
+          handleAgentDecision(agentId, prompt)
+        )
+      )
+    );
+  } finally {
+    decisionsInFlight--;
+  }
+}
+
+/**
+ * How many agent decisions are waiting on a reply (the simulation harness
+ * holds its clock while any are, so thinking takes no simulated time)
+ */
+export function getDecisionsInFlight(): number {
+  return decisionsInFlight;
+}
+
+async function handleAgentDecision(agentId: string, prompt: string): Promise<TriggerResult | null> {
   const bundle = await getRuntimeForAgent(agentId);
   const { runtime, narratorId: narId, roomId } = bundle;
 
@@ -525,11 +591,11 @@ Check NEARBY_AGENTS for who is close by.
 Use the MOVE action to go to a hub or toward an agent.
 Use SPEAK to announce your intentions.
 
-Available hubs: town_square, planning_room, design_studio, coding_desk, review_station, deploy_station
+Available hubs: ${Object.keys(HUBS).join(', ')}
 
 Choose your action.
 `;
-  return triggerAgentDecision(agentId, prompt);
+  return triggerAgentDecision(agentId, prompt, { kind: 'move' });
 }
 
 /**
@@ -551,7 +617,7 @@ Consider:
 
 Keep responses brief and natural.
 `;
-  return triggerAgentDecision(agentId, prompt);
+  return triggerAgentDecision(agentId, prompt, { kind: 'chat' });
 }
 
 /**
@@ -579,7 +645,7 @@ Use WORK to process tasks.
 Use SPEAK to communicate progress.
 Use MOVE if needed.
 `;
-  return triggerAgentDecision(agentId, prompt);
+  return triggerAgentDecision(agentId, prompt, { kind: 'work' });
 }
 
 /**
@@ -674,7 +740,7 @@ export async function broadcastToAllAgents(
  */
 export function getNearbyAgentIds(authorId: string): string[] {
   const authorState = getAgentState(authorId);
-  const authorHub = authorState.hub || 'town_square';
+  const authorHub = authorState.hub || DEFAULT_HUB;
 
   const nearbyIds: string[] = [];
   for (const [agentId] of runtimeBundles) {
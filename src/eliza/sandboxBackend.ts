@@ -0,0 +1,178 @@
+/**
+ * Sandbox Backends for Eliza Town
+ *
+ * A backend is where the shared sandbox's files live and its shell commands
+ * run. The sandbox service keeps everything else (workspaces, path checks,
+ * the command policy, change tracking) and only asks its backend for
+ * filesystem and process primitives. Backends are registered by name; the
+ * built-in ones are local and isolated (localBackend.ts) and e2b
+ * (e2bBackend.ts). SANDBOX_MODE picks the default and a task can ask for
+ * another one.
+ *
+ * Adding a backend (a Docker container, a remote agent over HTTP) means
+ * implementing SandboxBackend and calling registerSandboxBackend before the
+ * sandbox is used.
+ */
+
+import type * as path from 'node:path';
+import type { SandboxConfig, SearchMatch } from './sharedSandbox.js';
+import type { ProcessInfo, ProcessStatus } from './shellProcesses.js';
+
+// Type definitions
+export interface DirectoryEntry {
+  name: string;
+  isDirectory: boolean;
+  isFile: boolean;
+}
+
+export interface ExecOptions {
+  agent: string;
+  taskId: number | null;
+  /** Directory the command starts in */
+  cwd: string;
+  /** The workspace the command belongs to */
+  workspaceRoot: string;
+  /** Kill the command after this long (ignored for background commands) */
+  timeoutMs: number;
+}
+
+export interface ExecResult {
+  exitCode: number;
+  status: ProcessStatus;
+  stdout: string;
+  stderr: string;
+  /** Id of the tracked process (see shellProcesses.ts), when the backend runs local processes */
+  processId?: number;
+}
+
+export interface SearchOptions {
+  /** Match paths are reported relative to this directory */
+  relativeTo: string;
+  maxMatches: number;
+}
+
+/**
+ * Filesystem and process primitives a sandbox backend provides. Paths are
+ * absolute paths in the backend's own filesystem, already checked by the
+ * service. Operations on a missing path reject with an error whose code is
+ * 'ENOENT'.
+ */
+export interface SandboxBackend {
+  readonly name: string;
+  /** Path functions for the backend's filesystem (path.posix for remote ones) */
+  readonly paths: path.PlatformPath;
+  /** Directory the shared workspace and task workspaces are created under */
+  readonly root: string;
+  /** Files live on this machine, so git worktrees and the base repository can be used */
+  readonly local: boolean;
+
+  initialize(): Promise<void>;
+  readFile(filepath: string): Promise<string>;
+  /** Creates missing parent directories */
+  writeFile(filepath: string, content: string): Promise<void>;
+  list(dir: string): Promise<DirectoryEntry[]>;
+  isDirectory(target: string): Promise<boolean>;
+  /** Creates missing parents; succeeds if the directory already exists */
+  makeDirectory(dir: string): Promise<void>;
+  /** Case-insensitive substring search through the files under dir */
+  search(dir: string, needle: string, options: SearchOptions): Promise<SearchMatch[]>;
+  /** Run a command and wait for it; never rejects for a command that ran and failed */
+  exec(command: string, options: ExecOptions): Promise<ExecResult>;
+  /** Start a command without waiting for it (omitted when the backend can't) */
+  startBackground?(command: string, options: ExecOptions): ProcessInfo;
+  close(): Promise<void>;
+}
+
+export type SandboxBackendFactory = (config: SandboxConfig) => SandboxBackend;
+
+// Directories search never descends into
+const SEARCH_SKIP = ['node_modules', 'dist', 'build', '.git', 'coverage', '__pycache__'];
+
+const factories = new Map<string, SandboxBackendFactory>();
+
+/**
+ * Make a backend available by name (replacing any backend already registered under it)
+ */
+export function registerSandboxBackend(name: string, factory: SandboxBackendFactory): void {
+  if (factories.has(name)) {
+    console.warn(`[SandboxBackend] Replacing the "${name}" backend`);
+  }
+  factories.set(name, factory);
+}
+
+export function hasSandboxBackend(name: string): boolean {
+  return factories.has(name);
+}
+
+export function listSandboxBackends(): string[] {
+  return [...factories.keys()];
+}
+
+/**
+ * Create (but not initialize) a registered backend
+ */
+export function createSandboxBackend(name: string, config: SandboxConfig): SandboxBackend {
+  const factory = factories.get(name);
+  if (!factory) {
+    throw new Error(`[SandboxBackend] Unknown sandbox backend "${name}" (available: ${listSandboxBackends().join(', ')})`);
+  }
+  return factory(config);
+}
+
+/**
+ * The error backends reject with for a path that doesn't exist
+ */
+export function notFoundError(target: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(`No such file or directory: ${target}`), { code: 'ENOENT' });
+}
+
+/**
+ * Search by walking the backend's files with list and readFile, for backends
+ * without a faster way to search
+ */
+export async function searchTree(
+  backend: SandboxBackend,
+  dir: string,
+  needle: string,
+  options: SearchOptions
+): Promise<SearchMatch[]> {
+  const matches: SearchMatch[] = [];
+  const lowered = needle.toLowerCase();
+
+  const walk = async (current: string): Promise<void> => {
+    let entries: DirectoryEntry[];
+    try {
+      entries = await backend.list(current);
+    } catch {
+      return; // Skip inaccessible directories
+    }
+
+    for (const entry of entries) {
+      if (matches.length >= options.maxMatches) return;
+      if (entry.name.startsWith('.')) continue;
+
+      const fullPath = backend.paths.join(current, entry.name);
+      if (entry.isDirectory) {
+        if (!SEARCH_SKIP.includes(entry.name)) await walk(fullPath);
+      } else if (entry.isFile) {
+        try {
+          const lines = (await backend.readFile(fullPath)).split('\n');
+          for (let i = 0; i < lines.length && matches.length < options.maxMatches; i++) {
+            if (lines[i].toLowerCase().includes(lowered)) {
+              matches.push({
+                file: backend.paths.relative(options.relativeTo, fullPath),
+                line: i + 1,
+                content: lines[i].trim().slice(0, 200),
+              });
+            }
+          }
+        } catch {
+          // Skip binary or unreadable files
+        }
+      }
+    }
+  };
+
+  await walk(dir);
+  return matches;
+}
@@ -2,29 +2,100 @@
  * Shared Sandbox Service for Eliza Town
  *
  * Provides a single shared code execution environment that ALL agents can access.
- * This enables collaborative coding where agents can see and modify each other's work.
+ * Each task gets its own workspace inside it, so agents working on the same task
+ * see each other's files while concurrent tasks stay out of each other's way.
+ * Agents with no task fall back to the shared root.
  *
- * Supports:
- * - Local filesystem (restricted to allowed directory)
- * - E2B cloud sandbox (all agents share one sandbox instance)
+ * Where files live and commands run is up to a sandbox backend
+ * (sandboxBackend.ts). Built in:
+ * - local: the local filesystem (restricted to the allowed directory)
+ * - isolated: the same files, but shell commands run under bubblewrap with
+ *   their own namespaces and resource limits
+ * - e2b: an E2B cloud sandbox that all agents share
+ * SANDBOX_MODE picks the default backend and a task can run on another one.
+ *
+ * On top of any backend it provides:
+ * - The same workspaces, current directories and change tracking
+ * - An optional read-only base repository, reachable as "@base/..." and used as
+ *   a fallback when a workspace doesn't have a file yet (local backends)
+ * - Git-backed task workspaces (local backends): each task is a worktree on its
+ *   own branch, and every completed subtask is committed under the agent's name
+ * - Local shell commands run as streamed, cancellable child processes (see
+ *   shellProcesses.ts), including background processes such as dev servers
+ * - A command policy (commandPolicy.ts) that can allow, deny or hold any shell
+ *   command for operator approval
  */
 
-import { execSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { AsyncLocalStorage } from 'node:async_hooks';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import type { WebSocketMessage } from '../websocket/index.js';
+import { createPatch, type PatchFile } from '../storage/patch.js';
+import { defaultHiddenPaths, DEFAULT_LIMITS, type IsolationLimits } from './isolation.js';
+import {
+  initRepository,
+  addTaskWorktree,
+  commitAll,
+  getBranchLog,
+  getCommitDiff,
+  getWorktreeDiff,
+  repositoryPath,
+  taskBranch,
+  type GitAuthor,
+  type GitCommit,
+} from './workspaceGit.js';
+import { initializeShellProcesses, listProcesses, type ProcessInfo } from './shellProcesses.js';
+import { authorizeCommand } from './commandPolicy.js';
+import {
+  registerSandboxBackend,
+  createSandboxBackend,
+  hasSandboxBackend,
+  type DirectoryEntry,
+  type ExecOptions,
+  type SandboxBackend,
+} from './sandboxBackend.js';
+import { LocalBackend } from './localBackend.js';
+import { E2BBackend } from './e2bBackend.js';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
+/** Name of a registered sandbox backend */
+export type SandboxMode = 'local' | 'isolated' | 'e2b' | (string & {});
+
 export interface SandboxConfig {
-  mode: 'local' | 'e2b';
+  /** The default backend; tasks can pick another with setTaskBackend */
+  mode: SandboxMode;
   allowedDirectory: string;
+  /** 'task' gives every task its own workspace; 'shared' puts everyone in allowedDirectory */
+  workspaces: 'task' | 'shared';
+  /** Read-only repository agents can read from (local backends only) */
+  baseRepository?: string;
+  /** Keep task workspaces as git worktrees with a commit per subtask (local backends only) */
+  git: boolean;
+  /** Settings for the isolated backend's shell commands */
+  isolation: {
+    limits: IsolationLimits;
+    network: boolean;
+    hiddenPaths: string[];
+  };
   e2bApiKey?: string;
+  /** Directory inside the E2B sandbox that holds the shared root and task workspaces */
+  e2bRoot: string;
   timeoutMs: number;
 }
 
+export interface Workspace {
+  /** Task the workspace belongs to, or null for the shared root */
+  taskId: number | null;
+  /** Name of the backend the workspace lives on */
+  backend: string;
+  root: string;
+  currentDirectory: string;
+}
+
 export interface FileResult {
   ok: boolean;
   content?: string;
@@ -62,6 +133,14 @@ export interface ShellResult {
   stderr: string;
   exitCode: number;
   executedIn?: string;
+  /** Id of the process that ran the command (local backends) */
+  processId?: number;
+}
+
+export interface BackgroundResult {
+  ok: boolean;
+  process?: ProcessInfo;
+  error?: string;
 }
 
 export interface FileChange {
@@ -70,6 +149,10 @@ export interface FileChange {
   agent: string;
   timestamp: number;
   size?: number;
+  taskId?: number;
+  /** SHA-1 of the content before and after the change; null when the file didn't exist */
+  beforeHash?: string | null;
+  afterHash?: string | null;
 }
 
 type BroadcastFn = (message: WebSocketMessage) => void;
@@ -78,13 +161,40 @@ type BroadcastFn = (message: WebSocketMessage) => void;
 // CONFIGURATION
 // ============================================================================
 
+function modeFromEnv(): SandboxMode {
+  return process.env.SANDBOX_MODE || (process.env.USE_E2B === 'true' ? 'e2b' : 'local');
+}
+
 const DEFAULT_CONFIG: SandboxConfig = {
-  mode: process.env.USE_E2B === 'true' ? 'e2b' : 'local',
+  mode: modeFromEnv(),
   allowedDirectory: process.env.CODER_ALLOWED_DIRECTORY || process.env.SANDBOX_DIR || '/tmp/eliza-town-sandbox',
+  workspaces: process.env.SANDBOX_WORKSPACES === 'shared' ? 'shared' : 'task',
+  baseRepository: process.env.SANDBOX_BASE_REPO || undefined,
+  git: process.env.SANDBOX_GIT !== 'false',
+  isolation: {
+    limits: DEFAULT_LIMITS,
+    network: process.env.SANDBOX_NETWORK === 'true',
+    hiddenPaths: defaultHiddenPaths(),
+  },
   e2bApiKey: process.env.E2B_API_KEY,
+  e2bRoot: process.env.E2B_WORKSPACE_ROOT || '/home/user',
   timeoutMs: parseInt(process.env.CODER_TIMEOUT || '30000', 10),
 };
 
+// Built-in backends; others are registered with registerSandboxBackend before the sandbox is used
+registerSandboxBackend('local', (config) => new LocalBackend(config));
+registerSandboxBackend('isolated', (config) => new LocalBackend(config, true));
+registerSandboxBackend('e2b', (config) => new E2BBackend(config));
+
+// Path prefix that addresses the read-only base repository
+const BASE_ALIAS = '@base';
+
+// Left out of task downloads: git's own files and installed dependencies
+const EXPORT_SKIP = ['.git', 'node_modules'];
+
+// Background processes (dev servers, watchers) a task can have running at once
+const MAX_BACKGROUND_PER_TASK = 4;
+
 // Forbidden command patterns for security
 const FORBIDDEN_PATTERNS: RegExp[] = [
   /rm\s+-rf\s+[\/~]/,
@@ -98,6 +208,53 @@ const FORBIDDEN_PATTERNS: RegExp[] = [
   /wget.*\|\s*(ba)?sh/,
 ];
 
+// A resolved local path and the root it was checked against
+interface ResolvedPath {
+  resolved: string;
+  root: string;
+  readOnly: boolean;
+}
+
+function isForbidden(command: string): boolean {
+  return FORBIDDEN_PATTERNS.some((pattern) => pattern.test(command));
+}
+
+function isWithin(root: string, target: string, paths: path.PlatformPath = path): boolean {
+  const relative = paths.relative(root, target);
+  return relative === '' || (!relative.startsWith('..') && !paths.isAbsolute(relative));
+}
+
+// Whether a local path is still under root once symlinks are followed. A path
+// that doesn't exist yet is judged by its deepest existing ancestor.
+async function staysWithin(root: string, target: string): Promise<boolean> {
+  let realRoot: string;
+  try {
+    realRoot = await fs.realpath(root);
+  } catch {
+    // The workspace hasn't been created yet, so nothing under it can be a link
+    return true;
+  }
+
+  let existing = target;
+  for (;;) {
+    try {
+      const real = await fs.realpath(existing);
+      const realTarget = path.join(real, path.relative(existing, target));
+      return isWithin(realRoot, realTarget)
+        && !path.relative(realRoot, realTarget).split(path.sep).includes('.git');
+    } catch (error) {
+      const parent = path.dirname(existing);
+      if (!isNotFound(error) || parent === existing) return false;
+      existing = parent;
+    }
+  }
+}
+
+// Backends reject with ENOENT for missing paths
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
 // ============================================================================
 // SHARED SANDBOX SERVICE (Singleton)
 // ============================================================================
@@ -105,108 +262,289 @@ const FORBIDDEN_PATTERNS: RegExp[] = [
 class SharedSandboxService {
   private config: SandboxConfig;
   private initialized = false;
-  private currentDirectory: string;
+  private sharedWorkspace: Workspace;
+  // Task id -> that task's workspace, created on first use
+  private workspaces = new Map<number, Workspace>();
+  // Task id -> directory setup, resolving to whether the workspace is a git worktree
+  private preparedWorkspaces = new Map<number, Promise<boolean>>();
+  private repoDirectory: string | null = null;
+  private repository: Promise<void> | null = null;
   private fileHistory: FileChange[] = [];
+  // Agent name -> task the agent is currently working on (for change attribution)
+  private agentTasks = new Map<string, number>();
+  // Task whose workspace code running inside runInTaskWorkspace uses, whatever agentTasks says
+  private taskScope = new AsyncLocalStorage<number>();
+  // Task id -> path -> content before the task first wrote the file (null if it didn't exist),
+  // kept only for workspaces git doesn't track
+  private taskBaselines = new Map<number, Map<string, string | null>>();
   private broadcastFn: BroadcastFn | null = null;
 
-  // E2B sandbox instance (shared by all agents)
-  private e2bSandbox: {
-    filesystem: {
-      read(path: string): Promise<string>;
-      write(path: string, content: string): Promise<void>;
-      list(path: string): Promise<Array<{ name: string; isDir: boolean }>>;
-    };
-    process: {
-      start(opts: { cmd: string }): Promise<{
-        wait(): Promise<void>;
-        exitCode: number;
-        stdout?: string;
-        stderr?: string;
-      }>;
-    };
-    close(): Promise<void>;
-  } | null = null;
+  // Backend name -> backend, created on first use and initialized once
+  private backends = new Map<string, SandboxBackend>();
+  private readyBackends = new Map<string, Promise<SandboxBackend>>();
+  // Task id -> backend the task asked for, when it isn't the default
+  private taskBackends = new Map<number, string>();
 
   constructor(config: Partial<SandboxConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.currentDirectory = this.config.allowedDirectory;
+    const root = this.backend(this.config.mode).root;
+    this.sharedWorkspace = { taskId: null, backend: this.config.mode, root, currentDirectory: root };
   }
 
   /**
-   * Initialize the shared sandbox
+   * Initialize the shared sandbox and its default backend
    */
   async initialize(broadcast?: BroadcastFn): Promise<void> {
     if (this.initialized) return;
 
     this.broadcastFn = broadcast || null;
+    initializeShellProcesses(this.broadcastFn);
+    await this.readyBackend(this.config.mode);
 
-    if (this.config.mode === 'e2b') {
-      await this.initializeE2B();
-    } else {
-      await this.initializeLocal();
+    this.initialized = true;
+    console.log(`[SharedSandbox] Initialized with the ${this.config.mode} backend`);
+    console.log(`[SharedSandbox] Working directory: ${this.sharedWorkspace.root}`);
+    console.log(`[SharedSandbox] Workspaces: ${this.config.workspaces === 'task' ? 'one per task' : 'shared'}`);
+    if (this.config.baseRepository) {
+      console.log(`[SharedSandbox] Base repository (read-only): ${this.config.baseRepository}`);
     }
+  }
 
-    this.initialized = true;
-    console.log(`[SharedSandbox] Initialized in ${this.config.mode} mode`);
-    console.log(`[SharedSandbox] Working directory: ${this.config.allowedDirectory}`);
+  // The backend registered under a name, created on first use
+  private backend(name: string): SandboxBackend {
+    let backend = this.backends.get(name);
+    if (!backend) {
+      backend = createSandboxBackend(name, this.config);
+      this.backends.set(name, backend);
+    }
+    return backend;
+  }
+
+  // The backend once it has initialized; a backend that failed to start is retried next time
+  private readyBackend(name: string): Promise<SandboxBackend> {
+    let ready = this.readyBackends.get(name);
+    if (!ready) {
+      const backend = this.backend(name);
+      ready = (async () => {
+        await backend.initialize();
+        if (backend.local) await this.initializeRepository();
+        return backend;
+      })();
+      ready.catch(() => this.readyBackends.delete(name));
+      this.readyBackends.set(name, ready);
+    }
+    return ready;
   }
 
   /**
-   * Initialize local filesystem sandbox
+   * Set up the repository task worktrees branch from (once, for local backends)
    */
-  private async initializeLocal(): Promise<void> {
-    try {
-      await fs.mkdir(this.config.allowedDirectory, { recursive: true });
-      console.log(`[SharedSandbox] Local sandbox ready at ${this.config.allowedDirectory}`);
-    } catch (error) {
-      console.error('[SharedSandbox] Failed to create sandbox directory:', error);
-      throw error;
+  private initializeRepository(): Promise<void> {
+    if (this.config.workspaces !== 'task' || !this.config.git) return Promise.resolve();
+
+    // Workspaces still work without git, they just lose their history
+    this.repository ??= (async () => {
+      const repoDirectory = repositoryPath(this.config.allowedDirectory);
+      try {
+        await initRepository(repoDirectory);
+        this.repoDirectory = repoDirectory;
+        console.log(`[SharedSandbox] Task workspaces are git worktrees of ${repoDirectory}`);
+      } catch (error) {
+        console.warn('[SharedSandbox] Could not set up the workspace repository, continuing without git:', error);
+      }
+    })();
+    return this.repository;
+  }
+
+  /**
+   * Run a task's workspace on a named backend instead of the default (null
+   * restores the default). Has no effect once the workspace exists, or when
+   * every agent shares one workspace.
+   */
+  setTaskBackend(taskId: number, name: string | null): void {
+    if (name !== null && !hasSandboxBackend(name)) {
+      console.warn(`[SharedSandbox] Unknown sandbox backend "${name}" for task ${taskId}, using ${this.config.mode}`);
+      name = null;
+    }
+
+    const existing = this.workspaces.get(taskId);
+    if (existing && existing.backend !== (name ?? this.config.mode)) {
+      console.warn(`[SharedSandbox] Task ${taskId}'s workspace already runs on the ${existing.backend} backend`);
+      return;
+    }
+
+    if (name === null) {
+      this.taskBackends.delete(taskId);
+    } else {
+      this.taskBackends.set(taskId, name);
+    }
+  }
+
+  /**
+   * The workspace for a task, created on first use
+   */
+  getWorkspace(taskId: number | null): Workspace {
+    if (taskId === null || this.config.workspaces === 'shared') {
+      return this.sharedWorkspace;
+    }
+
+    let workspace = this.workspaces.get(taskId);
+    if (!workspace) {
+      const name = this.taskBackends.get(taskId) ?? this.config.mode;
+      const backend = this.backend(name);
+      const root = backend.paths.join(backend.root, 'tasks', `task-${taskId}`);
+      workspace = { taskId, backend: name, root, currentDirectory: root };
+      this.workspaces.set(taskId, workspace);
     }
+    return workspace;
+  }
+
+  /**
+   * The workspace an agent is scoped to: its current task's, or the shared root
+   */
+  getAgentWorkspace(agentName: string): Workspace {
+    return this.getWorkspace(this.agentTask(agentName));
   }
 
   /**
-   * Initialize E2B cloud sandbox
+   * Whether "@base/..." paths work in a workspace (a base repository is set and its backend is local)
    */
-  private async initializeE2B(): Promise<void> {
-    if (!this.config.e2bApiKey) {
-      throw new Error('[SharedSandbox] E2B_API_KEY required for E2B mode');
+  hasBaseRepository(workspace: Workspace): boolean {
+    return Boolean(this.config.baseRepository) && this.backend(workspace.backend).local;
+  }
+
+  // Same as getAgentWorkspace, but with the backend ready and the workspace directory created
+  private async openWorkspace(agentName: string): Promise<{ workspace: Workspace; backend: SandboxBackend }> {
+    const workspace = this.getAgentWorkspace(agentName);
+    const backend = await this.readyBackend(workspace.backend);
+    await this.prepareWorkspace(workspace);
+    return { workspace, backend };
+  }
+
+  // Create a task's directory once (as a worktree when git is on); resolves whether it is tracked
+  private prepareWorkspace(workspace: Workspace): Promise<boolean> {
+    const { taskId, root } = workspace;
+    if (taskId === null) return Promise.resolve(false);
+
+    let prepared = this.preparedWorkspaces.get(taskId);
+    if (!prepared) {
+      prepared = (async () => {
+        const backend = await this.readyBackend(workspace.backend);
+        if (backend.local && this.repoDirectory) {
+          try {
+            if (await addTaskWorktree(this.repoDirectory, root, taskId)) return true;
+            console.warn(`[SharedSandbox] ${root} already has untracked files, leaving it out of git`);
+          } catch (error) {
+            console.error(`[SharedSandbox] Could not create a worktree for task ${taskId}:`, error);
+          }
+        }
+        await backend.makeDirectory(root);
+        return false;
+      })();
+      prepared.catch(() => this.preparedWorkspaces.delete(taskId));
+      this.preparedWorkspaces.set(taskId, prepared);
     }
+    return prepared;
+  }
+
+  // ============================================================================
+  // WORKSPACE HISTORY
+  // ============================================================================
+
+  /**
+   * Commit everything in a task's workspace as the agent that finished a
+   * subtask. Returns null when git is off or nothing changed.
+   */
+  async commitTaskWork(taskId: number, message: string, author: GitAuthor): Promise<GitCommit | null> {
+    const workspace = this.getWorkspace(taskId);
+    if (!(await this.prepareWorkspace(workspace).catch(() => false)) || !this.repoDirectory) return null;
 
     try {
-      // Dynamic import with type assertion
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const e2bModule = await import('@e2b/code-interpreter') as Record<string, unknown>;
-      // Handle various export patterns
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const SandboxClass = (e2bModule.Sandbox || e2bModule.CodeInterpreter || e2bModule.default) as any;
-
-      if (!SandboxClass?.create) {
-        throw new Error('Could not find Sandbox.create in @e2b/code-interpreter');
+      const commit = await commitAll(this.repoDirectory, workspace.root, message, author);
+      if (commit) {
+        console.log(`[SharedSandbox] ${author.name} committed ${commit.sha.slice(0, 7)} on ${taskBranch(taskId)}: ${commit.subject}`);
+        if (this.broadcastFn) {
+          this.broadcastFn({
+            type: 'workspace_commit',
+            data: { taskId, branch: taskBranch(taskId), ...commit },
+          });
+        }
       }
-
-      this.e2bSandbox = await SandboxClass.create({ apiKey: this.config.e2bApiKey });
-      console.log('[SharedSandbox] E2B sandbox created - all agents will share this instance');
+      return commit;
     } catch (error) {
-      console.error('[SharedSandbox] Failed to initialize E2B:', error);
-      throw error;
+      console.error(`[SharedSandbox] Failed to commit task ${taskId}:`, error);
+      return null;
     }
   }
 
   /**
-   * Validate that a path is within the allowed directory
+   * A task's branch name and its commits (newest first); null when the workspace isn't under git
+   */
+  async getTaskHistory(taskId: number): Promise<{ branch: string; commits: GitCommit[] } | null> {
+    const workspace = this.getWorkspace(taskId);
+    if (!(await this.prepareWorkspace(workspace).catch(() => false)) || !this.repoDirectory) return null;
+    return { branch: taskBranch(taskId), commits: await getBranchLog(this.repoDirectory, workspace.root) };
+  }
+
+  /**
+   * The patch one of a task's commits introduced; null if the commit isn't on the task's branch
+   */
+  async getTaskCommitDiff(taskId: number, sha: string): Promise<{ commit: GitCommit; diff: string } | null> {
+    const history = await this.getTaskHistory(taskId);
+    const commit = history?.commits.find((c) => sha.length >= 4 && c.sha.startsWith(sha));
+    if (!commit || !this.repoDirectory) return null;
+    return { commit, diff: await getCommitDiff(this.repoDirectory, this.getWorkspace(taskId).root, commit.sha) };
+  }
+
+  /**
+   * Resolve a path against a workspace, or against the base repository for
+   * "@base/..." paths. Returns null when it escapes its root, including
+   * through a symlink planted by a shell command.
    */
-  private validatePath(targetPath: string): string | null {
-    const resolved = path.resolve(this.currentDirectory, targetPath);
-    if (!resolved.startsWith(this.config.allowedDirectory)) {
+  private async resolvePath(workspace: Workspace, backend: SandboxBackend, targetPath: string): Promise<ResolvedPath | null> {
+    if (this.config.baseRepository && backend.local
+      && (targetPath === BASE_ALIAS || targetPath.startsWith(`${BASE_ALIAS}/`))) {
+      const root = path.resolve(this.config.baseRepository);
+      const resolved = path.resolve(root, targetPath.slice(BASE_ALIAS.length + 1));
+      return isWithin(root, resolved) && (await staysWithin(root, resolved)) ? { resolved, root, readOnly: true } : null;
+    }
+
+    // Git metadata is off limits, so agents can't rewrite their own history
+    const paths = backend.paths;
+    const resolved = paths.resolve(workspace.currentDirectory, targetPath);
+    if (!isWithin(workspace.root, resolved, paths)
+      || paths.relative(workspace.root, resolved).split(paths.sep).includes('.git')) {
+      return null;
+    }
+    // File operations run in the server process, outside the shell's isolation
+    if (backend.local && !(await staysWithin(workspace.root, resolved))) {
       return null;
     }
-    return resolved;
+    return { resolved, root: workspace.root, readOnly: false };
+  }
+
+  // Where a workspace file would live in the base repository, if there is one
+  private basePathFor(target: ResolvedPath, backend: SandboxBackend): string | null {
+    if (!this.config.baseRepository || target.readOnly || !backend.local) return null;
+    return path.join(this.config.baseRepository, path.relative(target.root, target.resolved));
   }
 
   /**
-   * Record a file change and broadcast it
+   * Record a file change and broadcast it. before is the content the change
+   * replaced, kept as the task's baseline for the file when git doesn't track
+   * the workspace (undefined when it does).
    */
-  private recordFileChange(change: FileChange): void {
+  private recordFileChange(change: FileChange, before?: string | null): void {
+    const taskId = this.agentTask(change.agent);
+    if (taskId !== null) {
+      change.taskId = taskId;
+      if (before !== undefined) {
+        const baselines = this.taskBaselines.get(taskId) || new Map<string, string | null>();
+        if (!baselines.has(change.filepath)) baselines.set(change.filepath, before);
+        this.taskBaselines.set(taskId, baselines);
+      }
+    }
+
     this.fileHistory.push(change);
     // Keep only last 100 changes
     if (this.fileHistory.length > 100) {
@@ -221,11 +559,141 @@ class SharedSandboxService {
     }
   }
 
+  private hashContent(content: string | null): string | null {
+    return content === null ? null : createHash('sha1').update(content).digest('hex');
+  }
+
+  // Current content of a file in a workspace, or null if it isn't there
+  private async readWorkspaceFile(workspace: Workspace, filepath: string): Promise<string | null> {
+    try {
+      const backend = await this.readyBackend(workspace.backend);
+      return await backend.readFile(backend.paths.join(workspace.root, filepath));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get recent file changes (for CODEBASE provider), optionally only those made for one task
+   */
+  getRecentChanges(limit = 20, taskId?: number): FileChange[] {
+    const changes = taskId === undefined
+      ? this.fileHistory
+      : this.fileHistory.filter((change) => change.taskId === taskId);
+    return changes.slice(-limit);
+  }
+
   /**
-   * Get recent file changes (for CODEBASE provider)
+   * Attribute an agent's subsequent file changes to a task (null clears it)
    */
-  getRecentChanges(limit = 20): FileChange[] {
-    return this.fileHistory.slice(-limit);
+  setAgentTask(agentName: string, taskId: number | null): void {
+    if (taskId === null) {
+      this.agentTasks.delete(agentName);
+    } else {
+      this.agentTasks.set(agentName, taskId);
+    }
+  }
+
+  /**
+   * Run fn (and everything it starts) in a task's workspace, without touching
+   * the agent's own attribution, so other work the agent is doing meanwhile
+   * stays where it was
+   */
+  runInTaskWorkspace<T>(taskId: number, fn: () => T): T {
+    return this.taskScope.run(taskId, fn);
+  }
+
+  // The task an agent's file work goes to right now
+  private agentTask(agentName: string): number | null {
+    return this.taskScope.getStore() ?? this.agentTasks.get(agentName) ?? null;
+  }
+
+  /**
+   * Recent file changes attributed to a task (from the last 100 the sandbox keeps)
+   */
+  getTaskChanges(taskId: number): FileChange[] {
+    return this.fileHistory.filter((change) => change.taskId === taskId);
+  }
+
+  /**
+   * Paths (relative to the workspace root) of every file in a task's
+   * workspace. With a shared workspace, which holds every task's files, only
+   * the ones the task wrote are listed.
+   */
+  async listTaskFiles(taskId: number): Promise<string[]> {
+    const workspace = this.getWorkspace(taskId);
+    if (workspace.taskId === null) {
+      return [...(this.taskBaselines.get(taskId)?.keys() ?? [])];
+    }
+
+    const backend = await this.readyBackend(workspace.backend);
+    const files: string[] = [];
+    const walk = async (dir: string): Promise<void> => {
+      let entries: DirectoryEntry[];
+      try {
+        entries = await backend.list(dir);
+      } catch {
+        return; // Nothing written yet, or unreadable
+      }
+
+      for (const entry of entries) {
+        if (EXPORT_SKIP.includes(entry.name)) continue;
+        const fullPath = backend.paths.join(dir, entry.name);
+        if (entry.isDirectory) {
+          await walk(fullPath);
+        } else if (entry.isFile) {
+          files.push(backend.paths.relative(workspace.root, fullPath));
+        }
+      }
+    };
+
+    await walk(workspace.root);
+    return files;
+  }
+
+  /**
+   * Read one file of a task's workspace by its path relative to the workspace
+   * root. Null when it doesn't exist or isn't one of the task's files (outside
+   * the workspace, git metadata, or another task's file in a shared workspace).
+   */
+  async readTaskFile(taskId: number, filepath: string): Promise<string | null> {
+    const workspace = this.getWorkspace(taskId);
+    const backend = await this.readyBackend(workspace.backend);
+    const paths = backend.paths;
+    const resolved = paths.resolve(workspace.root, filepath);
+    const relative = paths.relative(workspace.root, resolved);
+
+    if (!isWithin(workspace.root, resolved, paths) || relative.split(paths.sep).includes('.git')
+      || (backend.local && !(await staysWithin(workspace.root, resolved)))
+      || (workspace.taskId === null && !this.taskBaselines.get(taskId)?.has(relative))) {
+      return null;
+    }
+
+    try {
+      return await backend.readFile(resolved);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Unified diff of everything a task changed. Paths are relative to the
+   * workspace root, so the patch applies to the base repository with
+   * `git apply`. A workspace under git is diffed against main, shell-made
+   * changes included; otherwise each file the task wrote is diffed from its
+   * content before the task first wrote it.
+   */
+  async getTaskDiff(taskId: number): Promise<string> {
+    const workspace = this.getWorkspace(taskId);
+    if (workspace.taskId !== null && (await this.prepareWorkspace(workspace).catch(() => false)) && this.repoDirectory) {
+      return getWorktreeDiff(this.repoDirectory, workspace.root);
+    }
+
+    const files: PatchFile[] = [];
+    for (const [filepath, before] of this.taskBaselines.get(taskId) ?? []) {
+      files.push({ path: filepath, before, after: await this.readWorkspaceFile(workspace, filepath) });
+    }
+    return createPatch(files);
   }
 
   /**
@@ -236,10 +704,12 @@ class SharedSandboxService {
   }
 
   /**
-   * Get current working directory
+   * Get the current working directory of an agent's workspace (the shared root's when omitted)
    */
-  getCurrentDirectory(): string {
-    return this.currentDirectory;
+  getCurrentDirectory(agentName?: string): string {
+    return agentName === undefined
+      ? this.sharedWorkspace.currentDirectory
+      : this.getAgentWorkspace(agentName).currentDirectory;
   }
 
   // ============================================================================
@@ -254,28 +724,28 @@ class SharedSandboxService {
       return { ok: false, error: 'Sandbox not initialized' };
     }
 
-    if (this.config.mode === 'e2b' && this.e2bSandbox) {
-      try {
-        const content = await this.e2bSandbox.filesystem.read(filepath);
-        return { ok: true, content };
-      } catch (error) {
-        return { ok: false, error: (error as Error).message };
-      }
-    }
-
-    // Local mode
-    const resolved = this.validatePath(filepath);
-    if (!resolved) {
+    const { workspace, backend } = await this.openWorkspace(agentName);
+    const target = await this.resolvePath(workspace, backend, filepath);
+    if (!target) {
       return { ok: false, error: 'Path outside allowed directory' };
     }
 
     try {
-      const content = await fs.readFile(resolved, 'utf-8');
+      const content = await backend.readFile(target.resolved);
       console.log(`[SharedSandbox] ${agentName} read: ${filepath}`);
       return { ok: true, content };
     } catch (error) {
-      const err = error as NodeJS.ErrnoException;
-      return { ok: false, error: err.code === 'ENOENT' ? 'File not found' : err.message };
+      const basePath = isNotFound(error) ? this.basePathFor(target, backend) : null;
+      if (basePath) {
+        try {
+          const content = await fs.readFile(basePath, 'utf-8');
+          console.log(`[SharedSandbox] ${agentName} read from base repository: ${filepath}`);
+          return { ok: true, content };
+        } catch {
+          // Not in the base repository either
+        }
+      }
+      return { ok: false, error: isNotFound(error) ? 'File not found' : (error as Error).message };
     }
   }
 
@@ -287,48 +757,38 @@ class SharedSandboxService {
       return { ok: false, error: 'Sandbox not initialized' };
     }
 
-    if (this.config.mode === 'e2b' && this.e2bSandbox) {
-      try {
-        await this.e2bSandbox.filesystem.write(filepath, content);
-        this.recordFileChange({
-          type: 'created',
-          filepath,
-          agent: agentName,
-          timestamp: Date.now(),
-          size: content.length,
-        });
-        return { ok: true, filepath, size: content.length };
-      } catch (error) {
-        return { ok: false, error: (error as Error).message };
-      }
-    }
-
-    // Local mode
-    const resolved = this.validatePath(filepath);
-    if (!resolved) {
+    const { workspace, backend } = await this.openWorkspace(agentName);
+    const tracked = await this.prepareWorkspace(workspace);
+    const target = await this.resolvePath(workspace, backend, filepath);
+    if (!target) {
       return { ok: false, error: 'Path outside allowed directory' };
     }
+    if (target.readOnly) {
+      return { ok: false, error: 'The base repository is read-only' };
+    }
+    const resolved = target.resolved;
 
     try {
-      // Check if file exists (for change type)
-      let changeType: 'created' | 'modified' = 'created';
+      // What was there before: the workspace's copy, else the base repository's (a new file otherwise)
+      let before: string | null = null;
       try {
-        await fs.access(resolved);
-        changeType = 'modified';
+        before = await backend.readFile(resolved);
       } catch {
-        // File doesn't exist, will be created
+        const basePath = this.basePathFor(target, backend);
+        before = basePath ? await fs.readFile(basePath, 'utf-8').catch(() => null) : null;
       }
 
-      await fs.mkdir(path.dirname(resolved), { recursive: true });
-      await fs.writeFile(resolved, content, 'utf-8');
+      await backend.writeFile(resolved, content);
 
       this.recordFileChange({
-        type: changeType,
-        filepath: path.relative(this.config.allowedDirectory, resolved),
+        type: before === null ? 'created' : 'modified',
+        filepath: backend.paths.relative(workspace.root, resolved),
         agent: agentName,
         timestamp: Date.now(),
         size: content.length,
-      });
+        beforeHash: this.hashContent(before),
+        afterHash: this.hashContent(content),
+      }, tracked ? undefined : before);
 
       console.log(`[SharedSandbox] ${agentName} wrote: ${filepath} (${content.length} bytes)`);
       return { ok: true, filepath: resolved, size: content.length };
@@ -363,17 +823,7 @@ class SharedSandboxService {
 
     // Replace and write
     const newContent = readResult.content.replace(oldStr, newStr);
-    const writeResult = await this.writeFile(filepath, newContent, agentName);
-
-    if (writeResult.ok) {
-      // Override the change type to 'modified'
-      const lastChange = this.fileHistory[this.fileHistory.length - 1];
-      if (lastChange) {
-        lastChange.type = 'modified';
-      }
-    }
-
-    return writeResult;
+    return this.writeFile(filepath, newContent, agentName);
   }
 
   /**
@@ -384,32 +834,19 @@ class SharedSandboxService {
       return { ok: false, error: 'Sandbox not initialized' };
     }
 
-    if (this.config.mode === 'e2b' && this.e2bSandbox) {
-      try {
-        const entries = await this.e2bSandbox.filesystem.list(dirPath);
-        const items = entries.map((e) => ({
-          name: e.name,
-          isDirectory: e.isDir,
-        }));
-        return { ok: true, items };
-      } catch (error) {
-        return { ok: false, error: (error as Error).message };
-      }
-    }
-
-    // Local mode
-    const resolved = this.validatePath(dirPath);
-    if (!resolved) {
+    const { workspace, backend } = await this.openWorkspace(agentName);
+    const target = await this.resolvePath(workspace, backend, dirPath);
+    if (!target) {
       return { ok: false, error: 'Path outside allowed directory' };
     }
 
     try {
-      const entries = await fs.readdir(resolved, { withFileTypes: true });
+      const entries = await backend.list(target.resolved);
       const items = entries
         .filter((e) => !e.name.startsWith('.'))
         .map((e) => ({
           name: e.name,
-          isDirectory: e.isDirectory(),
+          isDirectory: e.isDirectory,
         }))
         .sort((a, b) => {
           // Directories first
@@ -422,8 +859,7 @@ class SharedSandboxService {
       console.log(`[SharedSandbox] ${agentName} listed: ${dirPath} (${items.length} items)`);
       return { ok: true, items };
     } catch (error) {
-      const err = error as NodeJS.ErrnoException;
-      return { ok: false, error: err.code === 'ENOENT' ? 'Directory not found' : err.message };
+      return { ok: false, error: isNotFound(error) ? 'Directory not found' : (error as Error).message };
     }
   }
 
@@ -440,77 +876,27 @@ class SharedSandboxService {
       return { ok: false, error: 'Sandbox not initialized' };
     }
 
-    // E2B doesn't have native search, fall back to manual
-    const resolved = this.config.mode === 'local'
-      ? this.validatePath(dirPath)
-      : dirPath;
+    const { workspace, backend } = await this.openWorkspace(agentName);
+    const target = await this.resolvePath(workspace, backend, dirPath);
 
-    if (this.config.mode === 'local' && !resolved) {
+    if (!target) {
       return { ok: false, error: 'Path outside allowed directory' };
     }
 
-    const matches: SearchMatch[] = [];
-    const searchDir = resolved || this.config.allowedDirectory;
-
-    await this.searchInDirectory(searchDir, pattern.toLowerCase(), matches, maxMatches);
+    const matches = await backend.search(target.resolved, pattern, { relativeTo: target.root, maxMatches });
 
     console.log(`[SharedSandbox] ${agentName} searched: "${pattern}" (${matches.length} matches)`);
     return { ok: true, matches };
   }
 
-  private async searchInDirectory(
-    dir: string,
-    needle: string,
-    matches: SearchMatch[],
-    maxMatches: number
-  ): Promise<void> {
-    if (matches.length >= maxMatches) return;
-
-    try {
-      const entries = await fs.readdir(dir, { withFileTypes: true });
-
-      for (const entry of entries) {
-        if (matches.length >= maxMatches) break;
-        if (entry.name.startsWith('.')) continue;
-
-        const fullPath = path.join(dir, entry.name);
-
-        if (entry.isDirectory()) {
-          // Skip common non-code directories
-          if (['node_modules', 'dist', 'build', '.git', 'coverage', '__pycache__'].includes(entry.name)) {
-            continue;
-          }
-          await this.searchInDirectory(fullPath, needle, matches, maxMatches);
-        } else if (entry.isFile()) {
-          try {
-            const content = await fs.readFile(fullPath, 'utf-8');
-            const lines = content.split('\n');
-
-            for (let i = 0; i < lines.length && matches.length < maxMatches; i++) {
-              if (lines[i].toLowerCase().includes(needle)) {
-                matches.push({
-                  file: path.relative(this.config.allowedDirectory, fullPath),
-                  line: i + 1,
-                  content: lines[i].trim().slice(0, 200),
-                });
-              }
-            }
-          } catch {
-            // Skip binary or unreadable files
-          }
-        }
-      }
-    } catch {
-      // Skip inaccessible directories
-    }
-  }
-
   // ============================================================================
   // SHELL EXECUTION
   // ============================================================================
 
   /**
-   * Execute a shell command
+   * Execute a shell command and wait for it to finish. On local backends the
+   * command runs as a child process whose output streams as shell_output
+   * events, so the server keeps serving while it runs.
    */
   async executeShell(command: string, agentName = 'unknown'): Promise<ShellResult> {
     if (!this.initialized) {
@@ -518,65 +904,89 @@ class SharedSandboxService {
     }
 
     // Security check
-    for (const pattern of FORBIDDEN_PATTERNS) {
-      if (pattern.test(command)) {
-        return {
-          success: false,
-          stdout: '',
-          stderr: 'Command forbidden by security policy',
-          exitCode: 1,
-        };
-      }
-    }
-
-    if (this.config.mode === 'e2b' && this.e2bSandbox) {
-      try {
-        const result = await this.e2bSandbox.process.start({ cmd: command });
-        await result.wait();
-        console.log(`[SharedSandbox] ${agentName} executed: ${command}`);
-        return {
-          success: result.exitCode === 0,
-          stdout: result.stdout || '',
-          stderr: result.stderr || '',
-          exitCode: result.exitCode,
-        };
-      } catch (error) {
-        return {
-          success: false,
-          stdout: '',
-          stderr: (error as Error).message,
-          exitCode: 1,
-        };
-      }
+    if (isForbidden(command)) {
+      return {
+        success: false,
+        stdout: '',
+        stderr: 'Command forbidden by security policy',
+        exitCode: 1,
+      };
     }
 
-    // Local mode
-    try {
-      const stdout = execSync(command, {
-        cwd: this.currentDirectory,
-        encoding: 'utf-8',
-        timeout: this.config.timeoutMs,
-        maxBuffer: 10 * 1024 * 1024,
-      });
+    const { workspace, backend } = await this.openWorkspace(agentName);
 
-      console.log(`[SharedSandbox] ${agentName} executed: ${command}`);
+    const verdict = await authorizeCommand({ agent: agentName, taskId: workspace.taskId, command });
+    if (!verdict.allowed) {
       return {
-        success: true,
-        stdout,
-        stderr: '',
-        exitCode: 0,
-        executedIn: this.currentDirectory,
+        success: false,
+        stdout: '',
+        stderr: `Command blocked by policy: ${verdict.reason}`,
+        exitCode: 1,
       };
-    } catch (error) {
-      const err = error as Error & { stdout?: string; stderr?: string; status?: number };
+    }
+
+    const result = await backend.exec(command, this.execOptions(workspace, agentName));
+    console.log(`[SharedSandbox] ${agentName} executed: ${command}`);
+
+    let stderr = result.stderr;
+    if (result.status === 'timed_out') {
+      stderr += `\nCommand timed out after ${this.config.timeoutMs}ms`;
+    } else if (result.status === 'cancelled') {
+      stderr += '\nCommand was cancelled';
+    }
+
+    return {
+      success: result.status === 'exited' && result.exitCode === 0,
+      stdout: result.stdout,
+      stderr,
+      exitCode: result.exitCode,
+      executedIn: workspace.currentDirectory,
+      processId: result.processId,
+    };
+  }
+
+  /**
+   * Start a long-running shell command (a dev server, a watcher) in the
+   * agent's workspace without waiting for it. It runs until it exits, is
+   * stopped, or its task ends; poll it by process id. A task can have
+   * MAX_BACKGROUND_PER_TASK of them running at once.
+   */
+  async startBackgroundShell(command: string, agentName = 'unknown'): Promise<BackgroundResult> {
+    if (!this.initialized) {
+      return { ok: false, error: 'Sandbox not initialized' };
+    }
+    if (isForbidden(command)) {
+      return { ok: false, error: 'Command forbidden by security policy' };
+    }
+
+    const { workspace, backend } = await this.openWorkspace(agentName);
+    if (!backend.startBackground) {
+      return { ok: false, error: `Background processes are not supported by the ${workspace.backend} backend` };
+    }
+    const running = listProcesses()
+      .filter((p) => p.background && p.status === 'running' && p.taskId === workspace.taskId);
+    if (running.length >= MAX_BACKGROUND_PER_TASK) {
       return {
-        success: false,
-        stdout: err.stdout?.toString() || '',
-        stderr: err.stderr?.toString() || err.message,
-        exitCode: err.status || 1,
-        executedIn: this.currentDirectory,
+        ok: false,
+        error: `Already running ${running.length} background processes (${running.map((p) => `#${p.id}`).join(', ')}); stop one first`,
       };
     }
+    const verdict = await authorizeCommand({ agent: agentName, taskId: workspace.taskId, command });
+    if (!verdict.allowed) {
+      return { ok: false, error: `Command blocked by policy: ${verdict.reason}` };
+    }
+
+    return { ok: true, process: backend.startBackground(command, this.execOptions(workspace, agentName)) };
+  }
+
+  private execOptions(workspace: Workspace, agentName: string): ExecOptions {
+    return {
+      agent: agentName,
+      taskId: workspace.taskId,
+      cwd: workspace.currentDirectory,
+      workspaceRoot: workspace.root,
+      timeoutMs: this.config.timeoutMs,
+    };
   }
 
   /**
@@ -590,13 +1000,10 @@ class SharedSandboxService {
    * Change directory (within allowed bounds)
    */
   async changeDirectory(targetPath: string, agentName = 'unknown'): Promise<ShellResult> {
-    if (this.config.mode === 'e2b') {
-      // E2B manages its own cwd
-      return { success: true, stdout: `Changed to ${targetPath}`, stderr: '', exitCode: 0 };
-    }
-
-    const resolved = this.validatePath(targetPath);
-    if (!resolved) {
+    // Only the agent's own workspace can become its working directory, never the base repository
+    const { workspace, backend } = await this.openWorkspace(agentName);
+    const target = await this.resolvePath(workspace, backend, targetPath);
+    if (!target || target.readOnly) {
       return {
         success: false,
         stdout: '',
@@ -604,14 +1011,14 @@ class SharedSandboxService {
         exitCode: 1,
       };
     }
+    const resolved = target.resolved;
 
     try {
-      const stat = await fs.stat(resolved);
-      if (!stat.isDirectory()) {
+      if (!(await backend.isDirectory(resolved))) {
         return { success: false, stdout: '', stderr: 'Not a directory', exitCode: 1 };
       }
 
-      this.currentDirectory = resolved;
+      workspace.currentDirectory = resolved;
       console.log(`[SharedSandbox] ${agentName} changed directory to: ${resolved}`);
       return {
         success: true,
@@ -621,7 +1028,8 @@ class SharedSandboxService {
         executedIn: resolved,
       };
     } catch (error) {
-      return { success: false, stdout: '', stderr: (error as Error).message, exitCode: 1 };
+      const stderr = isNotFound(error) ? 'Directory not found' : (error as Error).message;
+      return { success: false, stdout: '', stderr, exitCode: 1 };
     }
   }
 
@@ -633,18 +1041,25 @@ class SharedSandboxService {
    * Close the sandbox
    */
   async close(): Promise<void> {
-    if (this.e2bSandbox) {
+    for (const [name, ready] of this.readyBackends) {
       try {
-        await this.e2bSandbox.close();
-        console.log('[SharedSandbox] E2B sandbox closed');
+        await (await ready).close();
       } catch (error) {
-        console.error('[SharedSandbox] Error closing E2B sandbox:', error);
+        console.error(`[SharedSandbox] Error closing the ${name} backend:`, error);
       }
-      this.e2bSandbox = null;
     }
+    this.backends.clear();
+    this.readyBackends.clear();
+    this.taskBackends.clear();
 
     this.initialized = false;
     this.fileHistory = [];
+    this.workspaces.clear();
+    this.preparedWorkspaces.clear();
+    this.repoDirectory = null;
+    this.repository = null;
+    this.agentTasks.clear();
+    this.taskBaselines.clear();
   }
 }
 
@@ -684,4 +1099,6 @@ export async function closeSharedSandbox(): Promise<void> {
 }
 
 export { SharedSandboxService };
+// Importing the sandbox registers the built-in backends, so look them up through it
+export { registerSandboxBackend, hasSandboxBackend, listSandboxBackends } from './sandboxBackend.js';
 export default getSharedSandbox;
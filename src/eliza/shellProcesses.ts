@@ -0,0 +1,277 @@
+/**
+ * Shell Processes for Eliza Town
+ *
+ * Runs sandbox shell commands as spawned child processes instead of blocking
+ * the event loop. Output is streamed over the WebSocket as shell_output events
+ * tagged with the agent and task (coalesced per stream, so a chatty build
+ * sends a few messages a second rather than one per write), every process can
+ * be cancelled, and background processes (dev servers, watchers) keep running
+ * until stopped or until their task ends.
+ */
+
+import { spawn, type ChildProcess } from 'node:child_process';
+import { constants } from 'node:os';
+import type { WebSocketMessage } from '../websocket/index.js';
+
+// Type definitions
+export type ProcessStatus = 'running' | 'exited' | 'cancelled' | 'timed_out';
+
+export interface ProcessSpec {
+  file: string;
+  args: string[];
+  cwd?: string;
+  /** The process's whole environment (nothing is inherited from the server) */
+  env: Record<string, string>;
+}
+
+export interface ProcessOwner {
+  agent: string;
+  taskId: number | null;
+  command: string;
+}
+
+export interface ProcessOptions {
+  /** Kill the process after this long (no limit when omitted) */
+  timeoutMs?: number;
+  background?: boolean;
+}
+
+export interface ProcessInfo extends ProcessOwner {
+  id: number;
+  pid?: number;
+  cwd?: string;
+  background: boolean;
+  status: ProcessStatus;
+  exitCode: number | null;
+  startedAt: number;
+  endedAt?: number;
+  /** The last OUTPUT_TAIL_BYTES of each stream */
+  stdout: string;
+  stderr: string;
+}
+
+export interface ProcessResult {
+  exitCode: number;
+  status: ProcessStatus;
+  stdout: string;
+  stderr: string;
+}
+
+interface TrackedProcess {
+  info: ProcessInfo;
+  child: ChildProcess;
+  // Full output for the caller waiting on a foreground command, capped at MAX_OUTPUT_BYTES
+  stdout: string;
+  stderr: string;
+  timer?: ReturnType<typeof setTimeout>;
+  // Output not broadcast yet, sent when flushTimer fires or the process exits
+  unsent: { stdout: string; stderr: string };
+  flushTimer?: ReturnType<typeof setTimeout>;
+}
+
+type BroadcastFn = (message: WebSocketMessage) => void;
+
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+const OUTPUT_TAIL_BYTES = 64 * 1024;
+// Finished processes are kept around this long so their output can still be polled
+const FINISHED_RETENTION_MS = 10 * 60 * 1000;
+const KILL_GRACE_MS = 3000;
+// How long output collects before it is broadcast, and how much forces it out sooner
+const OUTPUT_FLUSH_MS = 100;
+const OUTPUT_FLUSH_BYTES = 16 * 1024;
+
+let broadcastFn: BroadcastFn | null = null;
+let nextId = 1;
+const processes = new Map<number, TrackedProcess>();
+
+/**
+ * Set where shell output is broadcast (called when the sandbox initializes)
+ */
+export function initializeShellProcesses(broadcast: BroadcastFn | null): void {
+  broadcastFn = broadcast;
+}
+
+function append(buffer: string, chunk: string, limit: number): string {
+  const next = buffer + chunk;
+  return next.length > limit ? next.slice(next.length - limit) : next;
+}
+
+// Signal the whole process group, so `npm run dev` takes its children down with it
+function signalGroup(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (child.pid === undefined) return;
+  try {
+    process.kill(-child.pid, signal);
+  } catch {
+    child.kill(signal);
+  }
+}
+
+function stop(tracked: TrackedProcess, status: ProcessStatus): void {
+  if (tracked.info.status !== 'running') return;
+  tracked.info.status = status;
+  signalGroup(tracked.child, 'SIGTERM');
+  setTimeout(() => {
+    if (tracked.info.endedAt === undefined) signalGroup(tracked.child, 'SIGKILL');
+  }, KILL_GRACE_MS).unref();
+}
+
+function flushOutput(tracked: TrackedProcess): void {
+  if (tracked.flushTimer) clearTimeout(tracked.flushTimer);
+  tracked.flushTimer = undefined;
+
+  const { info } = tracked;
+  for (const stream of ['stdout', 'stderr'] as const) {
+    const chunk = tracked.unsent[stream];
+    if (!chunk) continue;
+    tracked.unsent[stream] = '';
+    broadcastFn?.({
+      type: 'shell_output',
+      data: { processId: info.id, agent: info.agent, taskId: info.taskId, stream, chunk },
+    });
+  }
+}
+
+function publicInfo(tracked: TrackedProcess): ProcessInfo {
+  return { ...tracked.info };
+}
+
+/**
+ * Spawn a process and stream its output. Returns its id and a promise for the
+ * result, which settles when it exits (never rejects).
+ */
+export function startProcess(
+  spec: ProcessSpec,
+  owner: ProcessOwner,
+  options: ProcessOptions = {}
+): { id: number; done: Promise<ProcessResult> } {
+  const id = nextId++;
+  const background = options.background ?? false;
+  const child = spawn(spec.file, spec.args, {
+    cwd: spec.cwd,
+    env: spec.env,
+    detached: true,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  const info: ProcessInfo = {
+    ...owner,
+    id,
+    pid: child.pid,
+    cwd: spec.cwd,
+    background,
+    status: 'running',
+    exitCode: null,
+    startedAt: Date.now(),
+    stdout: '',
+    stderr: '',
+  };
+
+  let settle: (result: ProcessResult) => void = () => {};
+  const done = new Promise<ProcessResult>((resolve) => {
+    settle = resolve;
+  });
+  const tracked: TrackedProcess = { info, child, stdout: '', stderr: '', unsent: { stdout: '', stderr: '' } };
+  processes.set(id, tracked);
+
+  // Decoded as a stream, so a multi-byte character split across reads stays whole
+  const onData = (stream: 'stdout' | 'stderr') => (chunk: string) => {
+    tracked[stream] = append(tracked[stream], chunk, MAX_OUTPUT_BYTES);
+    info[stream] = append(info[stream], chunk, OUTPUT_TAIL_BYTES);
+    tracked.unsent[stream] += chunk;
+    if (tracked.unsent[stream].length >= OUTPUT_FLUSH_BYTES) {
+      flushOutput(tracked);
+    } else if (!tracked.flushTimer) {
+      tracked.flushTimer = setTimeout(() => flushOutput(tracked), OUTPUT_FLUSH_MS);
+    }
+  };
+  child.stdout?.setEncoding('utf8').on('data', onData('stdout'));
+  child.stderr?.setEncoding('utf8').on('data', onData('stderr'));
+
+  const finish = (exitCode: number, error?: string) => {
+    if (info.endedAt !== undefined) return;
+    if (tracked.timer) clearTimeout(tracked.timer);
+    flushOutput(tracked);
+    if (error) tracked.stderr = append(tracked.stderr, error, MAX_OUTPUT_BYTES);
+    info.endedAt = Date.now();
+    info.exitCode = exitCode;
+    if (info.status === 'running') info.status = 'exited';
+
+    broadcastFn?.({
+      type: 'shell_exit',
+      data: {
+        processId: id,
+        agent: owner.agent,
+        taskId: owner.taskId,
+        command: owner.command,
+        status: info.status,
+        exitCode,
+      },
+    });
+    settle({ exitCode, status: info.status, stdout: tracked.stdout, stderr: tracked.stderr });
+    setTimeout(() => processes.delete(id), FINISHED_RETENTION_MS).unref();
+  };
+
+  child.on('error', (error) => finish(127, error.message));
+  // Shell convention: a signal death exits with 128 + the signal number
+  child.on('close', (code, signal) => finish(code ?? 128 + (signal ? constants.signals[signal] : 0)));
+
+  if (options.timeoutMs) {
+    tracked.timer = setTimeout(() => stop(tracked, 'timed_out'), options.timeoutMs);
+  }
+
+  console.log(`[ShellProcesses] #${id} started for ${owner.agent}${background ? ' (background)' : ''}: ${owner.command}`);
+  return { id, done };
+}
+
+/**
+ * Cancel a running process. Returns false if it isn't running.
+ */
+export function cancelProcess(id: number): boolean {
+  const tracked = processes.get(id);
+  if (!tracked || tracked.info.status !== 'running') return false;
+  stop(tracked, 'cancelled');
+  console.log(`[ShellProcesses] #${id} cancelled`);
+  return true;
+}
+
+/**
+ * A process's state and output tail, if it is running or finished recently
+ */
+export function getProcess(id: number): ProcessInfo | null {
+  const tracked = processes.get(id);
+  return tracked ? publicInfo(tracked) : null;
+}
+
+/**
+ * Every tracked process, optionally only one agent's or one task's
+ */
+export function listProcesses(filter: { agent?: string; taskId?: number } = {}): ProcessInfo[] {
+  return [...processes.values()]
+    .filter(({ info }) => filter.agent === undefined || info.agent === filter.agent)
+    .filter(({ info }) => filter.taskId === undefined || info.taskId === filter.taskId)
+    .map(publicInfo);
+}
+
+/**
+ * Stop everything a task still has running, such as its dev servers, when the
+ * task ends or is paused. Returns how many processes were stopped.
+ */
+export function stopTaskProcesses(taskId: number): number {
+  let stopped = 0;
+  for (const tracked of processes.values()) {
+    if (tracked.info.taskId !== taskId || tracked.info.status !== 'running') continue;
+    stop(tracked, 'cancelled');
+    stopped++;
+  }
+  if (stopped > 0) console.log(`[ShellProcesses] Stopped ${stopped} process(es) left by task ${taskId}`);
+  return stopped;
+}
+
+/**
+ * Stop everything still running (called at shutdown)
+ */
+export function stopAllProcesses(): void {
+  for (const tracked of processes.values()) {
+    stop(tracked, 'cancelled');
+  }
+}
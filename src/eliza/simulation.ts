@@ -0,0 +1,199 @@
+/**
+ * Simulation Harness for Eliza Town
+ *
+ * Runs the real town (ElizaOS runtimes, the orchestrator, the shared sandbox
+ * and the in-memory database) against the scripted model provider and a
+ * ManualClock, and lets a test drive it one orchestration tick at a time.
+ * Nothing touches the network, and for a given script and seed the agents
+ * make the same decisions on every run.
+ *
+ * Time only moves while the harness pumps it: between ticks, and while agents
+ * walk or wait on file and database work. It stands still while an agent is
+ * thinking, so a model call takes no simulated time.
+ *
+ * Several modules read their configuration from the environment when they
+ * load, so tests import this module and let it load the rest. One simulation
+ * can run per process.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { ManualClock, setClock } from './clock.js';
+import { setMockScript, getMockCalls, type MockScript, type MockCall } from './mockLlmPlugin.js';
+import type { BudgetLimit } from './budgets.js';
+import type { WebSocketMessage } from '../websocket/index.js';
+import type { Task } from '../types/index.js';
+
+// Type definitions
+export interface SimulationOptions {
+  /** What the scripted model answers */
+  script: MockScript;
+  /** Seeds ambient chatter and the order agents are considered in (default 1) */
+  seed?: number;
+  /** Sandbox directory (default: a fresh temporary one, removed on stop) */
+  sandboxDir?: string;
+  /** Simulated time per tick (default 5000, the server's interval) */
+  tickMs?: number;
+  /** Simulated time per pump while settling (default 200, one walking step) */
+  stepMs?: number;
+  /** Give up settling a tick after this much simulated time (default 10 minutes) */
+  maxSettleMs?: number;
+}
+
+export interface Simulation {
+  clock: ManualClock;
+  db: typeof import('../db/index.js');
+  sandboxDir: string;
+  /** Every WebSocket message the town broadcast, oldest first */
+  events: WebSocketMessage[];
+  /** Ticks run so far */
+  readonly ticks: number;
+  /** Every model call the script answered, oldest first */
+  modelCalls(): MockCall[];
+  createTask(title: string, description?: string | null, budget?: BudgetLimit | null): Promise<Task>;
+  /** Run one tick, then pump until the work it started has finished */
+  step(): Promise<void>;
+  /** Step until done() holds; rejects after maxTicks ticks */
+  runUntil(done: () => boolean | Promise<boolean>, maxTicks?: number): Promise<number>;
+  stop(): Promise<void>;
+}
+
+// Pumps in a row with nothing running before the town counts as settled
+const IDLE_PUMPS = 3;
+
+let started = false;
+
+// mulberry32: small, fast and good enough to make shuffles repeatable
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Build the town with the scripted provider and a manual clock
+ */
+export async function startSimulation(options: SimulationOptions): Promise<Simulation> {
+  if (started) {
+    throw new Error('A simulation already ran in this process');
+  }
+  started = true;
+
+  const tickMs = options.tickMs ?? 5000;
+  const stepMs = options.stepMs ?? 200;
+  const maxSettleMs = options.maxSettleMs ?? 10 * 60 * 1000;
+  const ownsSandbox = !options.sandboxDir;
+  const sandboxDir = options.sandboxDir || (await fs.mkdtemp(path.join(os.tmpdir(), 'eliza-town-sim-')));
+
+  // Everything in memory, on the scripted provider, with a local sandbox
+  process.env.LLM_PROVIDER = 'mock';
+  process.env.DB_BACKEND = 'memory';
+  delete process.env.DATABASE_URL;
+  delete process.env.MEMORY_DB_SNAPSHOT;
+  process.env.CODER_ENABLED = 'true';
+  process.env.SANDBOX_MODE = 'local';
+  process.env.CODER_ALLOWED_DIRECTORY = sandboxDir;
+  process.env.SANDBOX_GIT ??= 'false';
+
+  const clock = new ManualClock();
+  setClock(clock);
+  setMockScript(options.script);
+
+  const db = await import('../db/index.js');
+  const { getHubDefinitions } = await import('./townMap.js');
+  const { ELIZA_TOWN_CHARACTERS } = await import('./characters.js');
+  await db.initializeDatabase('memory');
+  await db.syncHubs(getHubDefinitions());
+  for (const character of ELIZA_TOWN_CHARACTERS) {
+    await db.createAgent(
+      character.name,
+      character.role,
+      character.modelId,
+      character.adjectives?.join(', ') || 'helpful',
+      character.capabilities?.join(', ') || 'general'
+    );
+  }
+
+  const events: WebSocketMessage[] = [];
+  const orchestration = await import('./orchestration.js');
+  const runtimeManager = await import('./runtimeManager.js');
+  await orchestration.initialize({
+    db,
+    broadcast: (message) => events.push(message),
+    storage: null,
+    random: seededRandom(options.seed ?? 1),
+  });
+
+  let ticks = 0;
+
+  const busy = (): boolean => {
+    const state = orchestration.getState();
+    return state.activeWork.length > 0 || state.travelingAgents.length > 0 || runtimeManager.getDecisionsInFlight() > 0;
+  };
+
+  // Let real I/O finish a turn, then move time on unless an agent is thinking
+  const pump = async (): Promise<void> => {
+    await new Promise((resolve) => setImmediate(resolve));
+    if (runtimeManager.getDecisionsInFlight() === 0) {
+      clock.advance(stepMs);
+    }
+  };
+
+  const step = async (): Promise<void> => {
+    const tickStart = clock.now();
+    let tickDone = false;
+    const ticking = orchestration.tick().finally(() => {
+      tickDone = true;
+    });
+
+    let idle = 0;
+    while (idle < IDLE_PUMPS) {
+      if (clock.now() - tickStart > maxSettleMs) {
+        throw new Error(`Tick ${ticks + 1} did not settle within ${maxSettleMs}ms of simulated time`);
+      }
+      await pump();
+      idle = tickDone && !busy() ? idle + 1 : 0;
+    }
+    await ticking;
+    ticks++;
+
+    const elapsed = clock.now() - tickStart;
+    if (elapsed < tickMs) clock.advance(tickMs - elapsed);
+  };
+
+  return {
+    clock,
+    db,
+    sandboxDir,
+    events,
+    get ticks() {
+      return ticks;
+    },
+    modelCalls: getMockCalls,
+    createTask: (title, description = null, budget = null) =>
+      orchestration.createTask(title, description, 5, null, null, budget),
+    step,
+    async runUntil(done, maxTicks = 50) {
+      for (let i = 0; i < maxTicks; i++) {
+        if (await done()) return ticks;
+        await step();
+      }
+      if (await done()) return ticks;
+      throw new Error(`Simulation did not finish within ${maxTicks} ticks`);
+    },
+    async stop() {
+      await runtimeManager.stopAll();
+      await db.closeDatabase();
+      setClock(null);
+      if (ownsSandbox) {
+        await fs.rm(sandboxDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
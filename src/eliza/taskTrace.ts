@@ -0,0 +1,458 @@
+/**
+ * Task Traces for Eliza Town
+ *
+ * Records everything the agents did for a task into a trace file, so a run
+ * that went wrong can be reproduced even though model output isn't: each
+ * decision's prompt, every model call and the response it got, and every
+ * action the agent invoked with its result (for code actions, what the
+ * sandbox returned). Traces are JSON Lines, one entry per line, written to
+ * TRACE_DIR (default ./traces) as task-<id>.jsonl.
+ *
+ * Tasks are recorded when created with record set, or all of them with
+ * TRACE_RECORDING=true. Embedding calls aren't recorded: they don't decide
+ * anything and would dwarf the rest of the trace.
+ *
+ * The same hooks replay a trace. A decision given a ReplayDecision answers its
+ * model calls from the trace instead of a provider, in recorded order, and
+ * its actions run again (so files are rewritten) except the shell ones, whose
+ * recorded results are returned, since commands and processes can't be
+ * expected to repeat. Anything that doesn't line up with the trace is noted
+ * as a divergence. traceReplay.ts drives whole replays.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { mkdirSync } from 'fs';
+import * as fs from 'fs/promises';
+import path from 'path';
+import { now } from './clock.js';
+import type { DecisionKind } from './llmRouting.js';
+import type { Task, TriggerResult } from '../types/index.js';
+
+// Type definitions
+export interface TraceTaskEntry {
+  type: 'task';
+  version: number;
+  taskId: number;
+  title: string;
+  description: string | null;
+  priority: number;
+  sandboxBackend: string | null;
+  at: number;
+}
+
+export interface TraceDecisionEntry {
+  type: 'decision';
+  /** Decisions are numbered from 1 in the order they started */
+  seq: number;
+  /** Runtime id (character username) the decision was triggered on */
+  agentId: string;
+  agent: string;
+  kind: DecisionKind | null;
+  subtaskId: number | null;
+  prompt: string;
+  at: number;
+}
+
+export interface TraceModelEntry {
+  type: 'model';
+  seq: number;
+  agent: string;
+  modelType: string;
+  /** Provider the caller asked for, if any */
+  provider: string | null;
+  params: unknown;
+  response?: unknown;
+  error?: string;
+  at: number;
+}
+
+export interface TraceActionResult {
+  success: boolean;
+  text: string;
+  data?: Record<string, unknown>;
+}
+
+export interface TraceActionEntry {
+  type: 'action';
+  seq: number;
+  agent: string;
+  action: string;
+  params: Record<string, unknown>;
+  result?: TraceActionResult;
+  error?: string;
+  at: number;
+}
+
+export interface TraceResultEntry {
+  type: 'result';
+  seq: number;
+  agent: string;
+  result: TriggerResult | null;
+  error?: string;
+  at: number;
+}
+
+export type TraceEntry = TraceTaskEntry | TraceDecisionEntry | TraceModelEntry | TraceActionEntry | TraceResultEntry;
+
+export interface RecordedDecision {
+  decision: TraceDecisionEntry;
+  models: TraceModelEntry[];
+  actions: TraceActionEntry[];
+  /** Missing when the run stopped before the decision finished */
+  result: TraceResultEntry | null;
+}
+
+export interface TaskTrace {
+  task: TraceTaskEntry;
+  decisions: RecordedDecision[];
+}
+
+/** A recorded decision being replayed, and what the replay found */
+export interface ReplayDecision {
+  recorded: RecordedDecision;
+  modelsServed: number;
+  actionsRun: number;
+  divergences: string[];
+}
+
+export interface DecisionInfo {
+  agentId: string;
+  agent: string;
+  kind: DecisionKind | null;
+  taskId: number | null;
+  subtaskId: number | null;
+  prompt: string;
+}
+
+interface Recording {
+  file: string;
+  seq: number;
+  // Appends are chained so entries land in the order they were made
+  writes: Promise<void>;
+}
+
+type TraceContext =
+  // The recording itself, so decisions still running when it stops finish their entries
+  | { mode: 'record'; recording: Recording; seq: number }
+  | { mode: 'replay'; replay: ReplayDecision };
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ActionHandler = (runtime: any, message: unknown, state: unknown, options?: any, ...rest: unknown[]) => Promise<any>;
+
+interface TraceableAction {
+  name: string;
+  handler: ActionHandler;
+}
+
+const TRACE_VERSION = 1;
+const EMBEDDING_MODEL = 'TEXT_EMBEDDING';
+// Actions whose effects outside the workspace can't be repeated; replays return their recorded results
+const REPLAYED_ACTIONS = new Set(['EXECUTE_SHELL', 'CHECK_PROCESS', 'STOP_PROCESS']);
+
+const recordings = new Map<number, Recording>();
+const traceContext = new AsyncLocalStorage<TraceContext>();
+// Set while a traced model call runs, so calls a provider makes internally aren't traced twice
+const inModelCall = new AsyncLocalStorage<boolean>();
+
+/**
+ * Where traces are written (TRACE_DIR, default ./traces)
+ */
+export function getTraceDir(): string {
+  return path.resolve(process.env.TRACE_DIR || 'traces');
+}
+
+export function tracePath(taskId: number): string {
+  return path.join(getTraceDir(), `task-${taskId}.jsonl`);
+}
+
+/**
+ * Whether every new task is recorded (TRACE_RECORDING=true)
+ */
+export function recordAllTraces(): boolean {
+  return process.env.TRACE_RECORDING === 'true';
+}
+
+function append(recording: Recording, entry: TraceEntry): void {
+  const line = JSON.stringify(entry) + '\n';
+  recording.writes = recording.writes
+    .then(() => fs.appendFile(recording.file, line))
+    .catch((error) => console.error(`[TaskTrace] Failed to write ${recording.file}:`, (error as Error).message));
+}
+
+/**
+ * Start recording a task's trace, replacing any earlier trace of it
+ */
+export function startRecording(task: Task): string {
+  const file = tracePath(task.id);
+  mkdirSync(path.dirname(file), { recursive: true });
+
+  const recording: Recording = { file, seq: 0, writes: fs.writeFile(file, '') };
+  recordings.set(task.id, recording);
+  append(recording, {
+    type: 'task',
+    version: TRACE_VERSION,
+    taskId: task.id,
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    sandboxBackend: task.sandbox_backend ?? null,
+    at: now(),
+  });
+
+  console.log(`[TaskTrace] Recording task ${task.id} to ${file}`);
+  return file;
+}
+
+/**
+ * Stop recording a task: decisions that start afterwards aren't recorded, ones
+ * already running still finish their entries. Resolves once what was written
+ * so far is on disk.
+ */
+export async function stopRecording(taskId: number): Promise<void> {
+  const recording = recordings.get(taskId);
+  if (!recording) return;
+  recordings.delete(taskId);
+  await recording.writes;
+}
+
+/**
+ * Wait for a recording task's pending entries to reach its trace file
+ */
+export async function flushTrace(taskId: number): Promise<void> {
+  await recordings.get(taskId)?.writes;
+}
+
+/**
+ * Parse a trace file's contents, grouping entries by decision
+ */
+export function parseTrace(contents: string, source = 'trace'): TaskTrace {
+  let task: TraceTaskEntry | null = null;
+  const decisions = new Map<number, RecordedDecision>();
+
+  for (const [idx, line] of contents.split('\n').entries()) {
+    if (!line.trim()) continue;
+    let entry: TraceEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Invalid ${source}: line ${idx + 1} is not JSON (${(error as Error).message})`);
+    }
+
+    if (entry.type === 'task') {
+      if (entry.version !== TRACE_VERSION) {
+        throw new Error(`Invalid ${source}: version ${entry.version} is not supported (expected ${TRACE_VERSION})`);
+      }
+      task = entry;
+      continue;
+    }
+    if (entry.type === 'decision') {
+      decisions.set(entry.seq, { decision: entry, models: [], actions: [], result: null });
+      continue;
+    }
+
+    const decision = decisions.get(entry.seq);
+    if (!decision) {
+      throw new Error(`Invalid ${source}: line ${idx + 1} belongs to decision ${entry.seq}, which has not started`);
+    }
+    if (entry.type === 'model') decision.models.push(entry);
+    else if (entry.type === 'action') decision.actions.push(entry);
+    else if (entry.type === 'result') decision.result = entry;
+  }
+
+  if (!task) {
+    throw new Error(`Invalid ${source}: no task entry`);
+  }
+  return { task, decisions: [...decisions.values()].sort((a, b) => a.decision.seq - b.decision.seq) };
+}
+
+/**
+ * Read and parse a trace file
+ */
+export async function loadTrace(file: string): Promise<TaskTrace> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    throw new Error(`Could not read trace at ${file}: ${(error as Error).message}`);
+  }
+  return parseTrace(contents, `trace at ${file}`);
+}
+
+/**
+ * Set up a recorded decision to be replayed through triggerAgentDecision
+ */
+export function replayDecision(recorded: RecordedDecision): ReplayDecision {
+  return { recorded, modelsServed: 0, actionsRun: 0, divergences: [] };
+}
+
+/**
+ * Run an agent decision under the trace: recorded when its task is being
+ * recorded, answered from the trace when replay is given, untouched otherwise
+ */
+export async function traceDecision(
+  info: DecisionInfo,
+  replay: ReplayDecision | null,
+  fn: () => Promise<TriggerResult | null>
+): Promise<TriggerResult | null> {
+  if (replay) {
+    const result = await traceContext.run({ mode: 'replay', replay }, fn);
+    const { models, actions } = replay.recorded;
+    if (replay.modelsServed < models.length) {
+      replay.divergences.push(`made ${replay.modelsServed} model calls, the trace has ${models.length}`);
+    }
+    if (replay.actionsRun < actions.length) {
+      replay.divergences.push(
+        `ran ${replay.actionsRun} actions, the trace also has ${actions.slice(replay.actionsRun).map((a) => a.action).join(', ')}`
+      );
+    }
+    return result;
+  }
+
+  const recording = info.taskId !== null ? recordings.get(info.taskId) : undefined;
+  if (!recording) return fn();
+
+  const seq = ++recording.seq;
+  append(recording, {
+    type: 'decision',
+    seq,
+    agentId: info.agentId,
+    agent: info.agent,
+    kind: info.kind,
+    subtaskId: info.subtaskId,
+    prompt: info.prompt,
+    at: now(),
+  });
+
+  try {
+    const result = await traceContext.run({ mode: 'record', recording, seq }, fn);
+    append(recording, { type: 'result', seq, agent: info.agent, result, at: now() });
+    return result;
+  } catch (error) {
+    append(recording, { type: 'result', seq, agent: info.agent, result: null, error: (error as Error).message, at: now() });
+    throw error;
+  }
+}
+
+// The next recorded model call, or a divergence when the replay asks for more than the trace has
+function replayModel(replay: ReplayDecision, agent: string, modelType: string): unknown {
+  const idx = replay.modelsServed++;
+  const entry = replay.recorded.models[idx];
+  if (!entry) {
+    const message = `model call ${idx + 1} (${modelType}) by ${agent} is not in the trace`;
+    replay.divergences.push(message);
+    throw new Error(`[TaskTrace] ${message}`);
+  }
+  if (entry.modelType !== modelType) {
+    replay.divergences.push(`model call ${idx + 1} asked for ${modelType}, the trace has ${entry.modelType}`);
+  }
+  if (entry.error !== undefined) {
+    throw new Error(entry.error);
+  }
+  return entry.response;
+}
+
+/**
+ * Record (or, while replaying, answer) a runtime's model calls
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function traceModelCalls(runtime: any, agent: string): void {
+  const useModel = runtime.useModel.bind(runtime);
+
+  runtime.useModel = async (modelType: string, params: unknown, provider?: string) => {
+    const context = traceContext.getStore();
+    if (!context || modelType === EMBEDDING_MODEL || inModelCall.getStore()) {
+      return useModel(modelType, params, provider);
+    }
+
+    if (context.mode === 'replay') {
+      return replayModel(context.replay, agent, modelType);
+    }
+
+    const { recording } = context;
+    const entry: TraceModelEntry = {
+      type: 'model',
+      seq: context.seq,
+      agent,
+      modelType,
+      provider: provider ?? null,
+      params,
+      at: now(),
+    };
+    try {
+      const response = await inModelCall.run(true, () => useModel(modelType, params, provider));
+      append(recording, { ...entry, response });
+      return response;
+    } catch (error) {
+      append(recording, { ...entry, error: (error as Error)?.message ?? String(error) });
+      throw error;
+    }
+  };
+}
+
+function sameParams(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function describeResult(result: TraceActionResult | undefined): string {
+  if (!result) return 'nothing';
+  const text = result.text.length > 80 ? `${result.text.slice(0, 80)}...` : result.text;
+  return `${result.success ? 'success' : 'failure'} "${text}"`;
+}
+
+function wrapAction<T extends TraceableAction>(action: T): T {
+  const handler: ActionHandler = async (runtime, message, state, options, ...rest) => {
+    const context = traceContext.getStore();
+    if (!context) return action.handler(runtime, message, state, options, ...rest);
+
+    const agent: string = runtime?.character?.name || 'unknown';
+    const params: Record<string, unknown> = options?.parameters ?? {};
+
+    if (context.mode === 'replay') {
+      const replay = context.replay;
+      const idx = replay.actionsRun++;
+      const recorded = replay.recorded.actions[idx];
+      const matched = recorded?.action === action.name;
+
+      if (!matched) {
+        replay.divergences.push(
+          `action ${idx + 1} was ${action.name}, the trace has ${recorded ? recorded.action : 'no more actions'}`
+        );
+      } else if (!sameParams(recorded.params, params)) {
+        replay.divergences.push(`action ${idx + 1} (${action.name}) ran with different parameters`);
+      }
+
+      if (matched && REPLAYED_ACTIONS.has(action.name)) {
+        if (recorded.error !== undefined) throw new Error(recorded.error);
+        return recorded.result;
+      }
+
+      const result = await action.handler(runtime, message, state, options, ...rest);
+      if (matched && (recorded.result?.success !== result?.success || recorded.result?.text !== result?.text)) {
+        replay.divergences.push(
+          `action ${idx + 1} (${action.name}) returned ${describeResult(result)}, the trace has ${describeResult(recorded.result)}`
+        );
+      }
+      return result;
+    }
+
+    const { recording } = context;
+    const entry: TraceActionEntry = { type: 'action', seq: context.seq, agent, action: action.name, params, at: now() };
+    try {
+      const result = await action.handler(runtime, message, state, options, ...rest);
+      append(recording, { ...entry, result });
+      return result;
+    } catch (error) {
+      append(recording, { ...entry, error: (error as Error)?.message ?? String(error) });
+      throw error;
+    }
+  };
+
+  return { ...action, handler };
+}
+
+/**
+ * A copy of a plugin whose actions are recorded and replayed with the decision that runs them
+ */
+export function traceActions<T extends { actions: TraceableAction[] }>(plugin: T): T {
+  return { ...plugin, actions: plugin.actions.map(wrapAction) };
+}
@@ -0,0 +1,242 @@
+/**
+ * Town Map for Eliza Town
+ *
+ * The single definition of the town's hubs: ids, names, positions, capacity
+ * and which hub each role works at. Loaded once from config/town-map.json
+ * (or TOWN_MAP_PATH) and shared by the orchestrator, the plugin, the visual
+ * demo, the API and the database sync.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { AgentRole } from './characters.js';
+import type { HubDefinition } from '../db/store.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const DEFAULT_MAP_PATH = path.join(__dirname, '../../config/town-map.json');
+
+// Type definitions
+export interface TownHub {
+  /** Stable key used everywhere agents refer to a hub, e.g. "coding_desk" */
+  id: string;
+  name: string;
+  description: string;
+  /** 'planning', 'design', 'coding', 'review', 'deploy' or 'general' */
+  type: string;
+  x: number;
+  z: number;
+  /** How many agents the hub is meant to hold at once */
+  capacity: number;
+}
+
+/** Something agents have to walk around, as an axis-aligned footprint centred on x/z */
+export interface TownObstacle {
+  name: string;
+  x: number;
+  z: number;
+  width: number;
+  depth: number;
+}
+
+/** The walkable area and the size of one navigation grid cell */
+export interface TownBounds {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+  cellSize: number;
+}
+
+export interface TownMap {
+  defaultHub: string;
+  bounds: TownBounds;
+  hubs: TownHub[];
+  obstacles: TownObstacle[];
+  roleHubs: Record<AgentRole, string>;
+}
+
+export interface HubInfo {
+  x: number;
+  z: number;
+  name: string;
+  description: string;
+}
+
+const REQUIRED_ROLES: AgentRole[] = ['planner', 'designer', 'coder', 'reviewer'];
+const HUB_ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Check a parsed map file and return it typed, or throw listing every problem
+ */
+export function validateTownMap(value: unknown, source = 'town map'): TownMap {
+  const errors: string[] = [];
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const rawHubs = Array.isArray(raw.hubs) ? raw.hubs : [];
+
+  if (!Array.isArray(raw.hubs) || rawHubs.length === 0) {
+    errors.push('"hubs" must be a non-empty array');
+  }
+
+  const hubs: TownHub[] = [];
+  const seen = new Set<string>();
+  rawHubs.forEach((entry, idx) => {
+    const hub = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const label = typeof hub.id === 'string' ? `hub "${hub.id}"` : `hubs[${idx}]`;
+
+    if (typeof hub.id !== 'string' || !HUB_ID_PATTERN.test(hub.id)) {
+      errors.push(`${label}: "id" must be lower_snake_case`);
+    } else if (seen.has(hub.id)) {
+      errors.push(`${label}: duplicate id`);
+    }
+    if (typeof hub.name !== 'string' || !hub.name.trim()) errors.push(`${label}: "name" is required`);
+    if (typeof hub.type !== 'string' || !hub.type.trim()) errors.push(`${label}: "type" is required`);
+    for (const axis of ['x', 'z'] as const) {
+      if (typeof hub[axis] !== 'number' || !Number.isFinite(hub[axis])) {
+        errors.push(`${label}: "${axis}" must be a number`);
+      }
+    }
+    if (hub.capacity !== undefined && (!Number.isInteger(hub.capacity) || (hub.capacity as number) < 1)) {
+      errors.push(`${label}: "capacity" must be a positive integer`);
+    }
+
+    if (typeof hub.id === 'string') seen.add(hub.id);
+    hubs.push({
+      id: String(hub.id),
+      name: String(hub.name ?? '').trim(),
+      description: typeof hub.description === 'string' ? hub.description : '',
+      type: String(hub.type ?? '').trim(),
+      x: hub.x as number,
+      z: hub.z as number,
+      capacity: (hub.capacity as number | undefined) ?? 4,
+    });
+  });
+
+  const defaultHub = typeof raw.defaultHub === 'string' ? raw.defaultHub : hubs[0]?.id;
+  if (!defaultHub || !seen.has(defaultHub)) {
+    errors.push(`"defaultHub" must name one of the hubs`);
+  }
+
+  const rawRoles = (raw.roleHubs && typeof raw.roleHubs === 'object' ? raw.roleHubs : {}) as Record<string, unknown>;
+  const roleHubs = {} as Record<AgentRole, string>;
+  for (const role of REQUIRED_ROLES) {
+    const hubId = rawRoles[role];
+    if (typeof hubId !== 'string' || !seen.has(hubId)) {
+      errors.push(`"roleHubs.${role}" must name one of the hubs`);
+    } else {
+      roleHubs[role] = hubId;
+    }
+  }
+
+  const obstacles: TownObstacle[] = [];
+  const rawObstacles = raw.obstacles === undefined ? [] : raw.obstacles;
+  if (!Array.isArray(rawObstacles)) {
+    errors.push('"obstacles" must be an array');
+  } else {
+    rawObstacles.forEach((entry, idx) => {
+      const obstacle = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+      const label = typeof obstacle.name === 'string' ? `obstacle "${obstacle.name}"` : `obstacles[${idx}]`;
+      for (const field of ['x', 'z', 'width', 'depth'] as const) {
+        if (typeof obstacle[field] !== 'number' || !Number.isFinite(obstacle[field])) {
+          errors.push(`${label}: "${field}" must be a number`);
+        }
+      }
+      obstacles.push({
+        name: typeof obstacle.name === 'string' ? obstacle.name : `obstacle ${idx}`,
+        x: obstacle.x as number,
+        z: obstacle.z as number,
+        width: obstacle.width as number,
+        depth: obstacle.depth as number,
+      });
+    });
+  }
+
+  // Without explicit bounds, walk anywhere within a margin of the outermost hubs
+  const MARGIN = 10;
+  const rawBounds = (raw.bounds && typeof raw.bounds === 'object' ? raw.bounds : {}) as Record<string, unknown>;
+  const fallbackBounds: TownBounds = {
+    minX: Math.min(...hubs.map((hub) => hub.x)) - MARGIN,
+    maxX: Math.max(...hubs.map((hub) => hub.x)) + MARGIN,
+    minZ: Math.min(...hubs.map((hub) => hub.z)) - MARGIN,
+    maxZ: Math.max(...hubs.map((hub) => hub.z)) + MARGIN,
+    cellSize: 1,
+  };
+  const bounds = { ...fallbackBounds };
+  for (const field of ['minX', 'maxX', 'minZ', 'maxZ', 'cellSize'] as const) {
+    const value = rawBounds[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`"bounds.${field}" must be a number`);
+    } else {
+      bounds[field] = value;
+    }
+  }
+  if (bounds.cellSize <= 0) errors.push('"bounds.cellSize" must be positive');
+  for (const hub of hubs) {
+    if (hub.x < bounds.minX || hub.x > bounds.maxX || hub.z < bounds.minZ || hub.z > bounds.maxZ) {
+      errors.push(`hub "${hub.id}" lies outside "bounds"`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${source}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return { defaultHub: defaultHub as string, bounds, hubs, obstacles, roleHubs };
+}
+
+/**
+ * Read and validate the town map file. Runs at import time so a bad map stops
+ * the server before anything is placed on it.
+ */
+export function loadTownMap(mapPath = process.env.TOWN_MAP_PATH || DEFAULT_MAP_PATH): TownMap {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(mapPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read town map at ${mapPath}: ${(error as Error).message}`);
+  }
+  return validateTownMap(parsed, `town map at ${mapPath}`);
+}
+
+export const TOWN_MAP: TownMap = loadTownMap();
+
+// Hub positions keyed by id, for navigation and distance checks
+export const HUBS: Record<string, HubInfo> = Object.fromEntries(
+  TOWN_MAP.hubs.map((hub) => [hub.id, { x: hub.x, z: hub.z, name: hub.name, description: hub.description }])
+);
+
+// Map agent roles to their primary work hubs
+export const ROLE_HUBS: Record<AgentRole, string> = TOWN_MAP.roleHubs;
+
+// Where agents gather when they have nothing else to do
+export const DEFAULT_HUB: string = TOWN_MAP.defaultHub;
+
+export const HUB_IDS: string[] = TOWN_MAP.hubs.map((hub) => hub.id);
+
+/**
+ * Find a hub by id or by display name ("Coding Desk", "coding desk" and
+ * "coding_desk" all resolve to the same hub)
+ */
+export function resolveHub(nameOrId: string | null | undefined): TownHub | undefined {
+  if (!nameOrId) return undefined;
+  const wanted = nameOrId.trim().toLowerCase();
+  const asId = wanted.replace(/[\s-]+/g, '_');
+  return TOWN_MAP.hubs.find((hub) => hub.id === asId || hub.name.toLowerCase() === wanted);
+}
+
+/**
+ * The map's hubs as rows for the database's hubs table
+ */
+export function getHubDefinitions(map: TownMap = TOWN_MAP): HubDefinition[] {
+  return map.hubs.map((hub) => ({
+    key: hub.id,
+    name: hub.name,
+    description: hub.description,
+    type: hub.type,
+    position_x: hub.x,
+    position_z: hub.z,
+    capacity: hub.capacity,
+  }));
+}
@@ -0,0 +1,120 @@
+/**
+ * Trace Replays for Eliza Town
+ *
+ * Reproduces a recorded task (see taskTrace.ts) by feeding each recorded
+ * decision back through triggerAgentDecision, in the order they started, on
+ * the agent that made it. The model calls are answered from the trace and the
+ * actions run again against a fresh task's workspace, so the replay ends with
+ * the files the original run wrote, and any step that came out differently is
+ * reported.
+ *
+ * Replays stand in for the agents, not the orchestrator: decisions are taken
+ * straight from the trace, so the replay task never gets subtasks of its own.
+ * It sits in the 'replaying' status while it runs (which the orchestrator
+ * leaves alone) and ends 'completed' when the run was reproduced, 'failed'
+ * otherwise. The CLI (scripts/replay-trace.ts) replays in a simulated town;
+ * POST /api/tasks/:id/trace/replay replays in the running server, whose
+ * agents may be busy with other work at the same time.
+ */
+
+import * as runtimeManager from './runtimeManager.js';
+import * as orchestration from './orchestration.js';
+import { getSharedSandbox } from './sharedSandbox.js';
+import { replayDecision, type RecordedDecision, type TaskTrace } from './taskTrace.js';
+import type { DecisionKind } from './llmRouting.js';
+
+// Type definitions
+export interface DecisionReplay {
+  seq: number;
+  agent: string;
+  kind: DecisionKind | null;
+  /** Final text of the recorded and the replayed decision */
+  recordedText: string | null;
+  replayedText: string | null;
+  divergences: string[];
+}
+
+export interface ReplayReport {
+  /** Task the trace was recorded from */
+  sourceTaskId: number;
+  /** Task whose workspace holds the replay's files */
+  replayTaskId: number;
+  decisions: DecisionReplay[];
+  /** True when every decision matched the trace */
+  reproduced: boolean;
+}
+
+export interface ReplayOptions {
+  db: typeof import('../db/index.js');
+  /** Called after each decision, e.g. to report progress */
+  onDecision?: (decision: DecisionReplay) => void;
+}
+
+// Feed one recorded decision back to the agent that made it
+async function replayOne(recorded: RecordedDecision, taskId: number): Promise<DecisionReplay> {
+  const { seq, agentId, agent, kind, prompt } = recorded.decision;
+  const replay = replayDecision(recorded);
+  const recordedText = recorded.result?.result?.text ?? null;
+  let replayedText: string | null = null;
+
+  if (!runtimeManager.getRuntime(agentId)) {
+    replay.divergences.push(`agent ${agent} (${agentId}) is not running`);
+  } else {
+    try {
+      // Scoped to this decision, so work the agent is doing for a live task stays in that task
+      const result = await getSharedSandbox().runInTaskWorkspace(taskId, () =>
+        runtimeManager.triggerAgentDecision(agentId, prompt, { taskId, kind, replay })
+      );
+      replayedText = result?.text ?? null;
+      if (replayedText !== recordedText) {
+        replay.divergences.push('the decision ended with different text');
+      }
+    } catch (error) {
+      replay.divergences.push(`the decision threw: ${(error as Error).message}`);
+    }
+  }
+
+  if (replay.divergences.length > 0) {
+    console.warn(`[TraceReplay] Decision ${seq} (${agent}) diverged: ${replay.divergences.join('; ')}`);
+  }
+  return { seq, agent, kind, recordedText, replayedText, divergences: replay.divergences };
+}
+
+/**
+ * Replay a trace into a new task and report where the run differed from it
+ */
+export async function replayTrace(trace: TaskTrace, options: ReplayOptions): Promise<ReplayReport> {
+  const source = trace.task;
+  const task = await orchestration.createTask(
+    `Replay of #${source.taskId}: ${source.title}`,
+    source.description,
+    source.priority,
+    null,
+    source.sandboxBackend,
+    null,
+    false,
+    // Never pending, or a tick could hand it to the planner
+    'replaying'
+  );
+  getSharedSandbox().setTaskBackend(task.id, source.sandboxBackend);
+  console.log(`[TraceReplay] Replaying ${trace.decisions.length} decisions of task ${source.taskId} as task ${task.id}`);
+
+  const decisions: DecisionReplay[] = [];
+  try {
+    for (const recorded of trace.decisions) {
+      const decision = await replayOne(recorded, task.id);
+      decisions.push(decision);
+      options.onDecision?.(decision);
+    }
+  } finally {
+    const reproduced = decisions.length === trace.decisions.length && decisions.every((d) => d.divergences.length === 0);
+    await options.db.updateTaskStatus(task.id, reproduced ? 'completed' : 'failed');
+  }
+
+  const diverged = decisions.filter((d) => d.divergences.length > 0).length;
+  console.log(
+    `[TraceReplay] Task ${source.taskId} ${diverged === 0 ? 'reproduced' : 'diverged'} as task ${task.id} ` +
+      `(${diverged}/${decisions.length} decisions differ)`
+  );
+  return { sourceTaskId: source.taskId, replayTaskId: task.id, decisions, reproduced: diverged === 0 };
+}
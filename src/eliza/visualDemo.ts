@@ -6,6 +6,7 @@
  */
 
 import type { WebSocketMessage } from '../websocket/index.js';
+import { ROLE_HUBS, DEFAULT_HUB } from './townMap.js';
 
 // Types
 export interface DemoAgent {
@@ -32,24 +33,6 @@ export interface DemoState {
 
 type BroadcastFn = (message: WebSocketMessage) => void;
 
-// Hub definitions
-const HUBS = {
-  town_square: { x: 0, z: 0 },
-  planning_room: { x: -18, z: -15 },
-  design_studio: { x: 18, z: -15 },
-  coding_desk: { x: -18, z: 15 },
-  review_station: { x: 18, z: 15 },
-  deploy_station: { x: 0, z: -25 },
-};
-
-// Agent-type to hub mapping
-const AGENT_WORK_HUBS: Record<string, string> = {
-  planner: 'planning_room',
-  designer: 'design_studio',
-  coder: 'coding_desk',
-  reviewer: 'review_station',
-};
-
 // Demo quotes by agent type
 const DEMO_QUOTES: Record<string, string[]> = {
   planner: [
@@ -105,10 +88,10 @@ const DEMO_TASKS = [
 // State - Use same agent names as real ElizaOS agents for consistency
 let demoState: DemoState = {
   agents: [
-    { id: 1, name: 'Eliza', type: 'planner', status: 'idle', current_hub: 'planning_room' },
-    { id: 2, name: 'Marcus', type: 'designer', status: 'idle', current_hub: 'design_studio' },
-    { id: 3, name: 'Ada', type: 'coder', status: 'idle', current_hub: 'coding_desk' },
-    { id: 4, name: 'Clara', type: 'reviewer', status: 'idle', current_hub: 'review_station' },
+    { id: 1, name: 'Eliza', type: 'planner', status: 'idle', current_hub: ROLE_HUBS.planner },
+    { id: 2, name: 'Marcus', type: 'designer', status: 'idle', current_hub: ROLE_HUBS.designer },
+    { id: 3, name: 'Ada', type: 'coder', status: 'idle', current_hub: ROLE_HUBS.coder },
+    { id: 4, name: 'Clara', type: 'reviewer', status: 'idle', current_hub: ROLE_HUBS.reviewer },
   ],
   activeBubbles: [],
   currentTask: null,
@@ -215,7 +198,7 @@ function moveAgent(agentId: number, targetHub: string): void {
 function agentWork(agent: DemoAgent): void {
   const quotes = DEMO_QUOTES[agent.type] || DEMO_QUOTES.coder;
   const quote = quotes[Math.floor(Math.random() * quotes.length)];
-  const workHub = AGENT_WORK_HUBS[agent.type];
+  const workHub = ROLE_HUBS[agent.type];
   
   // If not at work hub, move there first
   if (agent.current_hub !== workHub) {
@@ -304,8 +287,8 @@ function demoTick(): void {
     const agent = idleAgents[Math.floor(Math.random() * idleAgents.length)];
     
     // Sometimes move to town square to "collaborate"
-    if (Math.random() > 0.7 && agent.current_hub !== 'town_square') {
-      moveAgent(agent.id, 'town_square');
+    if (Math.random() > 0.7 && agent.current_hub !== DEFAULT_HUB) {
+      moveAgent(agent.id, DEFAULT_HUB);
       setTimeout(() => {
         const a = demoState.agents.find(ag => ag.id === agent.id);
         if (a && a.status === 'idle') {
@@ -336,10 +319,10 @@ export function startVisualDemo(broadcast: BroadcastFn): void {
   // Reset state - Use same agent names as real ElizaOS agents for consistency
   demoState = {
     agents: [
-      { id: 1, name: 'Eliza', type: 'planner', status: 'idle', current_hub: 'planning_room' },
-      { id: 2, name: 'Marcus', type: 'designer', status: 'idle', current_hub: 'design_studio' },
-      { id: 3, name: 'Ada', type: 'coder', status: 'idle', current_hub: 'coding_desk' },
-      { id: 4, name: 'Clara', type: 'reviewer', status: 'idle', current_hub: 'review_station' },
+      { id: 1, name: 'Eliza', type: 'planner', status: 'idle', current_hub: ROLE_HUBS.planner },
+      { id: 2, name: 'Marcus', type: 'designer', status: 'idle', current_hub: ROLE_HUBS.designer },
+      { id: 3, name: 'Ada', type: 'coder', status: 'idle', current_hub: ROLE_HUBS.coder },
+      { id: 4, name: 'Clara', type: 'reviewer', status: 'idle', current_hub: ROLE_HUBS.reviewer },
     ],
     activeBubbles: [],
     currentTask: null,
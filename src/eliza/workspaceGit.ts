@@ -0,0 +1,238 @@
+/**
+ * Workspace Git for Eliza Town
+ *
+ * Git plumbing behind the task workspaces. The sandbox keeps one repository;
+ * every task workspace is a worktree of it on its own branch, and each
+ * completed subtask is committed there with the agent that did the work as
+ * the author.
+ *
+ * Agents can write anything inside a worktree, including its .git file, so
+ * git never trusts it: commands on a worktree pin GIT_DIR to the worktree's
+ * admin directory inside the server-owned repository (found through the
+ * repository's own records) and run with hooks and fsmonitor turned off.
+ */
+
+import { execFile } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { promisify } from 'node:util';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+const execFileAsync = promisify(execFile);
+
+// Type definitions
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface GitCommit {
+  sha: string;
+  author: string;
+  email: string;
+  date: string;
+  subject: string;
+  body: string;
+  files: string[];
+}
+
+export const MAIN_BRANCH = 'main';
+
+// Commits are made by the town on the agent's behalf
+const TOWN_COMMITTER: GitAuthor = { name: 'Eliza Town', email: 'town@eliza.town' };
+
+// Field and record separators for parsing `git log`; --name-only lists files after the last field
+const FIELD = '\x1f';
+const RECORD = '\x1e';
+const LOG_FORMAT = '%x1e' + ['%H', '%an', '%ae', '%aI', '%s', '%b'].join('%x1f') + '%x1f';
+
+// Config that would let files an agent controls run code in the server's git
+const SAFE_CONFIG = ['-c', 'core.hooksPath=/dev/null', '-c', 'core.fsmonitor=false'];
+
+// Where git finds a worktree; indexFile swaps in an index other than the worktree's own
+interface PinnedWorktree {
+  gitDir: string;
+  workTree: string;
+  indexFile?: string;
+}
+
+// Run git in the repository itself, or in a worktree through its pinned admin directory
+async function git(
+  cwd: string,
+  args: string[],
+  author: GitAuthor = TOWN_COMMITTER,
+  pinned: PinnedWorktree | null = null
+): Promise<string> {
+  const { stdout } = await execFileAsync('git', [...SAFE_CONFIG, ...args], {
+    cwd,
+    maxBuffer: 10 * 1024 * 1024,
+    env: {
+      ...process.env,
+      ...(pinned ? { GIT_DIR: pinned.gitDir, GIT_WORK_TREE: pinned.workTree } : {}),
+      ...(pinned?.indexFile ? { GIT_INDEX_FILE: pinned.indexFile } : {}),
+      GIT_AUTHOR_NAME: author.name,
+      GIT_AUTHOR_EMAIL: author.email,
+      GIT_COMMITTER_NAME: TOWN_COMMITTER.name,
+      GIT_COMMITTER_EMAIL: TOWN_COMMITTER.email,
+    },
+  });
+  return stdout;
+}
+
+/**
+ * The admin directory the repository keeps for the worktree at dir, or null
+ * when dir isn't one of its worktrees. Read from the repository's side (each
+ * admin directory's gitdir file), never from dir/.git.
+ */
+export async function worktreeGitDir(repoDir: string, dir: string): Promise<string | null> {
+  const adminRoot = path.join(repoDir, '.git', 'worktrees');
+  let names: string[];
+  try {
+    names = await fs.readdir(adminRoot);
+  } catch {
+    return null;
+  }
+
+  const expected = path.resolve(dir, '.git');
+  for (const name of names) {
+    try {
+      const recorded = (await fs.readFile(path.join(adminRoot, name, 'gitdir'), 'utf-8')).trim();
+      if (path.resolve(repoDir, recorded) === expected) return path.join(adminRoot, name);
+    } catch {
+      // Not a worktree record
+    }
+  }
+  return null;
+}
+
+async function pinWorktree(repoDir: string, dir: string): Promise<PinnedWorktree> {
+  const gitDir = await worktreeGitDir(repoDir, dir);
+  if (!gitDir) {
+    throw new Error(`${dir} is not a worktree of ${repoDir}`);
+  }
+  return { gitDir, workTree: path.resolve(dir) };
+}
+
+// Run git on a worktree without trusting anything inside it
+async function worktreeGit(repoDir: string, dir: string, args: string[], author?: GitAuthor): Promise<string> {
+  return git(repoDir, args, author, await pinWorktree(repoDir, dir));
+}
+
+async function exists(target: string): Promise<boolean> {
+  try {
+    await fs.access(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Where the repository lives in a sandbox directory. It sits inside the shared
+ * root, so isolated commands get it bound read-only.
+ */
+export function repositoryPath(allowedDirectory: string): string {
+  return path.join(allowedDirectory, 'repo');
+}
+
+/**
+ * The branch a task's work lives on
+ */
+export function taskBranch(taskId: number): string {
+  return `task/${taskId}`;
+}
+
+/**
+ * Create the sandbox repository with an empty first commit on main, unless it exists
+ */
+export async function initRepository(repoDir: string): Promise<void> {
+  if (await exists(path.join(repoDir, '.git'))) return;
+
+  await fs.mkdir(repoDir, { recursive: true });
+  await git(repoDir, ['init', '--quiet']);
+  await git(repoDir, ['symbolic-ref', 'HEAD', `refs/heads/${MAIN_BRANCH}`]);
+  await git(repoDir, ['commit', '--quiet', '--allow-empty', '-m', 'Start Eliza Town workspace']);
+}
+
+/**
+ * Check out a task's branch as a worktree at dir, creating the branch from
+ * main the first time. Returns false when dir already holds files that aren't
+ * a worktree, which are left alone.
+ */
+export async function addTaskWorktree(repoDir: string, dir: string, taskId: number): Promise<boolean> {
+  if (await worktreeGitDir(repoDir, dir)) return true;
+  if (await exists(dir) && (await fs.readdir(dir)).length > 0) return false;
+
+  const branch = taskBranch(taskId);
+  // A worktree whose directory was deleted still claims its branch until pruned
+  await git(repoDir, ['worktree', 'prune']);
+  const branchExists = (await git(repoDir, ['branch', '--list', branch])).trim() !== '';
+  await git(repoDir, branchExists
+    ? ['worktree', 'add', '--quiet', dir, branch]
+    : ['worktree', 'add', '--quiet', '-b', branch, dir, MAIN_BRANCH]);
+  return true;
+}
+
+/**
+ * Commit everything in a worktree as the given author. Returns null when there
+ * was nothing to commit.
+ */
+export async function commitAll(repoDir: string, dir: string, message: string, author: GitAuthor): Promise<GitCommit | null> {
+  await worktreeGit(repoDir, dir, ['add', '--all']);
+  if ((await worktreeGit(repoDir, dir, ['status', '--porcelain'])).trim() === '') return null;
+
+  await worktreeGit(repoDir, dir, ['commit', '--quiet', '-m', message], author);
+  const [commit] = await readLog(repoDir, dir, ['-n1', 'HEAD']);
+  return commit || null;
+}
+
+async function readLog(repoDir: string, dir: string, args: string[]): Promise<GitCommit[]> {
+  const output = await worktreeGit(repoDir, dir, ['log', `--format=${LOG_FORMAT}`, '--name-only', ...args]);
+  return output
+    .split(RECORD)
+    .filter((record) => record.trim() !== '')
+    .map((record) => {
+      const [sha, author, email, date, subject, body, files = ''] = record.split(FIELD);
+      return {
+        sha,
+        author,
+        email,
+        date,
+        subject,
+        body: body.trim(),
+        files: files.split('\n').map((line) => line.trim()).filter(Boolean),
+      };
+    });
+}
+
+/**
+ * Commits on a worktree's branch that aren't on main, newest first
+ */
+export async function getBranchLog(repoDir: string, dir: string): Promise<GitCommit[]> {
+  return readLog(repoDir, dir, [`${MAIN_BRANCH}..HEAD`]);
+}
+
+/**
+ * The patch a single commit introduced
+ */
+export async function getCommitDiff(repoDir: string, dir: string, sha: string): Promise<string> {
+  return worktreeGit(repoDir, dir, ['show', '--format=', '--patch', sha]);
+}
+
+/**
+ * Everything a worktree changed since its branch left main: its commits plus
+ * whatever is in the directory now, uncommitted and untracked files included.
+ * Staged through a throwaway index so the worktree's own is left alone.
+ */
+export async function getWorktreeDiff(repoDir: string, dir: string): Promise<string> {
+  const pinned = await pinWorktree(repoDir, dir);
+  pinned.indexFile = path.join(pinned.gitDir, `diff-index-${randomUUID()}`);
+  try {
+    await git(repoDir, ['read-tree', 'HEAD'], undefined, pinned);
+    await git(repoDir, ['add', '--all'], undefined, pinned);
+    const base = (await git(repoDir, ['merge-base', MAIN_BRANCH, 'HEAD'], undefined, pinned)).trim();
+    return await git(repoDir, ['diff', '--cached', '--binary', base], undefined, pinned);
+  } finally {
+    await fs.rm(pinned.indexFile, { force: true });
+  }
+}
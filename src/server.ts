@@ -34,6 +34,7 @@ let orchestrationReady = false;
 let wsInitialized = false;
 let visualDemoActive = false;
 let dbError: Error | null = null;
+let dbBackend: string | null = null;
 let orchestrationModule: typeof import('./eliza/orchestration.js') | null = null;
 
 // Global error handlers to prevent crashes
@@ -51,7 +52,15 @@ app.use(cors());
 app.use(express.json());
 
 // Health check (always works)
-app.get('/api/health', (_req, res) => {
+app.get('/api/health', async (_req, res) => {
+  // Loaded lazily so LLM_ROUTING_PATH and LLM_PROVIDER from .env are seen
+  let llmProviders: HealthResponse['llmProviders'] = [];
+  try {
+    const { getProviderHealth } = await import('./eliza/llmRouting.js');
+    llmProviders = getProviderHealth();
+  } catch (error) {
+    console.error('LLM routing unavailable:', (error as Error).message);
+  }
   const response: HealthResponse = {
     status: 'ok',
     dbAvailable,
@@ -59,10 +68,12 @@ app.get('/api/health', (_req, res) => {
     wsInitialized,
     visualDemoActive,
     dbError: dbError ? dbError.message : null,
+    dbBackend,
     hasDbUrl: !!process.env.DATABASE_URL,
     hasOpenAIKey: !!process.env.OPENAI_API_KEY,
     hasAnthropicKey: !!process.env.ANTHROPIC_API_KEY,
     hasGroqKey: !!process.env.GROQ_API_KEY,
+    llmProviders,
     engine: 'ElizaOS',
     timestamp: Date.now(),
   };
@@ -162,8 +173,9 @@ server.listen(PORT, () => {
 // Initialize backend with ElizaOS
 async function initializeBackend(): Promise<void> {
   // Check for at least one LLM provider - this is REQUIRED for real ElizaOS
+  const useMockProvider = process.env.LLM_PROVIDER?.toLowerCase() === 'mock';
   const hasProvider =
-    process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY || process.env.GROQ_API_KEY;
+    useMockProvider || process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY || process.env.GROQ_API_KEY;
   
   if (!hasProvider) {
     console.log('═══════════════════════════════════════════════════════════════');
@@ -180,47 +192,57 @@ async function initializeBackend(): Promise<void> {
   const hasDatabase = !!process.env.DATABASE_URL;
   
   try {
-    let db: typeof import('./db/index.js') | null = null;
-    
-    if (hasDatabase) {
-      console.log('Initializing PostgreSQL database...');
-      db = await import('./db/index.js');
-      await db.initializeDatabase();
-      dbAvailable = true;
-      setDbAvailable(true);
-      console.log('✓ PostgreSQL database connected');
-
-      // Seed default agents if none exist
-      const agents = await db.getAgents();
-      if (agents.length === 0) {
-        console.log('Seeding default agents from ElizaOS characters...');
-        const { ELIZA_TOWN_CHARACTERS } = await import('./eliza/characters.js');
-        for (const character of ELIZA_TOWN_CHARACTERS) {
-          await db.createAgent(
-            character.name,
-            character.role,
-            character.modelId,
-            character.adjectives?.join(', ') || 'helpful',
-            character.capabilities?.join(', ') || 'general'
-          );
-        }
-        console.log(`Created ${ELIZA_TOWN_CHARACTERS.length} default agents`);
-      }
-    } else {
+    const db = await import('./db/index.js');
+    const backend = db.resolveBackend();
+
+    console.log(`Initializing ${backend === 'postgres' ? 'PostgreSQL' : 'in-memory'} database...`);
+    await db.initializeDatabase(backend);
+    dbAvailable = true;
+    dbBackend = backend;
+    setDbAvailable(true);
+    console.log(`✓ ${backend === 'postgres' ? 'PostgreSQL database connected' : 'In-memory database ready'}`);
+
+    if (backend === 'memory') {
       console.log('═══════════════════════════════════════════════════════════════');
-      console.log('No DATABASE_URL configured - using ElizaOS with in-memory storage');
-      console.log('Note: Agent state will not persist across restarts.');
-      console.log('Set DATABASE_URL for persistent storage.');
+      console.log('Using the in-memory store for tasks, subtasks and messages');
+      if (process.env.MEMORY_DB_SNAPSHOT) {
+        console.log(`Snapshots are saved to ${process.env.MEMORY_DB_SNAPSHOT}`);
+      } else {
+        console.log('Note: Data will not persist across restarts.');
+        console.log('Set MEMORY_DB_SNAPSHOT or DATABASE_URL for persistent storage.');
+      }
       console.log('═══════════════════════════════════════════════════════════════');
     }
 
-    // Initialize REAL ElizaOS orchestration (with or without PostgreSQL)
+    // The town map config is the source of truth for hubs
+    const { getHubDefinitions } = await import('./eliza/townMap.js');
+    const hubs = await db.syncHubs(getHubDefinitions());
+    console.log(`Synced ${hubs.length} hubs from the town map`);
+
+    // Seed default agents if none exist
+    const agents = await db.getAgents();
+    if (agents.length === 0) {
+      console.log('Seeding default agents from ElizaOS characters...');
+      const { ELIZA_TOWN_CHARACTERS } = await import('./eliza/characters.js');
+      for (const character of ELIZA_TOWN_CHARACTERS) {
+        await db.createAgent(
+          character.name,
+          character.role,
+          character.modelId,
+          character.adjectives?.join(', ') || 'helpful',
+          character.capabilities?.join(', ') || 'general'
+        );
+      }
+      console.log(`Created ${ELIZA_TOWN_CHARACTERS.length} default agents`);
+    }
+
+    // Initialize REAL ElizaOS orchestration
     console.log('Initializing ElizaOS with REAL agent runtimes...');
     orchestrationModule = await import('./eliza/orchestration.js');
     const storage = await import('./storage/index.js');
 
     await orchestrationModule.initialize({
-      db: db,  // null if no DATABASE_URL - runtimeManager will use inmemorydb plugin
+      db: db,
       broadcast: ws.broadcast,
       storage: storage,
     });
@@ -229,6 +251,7 @@ async function initializeBackend(): Promise<void> {
 
     // Log active providers
     const providers: string[] = [];
+    if (useMockProvider) providers.push('Mock (scripted)');
     if (process.env.OPENAI_API_KEY) providers.push('OpenAI');
     if (process.env.ANTHROPIC_API_KEY) providers.push('Anthropic');
     if (process.env.GROQ_API_KEY) providers.push('Groq');
@@ -238,7 +261,8 @@ async function initializeBackend(): Promise<void> {
     console.log('═══════════════════════════════════════════════════════════════');
     console.log('✓ ElizaOS orchestration loop started (5s interval)');
     console.log(`✓ Active LLM providers: ${providers.join(', ')}`);
-    console.log(`✓ Database: ${hasDatabase ? 'PostgreSQL' : 'In-Memory (ElizaOS inmemorydb)'}`);
+    console.log(`✓ Town database: ${backend === 'postgres' ? 'PostgreSQL' : 'In-Memory'}`);
+    console.log(`✓ Agent memory: ${hasDatabase ? 'PostgreSQL' : 'In-Memory (ElizaOS inmemorydb)'}`);
     console.log('✓ REAL AI agents are now running!');
     console.log('═══════════════════════════════════════════════════════════════');
   } catch (error) {
@@ -258,6 +282,17 @@ async function initializeBackend(): Promise<void> {
 // Initialize backend asynchronously
 initializeBackend();
 
+// Flush the database (and any in-memory snapshot) before exiting
+async function closeDatabase(): Promise<void> {
+  if (!dbAvailable) return;
+  try {
+    const db = await import('./db/index.js');
+    await db.closeDatabase();
+  } catch (error) {
+    console.error('Error closing database:', (error as Error).message);
+  }
+}
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('Shutting down...');
@@ -267,7 +302,8 @@ process.on('SIGTERM', () => {
   if (visualDemoActive) {
     stopVisualDemo();
   }
-  server.close(() => {
+  server.close(async () => {
+    await closeDatabase();
     console.log('Server closed');
     process.exit(0);
   });
@@ -281,7 +317,8 @@ process.on('SIGINT', () => {
   if (visualDemoActive) {
     stopVisualDemo();
   }
-  server.close(() => {
+  server.close(async () => {
+    await closeDatabase();
     console.log('Server closed');
     process.exit(0);
   });
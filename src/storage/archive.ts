@@ -0,0 +1,110 @@
+// Minimal tar.gz writer for task downloads (no external archive dependency)
+import { Readable } from 'stream';
+import { createGzip, type Gzip } from 'zlib';
+
+export interface ArchiveEntry {
+  name: string;
+  // Called when the entry is written, so only one file is in memory at a time; null skips it
+  read: () => Promise<Buffer | string | null>;
+  mtime?: Date;
+}
+
+const BLOCK_SIZE = 512;
+
+// Write an octal number into a fixed-width, NUL-terminated header field
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  const octal = value.toString(8).padStart(length - 1, '0');
+  header.write(`${octal}\0`, offset, length, 'ascii');
+}
+
+// Split long paths across the ustar name (100) and prefix (155) fields; null when they can't be
+function splitName(name: string): { name: string; prefix: string } | null {
+  if (Buffer.byteLength(name) <= 100) {
+    return { name, prefix: '' };
+  }
+
+  // Move the split left until the name part is full; the prefix only shrinks on the way
+  for (let slash = name.lastIndexOf('/'); slash > 0; slash = name.lastIndexOf('/', slash - 1)) {
+    const rest = name.slice(slash + 1);
+    if (Buffer.byteLength(rest) > 100) break;
+    if (Buffer.byteLength(name.slice(0, slash)) <= 155) {
+      return { name: rest, prefix: name.slice(0, slash) };
+    }
+  }
+
+  return null;
+}
+
+// A pax extended header record: "<length> <key>=<value>\n", where length counts itself
+function paxRecord(key: string, value: string): Buffer {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = Buffer.byteLength(body);
+  let length = bodyLength + String(bodyLength).length;
+  if (String(length).length !== String(bodyLength).length) {
+    length = bodyLength + String(length).length;
+  }
+  return Buffer.from(`${length}${body}`, 'utf-8');
+}
+
+function tarHeader(name: string, prefix: string, size: number, mtime: Date, type = '0'): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+
+  header.write(name, 0, 100, 'utf-8');
+  writeOctal(header, 0o644, 100, 8); // mode
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+  header.write('        ', 148, 8, 'ascii'); // checksum placeholder
+  header.write(type, 156, 1, 'ascii'); // '0' regular file, 'x' pax header for the next entry
+  header.write('ustar\0', 257, 6, 'ascii');
+  header.write('00', 263, 2, 'ascii');
+  header.write(prefix, 345, 155, 'utf-8');
+
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8, 'ascii');
+
+  return header;
+}
+
+function* padded(content: Buffer): Generator<Buffer> {
+  yield content;
+  const padding = (BLOCK_SIZE - (content.length % BLOCK_SIZE)) % BLOCK_SIZE;
+  if (padding > 0) {
+    yield Buffer.alloc(padding);
+  }
+}
+
+// Yield tar blocks one entry at a time, reading each file only when its turn comes
+async function* tarChunks(entries: ArchiveEntry[]): AsyncGenerator<Buffer> {
+  for (const entry of entries) {
+    const read = await entry.read();
+    if (read === null) continue; // Gone since it was listed
+    const content = typeof read === 'string' ? Buffer.from(read, 'utf-8') : read;
+    const mtime = entry.mtime || new Date();
+    let split = splitName(entry.name);
+
+    // Too long for ustar: a pax header carries the full path, and readers that
+    // don't know pax get the file under its basename
+    if (!split) {
+      const pax = paxRecord('path', entry.name);
+      yield tarHeader('././@PaxHeader', '', pax.length, mtime, 'x');
+      yield* padded(pax);
+      split = { name: entry.name.slice(entry.name.lastIndexOf('/') + 1), prefix: '' };
+    }
+
+    yield tarHeader(split.name, split.prefix, content.length, mtime);
+    yield* padded(content);
+  }
+
+  // End-of-archive marker: two empty blocks
+  yield Buffer.alloc(BLOCK_SIZE * 2);
+}
+
+// Create a gzipped tar stream for the given entries
+export function createTarGzStream(entries: ArchiveEntry[]): Gzip {
+  return Readable.from(tarChunks(entries)).pipe(createGzip());
+}
@@ -25,6 +25,12 @@ export interface CoderOutput {
   files?: CoderFile[];
 }
 
+export interface TaskOutputFile {
+  name: string;
+  path: string;
+  modified: Date;
+}
+
 // Ensure output directory exists
 async function ensureOutputDir(taskId: number | string): Promise<string> {
   const taskDir = path.join(OUTPUT_DIR, `task_${taskId}`);
@@ -105,3 +111,50 @@ export async function getTaskFile(taskId: number | string, filename: string): Pr
   const filepath = path.join(OUTPUT_DIR, `task_${taskId}`, filename);
   return await fs.readFile(filepath, 'utf-8');
 }
+
+// List every file for a task (recursively), named by path relative to the task directory
+export async function listTaskOutputFiles(taskId: number | string): Promise<TaskOutputFile[]> {
+  const taskDir = path.join(OUTPUT_DIR, `task_${taskId}`);
+  const files: TaskOutputFile[] = [];
+
+  async function walk(dir: string): Promise<void> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else if (entry.isFile()) {
+        const stat = await fs.stat(fullPath);
+        files.push({
+          name: path.relative(taskDir, fullPath).split(path.sep).join('/'),
+          path: fullPath,
+          modified: stat.mtime
+        });
+      }
+    }
+  }
+
+  try {
+    await walk(taskDir);
+  } catch {
+    // No output directory for this task yet
+  }
+
+  return files;
+}
+
+// Read one of a task's files by its relative name; null if it's missing or outside the task directory
+export async function readTaskOutputFile(taskId: number | string, name: string): Promise<Buffer | null> {
+  const taskDir = path.join(OUTPUT_DIR, `task_${taskId}`);
+  const filepath = path.resolve(taskDir, name);
+  const relative = path.relative(taskDir, filepath);
+  if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return null;
+  }
+
+  try {
+    return await fs.readFile(filepath);
+  } catch {
+    return null;
+  }
+}
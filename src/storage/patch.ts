@@ -0,0 +1,222 @@
+// Minimal unified diff writer for task patches (no external diff dependency).
+// Output follows git's format closely enough for `git apply`.
+
+export interface PatchFile {
+  path: string;
+  // null when the file didn't exist on that side
+  before: string | null;
+  after: string | null;
+}
+
+interface Op {
+  type: ' ' | '-' | '+';
+  line: string;
+  aIndex: number; // index into the old lines, -1 for additions
+  bIndex: number; // index into the new lines, -1 for removals
+}
+
+const CONTEXT_LINES = 3;
+const NO_NEWLINE = '\\ No newline at end of file';
+
+function splitLines(text: string | null): { lines: string[]; missingNewline: boolean } {
+  if (!text) return { lines: [], missingNewline: false };
+  const missingNewline = !text.endsWith('\n');
+  const lines = (missingNewline ? text : text.slice(0, -1)).split('\n');
+  return { lines, missingNewline };
+}
+
+// Comparison keys: a last line without a newline never matches one with a newline
+function keysFor(lines: string[], missingNewline: boolean): string[] {
+  return lines.map((line, i) => (missingNewline && i === lines.length - 1 ? `${line}\0` : line));
+}
+
+// Past this many edits a file's changed region is written as a wholesale
+// replacement: the trace Myers keeps grows with the square of the distance
+const MAX_EDIT_DISTANCE = 2000;
+
+// Myers' O(ND) diff over lines, returning the full edit script, or null when
+// the edit distance passes MAX_EDIT_DISTANCE
+function myers(a: string[], b: string[]): Op[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for diagonals -d..d as it was before step d
+  const trace: Int32Array[] = [];
+  let done = false;
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        done = true;
+        break outer;
+      }
+    }
+  }
+  if (!done) return null;
+
+  // Walk the trace backwards to recover the edits
+  const ops: Op[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const at = (k: number): number => vd[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ type: ' ', line: a[x], aIndex: x, bIndex: y });
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: '+', line: b[prevY], aIndex: -1, bIndex: prevY });
+      } else {
+        ops.push({ type: '-', line: a[prevX], aIndex: prevX, bIndex: -1 });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+// Edit script over lines. Lines both sides start and end with are matched up
+// front, so only the changed middle is searched (and a file that was added or
+// deleted isn't searched at all).
+function diffLines(a: string[], b: string[]): Op[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const aMiddle = a.slice(prefix, a.length - suffix);
+  const bMiddle = b.slice(prefix, b.length - suffix);
+  const middle = aMiddle.length > 0 && bMiddle.length > 0 ? myers(aMiddle, bMiddle) : null;
+
+  const ops: Op[] = [];
+  for (let i = 0; i < prefix; i++) {
+    ops.push({ type: ' ', line: a[i], aIndex: i, bIndex: i });
+  }
+  if (middle) {
+    for (const op of middle) {
+      ops.push({
+        ...op,
+        aIndex: op.aIndex === -1 ? -1 : op.aIndex + prefix,
+        bIndex: op.bIndex === -1 ? -1 : op.bIndex + prefix,
+      });
+    }
+  } else {
+    aMiddle.forEach((line, i) => ops.push({ type: '-', line, aIndex: prefix + i, bIndex: -1 }));
+    bMiddle.forEach((line, i) => ops.push({ type: '+', line, aIndex: -1, bIndex: prefix + i }));
+  }
+  for (let i = 0; i < suffix; i++) {
+    ops.push({ type: ' ', line: a[a.length - suffix + i], aIndex: a.length - suffix + i, bIndex: b.length - suffix + i });
+  }
+  return ops;
+}
+
+// Group the edit script into hunks with surrounding context, merging ones that touch
+function groupHunks(ops: Op[]): Op[][] {
+  const hunks: Op[][] = [];
+  let start = -1;
+  let end = -1;
+
+  for (let i = 0; i < ops.length; i++) {
+    if (ops[i].type === ' ') continue;
+    const from = Math.max(0, i - CONTEXT_LINES);
+    const to = Math.min(ops.length, i + CONTEXT_LINES + 1);
+    if (start !== -1 && from <= end) {
+      end = to;
+    } else {
+      if (start !== -1) hunks.push(ops.slice(start, end));
+      start = from;
+      end = to;
+    }
+  }
+  if (start !== -1) hunks.push(ops.slice(start, end));
+  return hunks;
+}
+
+// Unified ranges count from 1; an empty range names the line before it
+function range(first: number, count: number): string {
+  const start = count === 0 ? first : first + 1;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Unified diff for one file with git headers; empty when nothing changed
+ */
+export function createFilePatch(file: PatchFile): string {
+  if (file.before === file.after) return '';
+
+  const a = splitLines(file.before);
+  const b = splitLines(file.after);
+  const aKeys = keysFor(a.lines, a.missingNewline);
+  const bKeys = keysFor(b.lines, b.missingNewline);
+  const ops = diffLines(aKeys, bKeys).map((op) => ({
+    ...op,
+    line: op.aIndex !== -1 ? a.lines[op.aIndex] : b.lines[op.bIndex],
+  }));
+
+  const out: string[] = [`diff --git a/${file.path} b/${file.path}`];
+  if (file.before === null) out.push('new file mode 100644');
+  if (file.after === null) out.push('deleted file mode 100644');
+  out.push(file.before === null ? '--- /dev/null' : `--- a/${file.path}`);
+  out.push(file.after === null ? '+++ /dev/null' : `+++ b/${file.path}`);
+
+  for (const hunk of groupHunks(ops)) {
+    const aLines = hunk.filter((op) => op.type !== '+');
+    const bLines = hunk.filter((op) => op.type !== '-');
+    // Where each side's range starts, even when the hunk has no lines from that side
+    let aFirst = aLines.length > 0 ? aLines[0].aIndex : 0;
+    let bFirst = bLines.length > 0 ? bLines[0].bIndex : 0;
+    if (aLines.length === 0) {
+      const before = ops.slice(0, ops.indexOf(hunk[0])).filter((op) => op.type !== '+');
+      aFirst = before.length > 0 ? before[before.length - 1].aIndex + 1 : 0;
+    }
+    if (bLines.length === 0) {
+      const before = ops.slice(0, ops.indexOf(hunk[0])).filter((op) => op.type !== '-');
+      bFirst = before.length > 0 ? before[before.length - 1].bIndex + 1 : 0;
+    }
+
+    out.push(`@@ -${range(aFirst, aLines.length)} +${range(bFirst, bLines.length)} @@`);
+    for (const op of hunk) {
+      out.push(`${op.type}${op.line}`);
+      const endsA = op.type !== '+' && a.missingNewline && op.aIndex === a.lines.length - 1;
+      const endsB = op.type !== '-' && b.missingNewline && op.bIndex === b.lines.length - 1;
+      if (endsA || endsB) out.push(NO_NEWLINE);
+    }
+  }
+
+  return `${out.join('\n')}\n`;
+}
+
+/**
+ * Unified diff across several files, in the order given
+ */
+export function createPatch(files: PatchFile[]): string {
+  return files.map(createFilePatch).join('');
+}
@@ -6,6 +6,7 @@ import type { Request, Response, NextFunction } from 'express';
 import type { WebSocket } from 'ws';
 import type { Server as HttpServer } from 'http';
 import type { QueryResult } from 'pg';
+import type { ProviderHealth } from '../eliza/llmRouting.js';
 
 // ============================================================================
 // Database Types
@@ -20,6 +21,7 @@ export interface Agent {
   capabilities: string;
   status: AgentStatus;
   current_hub_id: number | null;
+  current_hub: string | null;
   position_x: number | null;
   position_z: number | null;
   created_at: Date;
@@ -44,6 +46,13 @@ export interface Task {
   priority: number;
   assigned_agent_id: number | null;
   session_id: string | null;
+  /** Sandbox backend the task's workspace runs on; null for the default */
+  sandbox_backend: string | null;
+  /** Model usage limits; null for no limit */
+  budget_tokens: number | null;
+  budget_usd: number | null;
+  /** Budget scope ('task' or 'session') that paused the task; null unless paused over budget */
+  budget_breach: string | null;
   created_at: Date;
   updated_at: Date;
   completed_at: Date | null;
@@ -56,6 +65,16 @@ export interface Subtask {
   description: string | null;
   status: SubtaskStatus;
   order_index: number;
+  role: string | null;
+  acceptance_criteria: string | null;
+  estimated_effort: string | null;
+  parent_subtask_id: number | null;
+  review_round: number;
+  verdict: string | null;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: Date | null;
+  depends_on: number[];
   output: string | null;
   created_at: Date;
   updated_at: Date;
@@ -78,11 +97,15 @@ export interface Message {
 
 export interface ApiCall {
   id: number;
-  agent_id: number;
+  agent_id: number | null;
   task_id: number | null;
+  subtask_id: number | null;
+  provider: string;
   model: string;
   input_tokens: number;
   output_tokens: number;
+  usage_estimated: boolean;
+  cost_usd: number | null;
   prompt_summary: string;
   response_summary: string;
   duration_ms: number;
@@ -94,9 +117,9 @@ export interface ApiCall {
 // ============================================================================
 
 export type AgentRole = 'planner' | 'designer' | 'coder' | 'reviewer';
-export type AgentStatus = 'idle' | 'working' | 'traveling' | 'chatting' | string;
-export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled' | string;
-export type SubtaskStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled' | string;
+export type AgentStatus = 'idle' | 'working' | 'traveling' | 'waiting' | 'chatting' | string;
+export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled' | 'budget_exceeded' | string;
+export type SubtaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled' | string;
 export type MessageType = 'thought' | 'chat' | 'saying' | 'status' | 'code' | 'announcement' | string;
 
 // ============================================================================
@@ -240,6 +263,7 @@ export interface ActiveWork {
   taskId: number;
   subtaskId: number;
   startedAt: number;
+  sessionId?: number;
 }
 
 export interface TravelingAgent {
@@ -449,6 +473,8 @@ export interface CreateSubtaskBody {
   title: string;
   description?: string;
   orderIndex?: number;
+  role?: AgentRole;
+  dependsOn?: number[];
 }
 
 export interface UpdateTaskBody {
@@ -471,10 +497,13 @@ export interface HealthResponse {
   wsInitialized: boolean;
   visualDemoActive: boolean;
   dbError: string | null;
+  dbBackend: string | null;
   hasDbUrl: boolean;
   hasOpenAIKey: boolean;
   hasAnthropicKey: boolean;
   hasGroqKey: boolean;
+  /** Circuit breaker state of each LLM provider */
+  llmProviders: ProviderHealth[];
   engine: string;
   timestamp: number;
 }
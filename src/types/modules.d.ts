@@ -11,7 +11,8 @@ declare module 'express' {
     path: string;
   }
   
-  export interface Response<ResBody = any> {
+  export interface Response<ResBody = any> extends NodeJS.WritableStream {
+    headersSent: boolean;
     json: (body: ResBody) => this;
     status: (code: number) => this;
     send: (body: any) => this;
@@ -81,9 +82,15 @@ declare module 'pg' {
     ssl?: boolean | { rejectUnauthorized: boolean };
   }
   
+  export interface PoolClient {
+    query<T = any>(text: string, params?: any[]): Promise<QueryResult<T>>;
+    release(): void;
+  }
+  
   export class Pool {
     constructor(config?: PoolConfig);
     query<T = any>(text: string, params?: any[]): Promise<QueryResult<T>>;
+    connect(): Promise<PoolClient>;
     end(): Promise<void>;
   }
   
@@ -122,6 +129,7 @@ declare module '@elizaos/core' {
   export function stringToUuid(s: string): string;
   
   export const LLMMode: {
+    DEFAULT: string;
     SMALL: string;
     LARGE: string;
   };
@@ -166,32 +174,53 @@ declare module '@elizaos/plugin-todo' {
   export default _default;
 }
 
+// The part of the e2b v1 SDK (re-exported by @e2b/code-interpreter) the shared sandbox uses
 declare module '@e2b/code-interpreter' {
-  export class CodeInterpreter {
-    static create(options?: any): Promise<CodeInterpreter>;
-    close(): Promise<void>;
-    notebook: {
-      execCell(code: string): Promise<{
-        results: Array<{ data?: any; error?: any }>;
-        logs: { stdout: string[]; stderr: string[] };
-      }>;
-    };
+  export interface EntryInfo {
+    name: string;
+    type: 'file' | 'dir';
+    /** Absolute path inside the sandbox */
+    path: string;
+    size?: number;
   }
-  
+
+  export interface CommandResult {
+    exitCode: number;
+    stdout: string;
+    stderr: string;
+    error?: string;
+  }
+
+  export interface CommandStartOpts {
+    cwd?: string;
+    envs?: Record<string, string>;
+    timeoutMs?: number;
+    onStdout?: (data: string) => void | Promise<void>;
+    onStderr?: (data: string) => void | Promise<void>;
+  }
+
+  /** Thrown by commands.run when the command exits non-zero */
+  export class CommandExitError extends Error implements CommandResult {
+    readonly exitCode: number;
+    readonly stdout: string;
+    readonly stderr: string;
+    readonly error: string;
+  }
+
   export class Sandbox {
-    static create(options?: any): Promise<Sandbox>;
-    close(): Promise<void>;
-    filesystem: {
+    static create(options?: { apiKey?: string; timeoutMs?: number }): Promise<Sandbox>;
+    readonly sandboxId: string;
+    files: {
       read(path: string): Promise<string>;
-      write(path: string, content: string): Promise<void>;
-      list(path: string): Promise<Array<{ name: string; isDir: boolean }>>;
+      write(path: string, data: string): Promise<EntryInfo>;
+      list(path: string, opts?: { depth?: number }): Promise<EntryInfo[]>;
+      getInfo(path: string): Promise<EntryInfo>;
+      /** Creates missing parents too; false when the directory already existed */
+      makeDir(path: string): Promise<boolean>;
     };
     commands: {
-      run(command: string): Promise<{
-        stdout: string;
-        stderr: string;
-        exitCode: number;
-      }>;
+      run(cmd: string, opts?: CommandStartOpts): Promise<CommandResult>;
     };
+    kill(): Promise<void>;
   }
 }
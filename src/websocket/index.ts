@@ -3,6 +3,7 @@ import type { Server } from 'http';
 import type { IncomingMessage } from 'http';
 import type { Duplex } from 'stream';
 import { getDemoState, isVisualDemoRunning } from '../eliza/visualDemo.js';
+import { resolveApproval } from '../eliza/commandPolicy.js';
 
 // Type definitions
 export interface WebSocketMessage {
@@ -135,6 +136,15 @@ function handleMessage(ws: WebSocket, data: WebSocketMessage): void {
         }
       }
       break;
+    case 'command_approval': {
+      // Operator answering a command_approval_requested event
+      const { id, approved, operator, note } = data.data || {};
+      if (typeof id === 'number' && typeof approved === 'boolean') {
+        const decidedBy = typeof operator === 'string' ? operator : 'operator';
+        resolveApproval(id, approved, decidedBy, typeof note === 'string' ? note : undefined);
+      }
+      break;
+    }
     default:
       // Silently ignore unknown message types
       break;